@@ -3,14 +3,15 @@ import { CobolDocParser } from "./rechdoc/CobolDocParser";
 import { Path } from "../commons/path";
 import { File } from "../commons/file";
 import { BufferSplitter } from "rech-ts-commons";
-import { Configuration } from "../helpers/configuration";
-import { commands } from "vscode";
 import { CobolVariable } from "../lsp/completion/CobolVariable";
+import { SearchPathResolver } from "../commons/SearchPathResolver";
 
 /**
  * Class representing a Cobol copy
  */
 export class CobolCopy {
+    /** Callback to extract the header comment from copy files */
+    private static commentExtractor: ((copyFile: string) => PromiseLike<string[] | undefined>) | undefined;
     /* Copy name */
     private name: string;
     /* Copy extensio */
@@ -63,7 +64,7 @@ export class CobolCopy {
                 comment = localDoc
             }
             const replacingList = this.getReplacingList(line, lines);
-            const declarationRawMatcher = /\s+(copy\s+.+(cpy|cpb)).*/.exec(lines[line])
+            const declarationRawMatcher = /\s+(copy\s+.+(cpy|cpb)).*/i.exec(lines[line])
             let raw = ""
             let extension = ""
             if (declarationRawMatcher) {
@@ -79,6 +80,16 @@ export class CobolCopy {
         });
     }
 
+    /**
+     * Sets the callback to extract the header comment from copy files.
+     * When the callback returns nothing, the header is read from the copy file itself.
+     *
+     * @param extractor
+     */
+    public static setCommentExtractor(extractor: ((copyFile: string) => PromiseLike<string[] | undefined>) | undefined) {
+        CobolCopy.commentExtractor = extractor;
+    }
+
     /**
      * Returns the copys header
      *
@@ -89,41 +100,49 @@ export class CobolCopy {
             if (!copy.exists()) {
                 return reject();
             }
-            const commentExractorFromCopyFilesCommand = new Configuration("rech.editor.cobol.callback").get<string>("commentExractorFromCopyFiles");
-            if (!commentExractorFromCopyFilesCommand || commentExractorFromCopyFilesCommand == "") {
-                const copyBuffer = BufferSplitter.split(copy.loadBufferSync("latin1"));
-                const comments: string[] = [];
-                for (let lineNumber = 0; lineNumber < copyBuffer.length; lineNumber++) {
-                    const line = copyBuffer[lineNumber];
-                    if (line.trimLeft().startsWith("*>")) {
-                        comments.push(line);
-                    } else {
-                        // If the last line is a variable declaration, remove the last comment line because it's not make part of copy header
-                        if (CobolVariable.parseLines(lineNumber, copyBuffer, {noChildren: true, noScope: true, noSection: true, noComment: true})) {
-                            comments.pop();
-                        }
-                        break;
-                    }
-                }
-                const comment = new CobolDocParser().parseCobolDoc(comments).comment;
-                if (!(comment.length > 0)) {
-                    return reject();
-                }
-                return resolve(comment);
+            if (!CobolCopy.commentExtractor) {
+                const header = this.readHeaderOfCopy(copy);
+                return header ? resolve(header) : reject();
             }
-            commands.executeCommand<string[]>(commentExractorFromCopyFilesCommand, copy.fileName).then((result) => {
+            CobolCopy.commentExtractor(copy.fileName).then((result) => {
                 if (result) {
                     return resolve(result);
-                } else {
-                    return reject();
                 }
+                const header = this.readHeaderOfCopy(copy);
+                return header ? resolve(header) : reject();
             }, (e) => {
                 return reject(e);
             });
-
         });
     }
 
+    /**
+     * Reads the header comment from the copy file
+     *
+     * @param copy
+     */
+    private static readHeaderOfCopy(copy: File): string[] | undefined {
+        const copyBuffer = BufferSplitter.split(copy.loadBufferSync("latin1"));
+        const comments: string[] = [];
+        for (let lineNumber = 0; lineNumber < copyBuffer.length; lineNumber++) {
+            const line = copyBuffer[lineNumber];
+            if (line.trimLeft().startsWith("*>")) {
+                comments.push(line);
+            } else {
+                // If the last line is a variable declaration, remove the last comment line because it's not make part of copy header
+                if (CobolVariable.parseLines(lineNumber, copyBuffer, {noChildren: true, noScope: true, noSection: true, noComment: true})) {
+                    comments.pop();
+                }
+                break;
+            }
+        }
+        const comment = new CobolDocParser().parseCobolDoc(comments).comment;
+        if (!(comment.length > 0)) {
+            return undefined;
+        }
+        return comment;
+    }
+
 
     /**
      * Build the copy's uri
@@ -132,14 +151,11 @@ export class CobolCopy {
      */
     private static buildUri(uri: string, nameAndExtension: string): File {
         const path = new Path(uri);
-        let file = new File(path.directory() + "/" + nameAndExtension);
-        // Return the current file if exist, else returns in default directorie.
-        // If not exist the file in default directorie returns te current directorie
-        const currentCopysName = file;
-        if (file.exists()) return currentCopysName;
-        file = new File("F:/FONTES/" + nameAndExtension);
-        if (file.exists()) return file;
-        return currentCopysName
+        // Return the file found in the current directory or in the search path.
+        // If the file is not found returns the current directory
+        const fileName = SearchPathResolver.resolve(nameAndExtension, path.fullPathWin());
+        if (fileName) return new File(fileName);
+        return new File(path.directory() + "/" + nameAndExtension);
     }
 
     /**
@@ -148,7 +164,7 @@ export class CobolCopy {
      * @param line
      * @param lines
      */
-    private static getReplacingList(line: number, lines: string[]): Map<string, string> {
+    public static getReplacingList(line: number, lines: string[]): Map<string, string> {
         const result = new Map<string, string>();
         if (!this.hasReplacing(lines[line])) {
             return result;
@@ -175,7 +191,7 @@ export class CobolCopy {
      * @param declaration
      */
     private static hasReplacing(declaration: string): boolean {
-        return /.+(?:cpy|cpb)\s+replacing.*/.test(declaration);
+        return /.+(?:cpy|cpb)\s+replacing.*/i.test(declaration);
     }
 
     /**
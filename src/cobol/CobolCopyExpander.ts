@@ -0,0 +1,143 @@
+import { BufferSplitter } from "rech-ts-commons";
+import { ParserCobol } from "./parsercobol";
+import { CobolCopy } from "./CobolCopy";
+import { CobolTokenizer } from "./CobolTokenizer";
+import { File } from "../commons/file";
+import { SearchPathResolver } from "../commons/SearchPathResolver";
+
+/** Index of the source in the origin markers, the copies are numbered from 1 */
+const SOURCE_INDEX = 0;
+
+/**
+ * Class to expand the copies of Cobol sources without the external preprocessor.
+ *
+ * Each line of the expanded source ends with an origin marker like the preprocessor ones:
+ * "*>: index line" for the lines of the source and "*>: index line FILE.CPY (depth)" for the lines of the copies
+ */
+export class CobolCopyExpander {
+
+  /** Cobol parser */
+  private parser: ParserCobol;
+  /** Number of copies already expanded */
+  private copyCount: number;
+
+  constructor() {
+    this.parser = new ParserCobol();
+    this.copyCount = 0;
+  }
+
+  /**
+   * Expands the source
+   *
+   * @param fileName name of the source file
+   * @param buffer text of the source, read from the file when it's not informed
+   */
+  public expand(fileName: string, buffer?: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      try {
+        const text = buffer != undefined ? buffer : new File(fileName).loadBufferSync("latin1");
+        this.copyCount = 0;
+        const expandedLines = this.expandLines(BufferSplitter.split(text), fileName, SOURCE_INDEX, 0, [fileName.toUpperCase()]);
+        return resolve(expandedLines.join("\n"));
+      } catch (e) {
+        return reject(e);
+      }
+    });
+  }
+
+  /**
+   * Expands the lines of a source or a copy
+   *
+   * @param lines lines of the file
+   * @param fileName name of the file
+   * @param index index of the file in the origin markers
+   * @param depth depth of the copy, 0 for the source
+   * @param stack files being expanded, to avoid copies which declare themselves
+   */
+  private expandLines(lines: string[], fileName: string, index: number, depth: number, stack: string[]): string[] {
+    const expandedLines: string[] = [];
+    for (let lineNumber = 0; lineNumber < lines.length; lineNumber++) {
+      const line = lines[lineNumber];
+      expandedLines.push(this.buildMarkedLine(line, fileName, index, lineNumber, depth));
+      const copyName = CobolTokenizer.isComment(line) ? undefined : this.parser.getCopyDeclaration(line);
+      if (!copyName) {
+        continue;
+      }
+      // The whole declaration is kept before the lines of the copy
+      const declarationEnd = this.findDeclarationEnd(lines, lineNumber);
+      for (let i = lineNumber + 1; i <= declarationEnd; i++) {
+        expandedLines.push(this.buildMarkedLine(lines[i], fileName, index, i, depth));
+      }
+      const extension = /copy\s+[\w\-]+\.(cpy|cpb)/i.exec(line);
+      const copyFile = SearchPathResolver.resolve(`${copyName}.${extension ? extension[1] : "cpy"}`, fileName);
+      if (copyFile && !stack.includes(copyFile.toUpperCase())) {
+        const replacings = CobolCopy.getReplacingList(lineNumber, lines);
+        const copyLines = BufferSplitter.split(new File(copyFile).loadBufferSync("latin1")).map((copyLine) => CobolCopyExpander.applyReplacings(copyLine, replacings));
+        this.copyCount++;
+        this.expandLines(copyLines, copyFile, this.copyCount, depth + 1, stack.concat(copyFile.toUpperCase())).forEach((expandedLine) => {
+          expandedLines.push(expandedLine);
+        });
+      }
+      lineNumber = declarationEnd;
+    }
+    return expandedLines;
+  }
+
+  /**
+   * Returns the line with the origin marker
+   *
+   * @param line
+   * @param fileName
+   * @param index
+   * @param lineNumber
+   * @param depth
+   */
+  private buildMarkedLine(line: string, fileName: string, index: number, lineNumber: number, depth: number): string {
+    let marker = `*>: ${index} ${lineNumber + 1}`;
+    if (depth > 0) {
+      marker += ` ${fileName.replace(/^.*[\\\/]/, "").toUpperCase()} (${depth})`;
+    }
+    return `${line.trimRight()}   ${marker}`;
+  }
+
+  /**
+   * Returns the last line of the copy declaration, which ends with a period
+   *
+   * @param lines
+   * @param line
+   */
+  private findDeclarationEnd(lines: string[], line: number): number {
+    for (let i = line; i < lines.length; i++) {
+      if (CobolTokenizer.stripCommentsAndLiterals(lines[i]).trimRight().endsWith(".")) {
+        return i;
+      }
+    }
+    return line;
+  }
+
+  /**
+   * Applies the replacings of the copy declaration in a line of the copy.
+   * The pseudo-text delimiters "==" are removed from the terms and the replacements
+   *
+   * @param line
+   * @param replacings
+   */
+  public static applyReplacings(line: string, replacings: Map<string, string>): string {
+    replacings.forEach((replacement, term) => {
+      const pseudoText = /^==(.*)==$/;
+      const termText = term.trim().replace(pseudoText, "$1");
+      if (termText == "") {
+        return;
+      }
+      const replacementText = replacement.trim().replace(pseudoText, "$1");
+      let pattern = termText.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      // Words are only replaced when they are not part of other words
+      if (/^[\w\-]+$/.test(termText)) {
+        pattern = `(?<![\\w\\-])${pattern}(?![\\w\\-])`;
+      }
+      line = line.replace(new RegExp(pattern, "gi"), () => replacementText);
+    });
+    return line;
+  }
+
+}
@@ -0,0 +1,71 @@
+/** Reserved words, figurative constants and special registers of the Cobol language */
+const RESERVED_WORDS = new Set<string>([
+    "accept", "access", "active-class", "add", "address", "advancing", "after", "align", "all", "allocate", "alphabet",
+    "alphabetic", "alphabetic-lower", "alphabetic-upper", "alphanumeric", "alphanumeric-edited", "also", "alter",
+    "alternate", "and", "any", "anycase", "are", "area", "areas", "as", "ascending", "assign", "at", "author", "auto",
+    "automatic", "background-color", "based", "before", "binary", "binary-char", "binary-double", "binary-long",
+    "binary-short", "bit", "blank", "block", "blink", "boolean", "bottom", "by", "call", "cancel", "catch", "cd",
+    "cf", "ch", "character", "characters", "class", "class-id", "clock-units", "close", "cobol", "code", "code-set",
+    "col", "collating", "cols", "column", "columns", "comma", "command-line", "commit", "common", "communication",
+    "comp", "comp-1", "comp-2", "comp-3", "comp-4", "comp-5", "comp-6", "comp-x", "computational", "computational-1",
+    "computational-2", "computational-3", "computational-4", "computational-5", "computational-x", "compute",
+    "condition", "configuration", "console", "constant", "contains", "content", "continue", "control", "controls",
+    "converting", "copy", "corr", "corresponding", "count", "crt", "currency", "cursor", "cycle", "data",
+    "data-pointer", "date", "date-compiled", "date-written", "day", "day-of-week", "de", "debugging",
+    "decimal-point", "declaratives", "default", "delegate", "delete", "delimited", "delimiter", "depending",
+    "descending", "destination", "detail", "disable", "display", "divide", "division", "down", "duplicates",
+    "dynamic", "ec", "egi", "else", "emi", "enable", "end", "end-accept", "end-add", "end-call", "end-compute",
+    "end-delete", "end-display", "end-divide", "end-evaluate", "end-exec", "end-if", "end-invoke", "end-multiply",
+    "end-of-page", "end-perform", "end-read", "end-receive", "end-return", "end-rewrite", "end-search", "end-start",
+    "end-string", "end-subtract", "end-try", "end-unstring", "end-write", "entry", "enum", "environment", "eo", "eol",
+    "eop", "eos", "equal", "equals", "erase", "error", "escape", "esi", "evaluate", "every", "exception",
+    "exception-object", "exclusive", "exec", "exit", "extend", "external", "factory", "false", "fd", "file",
+    "file-control", "filler", "final", "finally", "first", "float-extended", "float-long", "float-short", "footing",
+    "for", "foreground-color", "format", "free", "from", "full", "function", "function-id", "function-pointer",
+    "generate", "get", "giving", "global", "go", "goback", "greater", "group", "group-usage", "heading", "high-value",
+    "high-values", "highlight", "i-o", "i-o-control", "id", "identification", "if", "implements", "in", "index",
+    "indexed", "indicate", "inherits", "initial", "initialize", "initiate", "input", "input-output", "inspect",
+    "installation", "interface", "interface-id", "into", "invalid", "invoke", "is", "just", "justified", "key",
+    "label", "last", "leading", "left", "length", "length-check", "less", "limit", "limits", "linage",
+    "linage-counter", "line", "line-counter", "lines", "linkage", "local-storage", "lock", "low-value",
+    "low-values", "lowlight", "memory", "merge", "message", "method", "method-id", "mode", "modules", "move",
+    "multiple", "multiply", "national", "national-edited", "native", "negative", "nested", "next", "no", "not",
+    "null", "nulls", "number", "numeric", "numeric-edited", "object", "object-computer", "object-reference",
+    "occurs", "of", "off", "omitted", "on", "only", "open", "optional", "options", "or", "order", "organization",
+    "other", "output", "overflow", "override", "packed-decimal", "padding", "page", "page-counter", "paragraph",
+    "perform", "pf", "ph", "pic", "picture", "plus", "pointer", "position", "positive", "present", "previous",
+    "printing", "private", "procedure", "procedure-pointer", "procedures", "proceed", "program", "program-id",
+    "program-pointer", "property", "protected", "prototype", "public", "purge", "queue", "quote", "quotes", "raise",
+    "raising", "random", "rd", "read", "receive", "record", "recording", "records", "recursive", "redefines",
+    "reel", "reference", "references", "relative", "release", "remainder", "removal", "renames", "replace",
+    "replacing", "report", "reporting", "reports", "repository", "required", "rerun", "reserve", "reset", "resume",
+    "retry", "return", "return-code", "returning", "reverse-video", "rewind", "rewrite", "rf", "rh", "right",
+    "rollback", "rounded", "run", "same", "screen", "sd", "search", "section", "secure", "security", "segment",
+    "segment-limit", "select", "self", "send", "sentence", "separate", "sequence", "sequential", "set", "sharing",
+    "shift-in", "shift-out", "sign", "size", "sort", "sort-control", "sort-core-size", "sort-file-size",
+    "sort-merge", "sort-message", "sort-mode-size", "sort-return", "source", "source-computer", "sources", "space",
+    "spaces", "special-names", "standard", "standard-1", "standard-2", "start", "static", "status", "stop",
+    "string", "sub-queue-1", "sub-queue-2", "sub-queue-3", "subtract", "sum", "super", "suppress", "symbolic",
+    "sync", "synchronized", "system-default", "table", "tally", "tallying", "tape", "terminal", "terminate", "test",
+    "text", "than", "then", "throw", "through", "thru", "time", "times", "to", "top", "trailing", "true", "try",
+    "type", "typedef", "underline", "unit", "universal", "unlock", "unstring", "until", "up", "upon", "usage",
+    "use", "user-default", "using", "val-status", "valid", "validate", "validate-status", "value", "values",
+    "varying", "when", "when-compiled", "with", "words", "working-storage", "write", "yyyyddd", "yyyymmdd", "zero",
+    "zeroes", "zeros",
+]);
+
+/**
+ * Class with the reserved words of the Cobol language
+ */
+export class CobolReservedWords {
+
+    /**
+     * Returns true if the word is a Cobol reserved word
+     *
+     * @param word
+     */
+    public static isReserved(word: string): boolean {
+        return RESERVED_WORDS.has(word.toLowerCase());
+    }
+
+}
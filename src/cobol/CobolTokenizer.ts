@@ -0,0 +1,91 @@
+/**
+ * Word found in a Cobol line
+ */
+export interface CobolToken {
+    /** Text of the word */
+    text: string;
+    /** Column where the word starts */
+    column: number;
+}
+
+/**
+ * Class to split Cobol lines into words
+ */
+export class CobolTokenizer {
+
+    /**
+     * Returns the code of the line replacing comments and literals with spaces,
+     * so the columns of the remaining words are kept
+     *
+     * @param line
+     */
+    public static stripCommentsAndLiterals(line: string): string {
+        let result = "";
+        let index = 0;
+        while (index < line.length) {
+            const char = line.charAt(index);
+            if (char == "*" && line.charAt(index + 1) == ">") {
+                break;
+            }
+            if (char == "\"" || char == "'") {
+                let end = index + 1;
+                while (end < line.length) {
+                    if (line.charAt(end) == char) {
+                        if (line.charAt(end + 1) != char) {
+                            break;
+                        }
+                        end++;
+                    }
+                    end++;
+                }
+                result = CobolTokenizer.removeLiteralPrefix(result);
+                result += " ".repeat(Math.min(end, line.length - 1) - index + 1);
+                index = end + 1;
+                continue;
+            }
+            result += char;
+            index++;
+        }
+        return result;
+    }
+
+    /**
+     * Returns the words of the line, ignoring comments and literals
+     *
+     * @param line
+     */
+    public static tokenize(line: string): CobolToken[] {
+        const code = CobolTokenizer.stripCommentsAndLiterals(line);
+        const tokens: CobolToken[] = [];
+        const regex = /[a-zA-Z0-9][\w\-]*/g;
+        let match = regex.exec(code);
+        while (match) {
+            tokens.push({ text: match[0].replace(/-+$/, ""), column: match.index });
+            match = regex.exec(code);
+        }
+        return tokens;
+    }
+
+    /**
+     * Returns true if the line is a comment line
+     *
+     * @param line
+     */
+    public static isComment(line: string): boolean {
+        return line.trimLeft().startsWith("*>");
+    }
+
+    /**
+     * Removes the prefix of hexadecimal, national and boolean literals, like x"00"
+     *
+     * @param code code before the literal
+     */
+    private static removeLiteralPrefix(code: string): string {
+        const match = /(^|[^\w\-])([xXzZnNgGbB]{1,2})$/.exec(code);
+        if (!match) {
+            return code;
+        }
+        return code.substring(0, code.length - match[2].length) + " ".repeat(match[2].length);
+    }
+
+}
@@ -1,6 +1,7 @@
 import { Path } from "../commons/path";
 import { File } from "../commons/file";
 import { Log } from "../commons/Log";
+import { CobolCopyExpander } from "./CobolCopyExpander";
 
 
 /**
@@ -14,7 +15,7 @@ export class ExpandedSourceManager {
   /** Expanded sources */
   private static expandedSourceCache: Map<string, {time: number, expandedSource: string}> = new Map();
   /** callback to expander the source */
-  private static callbackSourceExpander: ((uri: string, cacheFileName: string) => Thenable<{}>) | undefined;
+  private static callbackSourceExpander: ((uri: string, cacheFileName: string) => PromiseLike<{}>) | undefined;
   /** callback to show SatusBar from SourceExpander */
   private static callbackShowStatusBarFromSourceExpander: ((file?: string) => void) | undefined;
   /** callback to hide SatusBar from SourceExpander */
@@ -59,21 +60,16 @@ export class ExpandedSourceManager {
     return new Promise((resolve, reject) => {
       Log.get().info("ExpandedSourceManager.expandSource() was called");
       if (!ExpandedSourceManager.callbackSourceExpander) {
-        Log.get().warning("SourceExpander is undefined");
-        if (ExpandedSourceManager.callbackHideStatusBarFromSourceExpander) {
-          ExpandedSourceManager.callbackHideStatusBarFromSourceExpander();
-        }
-        return reject("CallbackSourceExpander not defined")
+        Log.get().info("SourceExpander is undefined, expanding the copies in process");
+        return this.expandWithBuiltInExpander().then((buffer) => resolve(buffer)).catch((e) => reject(e));
       }
       Log.get().info("ExpandedSourceManager has callbackSourceExpander");
       ExpandedSourceManager.callbackSourceExpander(this.source, ExpandedSourceManager.buildExpandedSourceFileName(this.source)).then(() => {
         Log.get().info("ExpandedSourceManager.callbackSourceExpander was finality");
         const file = new File(ExpandedSourceManager.buildExpandedSourceFileName(this.source));
         if (!file.exists()) {
-          if (ExpandedSourceManager.callbackHideStatusBarFromSourceExpander) {
-            ExpandedSourceManager.callbackHideStatusBarFromSourceExpander();
-          }
-          return reject(`File ${file.fileName} not exist`);
+          Log.get().warning(`File ${file.fileName} not exist, expanding the copies in process`);
+          return this.expandWithBuiltInExpander().then((buffer) => resolve(buffer)).catch((e) => reject(e));
         }
         file.loadBuffer("latin1").then((buffer) => {
           ExpandedSourceManager.setExpandedSourceInCache(this.source, buffer);
@@ -90,7 +86,27 @@ export class ExpandedSourceManager {
           return reject(e);
         });
       }, (e) => {
-        Log.get().error("callbackSourceExpander has returned a error to load expanded source. " + e);
+        Log.get().warning("callbackSourceExpander has returned a error to load expanded source, expanding the copies in process. " + e);
+        return this.expandWithBuiltInExpander().then((buffer) => resolve(buffer)).catch((e) => reject(e));
+      });
+    });
+  }
+
+  /**
+   * Expands the copies of the source with the built-in expander and loads the cache
+   */
+  private expandWithBuiltInExpander(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const fileName = new Path(this.source).fullPathWin();
+      new CobolCopyExpander().expand(fileName).then((buffer) => {
+        ExpandedSourceManager.setExpandedSourceInCache(this.source, buffer);
+        Log.get().info("Expanded source built in process successfully");
+        if (ExpandedSourceManager.callbackHideStatusBarFromSourceExpander) {
+          ExpandedSourceManager.callbackHideStatusBarFromSourceExpander();
+        }
+        return resolve(buffer);
+      }).catch((e) => {
+        Log.get().error("Error to expand the copies in process. " + e);
         if (ExpandedSourceManager.callbackHideStatusBarFromSourceExpander) {
           ExpandedSourceManager.callbackHideStatusBarFromSourceExpander();
         }
@@ -104,7 +120,7 @@ export class ExpandedSourceManager {
    *
    * @param callbackSourceExpander
    */
-  public static setSourceExpander(callbackSourceExpander: (uri: string, cacheFileName: string) => Thenable<any>) {
+  public static setSourceExpander(callbackSourceExpander: (uri: string, cacheFileName: string) => PromiseLike<any>) {
     ExpandedSourceManager.callbackSourceExpander = callbackSourceExpander;
   }
 
@@ -156,6 +172,17 @@ export class ExpandedSourceManager {
     })
   }
 
+  /**
+   * Returns the expanded source kept in cache without requesting a new expansion
+   *
+   * @param source
+   */
+  public static peekExpandedSource(source: string): string | undefined {
+    const cache = ExpandedSourceManager.expandedSourceCache.get(source);
+    if (!cache) return undefined;
+    return cache.expandedSource;
+  }
+
   /**
    * Returns the expanded source from cache
    */
@@ -1,12 +1,14 @@
 "use babel";
 import { Diagnostic, DiagnosticSeverity, Range, Position, DiagnosticTag } from "vscode-languageserver";
 import { CobolDiagnostic } from "./cobolDiagnostic";
-import { File } from "../../commons/file";
 import { Path } from "../../commons/path";
+import { SearchPathResolver } from "../../commons/SearchPathResolver";
 import { Scan, BufferSplitter } from "rech-ts-commons";
 import Q from "q";
 import { CompletionUtils } from "../../lsp/commons/CompletionUtils";
 import { CobolDiagnosticGetCopyHierarchyManager } from "./cobolDiagnosticGetCopyHierarchyManager";
+import { DiagnosticOutputParserInterface, ParsedDiagnostic } from "./output/DiagnosticOutputParserInterface";
+import { RechPreprocessorOutputParser } from "./output/RechPreprocessorOutputParser";
 
 /**
  * Class conteiner of diagnostcs of cobol language
@@ -19,9 +21,18 @@ export class CobolDiagnosticParser {
   private splittedSource: string[] | undefined;
   /** Lines of the source */
   private static copyHierarchy: Map<string, string> = new Map();
+  /** Parser of the output of the compiler or preprocessor */
+  private outputParser: DiagnosticOutputParserInterface;
 
-  constructor(sourceLines: string) {
+  /**
+   * Creates the parser of the diagnostics
+   *
+   * @param sourceLines lines of the source
+   * @param outputParser parser of the output of the compiler or preprocessor
+   */
+  constructor(sourceLines: string, outputParser: DiagnosticOutputParserInterface = new RechPreprocessorOutputParser()) {
     this.sourceLines = sourceLines;
+    this.outputParser = outputParser;
   }
 
   /**
@@ -72,10 +83,8 @@ export class CobolDiagnosticParser {
                             isDeprecatedWarning?: (diagnosticMessage: string) => Thenable<boolean>): Promise<CobolDiagnostic> {
     return new Promise((resolve, reject) => {
       const interpreters: Array<Promise<Diagnostic>> = [];
-      const lines = BufferSplitter.split(preprocResult);
-      const pattern = /\*\*\*\sWarning:\s(.*);\sfile\s=\s([A-Za-z0-9.]+),\sline\s=\s(\d+)\s?(\(Erro\))?/;
-      lines.forEach(currentLine => {
-        interpreters.push(this.interpretsTheErrorMessage(fileName, pattern, currentLine, externalDiagnosticFilter, isDeprecatedWarning));
+      this.outputParser.parse(preprocResult, fileName).forEach(parsedDiagnostic => {
+        interpreters.push(this.interpretsTheErrorMessage(fileName, parsedDiagnostic, externalDiagnosticFilter, isDeprecatedWarning));
       });
       Q.allSettled(interpreters).then((results) => {
         const diagnostics: Diagnostic[] = [];
@@ -115,25 +124,18 @@ export class CobolDiagnosticParser {
    * Interpret the error message and insert the diagnostic
    *
    * @param fileName
-   * @param pattern
-   * @param currentLine
+   * @param parsedDiagnostic
    * @param externalDiagnosticFilter
    * @param isDeprecatedWarning
    */
-  private interpretsTheErrorMessage(fileName: string, pattern: RegExp, currentLine: string,
+  private interpretsTheErrorMessage(fileName: string, parsedDiagnostic: ParsedDiagnostic,
                                     externalDiagnosticFilter?: (diagnosticMessage: string) => Thenable<boolean>,
                                     isDeprecatedWarning?: (diagnosticMessage: string) => Thenable<boolean>): Promise<Diagnostic> {
     return new Promise((resolve, reject) => {
-      const match = pattern.exec(currentLine);
-      if (!match) {
-        return reject(`Line ${currentLine} not match ${pattern}`);
-      }
-      let fullError, message: any, file: any, line: any, error: any;
-      [fullError, message, file, line, error] = match;
       if (externalDiagnosticFilter) {
-        externalDiagnosticFilter(message).then((result) => {
+        externalDiagnosticFilter(parsedDiagnostic.message).then((result) => {
           if (result) {
-            this.buildDiagnosticOfError(fileName, message, file, line, error, isDeprecatedWarning).then((diagnostic) => {
+            this.buildDiagnosticOfError(fileName, parsedDiagnostic, isDeprecatedWarning).then((diagnostic) => {
               return resolve(diagnostic);
             }).catch((e) => {
               return reject(e);
@@ -143,7 +145,7 @@ export class CobolDiagnosticParser {
           }
         });
       } else {
-        return resolve(this.buildDiagnosticOfError(fileName, message, file, line, error, isDeprecatedWarning));
+        return resolve(this.buildDiagnosticOfError(fileName, parsedDiagnostic, isDeprecatedWarning));
       }
     });
   }
@@ -152,43 +154,24 @@ export class CobolDiagnosticParser {
    * Build the diagnostic of error and insert the result in the {@code errors} or {@code warnings} array
    *
    * @param fileName
-   * @param message
-   * @param file
-   * @param line
-   * @param error
+   * @param parsedDiagnostic
    * @param isDeprecatedWarning
    */
-  private buildDiagnosticOfError(fileName: string, message: string, file: string, line: string, error: boolean,
+  private buildDiagnosticOfError(fileName: string, parsedDiagnostic: ParsedDiagnostic,
                                  isDeprecatedWarning?: (diagnosticMessage: string) => Thenable<boolean>): Promise<Diagnostic> {
     return new Promise((resolve, reject) => {
-      const nLine = Number.parseInt(line) - 1;
-      const diagnosticSeverity = this.getAppropriateSeverity(error);
+      const nLine = parsedDiagnostic.line - 1;
+      const diagnosticSeverity = this.getAppropriateSeverity(parsedDiagnostic.error);
+      const range = Range.create(
+        Position.create(nLine, 0),
+        Position.create(nLine, 120),
+      );
       if (isDeprecatedWarning) {
-        isDeprecatedWarning(message).then((deprecated) => {
-          resolve(this.createDiagnostic(
-            fileName,
-            diagnosticSeverity,
-            Range.create(
-              Position.create(nLine, 0),
-              Position.create(nLine, 120),
-            ),
-            message,
-            file,
-            deprecated
-          ));
+        isDeprecatedWarning(parsedDiagnostic.message).then((deprecated) => {
+          resolve(this.createDiagnostic(fileName, diagnosticSeverity, range, parsedDiagnostic, deprecated));
         }, (e) => reject(e));
       } else {
-        resolve(this.createDiagnostic(
-          fileName,
-          diagnosticSeverity,
-          Range.create(
-            Position.create(nLine, 0),
-            Position.create(nLine, 120),
-          ),
-          message,
-          file,
-          false
-        ));
+        resolve(this.createDiagnostic(fileName, diagnosticSeverity, range, parsedDiagnostic, false));
       }
     });
   }
@@ -211,13 +194,15 @@ export class CobolDiagnosticParser {
    * @param fileName
    * @param severity
    * @param range
-   * @param message
-   * @param source
+   * @param parsedDiagnostic
+   * @param deprecated
    */
-  private createDiagnostic(fileName: string, severity: DiagnosticSeverity, range: Range, message: string, source: string, deprecated: boolean): Diagnostic {
+  private createDiagnostic(fileName: string, severity: DiagnosticSeverity, range: Range, parsedDiagnostic: ParsedDiagnostic, deprecated: boolean): Diagnostic {
+    const message = parsedDiagnostic.message;
+    const source = parsedDiagnostic.file;
     const diagnosticRange = this.createAppropriateDiagnosticRange(fileName, source, range);
     const fullFileName = this.fullFileName(new Path(fileName).fullPathWin(), source);
-    const diagnosticId = this.extractDiagnosticIdentifier(message);
+    const diagnosticId = parsedDiagnostic.code || this.extractDiagnosticIdentifier(message);
     let tag: undefined | DiagnosticTag = undefined;
     if (deprecated) {
       tag = DiagnosticTag.Deprecated;
@@ -404,12 +389,11 @@ export class CobolDiagnosticParser {
    * @param source
    */
   private fullFileName(fileName: string, source: string): string {
-    const file = new File(new Path(fileName).directory() + source);
-    if (file.exists()) {
-      return file.fileName;
-    } else {
-      return "F:\\Fontes\\" + source;
+    const fullFileName = SearchPathResolver.resolve(source, fileName);
+    if (fullFileName) {
+      return fullFileName;
     }
+    return new Path(fileName).directory() + source;
   }
 
   /**
@@ -7,6 +7,8 @@ import { File } from "../../commons/file";
 import { CobolDiagnosticParser } from "./cobolDiagnosticParser";
 import { CobolDiagnosticPreprocManager } from "./cobolDiagnosticPreprocManager";
 import { Log } from "../../commons/Log";
+import { DiagnosticOutputParserInterface } from "./output/DiagnosticOutputParserInterface";
+import { RechPreprocessorOutputParser } from "./output/RechPreprocessorOutputParser";
 
 /**
  * Class to diagnose sources
@@ -15,9 +17,18 @@ export class Diagnostician {
 
   /** Lines of the source */
   private sourceLines: string;
+  /** Parser of the output of the compiler or preprocessor */
+  private outputParser: DiagnosticOutputParserInterface;
 
-  constructor(sourceLines: string) {
+  /**
+   * Creates the diagnostician of the source
+   *
+   * @param sourceLines lines of the source
+   * @param outputParser parser of the output of the compiler or preprocessor, selected for the source
+   */
+  constructor(sourceLines: string, outputParser: DiagnosticOutputParserInterface = new RechPreprocessorOutputParser()) {
     this.sourceLines = sourceLines;
+    this.outputParser = outputParser;
   }
 
   /**
@@ -239,7 +250,7 @@ export class Diagnostician {
       CobolDiagnosticPreprocManager.runWhenPossible(preprocessCallback, tmpFile, Buffer.from(text), (buffer) => {
         Log.get().info("Diagnostician buffer recived for " + dir.fileName);
         const fileName = documentPath.fullPath();
-        new CobolDiagnosticParser(this.sourceLines)
+        new CobolDiagnosticParser(this.sourceLines, this.outputParser)
           .parser(buffer, fileName, externalGetCopyHierarchy, externalDiagnosticFilter, isDeprecatedWarning)
           .then(cobolDiagnostic => {
             Log.get().info("FindErrorsAndWarnings from " + documentPath + " has correctly finished.");
@@ -0,0 +1,374 @@
+import { ParserCobol } from "../../parsercobol";
+import { CobolTokenizer, CobolToken } from "../../CobolTokenizer";
+import { CobolReservedWords } from "../../CobolReservedWords";
+import { CobolVariable } from "../../../lsp/completion/CobolVariable";
+
+/** Division where a line of the source is */
+type Division = "identification" | "environment" | "data" | "procedure" | undefined;
+
+/**
+ * Line where a variable is declared, in the source or in the expanded source
+ */
+interface VariableDeclaration {
+  buffer: string[];
+  line: number;
+}
+
+/**
+ * Class with the source and the declarations used by the native diagnostic rules
+ */
+export class NativeDiagnosticContext {
+
+  /** Lines of the source */
+  public readonly lines: string[];
+  /** True if the declarations made inside copies are known */
+  public readonly resolved: boolean;
+  /** True if the SPECIAL-NAMES declares DECIMAL-POINT IS COMMA, swapping the period and the comma of the edited pictures */
+  public readonly decimalPointIsComma: boolean;
+  /** Cobol parser */
+  private parser: ParserCobol;
+  /** Division of each line of the source */
+  private divisions: Division[];
+  /** Lines of the source which are not Cobol statements */
+  private ignoredLines: boolean[];
+  /** Words of the lines already split */
+  private tokensCache: Map<number, CobolToken[]>;
+  /** Declared variables, files and classes */
+  private variables: Set<string>;
+  /** Suffixes of variables declared with replacing tags, like (prefix)-name */
+  private variableSuffixes: string[];
+  /** Declared paragraphs and sections */
+  private paragraphs: Set<string>;
+  /** Words referenced in the source and its copies */
+  private references: Set<string>;
+  /** Lines of the expanded source */
+  private expandedLines: string[] | undefined;
+  /** Declarations of the variables which can be parsed, undefined when the name is declared more than once */
+  private declarations: Map<string, VariableDeclaration | undefined> | undefined;
+  /** Variables already parsed */
+  private parsedVariables: Map<string, CobolVariable | undefined>;
+
+  /**
+   * Creates the context of the source
+   *
+   * @param lines lines of the source
+   * @param expandedLines lines of the expanded source, if it's available
+   */
+  constructor(lines: string[], expandedLines?: string[]) {
+    this.lines = lines;
+    this.parser = new ParserCobol();
+    this.tokensCache = new Map();
+    this.variables = new Set();
+    this.variableSuffixes = [];
+    this.paragraphs = new Set();
+    this.references = new Set();
+    this.expandedLines = expandedLines;
+    this.parsedVariables = new Map();
+    this.divisions = this.findDivisions(lines);
+    this.ignoredLines = this.findIgnoredLines(lines);
+    this.resolved = expandedLines != undefined || !lines.some((line) => /^\s+copy\s/i.test(line));
+    this.decimalPointIsComma = (expandedLines || lines).some((line) => /\bdecimal-point\s+(?:is\s+)?comma\b/i.test(CobolTokenizer.stripCommentsAndLiterals(line)));
+    this.collect(lines, this.divisions, this.ignoredLines);
+    if (expandedLines) {
+      this.collect(expandedLines, this.findDivisions(expandedLines), this.findIgnoredLines(expandedLines));
+    }
+  }
+
+  /**
+   * Returns true if the line is inside the procedure division
+   *
+   * @param line
+   */
+  public isProcedureLine(line: number): boolean {
+    return this.divisions[line] == "procedure";
+  }
+
+  /**
+   * Returns true if the line has Cobol code, so it's not a comment, a directive, a copy or an embedded statement
+   *
+   * @param line
+   */
+  public isCodeLine(line: number): boolean {
+    return !this.ignoredLines[line];
+  }
+
+  /**
+   * Returns true if the line declares a paragraph, a section or the procedure division
+   *
+   * @param line
+   */
+  public isParagraphDeclaration(line: number): boolean {
+    const text = this.lines[line];
+    return this.parser.getDeclaracaoParagrafo(text) != undefined || this.parser.getSectionDeclaration(text) != undefined;
+  }
+
+  /**
+   * Returns the words of the line
+   *
+   * @param line
+   */
+  public tokens(line: number): CobolToken[] {
+    let tokens = this.tokensCache.get(line);
+    if (!tokens) {
+      tokens = CobolTokenizer.tokenize(this.lines[line]);
+      this.tokensCache.set(line, tokens);
+    }
+    return tokens;
+  }
+
+  /**
+   * Returns the words of the line which are targets of PERFORM, THRU or GO TO
+   *
+   * @param line
+   */
+  public paragraphTargets(line: number): CobolToken[] {
+    const tokens = this.tokens(line);
+    const targets: CobolToken[] = [];
+    for (let i = 0; i < tokens.length; i++) {
+      const word = tokens[i].text.toLowerCase();
+      if (word == "perform") {
+        const next = tokens[i + 1];
+        const following = tokens[i + 2];
+        if (!next || !this.isUserWord(next.text) || this.isVariable(next.text)) {
+          continue;
+        }
+        if (following && following.text.toLowerCase() == "times") {
+          continue;
+        }
+        targets.push(next);
+        const thru = following ? following.text.toLowerCase() : "";
+        if ((thru == "thru" || thru == "through") && tokens[i + 3] && this.isUserWord(tokens[i + 3].text)) {
+          targets.push(tokens[i + 3]);
+        }
+      }
+      if (word == "go" && tokens[i + 1] && tokens[i + 1].text.toLowerCase() == "to") {
+        for (let j = i + 2; j < tokens.length && this.isUserWord(tokens[j].text); j++) {
+          targets.push(tokens[j]);
+        }
+      }
+    }
+    return targets;
+  }
+
+  /**
+   * Returns true if the word is not a reserved word nor a number
+   *
+   * @param word
+   */
+  public isUserWord(word: string): boolean {
+    return !CobolReservedWords.isReserved(word) && !/^\d+$/.test(word);
+  }
+
+  /**
+   * Returns true if the variable, file or class is declared
+   *
+   * @param name
+   */
+  public isVariable(name: string): boolean {
+    const lowerName = name.toLowerCase();
+    return this.variables.has(lowerName) || this.variableSuffixes.some((suffix) => lowerName.endsWith(suffix));
+  }
+
+  /**
+   * Returns true if the paragraph or section is declared
+   *
+   * @param name
+   */
+  public isParagraph(name: string): boolean {
+    return this.paragraphs.has(name.toLowerCase());
+  }
+
+  /**
+   * Returns true if the word is referenced anywhere but in its own declaration
+   *
+   * @param name
+   */
+  public isReferenced(name: string): boolean {
+    return this.references.has(name.toLowerCase());
+  }
+
+  /**
+   * Returns the variable parsed from its declaration, or undefined if it's not found or it's ambiguous
+   *
+   * @param name
+   */
+  public findVariable(name: string): CobolVariable | undefined {
+    const lowerName = name.toLowerCase();
+    if (this.parsedVariables.has(lowerName)) {
+      return this.parsedVariables.get(lowerName);
+    }
+    if (!this.declarations) {
+      this.declarations = new Map();
+      this.collectVariableDeclarations(this.lines, this.divisions, new Map());
+      if (this.expandedLines) {
+        const declaredInSource = new Map(this.declarations);
+        this.collectVariableDeclarations(this.expandedLines, this.findDivisions(this.expandedLines), declaredInSource);
+      }
+    }
+    const declaration = this.declarations.get(lowerName);
+    const variable = declaration ? CobolVariable.parseLines(declaration.line, declaration.buffer, {
+      noScope: true, noSection: true, ignoreMethodReturn: true, noComment: true
+    }) : undefined;
+    this.parsedVariables.set(lowerName, variable);
+    return variable;
+  }
+
+  /**
+   * Collects the lines where the variables are declared, ignoring the names already declared in the source
+   *
+   * @param lines
+   * @param divisions
+   * @param declaredInSource
+   */
+  private collectVariableDeclarations(lines: string[], divisions: Division[], declaredInSource: Map<string, VariableDeclaration | undefined>) {
+    // The markers of the expanded source are comments which would be parsed as part of the declarations
+    const buffer = lines.map((line) => CobolTokenizer.stripCommentsAndLiterals(line));
+    buffer.forEach((line, index) => {
+      if (divisions[index] == "procedure" || !/^\s*\d+\s/.test(line)) {
+        return;
+      }
+      const name = this.parser.getDeclaracaoVariavel(line);
+      const level = Number.parseInt(line.trim());
+      if (!name || name.startsWith("-") || level == 66 || level == 78 || level == 88) {
+        return;
+      }
+      const lowerName = name.toLowerCase();
+      if (declaredInSource.has(lowerName)) {
+        return;
+      }
+      this.declarations!.set(lowerName, this.declarations!.has(lowerName) ? undefined : { buffer: buffer, line: index });
+    });
+  }
+
+  /**
+   * Collects the declarations and references of the lines
+   *
+   * @param lines
+   * @param divisions
+   * @param ignoredLines
+   */
+  private collect(lines: string[], divisions: Division[], ignoredLines: boolean[]) {
+    lines.forEach((line, index) => {
+      const variable = divisions[index] != "procedure" ? this.parser.getDeclaracaoVariavel(line) : undefined;
+      if (variable) {
+        this.addVariable(variable);
+      }
+      if (ignoredLines[index]) {
+        return;
+      }
+      const tokens = lines === this.lines ? this.tokens(index) : CobolTokenizer.tokenize(line);
+      if (divisions[index] == "procedure") {
+        const paragraph = this.parser.getDeclaracaoParagrafo(line) || this.parser.getSectionDeclaration(line);
+        if (paragraph && !CobolReservedWords.isReserved(paragraph)) {
+          this.paragraphs.add(paragraph.toLowerCase());
+        }
+      } else {
+        this.collectDeclarations(line, tokens, divisions[index]);
+      }
+      // The name of a variable is not a reference to itself
+      const declaration = variable && tokens.length > 1 && /^\d+$/.test(tokens[0].text) ? tokens[1] : undefined;
+      tokens.forEach((token) => {
+        if (token !== declaration) {
+          this.references.add(token.text.toLowerCase());
+        }
+      });
+    });
+  }
+
+  /**
+   * Collects the files, classes, indexes and special names declared in the line
+   *
+   * @param line
+   * @param tokens
+   * @param division
+   */
+  private collectDeclarations(line: string, tokens: CobolToken[], division: Division) {
+    [this.parser.getDeclaracaoSelect(line),
+     this.parser.getFileDescriptionDeclaration(line),
+     this.parser.getDeclaracaoClasse(line),
+     this.parser.getClassIdDeclaration(line)].forEach((name) => {
+      if (name) {
+        this.addVariable(name);
+      }
+    });
+    for (let i = 0; i < tokens.length - 1; i++) {
+      if (tokens[i].text.toLowerCase() == "indexed" && tokens[i + 1].text.toLowerCase() == "by") {
+        for (let j = i + 2; j < tokens.length && this.isUserWord(tokens[j].text); j++) {
+          this.addVariable(tokens[j].text);
+        }
+      }
+    }
+    // Mnemonic names, alphabets and symbolic characters
+    if (division == "environment") {
+      tokens.filter((token) => this.isUserWord(token.text)).forEach((token) => this.addVariable(token.text));
+    }
+  }
+
+  /**
+   * Adds a declared variable
+   *
+   * @param name
+   */
+  private addVariable(name: string) {
+    if (name.startsWith("-")) {
+      this.variableSuffixes.push(name.toLowerCase());
+    } else {
+      this.variables.add(name.toLowerCase());
+    }
+  }
+
+  /**
+   * Returns the division of each line
+   *
+   * @param lines
+   */
+  private findDivisions(lines: string[]): Division[] {
+    let current: Division = undefined;
+    return lines.map((line) => {
+      const division = this.parser.getDivisionDeclaration(line);
+      if (division) {
+        const name = division.toLowerCase();
+        if (name == "identification" || name == "environment" || name == "data" || name == "procedure") {
+          current = name;
+        }
+      } else if (this.parser.getDeclaracaoMethod(line) || /^\s+end\s+method[\s\.]/i.test(line)) {
+        current = undefined;
+      }
+      return current;
+    });
+  }
+
+  /**
+   * Returns the lines which are not Cobol statements, like comments, directives, copies and embedded statements
+   *
+   * @param lines
+   */
+  private findIgnoredLines(lines: string[]): boolean[] {
+    let insideExec = false;
+    let insideCopy = false;
+    return lines.map((line) => {
+      const trimmed = line.trim().toLowerCase();
+      if (insideExec) {
+        insideExec = !/(^|\s)end-exec(\s|\.|$)/.test(trimmed);
+        return true;
+      }
+      if (insideCopy) {
+        insideCopy = !CobolTokenizer.stripCommentsAndLiterals(line).includes(".");
+        return true;
+      }
+      if (trimmed == "" || trimmed.startsWith("*") || trimmed.startsWith("$") || trimmed.startsWith(">>")) {
+        return true;
+      }
+      if (/^copy\s/.test(trimmed)) {
+        insideCopy = !CobolTokenizer.stripCommentsAndLiterals(line).includes(".");
+        return true;
+      }
+      if (/^exec(\s|$)/.test(trimmed)) {
+        insideExec = !/(^|\s)end-exec(\s|\.|$)/.test(trimmed);
+        return true;
+      }
+      return false;
+    });
+  }
+
+}
@@ -0,0 +1,64 @@
+import { Diagnostic } from "vscode-languageserver";
+import { BufferSplitter } from "rech-ts-commons";
+import { RuleInterface } from "./RuleInterface";
+import { NativeDiagnosticContext } from "./NativeDiagnosticContext";
+import { UndeclaredVariableRule } from "./UndeclaredVariableRule";
+import { UndeclaredParagraphRule } from "./UndeclaredParagraphRule";
+import { UnusedVariableRule } from "./UnusedVariableRule";
+import { ScopeTerminatorRule } from "./ScopeTerminatorRule";
+import { TruncationRule } from "./TruncationRule";
+import { UnreachableCodeRule } from "./UnreachableCodeRule";
+
+/**
+ * Class to diagnose sources without the external preprocessor
+ */
+export class NativeDiagnostician {
+
+  /** Rules checked in the sources */
+  private static rules: RuleInterface[] = [
+    new UndeclaredVariableRule(),
+    new UndeclaredParagraphRule(),
+    new UnusedVariableRule(),
+    new ScopeTerminatorRule(),
+    new TruncationRule(),
+    new UnreachableCodeRule(),
+  ];
+  /** Text of the source */
+  private sourceText: string;
+
+  constructor(sourceText: string) {
+    this.sourceText = sourceText;
+  }
+
+  /**
+   * Diagnoses the source
+   *
+   * @param expandedSource expanded source, used to know the declarations made inside copies
+   */
+  public diagnose(expandedSource?: string): Diagnostic[] {
+    const context = new NativeDiagnosticContext(
+      BufferSplitter.split(this.sourceText),
+      expandedSource ? BufferSplitter.split(expandedSource) : undefined
+    );
+    let diagnostics: Diagnostic[] = [];
+    NativeDiagnostician.rules.forEach((rule) => {
+      diagnostics = diagnostics.concat(rule.check(context));
+    });
+    return diagnostics;
+  }
+
+  /**
+   * Merges the native diagnostics with the ones reported by the preprocessor, which have precedence
+   * when both report the same code on the same line
+   *
+   * @param nativeDiagnostics
+   * @param preprocessorDiagnostics
+   */
+  public static merge(nativeDiagnostics: Diagnostic[], preprocessorDiagnostics: Diagnostic[]): Diagnostic[] {
+    const duplicated = (diagnostic: Diagnostic) => preprocessorDiagnostics.some((preprocessorDiagnostic) => {
+      return preprocessorDiagnostic.code == diagnostic.code && preprocessorDiagnostic.range.start.line == diagnostic.range.start.line;
+    });
+    return preprocessorDiagnostics.concat(nativeDiagnostics.filter((diagnostic) => !duplicated(diagnostic)));
+  }
+
+}
@@ -0,0 +1,15 @@
+import { Diagnostic } from "vscode-languageserver";
+import { NativeDiagnosticContext } from "./NativeDiagnosticContext";
+
+/**
+ * Interface of the rules checked by the native diagnostician
+ */
+export interface RuleInterface {
+
+  /**
+   * Returns the diagnostics found by the rule
+   *
+   * @param context parsed source to be checked
+   */
+  check(context: NativeDiagnosticContext): Diagnostic[];
+}
@@ -0,0 +1,100 @@
+import { Diagnostic, DiagnosticSeverity, Range } from "vscode-languageserver";
+import { RuleInterface } from "./RuleInterface";
+import { NativeDiagnosticContext } from "./NativeDiagnosticContext";
+import { CobolTokenizer } from "../../CobolTokenizer";
+
+/** Code of the diagnostic of IF without END-IF */
+export const MISSING_END_IF = "N003";
+/** Code of the diagnostic of EVALUATE without END-EVALUATE */
+export const MISSING_END_EVALUATE = "N004";
+/** Code of the diagnostic of period inside nested IF */
+export const PERIOD_INSIDE_NESTED_IF = "N005";
+
+/**
+ * Conditional statement still open
+ */
+interface OpenStatement {
+  word: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * Rule to find IF and EVALUATE statements without explicit scope terminator
+ * and periods ending nested IF statements
+ */
+export class ScopeTerminatorRule implements RuleInterface {
+
+  public check(context: NativeDiagnosticContext): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const open: OpenStatement[] = [];
+    const close = (count: number) => {
+      open.splice(open.length - count).forEach((statement) => {
+        const evaluate = statement.word == "evaluate";
+        diagnostics.push(Diagnostic.create(
+          Range.create(statement.line, statement.column, statement.line, statement.column + statement.word.length),
+          evaluate ? "EVALUATE without END-EVALUATE" : "IF without END-IF",
+          DiagnosticSeverity.Warning,
+          evaluate ? MISSING_END_EVALUATE : MISSING_END_IF,
+          "cobol"
+        ));
+      });
+    };
+    const closeUntil = (word: string) => {
+      for (let i = open.length - 1; i >= 0; i--) {
+        if (open[i].word == word) {
+          close(open.length - i - 1);
+          open.pop();
+          return;
+        }
+      }
+    };
+    context.lines.forEach((line, index) => {
+      if (!context.isProcedureLine(index) || !context.isCodeLine(index)) {
+        return;
+      }
+      if (context.isParagraphDeclaration(index)) {
+        close(open.length);
+        return;
+      }
+      const words = context.tokens(index).map((token) => ({ word: token.text.toLowerCase(), column: token.column }));
+      const periods = [];
+      const regex = /\.(?=\s|$)/g;
+      const code = CobolTokenizer.stripCommentsAndLiterals(line);
+      let match = regex.exec(code);
+      while (match) {
+        periods.push({ word: ".", column: match.index });
+        match = regex.exec(code);
+      }
+      words.concat(periods).sort((a, b) => a.column - b.column).forEach((element) => {
+        switch (element.word) {
+          case "if":
+          case "evaluate":
+            open.push({ word: element.word, line: index, column: element.column });
+            break;
+          case "end-if":
+            closeUntil("if");
+            break;
+          case "end-evaluate":
+            closeUntil("evaluate");
+            break;
+          case ".":
+            if (open.filter((statement) => statement.word == "if").length > 1) {
+              diagnostics.push(Diagnostic.create(
+                Range.create(index, element.column, index, element.column + 1),
+                "Period inside nested IF ends all the open statements",
+                DiagnosticSeverity.Warning,
+                PERIOD_INSIDE_NESTED_IF,
+                "cobol"
+              ));
+            }
+            close(open.length);
+            break;
+        }
+      });
+    });
+    close(open.length);
+    return diagnostics;
+  }
+
+}
@@ -0,0 +1,375 @@
+import { Diagnostic, DiagnosticSeverity, Range } from "vscode-languageserver";
+import { RuleInterface } from "./RuleInterface";
+import { NativeDiagnosticContext } from "./NativeDiagnosticContext";
+import { CobolTokenizer } from "../../CobolTokenizer";
+import { CobolReservedWords } from "../../CobolReservedWords";
+import { CobolVariable, Type } from "../../../lsp/completion/CobolVariable";
+
+/** Code of the diagnostic of values truncated by the size of the target */
+export const TRUNCATED_VALUE = "N006";
+/** Code of the diagnostic of signed values stored in unsigned targets */
+export const LOST_SIGN = "N007";
+/** Code of the diagnostic of alphanumeric values stored in numeric targets */
+export const ALPHANUMERIC_INTO_NUMERIC = "N008";
+/** Code of the diagnostic of decimals lost without ROUNDED */
+export const LOST_DECIMALS = "N009";
+/** Code of the diagnostic of group moves of different sizes */
+export const GROUP_SIZE_MISMATCH = "N010";
+/** Statements checked by the rule */
+const VERBS = ["move", "compute", "add"];
+/** Reserved words which are part of the checked statements */
+const STATEMENT_WORDS = ["to", "giving", "rounded"];
+/** Reserved words which make the operands impossible to resolve without a full parser */
+const UNSUPPORTED_WORDS = ["of", "in", "corr", "corresponding", "function"];
+
+/**
+ * Element of a statement: a word, "=", "." or a parenthesis
+ */
+interface StatementElement {
+  text: string;
+  line: number;
+  column: number;
+  /** True if the word is followed by a reference modification */
+  referenceModified?: boolean;
+}
+
+/**
+ * Variable used by a statement
+ */
+interface StatementOperand {
+  element: StatementElement;
+  variable: CobolVariable;
+}
+
+/**
+ * Variable which receives the result of a statement
+ */
+interface StatementTarget extends StatementOperand {
+  rounded: boolean;
+}
+
+/**
+ * Rule to find MOVE, COMPUTE and ADD statements which truncate the data stored in the targets
+ */
+export class TruncationRule implements RuleInterface {
+
+  public check(context: NativeDiagnosticContext): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const elements = this.findElements(context);
+    let index = 0;
+    while (index < elements.length) {
+      const verb = elements[index].text;
+      if (!VERBS.includes(verb)) {
+        index++;
+        continue;
+      }
+      const end = this.findStatementEnd(elements, index + 1);
+      const statement = elements.slice(index + 1, end);
+      if (!statement.some((element) => UNSUPPORTED_WORDS.includes(element.text))) {
+        switch (verb) {
+          case "move":
+            this.checkMove(context, statement, diagnostics);
+            break;
+          case "compute":
+            this.checkCompute(context, statement, diagnostics);
+            break;
+          case "add":
+            this.checkAdd(context, statement, diagnostics);
+            break;
+        }
+      }
+      index = end;
+    }
+    return diagnostics;
+  }
+
+  /**
+   * Checks the MOVE statement, like: MOVE source TO target target
+   *
+   * @param context
+   * @param statement elements after the verb
+   * @param diagnostics
+   */
+  private checkMove(context: NativeDiagnosticContext, statement: StatementElement[], diagnostics: Diagnostic[]) {
+    if (statement.length < 3 || statement[1].text != "to") {
+      return;
+    }
+    const source = this.toOperand(context, statement[0]);
+    if (!source) {
+      return;
+    }
+    this.toTargets(context, statement.slice(2)).forEach((target) => {
+      this.checkStore(context, "MOVE", [source], target, diagnostics);
+    });
+  }
+
+  /**
+   * Checks the COMPUTE statement, like: COMPUTE target ROUNDED = expression
+   *
+   * @param context
+   * @param statement elements after the verb
+   * @param diagnostics
+   */
+  private checkCompute(context: NativeDiagnosticContext, statement: StatementElement[], diagnostics: Diagnostic[]) {
+    const equal = statement.findIndex((element) => element.text == "=");
+    if (equal < 0) {
+      return;
+    }
+    const operands = this.toOperands(context, statement.slice(equal + 1));
+    this.toTargets(context, statement.slice(0, equal)).forEach((target) => {
+      this.checkStore(context, "COMPUTE", operands, target, diagnostics);
+    });
+  }
+
+  /**
+   * Checks the ADD statement, like: ADD operand TO target ROUNDED or ADD operand TO operand GIVING target
+   *
+   * @param context
+   * @param statement elements after the verb
+   * @param diagnostics
+   */
+  private checkAdd(context: NativeDiagnosticContext, statement: StatementElement[], diagnostics: Diagnostic[]) {
+    const to = statement.findIndex((element) => element.text == "to");
+    const giving = statement.findIndex((element) => element.text == "giving");
+    let operands: StatementOperand[];
+    let targets: StatementTarget[];
+    if (giving >= 0) {
+      operands = this.toOperands(context, statement.slice(0, giving).filter((element) => element.text != "to"));
+      targets = this.toTargets(context, statement.slice(giving + 1));
+    } else if (to >= 0) {
+      operands = this.toOperands(context, statement.slice(0, to));
+      targets = this.toTargets(context, statement.slice(to + 1));
+    } else {
+      return;
+    }
+    targets.forEach((target) => this.checkStore(context, "ADD", operands, target, diagnostics));
+  }
+
+  /**
+   * Checks the values of the operands stored in the target
+   *
+   * @param context
+   * @param verb
+   * @param operands
+   * @param target
+   * @param diagnostics
+   */
+  private checkStore(context: NativeDiagnosticContext, verb: string, operands: StatementOperand[], target: StatementTarget, diagnostics: Diagnostic[]) {
+    const reported = new Set<string>();
+    const report = (code: string, message: string) => {
+      if (reported.has(code)) {
+        return;
+      }
+      reported.add(code);
+      const element = target.element;
+      diagnostics.push(Diagnostic.create(
+        Range.create(element.line, element.column, element.line, element.column + element.text.length),
+        message,
+        DiagnosticSeverity.Warning,
+        code,
+        "cobol"
+      ));
+    };
+    const targetVariable = target.variable;
+    const decimalPointIsComma = context.decimalPointIsComma;
+    const targetName = `"${target.element.text}" (${this.describeSize(targetVariable, decimalPointIsComma)})`;
+    operands.forEach((operand) => {
+      const source = operand.variable;
+      const sourceName = `"${operand.element.text}" (${this.describeSize(source, decimalPointIsComma)})`;
+      if (this.isGroup(source) || this.isGroup(targetVariable)) {
+        if (verb == "MOVE" && this.hasKnownByteSize(operand) && this.hasKnownByteSize(target) && source.getByteSize() != targetVariable.getByteSize()) {
+          report(GROUP_SIZE_MISMATCH, `Group MOVE of ${sourceName} into ${targetName} with different sizes`);
+        }
+        return;
+      }
+      if (this.isNumeric(targetVariable)) {
+        if (!this.isNumeric(source)) {
+          report(ALPHANUMERIC_INTO_NUMERIC, `${verb} of alphanumeric ${sourceName} into numeric ${targetName}`);
+          return;
+        }
+        if (source.getIntegerDigits(decimalPointIsComma) > targetVariable.getIntegerDigits(decimalPointIsComma)) {
+          report(TRUNCATED_VALUE, `${verb} truncates ${sourceName} into ${targetName}`);
+        }
+        if (source.isAllowNegative() && !targetVariable.isAllowNegative()) {
+          report(LOST_SIGN, `${verb} loses the sign of ${sourceName} into unsigned ${targetName}`);
+        }
+        if (!target.rounded && source.getDecimalDigits(decimalPointIsComma) > targetVariable.getDecimalDigits(decimalPointIsComma)) {
+          const rounded = verb == "MOVE" ? "" : " without ROUNDED";
+          report(LOST_DECIMALS, `${verb} loses the decimals of ${sourceName} into ${targetName}${rounded}`);
+        }
+        return;
+      }
+      if (!this.hasKnownByteSize(target)) {
+        return;
+      }
+      const sourceSize = this.isNumeric(source) ? source.getIntegerDigits(decimalPointIsComma) + source.getDecimalDigits(decimalPointIsComma) : source.getByteSize();
+      if (this.hasKnownByteSize(operand) && sourceSize > targetVariable.getByteSize()) {
+        report(TRUNCATED_VALUE, `${verb} truncates ${sourceName} into ${targetName}`);
+      }
+    });
+  }
+
+  /**
+   * Returns the description of the size of the variable
+   *
+   * @param variable
+   * @param decimalPointIsComma true if the source declares DECIMAL-POINT IS COMMA
+   */
+  private describeSize(variable: CobolVariable, decimalPointIsComma: boolean): string {
+    if (!this.isNumeric(variable)) {
+      return `${variable.getByteSize()} bytes`;
+    }
+    const integerDigits = variable.getIntegerDigits(decimalPointIsComma);
+    const decimalDigits = variable.getDecimalDigits(decimalPointIsComma);
+    if (decimalDigits == 0) {
+      return `${integerDigits} integer digits`;
+    }
+    return `${integerDigits} integer and ${decimalDigits} decimal digits`;
+  }
+
+  /**
+   * Returns true if the variable is an elementary numeric item
+   *
+   * @param variable
+   */
+  private isNumeric(variable: CobolVariable): boolean {
+    return variable.getPicture() != "" && variable.getType() != Type.Alphanumeric;
+  }
+
+  /**
+   * Returns true if the variable is a group item
+   *
+   * @param variable
+   */
+  private isGroup(variable: CobolVariable): boolean {
+    const children = variable.getChildren();
+    return variable.getPicture() == "" && children != undefined && children.length > 0;
+  }
+
+  /**
+   * Returns true if the size of the operand in bytes is the size of the declaration, which isn't
+   * true for tables and reference modifications
+   *
+   * @param operand
+   */
+  private hasKnownByteSize(operand: StatementOperand): boolean {
+    return !operand.element.referenceModified && !/\soccurs\s/i.test(operand.variable.getRaw());
+  }
+
+  /**
+   * Returns the variables of the elements which can be checked
+   *
+   * @param context
+   * @param elements
+   */
+  private toOperands(context: NativeDiagnosticContext, elements: StatementElement[]): StatementOperand[] {
+    const operands: StatementOperand[] = [];
+    elements.forEach((element) => {
+      const operand = this.toOperand(context, element);
+      if (operand) {
+        operands.push(operand);
+      }
+    });
+    return operands;
+  }
+
+  /**
+   * Returns the variables of the elements which receive the result, with the ROUNDED following them
+   *
+   * @param context
+   * @param elements
+   */
+  private toTargets(context: NativeDiagnosticContext, elements: StatementElement[]): StatementTarget[] {
+    const targets: StatementTarget[] = [];
+    elements.forEach((element, index) => {
+      const operand = this.toOperand(context, element);
+      if (operand) {
+        const next = elements[index + 1];
+        targets.push({ element: operand.element, variable: operand.variable, rounded: next != undefined && next.text == "rounded" });
+      }
+    });
+    return targets;
+  }
+
+  /**
+   * Returns the variable of the element, if it's a variable with a picture or a group
+   *
+   * @param context
+   * @param element
+   */
+  private toOperand(context: NativeDiagnosticContext, element: StatementElement): StatementOperand | undefined {
+    if (!/^[a-z0-9]/.test(element.text) || !context.isUserWord(element.text)) {
+      return undefined;
+    }
+    const variable = context.findVariable(element.text);
+    if (!variable || (variable.getPicture() == "" && !this.isGroup(variable))) {
+      return undefined;
+    }
+    if (this.isNumeric(variable) && variable.getIntegerDigits(context.decimalPointIsComma) + variable.getDecimalDigits(context.decimalPointIsComma) == 0) {
+      return undefined;
+    }
+    return { element: element, variable: variable };
+  }
+
+  /**
+   * Returns the index of the element which ends the statement started before the index
+   *
+   * @param elements
+   * @param index
+   */
+  private findStatementEnd(elements: StatementElement[], index: number): number {
+    for (; index < elements.length; index++) {
+      const text = elements[index].text;
+      if (text == ".") {
+        return index;
+      }
+      if (CobolReservedWords.isReserved(text) && !STATEMENT_WORDS.includes(text) && !UNSUPPORTED_WORDS.includes(text)) {
+        return index;
+      }
+    }
+    return index;
+  }
+
+  /**
+   * Returns the elements of the procedure division, without the ones inside parenthesis.
+   * Paragraph declarations are returned as periods, as they end any statement
+   *
+   * @param context
+   */
+  private findElements(context: NativeDiagnosticContext): StatementElement[] {
+    const elements: StatementElement[] = [];
+    let depth = 0;
+    let previous: StatementElement | undefined;
+    context.lines.forEach((line, index) => {
+      if (!context.isProcedureLine(index) || !context.isCodeLine(index)) {
+        return;
+      }
+      if (context.isParagraphDeclaration(index)) {
+        elements.push({ text: ".", line: index, column: 0 });
+        depth = 0;
+        return;
+      }
+      const code = CobolTokenizer.stripCommentsAndLiterals(line);
+      const regex = /[a-zA-Z0-9][\w\-]*|[=\(\):]|\.(?=\s|$)/g;
+      let match = regex.exec(code);
+      while (match) {
+        const text = match[0];
+        if (text == "(") {
+          depth++;
+        } else if (text == ")") {
+          depth = Math.max(depth - 1, 0);
+        } else if (text == ":") {
+          if (depth > 0 && previous) {
+            previous.referenceModified = true;
+          }
+        } else if (depth == 0) {
+          previous = { text: text.replace(/-+$/, "").toLowerCase(), line: index, column: match.index };
+          elements.push(previous);
+        }
+        match = regex.exec(code);
+      }
+    });
+    return elements;
+  }
+
+}
@@ -0,0 +1,38 @@
+import { Diagnostic, DiagnosticSeverity, Range } from "vscode-languageserver";
+import { RuleInterface } from "./RuleInterface";
+import { NativeDiagnosticContext } from "./NativeDiagnosticContext";
+
+/** Code of the diagnostic */
+export const UNDECLARED_PARAGRAPH = "N002";
+
+/**
+ * Rule to find PERFORM and GO TO statements targeting paragraphs which are not declared
+ */
+export class UndeclaredParagraphRule implements RuleInterface {
+
+  public check(context: NativeDiagnosticContext): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    if (!context.resolved) {
+      return diagnostics;
+    }
+    context.lines.forEach((_line, index) => {
+      if (!context.isProcedureLine(index) || !context.isCodeLine(index)) {
+        return;
+      }
+      context.paragraphTargets(index).forEach((token) => {
+        if (context.isParagraph(token.text)) {
+          return;
+        }
+        diagnostics.push(Diagnostic.create(
+          Range.create(index, token.column, index, token.column + token.text.length),
+          `Paragraph "${token.text}" is not declared`,
+          DiagnosticSeverity.Error,
+          UNDECLARED_PARAGRAPH,
+          "cobol"
+        ));
+      });
+    });
+    return diagnostics;
+  }
+
+}
@@ -0,0 +1,50 @@
+import { Diagnostic, DiagnosticSeverity, Range } from "vscode-languageserver";
+import { RuleInterface } from "./RuleInterface";
+import { NativeDiagnosticContext } from "./NativeDiagnosticContext";
+import { CobolTokenizer } from "../../CobolTokenizer";
+
+/** Code of the diagnostic */
+export const UNDECLARED_VARIABLE = "N001";
+
+/**
+ * Rule to find variables used in the procedure division which are not declared
+ */
+export class UndeclaredVariableRule implements RuleInterface {
+
+  public check(context: NativeDiagnosticContext): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    if (!context.resolved) {
+      return diagnostics;
+    }
+    context.lines.forEach((line, index) => {
+      if (!context.isProcedureLine(index) || !context.isCodeLine(index) || context.isParagraphDeclaration(index)) {
+        return;
+      }
+      const code = CobolTokenizer.stripCommentsAndLiterals(line);
+      const tokens = context.tokens(index);
+      const paragraphs = context.paragraphTargets(index);
+      tokens.forEach((token, i) => {
+        if (!context.isUserWord(token.text) || paragraphs.includes(token)) {
+          return;
+        }
+        if (context.isVariable(token.text) || context.isParagraph(token.text)) {
+          return;
+        }
+        // Methods and intrinsic functions
+        const before = code.substring(0, token.column).trimRight();
+        if (before.endsWith(":>") || before.endsWith("::") || (i > 0 && tokens[i - 1].text.toLowerCase() == "function")) {
+          return;
+        }
+        diagnostics.push(Diagnostic.create(
+          Range.create(index, token.column, index, token.column + token.text.length),
+          `Variable "${token.text}" is not declared`,
+          DiagnosticSeverity.Error,
+          UNDECLARED_VARIABLE,
+          "cobol"
+        ));
+      });
+    });
+    return diagnostics;
+  }
+
+}
@@ -0,0 +1,114 @@
+import { Diagnostic, DiagnosticSeverity, DiagnosticTag, Range } from "vscode-languageserver";
+import { RuleInterface } from "./RuleInterface";
+import { NativeDiagnosticContext } from "./NativeDiagnosticContext";
+import { ControlFlowGraph } from "../../../sourceflow/parser/ControlFlowGraph";
+import { CobolTokenizer } from "../../CobolTokenizer";
+
+/** Code of the diagnostic of the paragraphs never performed nor reached */
+export const UNREACHABLE_PARAGRAPH = "N011";
+/** Code of the diagnostic of the statements after the end of the flow of the paragraph */
+export const UNREACHABLE_STATEMENT = "N012";
+
+/**
+ * Rule to find the paragraphs never performed nor reached by fall-through or GO TO, and the statements
+ * after an unconditional GO TO, STOP RUN, GOBACK or EXIT PROGRAM
+ */
+export class UnreachableCodeRule implements RuleInterface {
+
+  public check(context: NativeDiagnosticContext): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const procedureLines = context.lines.map((_line, index) => index).filter((index) => context.isProcedureLine(index));
+    if (!context.resolved || procedureLines.length == 0) {
+      return diagnostics;
+    }
+    const graph = new ControlFlowGraph(context.lines);
+    // Copies inside the procedure division may perform any paragraph
+    const copyInProcedure = procedureLines.some((index) => /^\s+copy\s/i.test(context.lines[index]));
+    const reachable = graph.getReachable();
+    const declaratives = this.findDeclaratives(context.lines);
+    graph.getParagraphs().forEach((paragraph) => {
+      if (!copyInProcedure && !reachable.has(paragraph) && !declaratives.some(([start, end]) => paragraph.line > start && paragraph.line < end)) {
+        diagnostics.push(this.createDiagnostic(
+          Range.create(paragraph.line, 0, paragraph.endLine, context.lines[paragraph.endLine].length),
+          `Paragraph "${paragraph.name}" is never performed nor reached`,
+          UNREACHABLE_PARAGRAPH
+        ));
+      }
+      if (paragraph.exitLine !== undefined) {
+        const statements = this.deadStatements(context, paragraph.exitLine + 1, paragraph.endLine);
+        if (statements) {
+          diagnostics.push(this.createDiagnostic(statements, "Statements are never executed", UNREACHABLE_STATEMENT));
+        }
+      }
+    });
+    return diagnostics;
+  }
+
+  /**
+   * Returns the range of the statements between the lines, ignoring the period which ends the sentence
+   * so it's kept when the statements are removed
+   *
+   * @param context
+   * @param start
+   * @param end
+   */
+  private deadStatements(context: NativeDiagnosticContext, start: number, end: number): Range | undefined {
+    const lines: number[] = [];
+    for (let line = start; line <= end; line++) {
+      if (context.isCodeLine(line) && context.tokens(line).length > 0) {
+        lines.push(line);
+      }
+    }
+    if (lines.length == 0) {
+      return undefined;
+    }
+    const first = lines[0];
+    const last = lines[lines.length - 1];
+    return Range.create(first, context.tokens(first)[0].column, last, this.sentenceEnd(context.lines[last]));
+  }
+
+  /**
+   * Returns the column where the code of the line ends, before the period which ends the sentence and the commentary
+   *
+   * @param line
+   */
+  private sentenceEnd(line: string): number {
+    const code = CobolTokenizer.stripCommentsAndLiterals(line);
+    let end = line.substring(0, code.length).trimRight().length;
+    if (code.trimRight().endsWith(".")) {
+      end = line.substring(0, end - 1).trimRight().length;
+    }
+    return end;
+  }
+
+  /**
+   * Returns the first and last lines of each DECLARATIVES block, whose sections are executed by the USE statements
+   *
+   * @param lines
+   */
+  private findDeclaratives(lines: string[]): [number, number][] {
+    const blocks: [number, number][] = [];
+    lines.forEach((line, index) => {
+      if (/^\s+declaratives\s*\./i.test(line)) {
+        blocks.push([index, lines.length]);
+      } else if (/^\s+end\s+declaratives\s*\./i.test(line) && blocks.length > 0) {
+        blocks[blocks.length - 1][1] = index;
+      }
+    });
+    return blocks;
+  }
+
+  /**
+   * Creates the diagnostic of the code which is never executed, rendered as unnecessary
+   *
+   * @param range
+   * @param message
+   * @param code
+   */
+  private createDiagnostic(range: Range, message: string, code: string): Diagnostic {
+    const diagnostic = Diagnostic.create(range, message, DiagnosticSeverity.Hint, code, "cobol");
+    diagnostic.tags = [DiagnosticTag.Unnecessary];
+    return diagnostic;
+  }
+
+}
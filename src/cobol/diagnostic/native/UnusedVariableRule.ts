@@ -0,0 +1,76 @@
+import { Diagnostic, DiagnosticSeverity, Range } from "vscode-languageserver";
+import { RuleInterface } from "./RuleInterface";
+import { NativeDiagnosticContext } from "./NativeDiagnosticContext";
+import { ParserCobol } from "../../parsercobol";
+
+/** Code of the diagnostic, the same one reported by the preprocessor */
+export const UNUSED_VARIABLE = "W028";
+
+/**
+ * Working-storage record being checked
+ */
+interface CheckedRecord {
+  name: string;
+  line: number;
+  column: number;
+  used: boolean;
+}
+
+/**
+ * Rule to find working-storage records which neither they nor their items are used
+ */
+export class UnusedVariableRule implements RuleInterface {
+
+  public check(context: NativeDiagnosticContext): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    if (!context.resolved) {
+      return diagnostics;
+    }
+    const parser = new ParserCobol();
+    const report = (record?: CheckedRecord) => {
+      if (record && !record.used) {
+        diagnostics.push(Diagnostic.create(
+          Range.create(record.line, record.column, record.line, record.column + record.name.length),
+          `Variable "${record.name}" is never used`,
+          DiagnosticSeverity.Warning,
+          UNUSED_VARIABLE,
+          "cobol"
+        ));
+      }
+    };
+    let workingStorage = false;
+    let record: CheckedRecord | undefined;
+    context.lines.forEach((line, index) => {
+      const section = parser.getSectionDeclaration(line);
+      if (section || parser.getDivisionDeclaration(line)) {
+        report(record);
+        record = undefined;
+        workingStorage = section != undefined && section.toLowerCase() == "working-storage";
+        return;
+      }
+      const name = workingStorage ? parser.getDeclaracaoVariavel(line) : undefined;
+      if (!name) {
+        return;
+      }
+      const tokens = context.tokens(index);
+      const level = Number.parseInt(tokens[0].text);
+      if (Number.isNaN(level)) {
+        return;
+      }
+      if (level == 1 || level == 77 || level == 78) {
+        report(record);
+        record = undefined;
+        // Records with replacing tags and fillers can't be referenced by name
+        if (level != 78 && !name.startsWith("-") && name.toLowerCase() != "filler" && tokens.length > 1) {
+          record = { name: name, line: index, column: tokens[1].column, used: false };
+        }
+      }
+      if (record && context.isReferenced(name)) {
+        record.used = true;
+      }
+    });
+    report(record);
+    return diagnostics;
+  }
+
+}
@@ -0,0 +1,64 @@
+import { BufferSplitter } from "rech-ts-commons";
+import { DiagnosticOutputParserInterface, ParsedDiagnostic } from "./DiagnosticOutputParserInterface";
+
+/**
+ * Output format configured by the user
+ */
+export interface CustomOutputFormat {
+  /** Name used to select the format */
+  name: string;
+  /** Regular expression matching one diagnostic line */
+  pattern: string;
+  /** Group of the message */
+  message: number;
+  /** Group of the line */
+  line: number;
+  /** Group of the file, when absent the diagnosed file is used */
+  file?: number;
+  /** Group of the severity, when absent every diagnostic is an error */
+  severity?: number;
+  /** Regular expression matching the severities which are errors */
+  errorSeverity?: string;
+  /** Group of the diagnostic identifier */
+  code?: number;
+}
+
+/**
+ * Parser of outputs with the format configured by the user
+ */
+export class CustomOutputParser implements DiagnosticOutputParserInterface {
+
+  /** Format of the output */
+  private format: CustomOutputFormat;
+
+  constructor(format: CustomOutputFormat) {
+    this.format = format;
+  }
+
+  public parse(output: string, fileName: string): ParsedDiagnostic[] {
+    const diagnostics: ParsedDiagnostic[] = [];
+    const pattern = new RegExp(this.format.pattern, "i");
+    const errorSeverity = new RegExp(this.format.errorSeverity || "^(e|error|s|severe|u|fatal)$", "i");
+    const group = (match: RegExpExecArray, index?: number) => index != undefined && match[index] != undefined ? match[index].trim() : undefined;
+    BufferSplitter.split(output).forEach((currentLine) => {
+      const match = pattern.exec(currentLine);
+      if (!match) {
+        return;
+      }
+      const line = Number.parseInt(group(match, this.format.line) || "");
+      if (Number.isNaN(line)) {
+        return;
+      }
+      const severity = group(match, this.format.severity);
+      diagnostics.push({
+        message: group(match, this.format.message) || "",
+        file: (group(match, this.format.file) || fileName).replace(/^.*[\\\/]/, ""),
+        line: line,
+        error: this.format.severity == undefined || (severity != undefined && errorSeverity.test(severity)),
+        code: group(match, this.format.code)
+      });
+    });
+    return diagnostics;
+  }
+
+}
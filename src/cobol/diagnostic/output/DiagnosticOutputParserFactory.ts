@@ -0,0 +1,46 @@
+import { DiagnosticOutputParserInterface } from "./DiagnosticOutputParserInterface";
+import { RechPreprocessorOutputParser } from "./RechPreprocessorOutputParser";
+import { GnuCobolOutputParser } from "./GnuCobolOutputParser";
+import { MicroFocusOutputParser } from "./MicroFocusOutputParser";
+import { CustomOutputParser, CustomOutputFormat } from "./CustomOutputParser";
+import { Log } from "../../../commons/Log";
+
+/** Name of the default output format */
+export const DEFAULT_OUTPUT_FORMAT = "rech";
+
+/**
+ * Factory to create the parser of the configured diagnostic output format
+ */
+export class DiagnosticOutputParserFactory {
+
+  /**
+   * Creates the parser of the output format
+   *
+   * @param format name of a built-in format or of a custom one
+   * @param customFormats formats configured by the user
+   */
+  public static create(format: string, customFormats: CustomOutputFormat[]): DiagnosticOutputParserInterface {
+    const custom = customFormats.find((customFormat) => customFormat.name == format);
+    if (custom) {
+      try {
+        new RegExp(custom.pattern);
+        return new CustomOutputParser(custom);
+      } catch (e) {
+        Log.get().error(`Invalid pattern in the diagnostic output format ${format}: ${e}`);
+        return new RechPreprocessorOutputParser();
+      }
+    }
+    switch (format.toLowerCase()) {
+      case "rech":
+        return new RechPreprocessorOutputParser();
+      case "gnucobol":
+        return new GnuCobolOutputParser();
+      case "microfocus":
+        return new MicroFocusOutputParser();
+      default:
+        Log.get().warning(`Diagnostic output format ${format} not found, using ${DEFAULT_OUTPUT_FORMAT}`);
+        return new RechPreprocessorOutputParser();
+    }
+  }
+
+}
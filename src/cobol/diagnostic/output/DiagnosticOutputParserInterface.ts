@@ -0,0 +1,29 @@
+/**
+ * Diagnostic found in the output of a compiler or preprocessor
+ */
+export interface ParsedDiagnostic {
+  /** Message of the diagnostic */
+  message: string;
+  /** Name of the file where the diagnostic was found, without the directory */
+  file: string;
+  /** Line of the diagnostic, starting at 1 */
+  line: number;
+  /** True if the diagnostic is an error, otherwise it's a warning */
+  error: boolean;
+  /** Identifier of the diagnostic, when the output has one apart from the message */
+  code?: string;
+}
+
+/**
+ * Interface of the parsers of compiler and preprocessor outputs
+ */
+export interface DiagnosticOutputParserInterface {
+
+  /**
+   * Returns the diagnostics found in the output
+   *
+   * @param output output of the compiler or preprocessor
+   * @param fileName name of the diagnosed file, used when the output doesn't tell the file
+   */
+  parse(output: string, fileName: string): ParsedDiagnostic[];
+}
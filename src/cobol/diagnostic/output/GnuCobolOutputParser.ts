@@ -0,0 +1,32 @@
+import { BufferSplitter } from "rech-ts-commons";
+import { DiagnosticOutputParserInterface, ParsedDiagnostic } from "./DiagnosticOutputParserInterface";
+
+/**
+ * Parser of the output of GnuCOBOL, like:
+ *
+ * prog.cob:12: error: 'w-total' is not defined
+ * prog.cob:15: warning: redundant PERIOD [-Wothers]
+ */
+export class GnuCobolOutputParser implements DiagnosticOutputParserInterface {
+
+  public parse(output: string, _fileName: string): ParsedDiagnostic[] {
+    const diagnostics: ParsedDiagnostic[] = [];
+    const pattern = /^(.+?):(\d+):(?:\d+:)?\s*(error|warning):\s*(.*)$/i;
+    BufferSplitter.split(output).forEach((currentLine) => {
+      const match = pattern.exec(currentLine.trim());
+      if (!match) {
+        return;
+      }
+      const flag = /\s*\[(-W[\w\-]+)\]$/.exec(match[4]);
+      diagnostics.push({
+        message: flag ? match[4].substring(0, flag.index) : match[4],
+        file: match[1].replace(/^.*[\\\/]/, ""),
+        line: Number.parseInt(match[2]),
+        error: match[3].toLowerCase() == "error",
+        code: flag ? flag[1] : undefined
+      });
+    });
+    return diagnostics;
+  }
+
+}
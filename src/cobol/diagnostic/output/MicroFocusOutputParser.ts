@@ -0,0 +1,40 @@
+import { BufferSplitter } from "rech-ts-commons";
+import { DiagnosticOutputParserInterface, ParsedDiagnostic } from "./DiagnosticOutputParserInterface";
+
+/**
+ * Parser of the Micro Focus checker output, where the error marker and the message
+ * follow the listed source line, like:
+ *
+ *     15     MOVE W-A TO W-B
+ * *  12-S********************                                    (   0)**
+ * **    Operand W-B is not declared
+ */
+export class MicroFocusOutputParser implements DiagnosticOutputParserInterface {
+
+  public parse(output: string, fileName: string): ParsedDiagnostic[] {
+    const diagnostics: ParsedDiagnostic[] = [];
+    const file = fileName.replace(/^.*[\\\/]/, "");
+    let sourceLine = 0;
+    let pending: ParsedDiagnostic | undefined;
+    BufferSplitter.split(output).forEach((currentLine) => {
+      const marker = /^\*\s*(\d+)-([USEWI])\*+/.exec(currentLine);
+      if (marker) {
+        pending = { message: "", file: file, line: sourceLine, error: "USE".includes(marker[2]), code: marker[1] + "-" + marker[2] };
+        return;
+      }
+      const message = /^\*\*\s+(.*)$/.exec(currentLine);
+      if (message && pending) {
+        pending.message = message[1].trim();
+        diagnostics.push(pending);
+        pending = undefined;
+        return;
+      }
+      const listed = /^\s*(\d+)\s/.exec(currentLine);
+      if (listed) {
+        sourceLine = Number.parseInt(listed[1]);
+      }
+    });
+    return diagnostics;
+  }
+
+}
@@ -0,0 +1,23 @@
+import { BufferSplitter } from "rech-ts-commons";
+import { DiagnosticOutputParserInterface, ParsedDiagnostic } from "./DiagnosticOutputParserInterface";
+
+/**
+ * Parser of the output of the Rech preprocessor, like:
+ *
+ * *** Warning: [W028] Variable not used; file = PROGRAMA.CBL, line = 12 (Erro)
+ */
+export class RechPreprocessorOutputParser implements DiagnosticOutputParserInterface {
+
+  public parse(output: string, _fileName: string): ParsedDiagnostic[] {
+    const diagnostics: ParsedDiagnostic[] = [];
+    const pattern = /\*\*\*\sWarning:\s(.*);\sfile\s=\s([A-Za-z0-9.]+),\sline\s=\s(\d+)\s?(\(Erro\))?/;
+    BufferSplitter.split(output).forEach((currentLine) => {
+      const match = pattern.exec(currentLine);
+      if (match) {
+        diagnostics.push({ message: match[1], file: match[2], line: Number.parseInt(match[3]), error: match[4] != undefined });
+      }
+    });
+    return diagnostics;
+  }
+
+}
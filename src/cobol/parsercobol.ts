@@ -112,7 +112,7 @@ export class ParserCobol {
    *
    * @param line
    */
-  private getDeclaracaoSelect(line: string): string | undefined {
+  public getDeclaracaoSelect(line: string): string | undefined {
     const match = /^ +SELECT ([\w\-]+)\s+ASSIGN.*/i.exec(line);
     if (match == null) {
       return undefined;
@@ -152,6 +152,58 @@ export class ParserCobol {
     return match[1];
   }
 
+  /**
+   * Returns the class declared by the class-id in the line
+   *
+   * @param line
+   */
+  public getClassIdDeclaration(line: string): string | undefined {
+    const match = /^ +CLASS-ID\.\s+([\w\-]+)[\s\.]*.*/i.exec(line);
+    if (match == null) {
+      return undefined;
+    }
+    return match[1];
+  }
+
+  /**
+   * Returns the division declared in the line
+   *
+   * @param line
+   */
+  public getDivisionDeclaration(line: string): string | undefined {
+    const match = /^ +([\w\-]+)\s+DIVISION[\s\.]*.*/i.exec(line);
+    if (match == null) {
+      return undefined;
+    }
+    return match[1];
+  }
+
+  /**
+   * Returns the section declared in the line
+   *
+   * @param line
+   */
+  public getSectionDeclaration(line: string): string | undefined {
+    const match = /^ +([\w\-]+)\s+SECTION\s*\..*/i.exec(line);
+    if (match == null) {
+      return undefined;
+    }
+    return match[1];
+  }
+
+  /**
+   * Returns the file description (FD or SD) declared in the line
+   *
+   * @param line
+   */
+  public getFileDescriptionDeclaration(line: string): string | undefined {
+    const match = /^ +(?:FD|SD)\s+([\w\-]+)[\s\.]*.*/i.exec(line);
+    if (match == null) {
+      return undefined;
+    }
+    return match[1];
+  }
+
   /**
    * Compare two terms ignoring replacing
    *
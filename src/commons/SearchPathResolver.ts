@@ -0,0 +1,119 @@
+import { File } from "./file";
+import { Path } from "./path";
+
+/**
+ * Search path of a workspace folder, which overrides the default one for the files inside the folder
+ */
+export interface FolderSearchPath {
+  folder: string;
+  searchPath: string[];
+}
+
+/**
+ * Class to resolve the copies and sources through the configured search path.
+ *
+ * The directory of the file which references the copy or source is searched first, then the directories
+ * of the search path in order. Environment variables like ${env:NAME}, ${NAME}, $NAME and %NAME% are expanded,
+ * and ${workspaceFolder} is replaced by the folder which overrides the search path
+ */
+export class SearchPathResolver {
+
+  /** Search path used when the file isn't inside a folder with its own search path */
+  private static defaultSearchPath: string[] = [];
+  /** Search paths of the workspace folders */
+  private static folderSearchPaths: FolderSearchPath[] = [];
+
+  /**
+   * Configures the search paths
+   *
+   * @param defaultSearchPath search path used when the file isn't inside a folder with its own search path
+   * @param folderSearchPaths search paths of the workspace folders
+   */
+  public static configure(defaultSearchPath: string[], folderSearchPaths?: FolderSearchPath[]) {
+    SearchPathResolver.defaultSearchPath = defaultSearchPath;
+    SearchPathResolver.folderSearchPaths = folderSearchPaths || [];
+  }
+
+  /**
+   * Returns the directories of the search path of the file, with the final separator and the variables expanded
+   *
+   * @param referencingFile file which references the copies or sources
+   */
+  public static getSearchPath(referencingFile?: string): string[] {
+    const folder = referencingFile ? SearchPathResolver.findFolder(referencingFile) : undefined;
+    const searchPath = folder ? folder.searchPath : SearchPathResolver.defaultSearchPath;
+    return searchPath
+      .map((directory) => SearchPathResolver.expandVariables(directory, folder ? folder.folder : undefined).trim())
+      .filter((directory) => directory != "")
+      .map((directory) => SearchPathResolver.normalize(/[\\\/]$/.test(directory) ? directory : directory + Path.sep()));
+  }
+
+  /**
+   * Returns the full name of the file found in the directory of the referencing file or in the search path
+   *
+   * @param fileName name of the copy or source, like COPY.CPY
+   * @param referencingFile file which references the copy or source
+   */
+  public static resolve(fileName: string, referencingFile?: string): string | undefined {
+    const directories = SearchPathResolver.getSearchPath(referencingFile);
+    if (referencingFile) {
+      const match = /^.*[\\\/]/.exec(referencingFile);
+      if (match) {
+        directories.unshift(SearchPathResolver.normalize(match[0]));
+      }
+    }
+    for (const directory of directories) {
+      for (const candidate of [fileName, fileName.toUpperCase(), fileName.toLowerCase()]) {
+        const file = new File(directory + candidate);
+        if (file.exists()) {
+          return file.fileName;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Expands the environment variables and the workspace folder of the directory
+   *
+   * @param directory
+   * @param folder
+   */
+  public static expandVariables(directory: string, folder?: string): string {
+    const env = (name: string) => process.env[name] || "";
+    return directory
+      .replace(/\$\{workspaceFolder\}/g, () => folder || "")
+      .replace(/\$\{env:([\w]+)\}/g, (_match, name) => env(name))
+      .replace(/\$\{([\w]+)\}/g, (_match, name) => env(name))
+      .replace(/\$([A-Za-z_]\w*)/g, (_match, name) => env(name))
+      .replace(/%([\w]+)%/g, (_match, name) => env(name));
+  }
+
+  /**
+   * Returns the folder with its own search path which contains the file, the innermost one when they are nested
+   *
+   * @param file
+   */
+  private static findFolder(file: string): FolderSearchPath | undefined {
+    const normalizedFile = SearchPathResolver.normalize(file).toLowerCase();
+    let result: FolderSearchPath | undefined;
+    SearchPathResolver.folderSearchPaths.forEach((folderSearchPath) => {
+      let folder = SearchPathResolver.normalize(folderSearchPath.folder).toLowerCase();
+      folder = folder.endsWith(Path.sep()) ? folder : folder + Path.sep();
+      if (normalizedFile.startsWith(folder) && (!result || result.folder.length < folderSearchPath.folder.length)) {
+        result = folderSearchPath;
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Returns the path with the separators of the current platform
+   *
+   * @param path
+   */
+  private static normalize(path: string): string {
+    return path.replace(/[\\\/]/g, Path.sep());
+  }
+
+}
@@ -106,7 +106,7 @@ export class VariableUtils {
             }
             match = /^ *method-id[\.]?\s(.+)[\.]?\s*$/i.exec(currentLine)
             if (match) {
-                section = match[1].split(" ")[0];
+                section = match[1].trim().split(" ")[0];
                 break;
             }
             if (/^.*data\s+division[\.\,]?\s*$/i.test(currentLine)) {
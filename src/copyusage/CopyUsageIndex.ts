@@ -0,0 +1,192 @@
+import { BufferSplitter } from "rech-ts-commons";
+import { ParserCobol } from "../cobol/parsercobol";
+import { CobolCopy } from "../cobol/CobolCopy";
+import { CobolTokenizer } from "../cobol/CobolTokenizer";
+import { File } from "../commons/file";
+import { Log } from "../commons/Log";
+import { SearchPathResolver } from "../commons/SearchPathResolver";
+import { WorkspaceSymbolIndex } from "../lsp/symbol/WorkspaceSymbolIndex";
+
+/**
+ * COPY statement found in a file of the workspace
+ */
+export interface CopyUsage {
+    /** File which declares the COPY statement */
+    file: string;
+    /** Line of the COPY statement */
+    line: number;
+    /** Name of the copy with its extension, like CLIENTE.CPY */
+    copy: string;
+    /** Replacings of the COPY statement */
+    replacings: Map<string, string>;
+}
+
+/**
+ * Class to find where the copies are used and which copies each file uses, scanning the files of the workspace
+ */
+export class CopyUsageIndex {
+
+    /** COPY statements of each file of the workspace */
+    private usages: Map<string, CopyUsage[]> | undefined;
+    /** Promise of the index being built */
+    private building: Promise<void> | undefined;
+
+    /**
+     * Creates the index of the workspace
+     *
+     * @param roots root directories of the workspace
+     */
+    constructor(private roots: string[]) { }
+
+    /**
+     * Returns the COPY statements which declare the copy
+     *
+     * @param copy name of the copy with its extension
+     */
+    public findIncludedBy(copy: string): Promise<CopyUsage[]> {
+        return new Promise((resolve, reject) => {
+            this.load().then(() => {
+                const upperCopy = copy.toUpperCase();
+                const result: CopyUsage[] = [];
+                this.usages!.forEach((usages) => {
+                    usages.filter((usage) => usage.copy.toUpperCase() == upperCopy).forEach((usage) => result.push(usage));
+                });
+                return resolve(result);
+            }).catch((e) => reject(e));
+        });
+    }
+
+    /**
+     * Returns the COPY statements declared in the file
+     *
+     * @param file
+     */
+    public findIncludes(file: string): Promise<CopyUsage[]> {
+        return new Promise((resolve, reject) => {
+            this.load().then(() => {
+                const usages = this.usages!.get(file);
+                if (usages) {
+                    return resolve(usages);
+                }
+                const indexedFile = this.findIndexedFile(file);
+                if (indexedFile) {
+                    return resolve(this.usages!.get(indexedFile)!);
+                }
+                new File(file).loadBuffer("latin1").then((buffer) => {
+                    return resolve(CopyUsageIndex.extractUsages(file, BufferSplitter.split(buffer)));
+                }).catch(() => resolve([]));
+            }).catch((e) => reject(e));
+        });
+    }
+
+    /**
+     * Returns the file of the copy used by the COPY statement, searched in the workspace and then in the search path
+     *
+     * @param usage
+     */
+    public findCopyFile(usage: CopyUsage): Promise<string | undefined> {
+        return new Promise((resolve, reject) => {
+            this.load().then(() => {
+                const candidates = Array.from(this.usages!.keys()).filter((file) => CopyUsageIndex.fileName(file).toUpperCase() == usage.copy.toUpperCase());
+                const directory = usage.file.substring(0, usage.file.length - CopyUsageIndex.fileName(usage.file).length).toUpperCase();
+                const sameDirectory = candidates.find((file) => file.toUpperCase().startsWith(directory));
+                if (sameDirectory || candidates.length > 0) {
+                    return resolve(sameDirectory || candidates[0]);
+                }
+                return resolve(SearchPathResolver.resolve(usage.copy, usage.file));
+            }).catch((e) => reject(e));
+        });
+    }
+
+    /**
+     * Updates the COPY statements of a saved file
+     *
+     * @param file
+     * @param text
+     */
+    public updateFile(file: string, text: string) {
+        if (this.usages) {
+            this.usages.set(this.findIndexedFile(file) || file, CopyUsageIndex.extractUsages(file, BufferSplitter.split(text)));
+        }
+    }
+
+    /**
+     * Returns the COPY statements of the lines
+     *
+     * @param file
+     * @param lines
+     */
+    public static extractUsages(file: string, lines: string[]): CopyUsage[] {
+        const parser = new ParserCobol();
+        const result: CopyUsage[] = [];
+        lines.forEach((line, index) => {
+            if (CobolTokenizer.isComment(line) || !parser.getCopyDeclaration(line)) {
+                return;
+            }
+            const match = /copy\s+([\w\-]+\.(?:cpy|cpb))/i.exec(line);
+            if (match) {
+                result.push({ file: file, line: index, copy: match[1], replacings: CobolCopy.getReplacingList(index, lines) });
+            }
+        });
+        return result;
+    }
+
+    /**
+     * Loads the index, building it on the first call
+     */
+    private load(): Promise<void> {
+        if (this.usages) {
+            return Promise.resolve();
+        }
+        if (!this.building) {
+            this.building = this.build();
+        }
+        return this.building;
+    }
+
+    /**
+     * Builds the index reading the Cobol files of the workspace
+     */
+    private build(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            Log.get().info("Building the copy usage index");
+            Promise.all(this.roots.map((root) => WorkspaceSymbolIndex.listFiles(root))).then(async (roots) => {
+                const usages = new Map<string, CopyUsage[]>();
+                for (const file of ([] as string[]).concat(...roots)) {
+                    try {
+                        const buffer = await new File(file).loadBuffer("latin1");
+                        usages.set(file, CopyUsageIndex.extractUsages(file, BufferSplitter.split(buffer)));
+                    } catch (e) {
+                        Log.get().warning(`Could not index the copies of ${file}: ${e}`);
+                    }
+                }
+                this.usages = usages;
+                Log.get().info(`Copy usage index built with ${usages.size} files`);
+                return resolve();
+            }).catch((e) => {
+                this.building = undefined;
+                return reject(e);
+            });
+        });
+    }
+
+    /**
+     * Returns the indexed file with the same name, ignoring the case and the separators
+     *
+     * @param file
+     */
+    private findIndexedFile(file: string): string | undefined {
+        const normalized = file.replace(/[\\\/]/g, "/").toUpperCase();
+        return Array.from(this.usages!.keys()).find((indexedFile) => indexedFile.replace(/[\\\/]/g, "/").toUpperCase() == normalized);
+    }
+
+    /**
+     * Returns the name of the file without the directory
+     *
+     * @param file
+     */
+    private static fileName(file: string): string {
+        return file.replace(/^.*[\\\/]/, "");
+    }
+
+}
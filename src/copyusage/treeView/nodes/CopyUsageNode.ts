@@ -0,0 +1,126 @@
+import { TreeItem, TreeItemCollapsibleState } from "vscode";
+import * as path from 'path';
+import NodeInterface from "../../../sourceflow/treeView/nodes/NodeInterface";
+import { CopyUsage, CopyUsageIndex } from "../../CopyUsageIndex";
+
+/**
+ * Node which groups the COPY statements in one direction of the inclusion hierarchy
+ */
+export class CopyUsageGroupNode implements NodeInterface {
+
+    /**
+     * Creates the group node
+     *
+     * @param label label of the group
+     * @param file file whose inclusion hierarchy is shown
+     * @param includedBy true to show the files which include the file, false to show the copies included by the file
+     * @param index copy usage index
+     */
+    constructor(private label: string, private file: string, private includedBy: boolean, private index: CopyUsageIndex) { }
+
+    public getTreeItem(): TreeItem {
+        return new TreeItem(this.label, TreeItemCollapsibleState.Expanded);
+    }
+
+    public getChildren(): Promise<NodeInterface[]> {
+        const visited = [path.basename(this.file).toUpperCase()];
+        if (this.includedBy) {
+            return CopyUsageNode.createIncludedByNodes(this.file, this.index, visited);
+        }
+        return CopyUsageNode.createIncludesNodes(this.file, this.index, visited);
+    }
+
+}
+
+/**
+ * Node of a COPY statement of the inclusion hierarchy
+ */
+export default class CopyUsageNode implements NodeInterface {
+
+    /**
+     * Creates the node of the COPY statement
+     *
+     * @param usage COPY statement
+     * @param includedBy true if the node is in the "included by" direction
+     * @param index copy usage index
+     * @param visited names of the files already shown in the path of this node, to avoid cycles
+     */
+    constructor(private usage: CopyUsage, private includedBy: boolean, private index: CopyUsageIndex, private visited: string[]) { }
+
+    public getTreeItem(): TreeItem {
+        const name = this.includedBy ? path.basename(this.usage.file) : this.usage.copy.toUpperCase();
+        const recursive = this.visited.includes(this.getNextFileName());
+        const item = new TreeItem(`${name}:${this.usage.line + 1}`, recursive ? TreeItemCollapsibleState.None : TreeItemCollapsibleState.Collapsed);
+        const replacings: string[] = [];
+        this.usage.replacings.forEach((value, key) => replacings.push(`${key} by ${value}`));
+        item.description = (recursive ? "(recursive) " : "") + replacings.join(", ");
+        item.tooltip = `${this.usage.file}:${this.usage.line + 1}`;
+        item.contextValue = "copyUsageSite";
+        item.command = { command: "rech.editor.cobol.openCopyUsage", title: "Open", arguments: [this] };
+        item.iconPath = {
+            dark: path.join(__filename, '..', '..', '..', '..', '..', 'images', 'nodes-dark.svg'),
+            light: path.join(__filename, '..', '..', '..', '..', '..', 'images', 'nodes-light.svg'),
+        };
+        return item;
+    }
+
+    public getChildren(): Promise<NodeInterface[]> {
+        const visited = this.visited.concat(this.getNextFileName());
+        if (this.includedBy) {
+            return CopyUsageNode.createIncludedByNodes(this.usage.file, this.index, visited);
+        }
+        return new Promise((resolve, reject) => {
+            this.index.findCopyFile(this.usage).then((file) => {
+                if (!file) {
+                    return resolve([]);
+                }
+                CopyUsageNode.createIncludesNodes(file, this.index, visited).then((nodes) => resolve(nodes)).catch((e) => reject(e));
+            }).catch((e) => reject(e));
+        });
+    }
+
+    /**
+     * Returns the COPY statement
+     */
+    public getUsage(): CopyUsage {
+        return this.usage;
+    }
+
+    /**
+     * Creates the nodes of the COPY statements which include the file
+     *
+     * @param file
+     * @param index
+     * @param visited
+     */
+    public static createIncludedByNodes(file: string, index: CopyUsageIndex, visited: string[]): Promise<NodeInterface[]> {
+        return new Promise((resolve, reject) => {
+            index.findIncludedBy(path.basename(file)).then((usages) => {
+                return resolve(usages.map((usage) => new CopyUsageNode(usage, true, index, visited)));
+            }).catch((e) => reject(e));
+        });
+    }
+
+    /**
+     * Creates the nodes of the COPY statements declared in the file
+     *
+     * @param file
+     * @param index
+     * @param visited
+     */
+    public static createIncludesNodes(file: string, index: CopyUsageIndex, visited: string[]): Promise<NodeInterface[]> {
+        return new Promise((resolve, reject) => {
+            index.findIncludes(file).then((usages) => {
+                return resolve(usages.map((usage) => new CopyUsageNode(usage, false, index, visited)));
+            }).catch((e) => reject(e));
+        });
+    }
+
+    /**
+     * Returns the name of the file expanded by the children of this node
+     */
+    private getNextFileName(): string {
+        return (this.includedBy ? path.basename(this.usage.file) : this.usage.copy).toUpperCase();
+    }
+
+}
@@ -0,0 +1,86 @@
+import { TreeDataProvider, EventEmitter, TreeItem, ProviderResult, commands, window, workspace, Uri, Range } from "vscode";
+import * as path from 'path';
+import { Event } from "vscode-jsonrpc";
+import NodeInterface from "../../../sourceflow/treeView/nodes/NodeInterface";
+import CopyUsageNode, { CopyUsageGroupNode } from "../nodes/CopyUsageNode";
+import { CopyUsageIndex } from "../../CopyUsageIndex";
+import { CopyUsageLocator } from "../../../lsp/completion/copy/CopyUsageLocator";
+
+/**
+ * Provider of the copy inclusion hierarchy
+ */
+export default class CopyUsageProvider implements TreeDataProvider<NodeInterface> {
+
+    /** Index of the COPY statements of the workspace */
+    private index: CopyUsageIndex;
+    /** File whose inclusion hierarchy is shown */
+    private file: string | undefined;
+
+    /** Controls the TreeData Events */
+    private _onDidChangeTreeData: EventEmitter<NodeInterface | undefined> = new EventEmitter<NodeInterface | undefined>();
+    public onDidChangeTreeData: Event<NodeInterface | undefined> = this._onDidChangeTreeData.event;
+
+    /**
+     * Build a new Copy Usage Provider
+     */
+    constructor(context: any) {
+        this.index = this.createIndex();
+        context.subscriptions.push(commands.registerCommand('rech.editor.cobol.copyUsage', () => {
+            const editor = window.activeTextEditor;
+            if (!editor) return;
+            this.file = editor.document.fileName;
+            this.refresh();
+            commands.executeCommand("cobolcopyusageview.focus").then(undefined, () => {});
+        }));
+        context.subscriptions.push(commands.registerCommand('rech.editor.cobol.refreshCopyUsage', () => {
+            this.index = this.createIndex();
+            this.refresh();
+        }));
+        context.subscriptions.push(commands.registerCommand('rech.editor.cobol.openCopyUsage', (node: CopyUsageNode) => {
+            if (!node) return;
+            const usage = node.getUsage();
+            const range = new Range(usage.line, 0, usage.line, 0);
+            window.showTextDocument(Uri.file(usage.file), { selection: range }).then(undefined, (e) => {
+                window.showWarningMessage(`Could not open the copy usage. ${e}`);
+            });
+        }));
+        context.subscriptions.push(workspace.onDidSaveTextDocument((document) => {
+            this.index.updateFile(document.fileName, document.getText());
+        }));
+    }
+
+    getTreeItem(element: NodeInterface): TreeItem | Thenable<TreeItem> {
+        return element.getTreeItem();
+    }
+
+    getChildren(element?: NodeInterface | undefined): ProviderResult<NodeInterface[]> {
+        if (element) {
+            return element.getChildren();
+        }
+        if (!this.file) {
+            return [];
+        }
+        const name = path.basename(this.file);
+        return [
+            new CopyUsageGroupNode(`${name} is included by`, this.file, true, this.index),
+            new CopyUsageGroupNode(`${name} includes`, this.file, false, this.index),
+        ];
+    }
+
+    /**
+     * Refresh the treeView
+     */
+    public refresh(): void {
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    /**
+     * Creates the index of the workspace folders, also used to find the copy usages when no external locator is defined
+     */
+    private createIndex(): CopyUsageIndex {
+        const folders = workspace.workspaceFolders || [];
+        const index = new CopyUsageIndex(folders.map((folder) => folder.uri.fsPath));
+        CopyUsageLocator.setIndex(index);
+        return index;
+    }
+}
@@ -5,6 +5,7 @@ import { Editor } from './editor/editor';
 import { GenericExecutor } from './commons/genericexecutor';
 import { cobolDiagnosticFilter, CobolDiagnosticFilter } from './cobol/diagnostic/cobolDiagnosticFilter';
 import { Configuration } from './helpers/configuration';
+import { CobolCopy } from './cobol/CobolCopy';
 
 /**
  * Sets the global source expander which is responsible for executing Cobol Preprocessor
@@ -87,3 +88,25 @@ export function defineExternalMethodCompletionFunction() {
         Editor.setExternalMethodCompletion(commandToConfigExternalMethodCompletion);
     }
 }
+
+/**
+ * Sets the comment extractor from copy files
+ */
+export function defineCommentExtractorFromCopyFiles() {
+    CobolCopy.setCommentExtractor((copyFile: string) => {
+        return extractCommentFromCopyFile(copyFile);
+    });
+}
+
+/**
+ * Executes the configured command to extract the header comment from the copy file
+ *
+ * @param copyFile
+ */
+export function extractCommentFromCopyFile(copyFile: string): Thenable<string[] | undefined> {
+    const commandForCommentExtractor = new Configuration("rech.editor.cobol.callback").get<string>("commentExractorFromCopyFiles");
+    if (!commandForCommentExtractor || commandForCommentExtractor == "") {
+        return Promise.resolve(undefined);
+    }
+    return commands.executeCommand<string[]>(commandForCommentExtractor, copyFile);
+}
@@ -1,12 +1,12 @@
 // The module 'vscode' contains the VS Code extensibility API
 // Import the module and reference it with the alias vscode in your code below
-import { commands, window } from 'vscode';
+import { commands, window, Uri, Position, Range, Location } from 'vscode';
+import { Position as LspPosition, Location as LspLocation } from 'vscode-languageclient';
 import { GeradorCobol } from './cobol/gerador-cobol';
 import { Editor } from './editor/editor';
 import { COLUNA_VALUE, AREA_B, COLUNA_B, COLUNA_A, COLUNA_C, AREA_A } from './cobol/colunas';
 import { TabStopper } from './cobol/TabStopper';
 import { Client } from './lsp/client';
-import { CustomDecorator } from './decoration/CustomDecorator';
 import { SourceOfCompletions } from './lsp/commons/SourceOfCompletions';
 import { ElementsDisplayerFactory } from './cobol/elementsdisplayer/ElementsDisplayerFactory';
 import { Log } from './commons/Log';
@@ -14,10 +14,15 @@ import { configuration } from './helpers/configuration';
 import { FoldStatusBar } from './lsp/fold/FoldStatusBar';
 import { ExpandedSourceStatusBar } from './cobol/ExpandedSourceStatusBar';
 import FlowProvider from './sourceflow/treeView/providers/FlowProvider';
+import FlowDiagramExporter from './sourceflow/FlowDiagramExporter';
+import CopyUsageProvider from './copyusage/treeView/providers/CopyUsageProvider';
+import RecordLayoutProvider from './recordlayout/treeView/providers/RecordLayoutProvider';
+import RecordDataProvider from './recordlayout/treeView/providers/RecordDataProvider';
 import { IndentUtils } from './indent/indentUtils';
 import { CobolRefactor } from './cobol/refactor/CobolRefactor';
 import { DocumentationDecorator } from './decoration/DocumentationDecorator';
 import { ExpandedSourceCacheStatusBar } from './cobol/ExpandedSourceCacheStatusBar';
+import * as dj from './dependencieInjection';
 
 // this method is called when your extension is activated
 // your extension is activated the very first time the command is executed
@@ -41,10 +46,10 @@ async function _activate(context: any) {
     ExpandedSourceCacheStatusBar.buildStatusBar();
     // Configures the Logging instance on client side
     Log.get().setActive(configuration.get<boolean>("log"));
+    // Defines the comment extractor used by the copy displayers and decorations
+    dj.defineCommentExtractorFromCopyFiles();
     // Starts the LSP Client
     Client.startServerAndEstablishCommunication(context);
-    // Custom decorators beyond language syntax highlight
-    CustomDecorator.activate(context);
     // Decorators to show hints of elements
     DocumentationDecorator.activate(context);
     //
@@ -53,6 +58,17 @@ async function _activate(context: any) {
     // This register the provider from the Flow list view
     const flowProvider = new FlowProvider(context);
     window.registerTreeDataProvider("cobolflowview", flowProvider);
+    // This register the command which exports the program flow as diagrams
+    new FlowDiagramExporter(context);
+    // This register the provider from the copy usage view
+    const copyUsageProvider = new CopyUsageProvider(context);
+    window.registerTreeDataProvider("cobolcopyusageview", copyUsageProvider);
+    // This register the provider from the record layout view
+    const recordLayoutProvider = new RecordLayoutProvider(context);
+    window.registerTreeDataProvider("cobolrecordlayoutview", recordLayoutProvider);
+    // This register the provider from the data file records decoded with the record layout
+    const recordDataProvider = new RecordDataProvider(context, recordLayoutProvider);
+    window.registerTreeDataProvider("cobolrecorddataview", recordDataProvider);
 
     //
     // The command has been defined in the package.json file
@@ -150,6 +166,11 @@ async function _activate(context: any) {
     context.subscriptions.push(commands.registerCommand('rech.editor.cobol.extractParagraph', () => {
         new CobolRefactor().extractParagraph().then().catch();
     }));
+    context.subscriptions.push(commands.registerCommand('rech.editor.cobol.showReferences', (uri: string, position: LspPosition, locations: LspLocation[]) => {
+        const asPosition = (current: LspPosition) => new Position(current.line, current.character);
+        const references = locations.map((location) => new Location(Uri.parse(location.uri), new Range(asPosition(location.range.start), asPosition(location.range.end))));
+        commands.executeCommand("editor.action.showReferences", Uri.parse(uri), asPosition(position), references).then(() => {}, () => {});
+    }));
 }
 
 // this method is called when your extension is deactivated
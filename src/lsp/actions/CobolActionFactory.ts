@@ -12,6 +12,7 @@ import { RemoveRemainingClauseAction } from "./RemoveRemainingClauseAction";
 import { InsertSubprogramDeclarationAction } from "./subprogram/InsertSubprogramDeclarationAction";
 import { RefactorParagraphAction } from "./RefactorParagraphAction";
 import { FixClassCaseAction } from "./FixClassCaseAction";
+import { RemoveUnreachableCodeAction } from "./RemoveUnreachableCodeAction";
 
 /**
  * Factory to generate Cobol Code Actions
@@ -121,6 +122,14 @@ export class CobolActionFactory {
           implementations.push(new RemoveVariableAction());
           break;
         }
+        case "N011": {
+          implementations.push(new RemoveUnreachableCodeAction(currentDiagnostic.range, "Remove unreachable paragraph"));
+          break;
+        }
+        case "N012": {
+          implementations.push(new RemoveUnreachableCodeAction(currentDiagnostic.range, "Remove statements never executed"));
+          break;
+        }
       }
     });
     if (this.range.start.line !== this.range.end.line) {
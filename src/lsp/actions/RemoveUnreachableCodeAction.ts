@@ -0,0 +1,39 @@
+import { ActionInterface } from "./ActionInterface";
+import { CodeAction, TextEdit, Range, Position } from "vscode-languageserver";
+
+/**
+ * Class to generate Code Action to remove the paragraphs and statements which are never executed
+ */
+export class RemoveUnreachableCodeAction implements ActionInterface {
+
+    constructor (private range: Range, private title: string) {}
+
+    public generate(documentUri: string, _line: number, _column: number, lines: string[]): Promise<CodeAction[]> {
+        return new Promise((resolve) => {
+            const textEdits = this.generateRemovalTextEdits(lines);
+            resolve(
+                [{
+                    title: this.title,
+                    edit: { changes: { [documentUri]: textEdits } }
+                }]
+            );
+        });
+    }
+
+    /**
+     * Generates the TextEdit array removing the lines of the unreachable code, along with the line breaks
+     *
+     * @param lines buffer lines
+     */
+    private generateRemovalTextEdits(lines: string[]): TextEdit[] {
+        const firstLine = this.range.start.line;
+        const lastLine = Math.min(this.range.end.line, lines.length - 1);
+        // The text after the range, like the period which ends the sentence, is kept in the line before the range
+        const lastCharacter = Math.min(this.range.end.character, lines[lastLine].length);
+        const keepsEnd = lastCharacter < lines[lastLine].length;
+        const start = firstLine > 0 ? Position.create(firstLine - 1, lines[firstLine - 1].length) : Position.create(0, 0);
+        const end = firstLine > 0 || keepsEnd || lastLine + 1 >= lines.length ? Position.create(lastLine, lastCharacter) : Position.create(lastLine + 1, 0);
+        return [{ newText: "", range: Range.create(start, end) }];
+    }
+
+}
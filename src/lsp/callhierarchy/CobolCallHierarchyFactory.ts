@@ -0,0 +1,472 @@
+import { Proposed, SymbolKind, Range, Position } from "vscode-languageserver";
+import { ParserCobol } from "../../cobol/parsercobol";
+import { CobolTokenizer, CobolToken } from "../../cobol/CobolTokenizer";
+import { CobolReservedWords } from "../../cobol/CobolReservedWords";
+import { CobolWordFinder } from "../../commons/CobolWordFinder";
+import { Path } from "../../commons/path";
+import { Log } from "../../commons/Log";
+import { MethodDeclarationFinder } from "../declaration/MethodDeclarationFinder";
+import { MethodCallUtils } from "../declaration/MethodCallUtils";
+import { PreprocDeclarationFinder } from "../declaration/PreprocDeclarationFinder";
+
+/** Marker written by the preprocessor at the end of each line of the expanded source */
+const EXPANDED_LINE_MARKER = /.*\*\>:?\s+\d+\s+(\d+)(?:\s+(.+\....)\s+\(\d+\))?/;
+/** Words declared as paragraphs which are not paragraphs of the procedure division */
+const PARAGRAPHS_BLACKLIST = ["class-id", "program-id", "method-id", "factory", "object", "end"];
+
+/**
+ * Location of a line of the source
+ */
+interface LineLocation {
+    uri: string;
+    line: number;
+}
+
+/**
+ * Call of a paragraph or method made inside a routine
+ */
+interface CobolCall {
+    /** Name of the called paragraph or method */
+    target: string;
+    /** True if the call is a method invocation */
+    method: boolean;
+    /** File and range where the call is written */
+    uri: string;
+    range: Range;
+    /** Lines and position of the call, used to resolve the invoked method */
+    lines: string[];
+    lineIndex: number;
+    column: number;
+}
+
+/**
+ * Paragraph, section, method or procedure division of a program
+ */
+interface CobolRoutine {
+    name: string;
+    kind: SymbolKind;
+    /** Method where the routine is declared */
+    scope?: string;
+    uri: string;
+    range: Range;
+    selectionRange: Range;
+    calls: CobolCall[];
+}
+
+/**
+ * Class to build the call hierarchy of paragraphs and methods of Cobol sources
+ */
+export class CobolCallHierarchyFactory {
+
+    /** Cobol parser */
+    private parser: ParserCobol = new ParserCobol();
+    /** Routines of the source and of its copies */
+    private routines: CobolRoutine[];
+
+    /**
+     * Creates the factory, collecting the routines of the source
+     *
+     * @param uri uri of the source
+     * @param lines lines of the source
+     * @param expandedLines lines of the expanded source, used to find the routines declared in copies
+     */
+    constructor(private uri: string, private lines: string[], expandedLines?: string[]) {
+        this.routines = this.collectRoutines(lines, (index) => ({ uri: uri, line: index }));
+        if (expandedLines) {
+            this.mergeExpandedRoutines(this.collectRoutines(expandedLines, (index) => this.locateExpandedLine(expandedLines[index])));
+        }
+    }
+
+    /**
+     * Returns the items of the call hierarchy at the position of the source
+     *
+     * @param line
+     * @param column
+     */
+    public prepare(line: number, column: number): Promise<Proposed.CallHierarchyItem[]> {
+        return new Promise((resolve) => {
+            const lineText = this.lines[line];
+            if (lineText == undefined) {
+                return resolve([]);
+            }
+            const word = new CobolWordFinder().findWordAt(lineText, column);
+            const enclosing = this.findEnclosingRoutine(line);
+            const token = CobolTokenizer.tokenize(lineText).find((current) => current.column <= column && current.column + current.text.length >= column);
+            if (token && MethodCallUtils.isMethodCall(lineText, column)) {
+                const call = this.createCall(token.text, true, this.uri, this.lines, line, token.column);
+                this.resolveMethod(call).then((item) => {
+                    return resolve(item ? [item] : []);
+                }).catch(() => resolve([]));
+                return;
+            }
+            const routine = this.findParagraph(word, enclosing ? enclosing.scope : undefined) || this.findMethod(word) || enclosing;
+            return resolve(routine ? [this.createItem(routine)] : []);
+        });
+    }
+
+    /**
+     * Returns true if the item is a routine of the source or of its copies
+     *
+     * @param item
+     */
+    public contains(item: Proposed.CallHierarchyItem): boolean {
+        return this.findRoutine(item) != undefined;
+    }
+
+    /**
+     * Returns the routines which call the item
+     *
+     * @param item
+     */
+    public incomingCalls(item: Proposed.CallHierarchyItem): Proposed.CallHierarchyIncomingCall[] {
+        const result: Proposed.CallHierarchyIncomingCall[] = [];
+        const name = item.name.toLowerCase();
+        this.routines.forEach((routine) => {
+            const calls = routine.calls.filter((call) => {
+                if (call.target.toLowerCase() != name || call.method != (item.kind == SymbolKind.Method)) {
+                    return false;
+                }
+                if (call.method) {
+                    return true;
+                }
+                const target = this.findParagraph(call.target, routine.scope);
+                return target != undefined && this.isSameItem(this.createItem(target), item);
+            });
+            if (calls.length > 0) {
+                result.push({ from: this.createItem(routine), fromRanges: this.rangesIn(routine, calls) });
+            }
+        });
+        return result;
+    }
+
+    /**
+     * Returns the routines called by the item
+     *
+     * @param item
+     */
+    public outgoingCalls(item: Proposed.CallHierarchyItem): Promise<Proposed.CallHierarchyOutgoingCall[]> {
+        return new Promise((resolve) => {
+            const routine = this.findRoutine(item);
+            if (!routine) {
+                return resolve([]);
+            }
+            const callsByTarget = new Map<string, CobolCall[]>();
+            routine.calls.forEach((call) => {
+                const key = (call.method ? ":>" : "") + call.target.toLowerCase();
+                const calls = callsByTarget.get(key) || [];
+                calls.push(call);
+                callsByTarget.set(key, calls);
+            });
+            const promises: Promise<Proposed.CallHierarchyOutgoingCall | undefined>[] = [];
+            callsByTarget.forEach((calls) => {
+                promises.push(this.resolveTarget(calls[0], routine).then((to) => {
+                    return to ? { to: to, fromRanges: this.rangesIn(routine, calls) } : undefined;
+                }).catch(() => undefined));
+            });
+            Promise.all(promises).then((outgoingCalls) => {
+                const result: Proposed.CallHierarchyOutgoingCall[] = [];
+                outgoingCalls.forEach((outgoingCall) => {
+                    if (outgoingCall) {
+                        result.push(outgoingCall);
+                    }
+                });
+                return resolve(result);
+            }).catch(() => resolve([]));
+        });
+    }
+
+    /**
+     * Resolves the item called by a paragraph call or a method invocation
+     *
+     * @param call
+     * @param routine routine where the call is made
+     */
+    private resolveTarget(call: CobolCall, routine: CobolRoutine): Promise<Proposed.CallHierarchyItem | undefined> {
+        if (call.method) {
+            return this.resolveMethod(call);
+        }
+        const target = this.findParagraph(call.target, routine.scope);
+        return Promise.resolve(target ? this.createItem(target) : undefined);
+    }
+
+    /**
+     * Resolves the method invoked by the call, looking for it in the current class
+     * or in the class of the invoked instance
+     *
+     * @param call
+     */
+    private resolveMethod(call: CobolCall): Promise<Proposed.CallHierarchyItem | undefined> {
+        return new Promise((resolve, reject) => {
+            const params = { term: call.target, uri: this.uri, lineIndex: call.lineIndex, columnIndex: call.column + call.target.length };
+            new MethodDeclarationFinder(call.lines).findDeclaration(params).then((position) => {
+                if (!position.file) {
+                    const method = this.findMethod(call.target);
+                    return resolve(method ? this.createItem(method) : undefined);
+                }
+                const range = Range.create(Position.create(position.line, position.column), Position.create(position.line, position.column + call.target.length));
+                return resolve({
+                    name: call.target,
+                    kind: SymbolKind.Method,
+                    detail: new Path(position.file).fileName(),
+                    uri: position.file,
+                    range: range,
+                    selectionRange: range,
+                });
+            }).catch((e) => {
+                Log.get().warning("Could not resolve the method " + call.target + " for the call hierarchy. Error: " + e);
+                return reject(e);
+            });
+        });
+    }
+
+    /**
+     * Collects the routines of the lines and the calls made inside them
+     *
+     * @param lines
+     * @param locate function returning where each line is written
+     */
+    private collectRoutines(lines: string[], locate: (index: number) => LineLocation | undefined): CobolRoutine[] {
+        const routines: CobolRoutine[] = [];
+        const programId = lines.map((line) => /^ +program-id\.\s+([\w\-]+)/i.exec(line)).find((match) => match != null);
+        let procedure = false;
+        let method: string | undefined;
+        let current: CobolRoutine | undefined;
+        let insideCopy = false;
+        lines.forEach((line, index) => {
+            const location = locate(index);
+            if (!location || CobolTokenizer.isComment(line)) {
+                return;
+            }
+            const methodName = this.parser.getDeclaracaoMethod(line);
+            if (methodName) {
+                method = methodName;
+                procedure = false;
+                current = this.createRoutine(methodName, SymbolKind.Method, undefined, location, line);
+                routines.push(current);
+                return;
+            }
+            if (/^\s+end\s+method[\s\.]/i.test(line)) {
+                method = undefined;
+                procedure = false;
+                current = undefined;
+                return;
+            }
+            const division = this.parser.getDivisionDeclaration(line);
+            if (division) {
+                procedure = division.toLowerCase() == "procedure";
+                if (procedure && !method) {
+                    const name = programId ? programId[1] : new Path(this.uri).baseName();
+                    current = this.createRoutine(name, SymbolKind.Module, undefined, location, line);
+                    routines.push(current);
+                }
+                return;
+            }
+            if (!procedure || !current) {
+                return;
+            }
+            if (insideCopy || /^\s+copy\s/i.test(line)) {
+                insideCopy = !CobolTokenizer.stripCommentsAndLiterals(line).includes(".");
+                return;
+            }
+            const paragraph = this.parser.getDeclaracaoParagrafo(line);
+            const section = this.parser.getSectionDeclaration(line);
+            const name = paragraph || section;
+            if (name && !CobolReservedWords.isReserved(name) && !PARAGRAPHS_BLACKLIST.includes(name.toLowerCase())) {
+                current = this.createRoutine(name, paragraph ? SymbolKind.Function : SymbolKind.Namespace, method, location, line);
+                routines.push(current);
+                return;
+            }
+            if (location.uri == current.uri) {
+                current.range.end = Position.create(location.line, CobolTokenizer.stripCommentsAndLiterals(line).trimRight().length);
+            }
+            current.calls.push(...this.collectCalls(lines, index, location));
+        });
+        return routines;
+    }
+
+    /**
+     * Returns the paragraph calls and method invocations of the line
+     *
+     * @param lines
+     * @param index
+     * @param location
+     */
+    private collectCalls(lines: string[], index: number, location: LineLocation): CobolCall[] {
+        const calls: CobolCall[] = [];
+        const tokens = CobolTokenizer.tokenize(lines[index]);
+        const code = CobolTokenizer.stripCommentsAndLiterals(lines[index]);
+        const isTarget = (token: CobolToken | undefined) => token != undefined && !CobolReservedWords.isReserved(token.text) && !/^\d+$/.test(token.text);
+        const addCall = (token: CobolToken, method: boolean) => {
+            calls.push(this.createCall(token.text, method, location.uri, lines, index, token.column, location.line));
+        };
+        for (let i = 0; i < tokens.length; i++) {
+            const word = tokens[i].text.toLowerCase();
+            if (code.substring(0, tokens[i].column).trimRight().endsWith(":>")) {
+                addCall(tokens[i], true);
+                continue;
+            }
+            if (word == "perform" && isTarget(tokens[i + 1])) {
+                addCall(tokens[i + 1], false);
+                const thru = tokens[i + 2] ? tokens[i + 2].text.toLowerCase() : "";
+                if ((thru == "thru" || thru == "through") && isTarget(tokens[i + 3])) {
+                    addCall(tokens[i + 3], false);
+                }
+            }
+            if (word == "go" && tokens[i + 1] && tokens[i + 1].text.toLowerCase() == "to") {
+                for (let j = i + 2; j < tokens.length && isTarget(tokens[j]); j++) {
+                    addCall(tokens[j], false);
+                }
+            }
+        }
+        return calls;
+    }
+
+    /**
+     * Adds the routines declared in copies and the calls made by copies inside the routines of the source
+     *
+     * @param expandedRoutines routines found in the expanded source
+     */
+    private mergeExpandedRoutines(expandedRoutines: CobolRoutine[]) {
+        expandedRoutines.forEach((expandedRoutine) => {
+            if (expandedRoutine.uri != this.uri) {
+                this.routines.push(expandedRoutine);
+                return;
+            }
+            const routine = this.routines.find((current) => current.name.toLowerCase() == expandedRoutine.name.toLowerCase() && current.scope == expandedRoutine.scope);
+            if (routine) {
+                routine.calls.push(...expandedRoutine.calls.filter((call) => call.uri != this.uri));
+            }
+        });
+    }
+
+    /**
+     * Returns where the line of the expanded source is written
+     *
+     * @param line
+     */
+    private locateExpandedLine(line: string): LineLocation | undefined {
+        const match = EXPANDED_LINE_MARKER.exec(line);
+        if (!match) {
+            return undefined;
+        }
+        const index = parseInt(match[1]) - 1;
+        if (!match[2]) {
+            return { uri: this.uri, line: index };
+        }
+        const file = PreprocDeclarationFinder.getFullPath(match[2], new Path(this.uri));
+        return { uri: new Path(file).fullPathVscode(), line: index };
+    }
+
+    /**
+     * Returns the paragraph or section with the name, preferring the ones declared in the scope
+     *
+     * @param name
+     * @param scope
+     */
+    private findParagraph(name: string, scope?: string): CobolRoutine | undefined {
+        const lowerName = name.toLowerCase();
+        const paragraphs = this.routines.filter((routine) => routine.name.toLowerCase() == lowerName && routine.kind != SymbolKind.Method && routine.kind != SymbolKind.Module);
+        return paragraphs.find((routine) => routine.scope == scope) || paragraphs[0];
+    }
+
+    /**
+     * Returns the method of the source with the name
+     *
+     * @param name
+     */
+    private findMethod(name: string): CobolRoutine | undefined {
+        const lowerName = name.toLowerCase();
+        return this.routines.find((routine) => routine.kind == SymbolKind.Method && routine.name.toLowerCase() == lowerName);
+    }
+
+    /**
+     * Returns the routine of the source where the line is
+     *
+     * @param line
+     */
+    private findEnclosingRoutine(line: number): CobolRoutine | undefined {
+        return this.routines.find((routine) => routine.uri == this.uri && routine.range.start.line <= line && routine.range.end.line >= line);
+    }
+
+    /**
+     * Returns the routine represented by the item
+     *
+     * @param item
+     */
+    private findRoutine(item: Proposed.CallHierarchyItem): CobolRoutine | undefined {
+        return this.routines.find((routine) => this.isSameItem(this.createItem(routine), item));
+    }
+
+    /**
+     * Returns true if both items represent the same routine
+     *
+     * @param item
+     * @param other
+     */
+    private isSameItem(item: Proposed.CallHierarchyItem, other: Proposed.CallHierarchyItem): boolean {
+        return item.name.toLowerCase() == other.name.toLowerCase()
+            && item.selectionRange.start.line == other.selectionRange.start.line
+            && new Path(item.uri).fullPathWin().toLowerCase() == new Path(other.uri).fullPathWin().toLowerCase();
+    }
+
+    /**
+     * Returns the ranges of the calls written in the same file of the routine
+     *
+     * @param routine
+     * @param calls
+     */
+    private rangesIn(routine: CobolRoutine, calls: CobolCall[]): Range[] {
+        return calls.filter((call) => call.uri == routine.uri).map((call) => call.range);
+    }
+
+    /**
+     * Creates a routine declared in the line
+     *
+     * @param name
+     * @param kind
+     * @param scope
+     * @param location
+     * @param line
+     */
+    private createRoutine(name: string, kind: SymbolKind, scope: string | undefined, location: LineLocation, line: string): CobolRoutine {
+        const token = CobolTokenizer.tokenize(line).find((current) => current.text.toLowerCase() == name.toLowerCase());
+        const column = token ? token.column : line.length - line.trimLeft().length;
+        const length = token ? token.text.length : 0;
+        const selectionRange = Range.create(Position.create(location.line, column), Position.create(location.line, column + length));
+        const range = Range.create(Position.create(location.line, 0), Position.create(location.line, CobolTokenizer.stripCommentsAndLiterals(line).trimRight().length));
+        return { name: name, kind: kind, scope: scope, uri: location.uri, range: range, selectionRange: selectionRange, calls: [] };
+    }
+
+    /**
+     * Creates a call of a paragraph or method
+     *
+     * @param target
+     * @param method
+     * @param uri
+     * @param lines
+     * @param lineIndex
+     * @param column
+     * @param line line of the call in the file where it's written
+     */
+    private createCall(target: string, method: boolean, uri: string, lines: string[], lineIndex: number, column: number, line: number = lineIndex): CobolCall {
+        const range = Range.create(Position.create(line, column), Position.create(line, column + target.length));
+        return { target: target, method: method, uri: uri, range: range, lines: lines, lineIndex: lineIndex, column: column };
+    }
+
+    /**
+     * Creates the call hierarchy item of the routine
+     *
+     * @param routine
+     */
+    private createItem(routine: CobolRoutine): Proposed.CallHierarchyItem {
+        return {
+            name: routine.name,
+            kind: routine.kind,
+            detail: routine.scope || new Path(routine.uri).fileName(),
+            uri: routine.uri,
+            range: routine.range,
+            selectionRange: routine.selectionRange,
+        };
+    }
+
+}
@@ -1,4 +1,4 @@
-import { commands, ExtensionContext } from 'vscode';
+import { commands, ExtensionContext, workspace, Uri } from 'vscode';
 import { LanguageClient, LanguageClientOptions, ResponseError, ServerOptions, TransportKind } from 'vscode-languageclient';
 import { Editor } from '../editor/editor';
 import * as path from 'path';
@@ -14,6 +14,7 @@ import * as dj from '../dependencieInjection';
 import { isArray } from 'util';
 import { CopyUsageLocator } from './completion/copy/CopyUsageLocator';
 import { ExpandedSourceCacheStatusBar } from '../cobol/ExpandedSourceCacheStatusBar';
+import { FolderSearchPath, SearchPathResolver } from '../commons/SearchPathResolver';
 
 /**
  * Language Server Provider client
@@ -27,6 +28,8 @@ export class Client {
      * Starts the LSP server and establishes communication between them
      */
 	public static startServerAndEstablishCommunication(context: ExtensionContext) {
+		// Configures the search path used by the features of the client side
+		Client.configureSearchPath(context);
 		// The server is implemented in node
 		const serverModule = context.asAbsolutePath(
 			path.join('out', 'lsp', 'server.js')
@@ -47,7 +50,11 @@ export class Client {
 		// Options to control the language client
 		const clientOptions: LanguageClientOptions = {
 			// Register the server for COBOL documents
-			documentSelector: [{ scheme: 'file', language: 'COBOL' }]
+			documentSelector: [{ scheme: 'file', language: 'COBOL' }],
+			// Notifies the server of the Cobol files deleted outside the editor, which are removed from the workspace symbols
+			synchronize: {
+				fileEvents: workspace.createFileSystemWatcher("**/*.{cbl,cpy,cpb,CBL,CPY,CPB}", true, true, false)
+			}
 		};
 		// Create the language client and start the client.
 		Client.client = new LanguageClient(
@@ -56,6 +63,8 @@ export class Client {
 			serverOptions,
 			clientOptions
 		);
+		// Registers the proposed features, like the semantic tokens
+		Client.client.registerProposedFeatures();
 		// Start the client. This will also launch the server
 		Client.client.start();
 		Client.client.onReady().then(() => {
@@ -71,6 +80,26 @@ export class Client {
 		}).catch();
 	}
 
+	/**
+	 * Configures the search path of copies and sources on the client side, updating it when the settings
+	 * or the workspace folders change
+	 *
+	 * @param context
+	 */
+	private static configureSearchPath(context: ExtensionContext) {
+		const configure = () => {
+			const config = Client.getSearchPath();
+			SearchPathResolver.configure(config.searchPath, config.folders);
+		};
+		configure();
+		context.subscriptions.push(workspace.onDidChangeConfiguration((event) => {
+			if (event.affectsConfiguration("rech.editor.cobol.searchPath")) {
+				configure();
+			}
+		}));
+		context.subscriptions.push(workspace.onDidChangeWorkspaceFolders(() => configure()));
+	}
+
 	/**
 	 * Configures the LSP client when it's ready for execution
 	 */
@@ -112,9 +141,9 @@ export class Client {
 					});
 				});
 			});
-			Client.client.onRequest("custom/getConfig", (section: string) => {
+			Client.client.onRequest("custom/getConfig", (section: string, uri?: string) => {
 				return new Promise<any>((resolve, reject) => {
-					Client.getConfig(section).then((result) => {
+					Client.getConfig(section, uri).then((result) => {
 						return resolve(result);
 					}).catch((e) => {
 						return reject(e);
@@ -179,6 +208,15 @@ export class Client {
 					});
 				})
 			});
+			Client.client.onRequest("custom/commentExtractorFromCopyFiles", (copyFile: string) => {
+				return new Promise<string[] | undefined>((resolve, reject) => {
+					dj.extractCommentFromCopyFile(copyFile).then((result) => {
+						return resolve(result);
+					}, (e) => {
+						return reject(e);
+					});
+				})
+			});
 			Client.client.onRequest("custom/showFoldinStatusBar", (file?: string) => {
 				FoldStatusBar.show(file);
 			});
@@ -197,6 +235,9 @@ export class Client {
 			Client.client.onRequest("custom/hideStatusBarFromSourceExpanderCache", () => {
 				ExpandedSourceCacheStatusBar.hide();
 			});
+			Client.client.onRequest("custom/getSearchPath", () => {
+				return Client.getSearchPath();
+			});
 			Client.client.onRequest("custom/sourceOfVariableCompletions", () => {
 				return new Promise<string>((resolve, reject) => {
 					const result = SourceOfCompletions.getSourceOfVariableCompletions();
@@ -309,13 +350,24 @@ export class Client {
 	}
 
 	/**
-	 * Returns specific setting
+	 * Returns the search path of copies and sources, with the overrides of the workspace folders
+	 */
+	private static getSearchPath(): {searchPath: string[], folders: FolderSearchPath[]} {
+		const folders = (workspace.workspaceFolders || []).map((folder) => {
+			return { folder: folder.uri.fsPath, searchPath: workspace.getConfiguration("rech.editor.cobol", folder.uri).get<string[]>("searchPath", []) };
+		});
+		return { searchPath: workspace.getConfiguration("rech.editor.cobol").get<string[]>("searchPath", []), folders: folders };
+	}
+
+	/**
+	 * Returns specific setting, with the overrides of the workspace folder of the resource when it's informed
 	 *
 	 * @param section
+	 * @param uri resource whose setting is returned
 	 */
-	private static getConfig(section: string, defaultValue?: any): Promise<any> {
+	private static getConfig(section: string, uri?: string): Promise<any> {
 		return new Promise<any>((resolve, reject) => {
-			const result = configuration.get(section, defaultValue);
+			const result = uri ? workspace.getConfiguration("rech.editor.cobol", Uri.parse(uri)).get(section) : configuration.get(section);
 			if (result) {
 				return resolve(result);
 			} else {
@@ -355,4 +407,23 @@ export class Client {
 		});
 	}
 
+	/**
+	 * Request the server and return the source with the copies expanded
+	 *
+	 * @param uri URI of the source
+	 */
+	public static getExpandedSource(uri: string): Promise<string> {
+		return new Promise((resolve, reject) => {
+			if (Client.client) {
+				return Client.client.sendRequest<string>("custom/getExpandedSource", uri).then((expandedSource) => {
+					return resolve(expandedSource);
+				}, (e) => {
+					return reject(e);
+				});
+			} else {
+				return reject();
+			}
+		});
+	}
+
 }
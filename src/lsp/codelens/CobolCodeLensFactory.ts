@@ -0,0 +1,138 @@
+import { CodeLens, Range, Position, Location } from "vscode-languageserver";
+import { ParserCobol } from "../../cobol/parsercobol";
+import { CobolTokenizer } from "../../cobol/CobolTokenizer";
+import { CobolReservedWords } from "../../cobol/CobolReservedWords";
+import { MIN_WORD_SIZE } from "../references/CobolReferencesFinder";
+import { RechPosition } from "../../commons/rechposition";
+import { CobolDocumentModel } from "../model/CobolDocumentModel";
+
+/** Command of the client which opens the references peek */
+export const SHOW_REFERENCES_COMMAND = "rech.editor.cobol.showReferences";
+/** Words declared as paragraphs which are not paragraphs of the procedure division */
+const PARAGRAPHS_BLACKLIST = ["class-id", "program-id", "method-id", "factory", "object", "end"];
+
+/**
+ * Element which has its references counted by the code lens
+ */
+export interface CobolCodeLensData {
+    uri: string;
+    name: string;
+    paragraph: boolean;
+}
+
+/**
+ * Class to generate the code lenses with the references of paragraphs and variables
+ */
+export class CobolCodeLensFactory {
+
+    /** Cobol parser */
+    private parser: ParserCobol = new ParserCobol();
+    /** Lines of the source */
+    private lines: string[];
+
+    /**
+     * Creates the factory of the source
+     *
+     * @param uri uri of the source
+     * @param model model of the source, which keeps the references finder while the source doesn't change
+     */
+    constructor(private uri: string, private model: CobolDocumentModel) {
+        this.lines = model.getLines();
+    }
+
+    /**
+     * Generates the code lenses of the paragraphs and level 01/77 items, without the commands
+     */
+    public generateCodeLenses(): CodeLens[] {
+        const codeLenses: CodeLens[] = [];
+        let procedure = false;
+        this.lines.forEach((line, index) => {
+            if (CobolTokenizer.isComment(line)) {
+                return;
+            }
+            const division = this.parser.getDivisionDeclaration(line);
+            if (division) {
+                procedure = division.toLowerCase() == "procedure";
+                return;
+            }
+            if (this.parser.getDeclaracaoMethod(line)) {
+                procedure = false;
+                return;
+            }
+            let name: string | undefined;
+            if (procedure) {
+                name = this.parser.getDeclaracaoParagrafo(line);
+                if (name && PARAGRAPHS_BLACKLIST.includes(name.toLowerCase())) {
+                    name = undefined;
+                }
+            } else if (/^\s+(0?1|77)\s/.test(line)) {
+                name = this.parser.getDeclaracaoVariavel(line);
+            }
+            if (!name || name.length < MIN_WORD_SIZE || CobolReservedWords.isReserved(name)) {
+                return;
+            }
+            const column = line.toLowerCase().indexOf(name.toLowerCase());
+            const range = Range.create(Position.create(index, column), Position.create(index, column + name.length));
+            const data: CobolCodeLensData = { uri: this.uri, name: name, paragraph: procedure };
+            codeLenses.push({ range: range, data: data });
+        });
+        return codeLenses;
+    }
+
+    /**
+     * Resolves the command of the code lens, counting the references of the element
+     *
+     * @param codeLens
+     */
+    public resolveCodeLens(codeLens: CodeLens): Promise<CodeLens> {
+        return new Promise((resolve, reject) => {
+            const data: CobolCodeLensData = codeLens.data;
+            this.model.getReferencesFinder().findReferences(data.name).then((positions) => {
+                const references = positions.filter((position) => !this.isDeclaration(position, codeLens.range));
+                let title = this.pluralize(references.length, "reference", "references");
+                if (data.paragraph) {
+                    const performs = references.filter((position) => this.isPerformed(position)).length;
+                    title += " · " + this.pluralize(performs, "PERFORM", "PERFORMs");
+                }
+                const locations = references.map((position) => {
+                    const start = Position.create(position.line, position.column);
+                    return Location.create(this.uri, Range.create(start, Position.create(position.line, position.column + data.name.length)));
+                });
+                codeLens.command = { title: title, command: SHOW_REFERENCES_COMMAND, arguments: [this.uri, codeLens.range.start, locations] };
+                return resolve(codeLens);
+            }).catch((e) => reject(e));
+        });
+    }
+
+    /**
+     * Returns true if the reference is the declaration of the element
+     *
+     * @param position
+     * @param declaration
+     */
+    private isDeclaration(position: RechPosition, declaration: Range): boolean {
+        return position.line == declaration.start.line && position.column == declaration.start.character;
+    }
+
+    /**
+     * Returns true if the reference is the target of a PERFORM
+     *
+     * @param position
+     */
+    private isPerformed(position: RechPosition): boolean {
+        const before = this.lines[position.line].substring(0, position.column);
+        return /(^|\s)(perform|thru|through)\s+$/i.test(before);
+    }
+
+    /**
+     * Returns the count followed by the singular or the plural word
+     *
+     * @param count
+     * @param singular
+     * @param plural
+     */
+    private pluralize(count: number, singular: string, plural: string): string {
+        return count + " " + (count == 1 ? singular : plural);
+    }
+
+}
@@ -0,0 +1,271 @@
+/** Greatest number of digits stored in 1 to 8 bytes of a signed binary item */
+const SIGNED_BINARY_DIGITS = [2, 4, 6, 9, 11, 14, 16, 18];
+/** Greatest number of digits stored in 1 to 8 bytes of an unsigned binary item */
+const UNSIGNED_BINARY_DIGITS = [2, 4, 7, 9, 12, 14, 16, 19];
+
+/**
+ * Usage of a Cobol data item
+ */
+export enum Usage {
+    Display = "DISPLAY",
+    National = "NATIONAL",
+    Binary = "BINARY",
+    NativeBinary = "COMP-5",
+    CompX = "COMP-X",
+    PackedDecimal = "COMP-3",
+    UnsignedPackedDecimal = "COMP-6",
+    Float = "COMP-1",
+    Double = "COMP-2",
+    Pointer = "POINTER",
+    Index = "INDEX"
+}
+
+/** Size in bytes of the items whose size doesn't depend on the picture */
+const FIXED_SIZES = new Map<Usage, number>([
+    [Usage.Float, 4],
+    [Usage.Double, 8],
+    [Usage.Pointer, 4],
+    [Usage.Index, 4],
+]);
+
+/**
+ * Class representing the PICTURE and USAGE clauses of a Cobol data item, to compute its storage size, digits and scale
+ */
+export class CobolPicture {
+
+    /** Picture expanded, like 999V99 for 9(03)V99 */
+    private expandedPicture: string;
+
+    /**
+     * Creates the model of the clauses
+     *
+     * @param picture picture clause, like S9(05)V99
+     * @param usage usage of the item
+     * @param signSeparate true if the item has the clause SIGN SEPARATE
+     * @param signLeading true if the item has the clause SIGN LEADING
+     */
+    constructor(private picture: string, private usage: Usage, private signSeparate: boolean, private signLeading: boolean = false) {
+        this.expandedPicture = CobolPicture.expand(picture.toUpperCase());
+        if (usage == Usage.Display && /N/.test(this.expandedPicture)) {
+            this.usage = Usage.National;
+        }
+    }
+
+    /**
+     * Creates the model from the declaration of the data item
+     *
+     * @param declaration declaration of the data item
+     * @param inheritedUsage usage of the group which contains the item
+     */
+    public static parse(declaration: string, inheritedUsage?: Usage): CobolPicture {
+        const usage = CobolPicture.extractUsage(declaration) || inheritedUsage || Usage.Display;
+        const signSeparate = /\ssign\s+(?:is\s+)?(?:(?:leading|trailing)\s+)?separate\b/i.test(declaration);
+        const signLeading = /\ssign\s+(?:is\s+)?leading\b/i.test(declaration);
+        return new CobolPicture(CobolPicture.extractPicture(declaration), usage, signSeparate, signLeading);
+    }
+
+    /**
+     * Returns the picture clause of the declaration, or an empty string if it has no picture
+     *
+     * @param declaration
+     */
+    public static extractPicture(declaration: string): string {
+        const match = /\spic(?:ture)?\s+(?:is\s+)?(\S+)/i.exec(declaration);
+        if (!match) {
+            return "";
+        }
+        return match[1].replace(/[\.,]$/, "");
+    }
+
+    /**
+     * Returns the usage declared in the declaration, or undefined if it doesn't declare a usage
+     *
+     * @param declaration
+     */
+    public static extractUsage(declaration: string): Usage | undefined {
+        const match = /\s(comp(?:utational)?(?:-[\dx])?|binary|packed-decimal|display|national|pointer|index)(?=[\s\.]|$)/i.exec(declaration);
+        if (!match) {
+            return undefined;
+        }
+        const usage = match[1].toUpperCase().replace("COMPUTATIONAL", "COMP");
+        switch (usage) {
+            case "COMP":
+            case "COMP-4":
+            case "BINARY":
+                return Usage.Binary;
+            case "PACKED-DECIMAL":
+                return Usage.PackedDecimal;
+            case "DISPLAY":
+                return Usage.Display;
+            case "NATIONAL":
+                return Usage.National;
+            case "POINTER":
+                return Usage.Pointer;
+            case "INDEX":
+                return Usage.Index;
+            default:
+                return Object.values(Usage).find((value) => value == usage) || Usage.Binary;
+        }
+    }
+
+    /**
+     * Expands the repetitions of the picture, like 9(03)V99 => 999V99
+     *
+     * @param picture
+     */
+    public static expand(picture: string): string {
+        return picture.replace(/(.)\((\d+)\)/g, (_match, symbol: string, repetitions: string) => symbol.repeat(Number.parseInt(repetitions)));
+    }
+
+    /**
+     * Returns the usage of the item
+     */
+    public getUsage(): Usage {
+        return this.usage;
+    }
+
+    /**
+     * Returns the storage size of the item in bytes
+     */
+    public getByteSize(): number {
+        const fixedSize = FIXED_SIZES.get(this.usage);
+        if (fixedSize) {
+            return fixedSize;
+        }
+        if (this.picture == "") {
+            return 0;
+        }
+        if (/[XA]/.test(this.expandedPicture) && this.usage != Usage.National) {
+            return this.expandedPicture.length;
+        }
+        const digits = this.getDigits();
+        switch (this.usage) {
+            case Usage.National:
+                return this.getDisplaySize() * 2;
+            case Usage.PackedDecimal:
+                return Math.floor(digits / 2) + 1;
+            case Usage.UnsignedPackedDecimal:
+                return Math.ceil(digits / 2);
+            case Usage.Binary:
+            case Usage.NativeBinary:
+            case Usage.CompX:
+                const limits = this.isSigned() ? SIGNED_BINARY_DIGITS : UNSIGNED_BINARY_DIGITS;
+                const index = limits.findIndex((limit) => digits <= limit);
+                return index < 0 ? limits.length : index + 1;
+            default:
+                return this.getDisplaySize();
+        }
+    }
+
+    /**
+     * Returns the number of digit positions stored by the item, without the scaling positions
+     */
+    public getDigits(): number {
+        const digits = this.expandedPicture.match(/[9Z*]/g);
+        return digits ? digits.length : 0;
+    }
+
+    /**
+     * Returns the number of digits before the decimal point, including the scaling positions at the right
+     *
+     * @param decimalPointIsComma true if the source declares DECIMAL-POINT IS COMMA
+     */
+    public getIntegerDigits(decimalPointIsComma: boolean = false): number {
+        return this.countDigits(this.splitDigits(decimalPointIsComma)[0]);
+    }
+
+    /**
+     * Returns the number of digits after the decimal point, including the scaling positions at the left
+     *
+     * @param decimalPointIsComma true if the source declares DECIMAL-POINT IS COMMA
+     */
+    public getDecimalDigits(decimalPointIsComma: boolean = false): number {
+        return this.countDigits(this.splitDigits(decimalPointIsComma)[1]);
+    }
+
+    /**
+     * Returns the scale of the item, which is the number of decimal digits, or negative when it's scaled by P positions at the right
+     *
+     * @param decimalPointIsComma true if the source declares DECIMAL-POINT IS COMMA
+     */
+    public getScale(decimalPointIsComma: boolean = false): number {
+        const trailingScale = /P+$/.exec(this.expandedPicture.replace(decimalPointIsComma ? /[V,]$/ : /[V\.]$/, ""));
+        if (trailingScale && this.getDecimalDigits(decimalPointIsComma) == 0) {
+            return -trailingScale[0].length;
+        }
+        return this.getDecimalDigits(decimalPointIsComma);
+    }
+
+    /**
+     * Returns true if the item is signed
+     */
+    public isSigned(): boolean {
+        return /[S\-+]|CR|DB/.test(this.expandedPicture);
+    }
+
+    /**
+     * Returns true if the sign is stored in a separate character
+     */
+    public isSignSeparate(): boolean {
+        return this.signSeparate;
+    }
+
+    /**
+     * Returns true if the sign is stored in the first character instead of the last one
+     */
+    public isSignLeading(): boolean {
+        return this.signLeading;
+    }
+
+    /**
+     * Returns true if the item is numeric and not edited
+     */
+    public isNumeric(): boolean {
+        return this.picture != "" && !/[XAN]/.test(this.expandedPicture) && !this.isEdited();
+    }
+
+    /**
+     * Returns true if the picture is a numeric edited picture
+     */
+    public isEdited(): boolean {
+        return /[ZB0\/\.,\*\+\-\$]|CR|DB/.test(this.expandedPicture.replace(/^S/, ""));
+    }
+
+    /**
+     * Returns the number of characters of the item when stored as display
+     */
+    private getDisplaySize(): number {
+        const size = this.expandedPicture.replace(/[VPS]/g, "").length;
+        return this.signSeparate && /S/.test(this.expandedPicture) ? size + 1 : size;
+    }
+
+    /**
+     * Splits the picture into the integer and the decimal parts. The decimal point of the edited pictures is the period,
+     * or the comma when the source declares DECIMAL-POINT IS COMMA
+     *
+     * @param decimalPointIsComma
+     */
+    private splitDigits(decimalPointIsComma: boolean): string[] {
+        const picture = this.expandedPicture.replace(/^S/, "");
+        // P positions at the left place the decimal point before them
+        if (picture.startsWith("P") || picture.startsWith("VP")) {
+            return ["", picture];
+        }
+        const decimalPoint = picture.search(decimalPointIsComma ? /[V,]/ : /[V\.]/);
+        if (decimalPoint < 0) {
+            return [picture, ""];
+        }
+        return [picture.substring(0, decimalPoint), picture.substring(decimalPoint + 1)];
+    }
+
+    /**
+     * Returns the number of digit and scaling positions of the part of the picture
+     *
+     * @param picturePart
+     */
+    private countDigits(picturePart: string): number {
+        const digits = picturePart.match(/[9Z*P]/g);
+        return digits ? digits.length : 0;
+    }
+
+}
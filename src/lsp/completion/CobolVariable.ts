@@ -1,6 +1,7 @@
 import { RechPosition } from "../../commons/rechposition";
 import { VariableUtils } from "../../commons/VariableUtils";
 import { CobolDocParser } from "../../cobol/rechdoc/CobolDocParser";
+import { CobolPicture, Usage } from "./CobolPicture";
 
 /**
  * Class representing a Cobol variable
@@ -44,6 +45,8 @@ export class CobolVariable {
     private methodReturn: boolean | undefined;
     /** Represents a dummy variable */
     private dummy: boolean | undefined;
+    /** Usage inherited from the group which contains the variable */
+    private inheritedUsage: Usage | undefined;
 
     private constructor(level: number,
                         name: string,
@@ -103,6 +106,10 @@ export class CobolVariable {
         let children = new Array();
         if (!special || !special.noChildren) {
             children = CobolVariable.parseAndGetChildren(level, lineNumber, buffer);
+            const usage = CobolPicture.extractUsage(line);
+            if (usage) {
+                children.forEach((child: CobolVariable) => child.inheritUsage(usage));
+            }
         }
         let comment = [""]
         if (!special || !special.noComment) {
@@ -307,25 +314,15 @@ export class CobolVariable {
         return picture.includes("S") || picture.includes("-");
     }
 
-    /**
-     * Returns true if the variable has comp
-     *
-     * @param picture
-     */
-    private static hasComp(picture: string): boolean {
-        return /.*comp.*/i.test(picture);
-    }
-
     /**
      * Returns the size of variable in bytes
      */
     public getByteSize() {
-        let size = this.getBytesFromPicture(this.picture);
-        if (this.children) {
-            this.children.forEach((children) => {
-                size += children.getByteSizeIgnoringRedefines();
-            })
-        }
+        const children = (this.children || []).filter((child) => !CobolVariable.isEnumVariableType(child.getLevel().toString()));
+        let size = children.length > 0 ? 0 : this.getPictureModel().getByteSize();
+        children.forEach((child) => {
+            size += child.getByteSizeIgnoringRedefines();
+        });
         return size * this.getOccurs();
     }
 
@@ -340,105 +337,64 @@ export class CobolVariable {
     }
 
     /**
-     * Returns the size in bytes from the picture
+     * Returns the number of digits before the decimal point
      *
-     * @param picture
+     * @param decimalPointIsComma true if the source declares DECIMAL-POINT IS COMMA
      */
-    private getBytesFromPicture(picture: string): number {
-        if (picture === "") {
-            return 0;
-        }
-        const expandedPicture = this.expandPricture(picture);
-        let absolutePicture = expandedPicture.toLowerCase().replace(/comp.*/, "")
-        if (!CobolVariable.hasComp(picture)) {
-            absolutePicture = absolutePicture.replace("v", "");
-            return absolutePicture.length;
-        }
-        absolutePicture = absolutePicture.replace("v", "");
-        absolutePicture = absolutePicture.replace("s", "");
-        if (picture.toLowerCase().startsWith("s")) {
-            if (absolutePicture.length <= 2) {
-                return 1;
-            }
-            if (absolutePicture.length <= 4) {
-                return 2;
-            }
-            if (absolutePicture.length <= 6) {
-                return 3;
-            }
-            if (absolutePicture.length <= 9) {
-                return 4;
-            }
-            if (absolutePicture.length <= 11) {
-                return 5;
-            }
-            if (absolutePicture.length <= 14) {
-                return 6;
-            }
-            if (absolutePicture.length <= 16) {
-                return 7;
-            }
-            return 8;
-        } else {
-            if (absolutePicture.length <= 2) {
-                return 1;
-            }
-            if (absolutePicture.length <= 4) {
-                return 2;
-            }
-            if (absolutePicture.length <= 7) {
-                return 3;
-            }
-            if (absolutePicture.length <= 9) {
-                return 4;
-            }
-            if (absolutePicture.length <= 12) {
-                return 5;
-            }
-            if (absolutePicture.length <= 14) {
-                return 6;
-            }
-            if (absolutePicture.length <= 16) {
-                return 7;
-            }
-            return 8;
-        }
+    public getIntegerDigits(decimalPointIsComma: boolean = false): number {
+        return this.getPictureModel().getIntegerDigits(decimalPointIsComma);
     }
 
     /**
-     * Expand the picture, exemple 9(03)V99 => 999V99
+     * Returns the number of digits after the decimal point
      *
-     * @param picture
-     */
-    private expandPricture(picture: string): string {
-        let expandedPicture = "";
-        for (let i = 0; i < picture.length; i++) {
-            expandedPicture += picture.charAt(i);
-            if (i < picture.length - 1) {
-                // If the next char is a "("
-                if (picture.charAt(i + 1) == "(") {
-                    const fim = picture.indexOf(")", i + 1)
-                    const firstChar = picture.charAt(i);
-                    const sSize = picture.substr(i + 2, fim - i - 2);
-                    let size = 0;
-                    if (!Number.isNaN(Number(sSize))) {
-                        size = Number.parseInt(sSize);
-                    }
-                    for (let rep = 0; rep < size - 1; rep++) {
-                        expandedPicture += firstChar
-                    }
-                    i = fim;
-                }
-            }
+     * @param decimalPointIsComma true if the source declares DECIMAL-POINT IS COMMA
+     */
+    public getDecimalDigits(decimalPointIsComma: boolean = false): number {
+        return this.getPictureModel().getDecimalDigits(decimalPointIsComma);
+    }
+
+    /**
+     * Returns the scale of the variable, negative when it's scaled by P positions at the right
+     *
+     * @param decimalPointIsComma true if the source declares DECIMAL-POINT IS COMMA
+     */
+    public getScale(decimalPointIsComma: boolean = false): number {
+        return this.getPictureModel().getScale(decimalPointIsComma);
+    }
+
+    /**
+     * Returns the usage of the variable, declared or inherited from its group
+     */
+    public getUsage(): Usage {
+        return this.getPictureModel().getUsage();
+    }
+
+    /**
+     * Returns the model of the picture and usage of the variable
+     */
+    public getPictureModel(): CobolPicture {
+        return CobolPicture.parse(this.raw, this.inheritedUsage);
+    }
+
+    /**
+     * Defines the usage inherited from the group, for the variable and its children which don't declare their own usage
+     *
+     * @param usage
+     */
+    private inheritUsage(usage: Usage) {
+        if (CobolPicture.extractUsage(this.raw)) {
+            return;
         }
-        return expandedPicture;
+        this.inheritedUsage = usage;
+        this.children.forEach((child) => child.inheritUsage(usage));
     }
 
     /**
-     * Returns the occurs of variable
+     * Returns the occurs of variable, the maximum when it's OCCURS n TO m DEPENDING ON
      */
-    private getOccurs(): number {
-        const occurs = /.*occurs\s+(\d+)\s+times.*/i.exec(this.raw);
+    public getOccurs(): number {
+        const occurs = /\soccurs\s+(?:\d+\s+to\s+)?(\d+)/i.exec(this.raw);
         if (!occurs) {
             return 1;
         } else {
@@ -1,6 +1,7 @@
 import { isArray } from "util";
 import { commands } from "vscode";
 import { Editor } from "../../../extension";
+import { CopyUsageIndex } from "../../../copyusage/CopyUsageIndex";
 
 const MAX_CACHE_TIME = 1000 * 60 * 5;
 
@@ -11,6 +12,17 @@ export class CopyUsageLocator {
 
     /** Copy usage cache */
     private static cache: Map<string, CopyUsageLocatorCached> = new Map();
+    /** Index of the workspace used when no external locator is defined */
+    private static index: CopyUsageIndex | undefined;
+
+    /**
+     * Defines the index of the workspace used when no external locator is defined
+     *
+     * @param index
+     */
+    public static setIndex(index: CopyUsageIndex | undefined) {
+        this.index = index;
+    }
 
     /**
      * Find where the copy are used
@@ -25,7 +37,14 @@ export class CopyUsageLocator {
             }
             const command = Editor.getCopyUsageLocator();
 			if (!command) {
-				return reject("CopyUsageLocator is not defined");
+				if (!this.index) {
+					return reject("CopyUsageLocator is not defined");
+				}
+				return this.index.findIncludedBy(copy).then((usages) => {
+					const result = Array.from(new Set(usages.map((usage) => usage.file)));
+					this.cache.set(copy, new CopyUsageLocatorCached(new Date().getTime(), result));
+					return resolve(result);
+				}).catch((e) => reject(e));
 			}
 			commands.executeCommand(command, copy, true).then((result) => {
 				if (result && isArray(result)) {
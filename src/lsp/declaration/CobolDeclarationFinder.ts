@@ -4,6 +4,7 @@ import { RechPosition } from '../../commons/rechposition'
 import { MethodDeclarationFinder } from './MethodDeclarationFinder';
 import { PreprocDeclarationFinder } from './PreprocDeclarationFinder';
 import { FindParameters, FindInterface } from './FindInterface';
+import { CobolDocumentModel } from '../model/CobolDocumentModel';
 
 /** Minimum word size */
 const MIN_WORD_SIZE = 3;
@@ -15,10 +16,23 @@ export class CobolDeclarationFinder implements FindInterface {
 
   private parser: ParserCobol;
   private splittedBuffer: string[];
+  private text: string | undefined;
+  private model: CobolDocumentModel | undefined;
 
-  constructor(private text: string) {
+  /**
+   * Creates the finder of the declarations in the document text or in the model of an open document
+   *
+   * @param source document text or model
+   */
+  constructor(source: string | CobolDocumentModel) {
     this.parser = new ParserCobol();
-    this.splittedBuffer = BufferSplitter.split(this.text);
+    if (source instanceof CobolDocumentModel) {
+      this.model = source;
+      this.splittedBuffer = source.getLines();
+    } else {
+      this.text = source;
+      this.splittedBuffer = BufferSplitter.split(source);
+    }
   }
 
   public findDeclaration(findParams: FindParameters): Promise<RechPosition> {
@@ -65,8 +79,12 @@ export class CobolDeclarationFinder implements FindInterface {
     let result: RechPosition | undefined = undefined;
     const term = params.term;
     const line = params.lineIndex;
+    // The model indexes the declarations, so only the declaration lines are tested
+    if (this.model) {
+      return this.model.findDeclaration(term, line);
+    }
     const termRegExp = new RegExp(term, 'gi');
-    new Scan(this.text).reverseScan(termRegExp, line, (iterator: any) => {
+    new Scan(this.text!).reverseScan(termRegExp, line, (iterator: any) => {
       if (this.parser.isDeclaration(term, iterator.lineContent)) {
         result = new RechPosition(iterator.row, iterator.column);
         iterator.stop();
@@ -1,5 +1,5 @@
-import { File } from "../../commons/file";
 import { Path } from "../../commons/path";
+import { SearchPathResolver } from "../../commons/SearchPathResolver";
 
 /**
  * Utility class with methods to build path to COBOL classes
@@ -15,12 +15,8 @@ export class MethodPathUtils {
     }
 
     private static getFullPathWithExt(clazz: string, uri: string, extension: string) {
-        let path = new Path(new Path(uri).fullPathWin()).directory() + clazz + extension;
-        if (new File(path).exists()) {
-            return path;
-        }
-        path = "F:\\Fontes\\" + clazz + extension;
-        if (new File(path).exists()) {
+        const path = SearchPathResolver.resolve(clazz + extension, new Path(uri).fullPathWin());
+        if (path) {
             return path;
         }
         return "";
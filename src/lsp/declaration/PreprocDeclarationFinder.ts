@@ -3,7 +3,7 @@ import { Path } from "../../commons/path";
 import { RechPosition } from "../../commons/rechposition";
 import { Scan } from "rech-ts-commons";
 import { ParserCobol } from "../../cobol/parsercobol";
-import { File } from "../../commons/file";
+import { SearchPathResolver } from "../../commons/SearchPathResolver";
 import { FindInterface, FindParameters } from "./FindInterface";
 
 /**
@@ -76,21 +76,27 @@ export class PreprocDeclarationFinder implements FindInterface {
   }
 
   private buildPositionFromPreprocessedLine(file: string, path: Path, lineContent: string, column: number): RechPosition {
-    const match = <RegExpMatchArray>/.*\*\>\s+\d+\s+(\d+)(?:\s+(.+\....)\s+\(\d+\))?/.exec(lineContent);
+    const match = <RegExpMatchArray>/.*\*\>:?\s+\d+\s+(\d+)(?:\s+(.+\....)\s+\(\d+\))?/.exec(lineContent);
     const line = parseInt(match[1]) - 1;
     const filePositionGroup = 2;
     if (match[filePositionGroup]) {
       file = match[filePositionGroup];
     }
-    return new RechPosition(line, column, this.getFullPath(file, path));
+    return new RechPosition(line, column, PreprocDeclarationFinder.getFullPath(file, path));
   }
 
-  private getFullPath(file: string, path: Path): string {
-    const preferredDirectory = new Path(path.fullPathWin()).directory().toUpperCase();
-    if (new File(preferredDirectory + file).exists()) {
-      return preferredDirectory + file;
+  /**
+   * Returns the full path of a file referenced in the preprocessed source
+   *
+   * @param file name of the file written by the preprocessor
+   * @param path path of the source which was preprocessed
+   */
+  public static getFullPath(file: string, path: Path): string {
+    const fullPath = SearchPathResolver.resolve(file, path.fullPathWin());
+    if (fullPath) {
+      return fullPath;
     }
-    return "F:\\SIGER\\DES\\FON\\" + file;
+    return new Path(path.fullPathWin()).directory().toUpperCase() + file;
   }
 
 
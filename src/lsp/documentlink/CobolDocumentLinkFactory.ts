@@ -0,0 +1,73 @@
+import { DocumentLink, Range } from "vscode-languageserver";
+import { ParserCobol } from "../../cobol/parsercobol";
+import { CobolCopy } from "../../cobol/CobolCopy";
+import { CobolTokenizer } from "../../cobol/CobolTokenizer";
+import { Path } from "../../commons/path";
+import { File } from "../../commons/file";
+
+/**
+ * Class to generate the links which open the copies declared in the source
+ */
+export class CobolDocumentLinkFactory {
+
+    /** Cobol parser */
+    private parser: ParserCobol = new ParserCobol();
+
+    /**
+     * Creates the factory of the source
+     *
+     * @param uri uri of the source
+     * @param lines lines of the source
+     */
+    constructor(private uri: string, private lines: string[]) { }
+
+    /**
+     * Generates the links of the COPY statements whose copies are found, with the copy header as tooltip
+     */
+    public generateDocumentLinks(): Promise<DocumentLink[]> {
+        return new Promise((resolve, reject) => {
+            const links: Promise<DocumentLink | undefined>[] = [];
+            this.lines.forEach((line, index) => {
+                if (!CobolTokenizer.isComment(line) && this.parser.getCopyDeclaration(line)) {
+                    links.push(this.createDocumentLink(index));
+                }
+            });
+            Promise.all(links).then((result) => {
+                const documentLinks: DocumentLink[] = [];
+                result.forEach((link) => {
+                    if (link) {
+                        documentLinks.push(link);
+                    }
+                });
+                return resolve(documentLinks);
+            }).catch((e) => reject(e));
+        });
+    }
+
+    /**
+     * Creates the link of the copy declared in the line, or undefined if the copy is not found
+     *
+     * @param line
+     */
+    private createDocumentLink(line: number): Promise<DocumentLink | undefined> {
+        return new Promise((resolve) => {
+            const match = /copy\s+([\w\-]+\.(?:cpy|cpb))/i.exec(this.lines[line]);
+            if (!match) {
+                return resolve(undefined);
+            }
+            CobolCopy.parseLine(line, this.lines, this.uri).then((copy) => {
+                if (!copy || !new File(copy.getUri()).exists()) {
+                    return resolve(undefined);
+                }
+                const column = match.index + match[0].length - match[1].length;
+                const link = DocumentLink.create(Range.create(line, column, line, column + match[1].length), new Path(copy.getUri()).fullPathVscode());
+                const header = copy.getHeader();
+                if (header && header.length > 0) {
+                    link.tooltip = header.join("\n");
+                }
+                return resolve(link);
+            }).catch(() => resolve(undefined));
+        });
+    }
+
+}
@@ -1,99 +1,250 @@
-import { FoldingRange } from "vscode-languageserver";
-import { CopyFolding } from "./CopyFolding";
-import Q from "q";
-import { VariableFolding } from "./VariableFolding";
-import { IfFolding } from "./IfFolding";
-import { ElseFolding } from "./ElseFolding";
-import { CobolFoldInterface } from "./cobolFoldInterface";
-import { EvaluateFolding } from "./EvaluateFolding";
-import { WhenFolding } from "./WhenFolding";
-import { ParagraphFolding } from "./ParagraphFolding";
-import { PerformUntilFolding } from "./PerformUntilFolding";
-import { PerformWithTest } from "./PerformWithTest";
+import { FoldingRange, FoldingRangeKind } from "vscode-languageserver";
+import { CompletionUtils } from "../commons/CompletionUtils";
+import { CobolDocumentModel, CobolBlock } from "../model/CobolDocumentModel";
+import { AREA_B } from "../../cobol/colunas";
+
+/** Special variable levels, which can't have children */
+const SPECIAL_LEVELS = [66, 77, 78];
+/** Level of the condition names */
+const CONDITION_LEVEL = 88;
+
+/**
+ * Group variable opened while parsing the document, waiting for the line where it ends
+ */
+interface OpenVariable {
+  /** Line of the declaration */
+  line: number;
+  /** Level of the variable */
+  level: number;
+}
 
 /**
  * Class to fold Cobol source code
  */
 export class CobolFoldFactory {
 
-  /** Folding cache */
-  public static foldingCache: Map<string, FoldingRange[]> = new Map()
+  /** Folding of each document, kept while the version of the document doesn't change */
+  public static foldingCache: Map<string, {version: number, ranges: FoldingRange[]}> = new Map()
 
-  public fold(uri: string, buffer: string[], requestToShowFoldStatusBar?: () => void, requestToHideFoldStatusBar?: () => void): Promise<FoldingRange[]> {
-    if (requestToShowFoldStatusBar) {
-      requestToShowFoldStatusBar();
+  /**
+   * Returns the folding ranges of the document, parsing the document only if it has changed
+   *
+   * @param uri URI of the document
+   * @param model model of the document
+   */
+  public fold(uri: string, model: CobolDocumentModel): FoldingRange[] {
+    const cached = CobolFoldFactory.foldingCache.get(uri);
+    if (cached && cached.version == model.getVersion()) {
+      return cached.ranges;
     }
-    return new Promise((resolve, reject) => {
-      this.breakBlocks(buffer).then((result) => {
-        CobolFoldFactory.foldingCache.set(uri, result);
-        if (requestToHideFoldStatusBar) {
-          requestToHideFoldStatusBar();
+    const ranges = this.breakBlocks(model);
+    CobolFoldFactory.foldingCache.set(uri, {version: model.getVersion(), ranges: ranges});
+    return ranges;
+  }
+
+  /**
+   * Break the document in blocks and returns the folding ranges, parsing each line only once
+   *
+   * @param model
+   */
+  public breakBlocks(model: CobolDocumentModel): FoldingRange[] {
+    const lines = model.getLines();
+    const ranges: FoldingRange[] = [];
+    let division: number | undefined;
+    let section: number | undefined;
+    let paragraph: number | undefined;
+    const variables: OpenVariable[] = [];
+    let commentStart: number | undefined;
+    let lastCodeLine = 0;
+    const closeVariables = (line: number, level?: number) => {
+      while (variables.length > 0 && (level === undefined || variables[variables.length - 1].level >= level)) {
+        this.push(ranges, variables.pop()!.line, this.endOfDeclaration(line - 1, lines), lines);
+      }
+    };
+    const closeParagraph = (line: number) => {
+      if (paragraph !== undefined) {
+        this.push(ranges, paragraph, this.endOfDeclaration(line - 1, lines), lines);
+        paragraph = undefined;
+      }
+    };
+    lines.forEach((lineText, line) => {
+      const parsedLine = model.getParsedLine(line);
+      // Comment blocks
+      const isComment = parsedLine.comment && lineText.trim() !== "";
+      if (isComment && commentStart === undefined) {
+        commentStart = line;
+      }
+      if (!isComment && commentStart !== undefined) {
+        this.push(ranges, commentStart, line - 1, lines, FoldingRangeKind.Comment);
+        commentStart = undefined;
+      }
+      if (parsedLine.comment) {
+        return;
+      }
+      // Divisions, sections and paragraphs
+      const header = parsedLine.column < AREA_B - 1 ? /^\s*[\w\-]+\s+(division|section)\b/i.exec(lineText) : null;
+      if (header) {
+        closeVariables(line);
+        closeParagraph(line);
+        if (section !== undefined) {
+          this.push(ranges, section, this.endOfDeclaration(line - 1, lines), lines, FoldingRangeKind.Region);
+          section = undefined;
         }
-        resolve(result);
-      }).catch((e) => {
-        if (requestToHideFoldStatusBar) {
-          requestToHideFoldStatusBar();
+        if (header[1].toLowerCase() == "division") {
+          if (division !== undefined) {
+            this.push(ranges, division, this.endOfDeclaration(line - 1, lines), lines, FoldingRangeKind.Region);
+          }
+          division = line;
+        } else {
+          section = line;
+        }
+      } else if (parsedLine.paragraph) {
+        closeVariables(line);
+        closeParagraph(line);
+        paragraph = line;
+      }
+      // Variable groups
+      const level = parsedLine.variable !== undefined ? /^\s+(\d+)\s/.exec(lineText) : null;
+      if (level) {
+        const levelNumber = Number.parseInt(level[1]);
+        if (levelNumber != CONDITION_LEVEL) {
+          closeVariables(line, SPECIAL_LEVELS.includes(levelNumber) ? 0 : levelNumber);
+          variables.push({ line: line, level: levelNumber });
         }
-        return reject(e);
-      });
+      } else if (!header) {
+        closeVariables(line);
+      }
+      // Copies with replacing
+      if (parsedLine.clause == "copy" && /replacing/i.test(lineText)) {
+        this.foldCopy(line, lines, ranges);
+      }
+      lastCodeLine = line;
     });
+    if (commentStart !== undefined) {
+      this.push(ranges, commentStart, lines.length - 1, lines, FoldingRangeKind.Comment);
+    }
+    closeVariables(lastCodeLine + 1);
+    closeParagraph(lastCodeLine + 1);
+    if (section !== undefined) {
+      this.push(ranges, section, lastCodeLine, lines, FoldingRangeKind.Region);
+    }
+    if (division !== undefined) {
+      this.push(ranges, division, lastCodeLine, lines, FoldingRangeKind.Region);
+    }
+    model.getBlocks().forEach((block) => this.foldBlock(block, lines, ranges));
+    return ranges;
   }
 
   /**
-   * Break the text in blocks and returns the foldingRanger
+   * Folds the block of commands and the clauses in the middle of it
    *
-   * @param text
+   * @param block
+   * @param lines
+   * @param ranges
    */
-  private breakBlocks(text: string[]): Promise<FoldingRange[]> {
-    return new Promise((resolve, reject) => {
-      const promiseFoldings: Promise<FoldingRange>[] = [];
-      const foldings: FoldingRange[] = [];
-      for (let index = 0; index < text.length; index++) {
-        promiseFoldings.push(this.foldingRange(index, text));
-      }
-      Q.allSettled(promiseFoldings).then((results) => {
-        results.forEach((result) => {
-          if (result.state === "fulfilled") {
-            foldings.push(result.value!);
-          }
-        });
-        resolve(foldings);
-      }).catch((e) => {
-        reject(e);
-      })
-    })
+  private foldBlock(block: CobolBlock, lines: string[], ranges: FoldingRange[]) {
+    if (block.endLine === undefined) {
+      return;
+    }
+    const clauseLines = block.clauseLines.concat(block.endLine);
+    switch (block.clause) {
+      case "evaluate":
+        // The 'when' clauses are folded inside the 'evaluate'
+        this.push(ranges, block.startLine, block.endLine - 1, lines);
+        for (let i = 0; i < clauseLines.length - 1; i++) {
+          this.push(ranges, this.endOfCondition(clauseLines[i], lines), this.endOfDeclaration(clauseLines[i + 1] - 1, lines), lines);
+        }
+        break;
+      default:
+        this.push(ranges, this.endOfCondition(block.startLine, lines), clauseLines[0] - 1, lines);
+        for (let i = 0; i < clauseLines.length - 1; i++) {
+          this.push(ranges, clauseLines[i], clauseLines[i + 1] - 1, lines);
+        }
+    }
   }
 
   /**
-   * find the foldinRanger of the line term
+   * Folds the 'copy' with the 'replacing' clause
    *
    * @param line
+   * @param lines
+   * @param ranges
    */
-  private foldingRange(line: number, lines: string[]): Promise<FoldingRange> {
-    return new Promise((resolve, reject) => {
-      const currentLine = lines[line];
-      const cobolFolders: CobolFoldInterface[] = [
-        new CopyFolding(),
-        new VariableFolding(),
-        new IfFolding(),
-        new ElseFolding(),
-        new EvaluateFolding(),
-        new WhenFolding(),
-        new ParagraphFolding(),
-        new PerformUntilFolding(),
-        new PerformWithTest()
-      ];
-      let folded = false;
-      cobolFolders.forEach((cobolFold) => {
-        if (cobolFold.mustFolding(currentLine)) {
-          folded = true;
-          resolve(cobolFold.fold(line, lines));
+  private foldCopy(line: number, lines: string[], ranges: FoldingRange[]) {
+    for (let index = line; index < lines.length; index++) {
+      const currentLine = lines[index].trimRight();
+      if (currentLine.trim().startsWith("*>")) {
+        continue;
+      }
+      if (currentLine.endsWith(".")) {
+        if (index > line) {
+          ranges.push({
+            startLine: line,
+            startCharacter: lines[line].toLowerCase().indexOf(".cpy") + 4,
+            endLine: index,
+            endCharacter: lines[index].length
+          });
         }
-      });
-      if (!folded) {
-        return reject("invalid folded");
+        return;
       }
-    });
+    }
+  }
+
+  /**
+   * Returns the last line of the condition of the command, which may continue in the next lines
+   *
+   * @param line line of the command
+   * @param lines
+   */
+  private endOfCondition(line: number, lines: string[]): number {
+    for (let index = line; index < lines.length - 1; index++) {
+      const words = lines[index].trim().split(" ");
+      const nextWords = lines[index + 1].trim().split(" ");
+      const continues = /^(until|varying)$/i.test(nextWords[0]) && /^\s*perform\b/i.test(lines[line]);
+      if (!continues && !CompletionUtils.isOperator(words[words.length - 1]) && !CompletionUtils.isOperator(nextWords[0])) {
+        return index;
+      }
+    }
+    return line;
+  }
+
+  /**
+   * Returns the last line of a declaration, leaving out the documentation of the next declaration
+   *
+   * @param line line before the next declaration
+   * @param lines
+   */
+  private endOfDeclaration(line: number, lines: string[]): number {
+    let index = line;
+    while (index > 0 && lines[index].trim().startsWith("*>")) {
+      index--;
+    }
+    return index;
+  }
+
+  /**
+   * Adds the folding range if it has more than one line
+   *
+   * @param ranges
+   * @param startLine
+   * @param endLine
+   * @param lines
+   * @param kind
+   */
+  private push(ranges: FoldingRange[], startLine: number, endLine: number, lines: string[], kind?: string) {
+    if (endLine <= startLine) {
+      return;
+    }
+    const range: FoldingRange = {
+      startLine: startLine,
+      startCharacter: lines[startLine].length,
+      endLine: endLine,
+      endCharacter: lines[endLine].length
+    };
+    if (kind) {
+      range.kind = kind;
+    }
+    ranges.push(range);
   }
 
 }
@@ -0,0 +1,253 @@
+import { TextEdit, Range } from "vscode-languageserver";
+import { ParserCobol } from "../../cobol/parsercobol";
+import { CompletionUtils } from "../commons/CompletionUtils";
+import { AREA_B, COLUNA_C, COLUNA_VALUE } from "../../cobol/colunas";
+import { FormatterUtils } from "./FormatterUtils";
+
+/** Default tabstops, the same of the 'rech.editor.cobol.tabstops' setting */
+const DEFAULT_TABSTOPS = [0, 7, 11, 19, 29, 34, 50];
+/** Words which continue the condition of the line which opened a block */
+const CONDITION_CONTINUATIONS = ["and", "or", "until", "varying", "with", "after"];
+
+/**
+ * Block of commands opened in the procedure division
+ */
+interface FormatterBlock {
+  /** Clause which opened the block */
+  clause: string;
+  /** Column where the clause is positioned after formatting */
+  column: number;
+}
+
+/**
+ * Class to format the whole Cobol source or a range of it
+ */
+export class CobolDocumentFormatter {
+  /** Cobol parser */
+  private parser: ParserCobol;
+  /** Document lines */
+  private lines: string[];
+  /** Tabstops where 'PIC' and 'VALUE' clauses are aligned */
+  private tabstops: number[];
+  /** True if the source is written in lower case */
+  private lowerCase: boolean;
+
+  /**
+   * Creates an instance to format the Cobol source
+   *
+   * @param lines document lines
+   * @param tabstops configured tabstops
+   */
+  constructor(lines: string[], tabstops?: number[]) {
+    this.parser = new ParserCobol();
+    this.lines = lines;
+    this.tabstops = tabstops && tabstops.length > 0 ? tabstops.slice().sort((a, b) => a - b) : DEFAULT_TABSTOPS;
+    this.lowerCase = CompletionUtils.isLowerCaseSource(lines);
+  }
+
+  /**
+   * Formats the whole document, returning one TextEdit for each changed line
+   */
+  public formatDocument(): TextEdit[] {
+    const edits: TextEdit[] = [];
+    this.formatLines().forEach((newText, line) => {
+      const lineText = this.lines[line];
+      if (newText !== lineText) {
+        edits.push(TextEdit.replace(Range.create(line, 0, line, lineText.length), newText));
+      }
+    });
+    return edits;
+  }
+
+  /**
+   * Formats the lines within the range. The whole document is analyzed so the
+   * blocks opened before the range are considered.
+   *
+   * @param range range to be formatted
+   */
+  public formatRange(range: Range): TextEdit[] {
+    let lastLine = range.end.line;
+    if (range.end.character == 0 && lastLine > range.start.line) {
+      lastLine--;
+    }
+    return this.formatDocument().filter((edit) => {
+      return edit.range.start.line >= range.start.line && edit.range.start.line <= lastLine;
+    });
+  }
+
+  /**
+   * Returns the formatted text of every document line
+   */
+  private formatLines(): string[] {
+    const procedureDivision = this.lines.findIndex((lineText) => /^\s+procedure\s+division/i.test(lineText));
+    const result: string[] = [];
+    let blocks: FormatterBlock[] = [];
+    // Original column and displacement of the line where the last command started
+    let command: { column: number, shift: number } | undefined;
+    // True if the last line opened a block or started a block clause like 'else' or 'when'
+    let opened = false;
+    // True if the last line ended with a separator
+    let finished = true;
+    this.lines.forEach((lineText, line) => {
+      if (this.isCommentary(lineText)) {
+        result.push(lineText);
+        return;
+      }
+      if (procedureDivision >= 0 ? line < procedureDivision : this.parser.getDeclaracaoVariavelIgnoreReplace(lineText)) {
+        result.push(this.alignClauses(lineText));
+        return;
+      }
+      const column = CompletionUtils.countSpacesAtBeginning(lineText);
+      // Headers, sections and paragraphs end every block
+      if (column < AREA_B - 1) {
+        blocks = [];
+        command = undefined;
+        opened = false;
+        finished = true;
+        result.push(lineText);
+        return;
+      }
+      const code = this.removeCommentary(lineText).trim();
+      const words = code.toLowerCase().split(/[\s,.]+/);
+      const clause = words[0];
+      const expected = blocks.length > 0 ? blocks[blocks.length - 1].column + FormatterUtils.INDENT_SIZE : column;
+      let newColumn = expected;
+      let newText = lineText.trim();
+      let startsCommand = true;
+      let opens = false;
+      switch (true) {
+        case FormatterUtils.startsBlock(code):
+          const newBlock = FormatterUtils.openedBlock(code);
+          if (newBlock) {
+            blocks.push({ clause: newBlock, column: newColumn });
+          }
+          opens = true;
+          break;
+        case FormatterUtils.BLOCK_CLAUSES[clause] !== undefined:
+          const opener = this.closeBlocks(blocks, FormatterUtils.BLOCK_CLAUSES[clause], false);
+          if (opener) {
+            newColumn = clause == "when" ? opener.column + FormatterUtils.INDENT_SIZE : opener.column;
+          }
+          // The 'when' clauses indent the commands inside them, and 'else if' opens a nested block
+          const nested = clause == "when" ? (opener ? clause : undefined) : FormatterUtils.openedBlock(code);
+          if (nested) {
+            blocks.push({ clause: nested, column: newColumn });
+          }
+          if (clause == "else" && /^else[.,]?$/i.test(code)) {
+            newText = this.clauseCase("else") + (code.endsWith(".") ? "." : ",");
+          }
+          opens = true;
+          break;
+        case FormatterUtils.SCOPE_TERMINATORS[clause] !== undefined:
+          const block = this.closeBlocks(blocks, FormatterUtils.SCOPE_TERMINATORS[clause], true);
+          if (block) {
+            newColumn = block.column;
+          }
+          // The period would close the outer blocks too, like the 'if' nested by an 'else if' in the same column
+          if (new RegExp(`^${clause}[.,]?$`, "i").test(code)) {
+            const separator = blocks.length > 0 ? "," : CompletionUtils.separatorForColumn(newColumn + 1);
+            newText = this.clauseCase(clause) + (code.endsWith(".") ? "." : separator);
+          }
+          break;
+        case command !== undefined && !finished && (opened ? CONDITION_CONTINUATIONS.includes(clause) : column > command.column):
+          newColumn = Math.max(column + command!.shift, AREA_B - 1);
+          startsCommand = false;
+          opens = opened;
+          break;
+      }
+      if (startsCommand) {
+        command = { column: column, shift: newColumn - column };
+      }
+      opened = opens;
+      finished = /[.,]$/.test(code);
+      // The period ends the sentence and every block opened in it
+      if (code.endsWith(".")) {
+        blocks = [];
+      }
+      result.push(CompletionUtils.fillSpacesBetween(0, newColumn) + newText);
+    });
+    return result;
+  }
+
+  /**
+   * Closes the blocks opened after the last block opened by the clause, returning it.
+   * Returns undefined and keeps the blocks if the clause has no open block.
+   *
+   * @param blocks open blocks
+   * @param clause clause which opened the block
+   * @param closeItself true if the block opened by the clause must be closed too
+   */
+  private closeBlocks(blocks: FormatterBlock[], clause: string, closeItself: boolean): FormatterBlock | undefined {
+    for (let i = blocks.length - 1; i >= 0; i--) {
+      if (blocks[i].clause == clause) {
+        const block = blocks[i];
+        blocks.splice(closeItself ? i : i + 1);
+        return block;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Aligns the 'PIC' and 'VALUE' clauses of a variable declaration to the configured tabstops
+   *
+   * @param lineText line text
+   */
+  private alignClauses(lineText: string): string {
+    if (!this.parser.getDeclaracaoVariavelIgnoreReplace(lineText)) {
+      return lineText;
+    }
+    let text = this.alignClause(lineText, /\s+(pic|picture)\s/i, COLUNA_C - 1);
+    text = this.alignClause(text, /\s+values?\s/i, COLUNA_VALUE - 1);
+    return text;
+  }
+
+  /**
+   * Aligns the clause to the first tabstop starting on the column, or puts it after a single
+   * space if the text before the clause is too long
+   *
+   * @param lineText line text
+   * @param clauseRegExp RegExp that identifies the clause and the spaces before it
+   * @param column column where the clause should be positioned
+   */
+  private alignClause(lineText: string, clauseRegExp: RegExp, column: number): string {
+    const match = clauseRegExp.exec(lineText);
+    if (!match || /["']/.test(lineText.substring(0, match.index))) {
+      return lineText;
+    }
+    const before = lineText.substring(0, match.index);
+    const after = lineText.substring(match.index).trimLeft();
+    const tabstop = this.tabstops.find((stop) => stop >= column);
+    const target = tabstop !== undefined ? tabstop : column;
+    return before + CompletionUtils.fillSpacesOrSingleSpace(before.length, target) + after;
+  }
+
+  /**
+   * Returns true if the line is a commentary, an empty line or a compiler directive
+   *
+   * @param lineText line text
+   */
+  private isCommentary(lineText: string): boolean {
+    return this.parser.isCommentOrEmptyLine(lineText) || lineText.charAt(6) == "*" || lineText.charAt(6) == "/" || lineText.trim().startsWith("$");
+  }
+
+  /**
+   * Removes the commentary at the end of the line
+   *
+   * @param lineText line text
+   */
+  private removeCommentary(lineText: string): string {
+    const commentary = lineText.indexOf("*>");
+    return commentary >= 0 ? lineText.substring(0, commentary) : lineText;
+  }
+
+  /**
+   * Returns the clause in the case of the source
+   *
+   * @param clause clause in lower case
+   */
+  private clauseCase(clause: string): string {
+    return this.lowerCase ? clause : clause.toUpperCase();
+  }
+
+}
@@ -24,7 +24,7 @@ export class EvaluateFormatter implements FormatterInterface {
         let evaluateLineText = lines[line - 1];
         let evaluateStartColumn = CompletionUtils.countSpacesAtBeginning(evaluateLineText);
         const edits: TextEdit[] = this.completeTextEditWithComma(line, lines);
-        edits.push(this.createWhenTextEdit(line, evaluateStartColumn + 3));
+        edits.push(this.createWhenTextEdit(line, evaluateStartColumn + FormatterUtils.INDENT_SIZE));
         let endEvaluateClause = "end-evaluate";
         if (FormatterUtils.isClauseMissing(line + 1, evaluateStartColumn, lines, endEvaluateClause, [endEvaluateClause, "when"])) {
             edits.push(this.createEndEvaluateTextEdit(line + 1, evaluateStartColumn + 1));
@@ -7,6 +7,23 @@ import { TextEdit } from "vscode-languageserver";
  */
 export class FormatterUtils {
 
+    /** Number of spaces used to indent the commands inside a block */
+    public static readonly INDENT_SIZE = 3;
+    /** Scope terminators and the clauses which open the blocks closed by them */
+    public static readonly SCOPE_TERMINATORS: { [terminator: string]: string } = {
+        "end-if": "if",
+        "end-evaluate": "evaluate",
+        "end-perform": "perform",
+        "end-try": "try",
+    };
+    /** Clauses in the middle of the blocks and the clauses which open the blocks */
+    public static readonly BLOCK_CLAUSES: { [clause: string]: string } = {
+        "else": "if",
+        "when": "evaluate",
+        "catch": "try",
+        "finally": "try",
+    };
+
     /**
      * Creates an indent text edit for the specified line and column
      *
@@ -14,7 +31,7 @@ export class FormatterUtils {
      * @param column column number
      * @param size indentation size (number of spaces to be inserted)
      */
-    public static createIndentTextEdit(line: number, column: number, size: number = 3): TextEdit {
+    public static createIndentTextEdit(line: number, column: number, size: number = FormatterUtils.INDENT_SIZE): TextEdit {
         let indentSpaces = "";
         for (let i = 0; i < size; i++) {
             indentSpaces = indentSpaces.concat(" ");
@@ -34,6 +51,45 @@ export class FormatterUtils {
         };
     }
 
+    /**
+     * Returns true if the command starts a block which may be closed by a scope terminator,
+     * like 'if', 'evaluate', 'try' and the inline 'perform'
+     *
+     * @param code code of the line, without the indentation
+     */
+    public static startsBlock(code: string): boolean {
+        const clause = code.toLowerCase().split(/[\s,.]+/)[0];
+        return clause == "if" || clause == "evaluate" || clause == "try" || (clause == "perform" && FormatterUtils.isInlinePerform(code));
+    }
+
+    /**
+     * Returns the clause of the block opened by the code and closed by a scope terminator in another line,
+     * or undefined if the code doesn't open a block
+     *
+     * @param code code of the line, without the indentation
+     */
+    public static openedBlock(code: string): string | undefined {
+        const words = code.toLowerCase().split(/[\s,.]+/);
+        let clause: string;
+        if (FormatterUtils.startsBlock(code)) {
+            clause = words[0];
+        } else if (words[0] == "else" && words[1] == "if") {
+            clause = "if";
+        } else {
+            return undefined;
+        }
+        return new RegExp(`\\bend-${clause}\\b`, "i").test(code) ? undefined : clause;
+    }
+
+    /**
+     * Returns true if the 'perform' command executes the following commands until the 'end-perform'
+     *
+     * @param code code of the line, without the indentation
+     */
+    public static isInlinePerform(code: string): boolean {
+        return /^perform(\s*[.,]?$|\s+(until|varying|with|forever)\b|\s+\S+\s+times\b)/i.test(code);
+    }
+
     /**
      * Returns true if at least one of the specified clauses is missing
      *
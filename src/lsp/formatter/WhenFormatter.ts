@@ -2,6 +2,7 @@ import { TextEdit } from "vscode-languageserver";
 import { FormatterInterface } from "./FormatterInterface";
 import { CompletionUtils } from "../commons/CompletionUtils";
 import { EvaluateFormatter } from "./EvaluateFormatter";
+import { FormatterUtils } from "./FormatterUtils";
 
 /** End Cobol column */
 const END_COBOL_COLUMN = 120;
@@ -28,7 +29,7 @@ export class WhenFormatter implements FormatterInterface {
     let lineText = lines[line];
     let match = WhenFormatter.WHEN_WITH_PARAM_REGEXP.exec(lineText);
     if (!match) {
-      let whenStartColumn = this.evaluateColumn(line, lines) + 3;
+      let whenStartColumn = this.evaluateColumn(line, lines) + FormatterUtils.INDENT_SIZE;
       return [this.createWhenTextEdit(line, whenStartColumn)];
     }
     return [];
@@ -1,6 +1,6 @@
 import { HighlightInterface } from "./HighlightInterface";
 import { DocumentHighlight, Position, Range } from "vscode-languageserver";
-import { TextDocument } from "vscode-languageserver-textdocument";
+import { CobolDocumentModel } from "../model/CobolDocumentModel";
 
 /** Clauses from constant test */
 const CLAUSE_IF = "$if";
@@ -21,14 +21,14 @@ export class ConstantTestHighlight implements HighlightInterface {
         return false
     }
 
-    positions(text: TextDocument, _word: string, currentLine: number, _currentCharacter: number): DocumentHighlight[] {
+    positions(model: CobolDocumentModel, _word: string, currentLine: number, _currentCharacter: number): DocumentHighlight[] {
         const results: DocumentHighlight[] = []
-        const ifPosition = this.findClauseIftOfTest(text.getText().replace(/\r/g, "").split("\n"), currentLine);
+        const ifPosition = this.findClauseIftOfTest(model.getLines(), currentLine);
         if (!ifPosition) {
             return results;
         }
-        const elsePosition = this.findClauseElsetOfTest(text.getText().replace(/\r/g, "").split("\n"), ifPosition);
-        const endPosition = this.findClauseEndtOfTest(text.getText().replace(/\r/g, "").split("\n"), ifPosition);
+        const elsePosition = this.findClauseElsetOfTest(model.getLines(), ifPosition);
+        const endPosition = this.findClauseEndtOfTest(model.getLines(), ifPosition);
         if (!endPosition) {
             return results;
         }
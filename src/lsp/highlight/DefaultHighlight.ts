@@ -1,26 +1,55 @@
 import { HighlightInterface } from "./HighlightInterface";
-import { TextDocument } from "vscode-languageserver-textdocument";
-import { DocumentHighlight, Position, Range } from "vscode-languageserver";
+import { DocumentHighlight, DocumentHighlightKind, Position, Range } from "vscode-languageserver";
 import { Scan } from "rech-ts-commons";
+import { CobolDocumentModel } from "../model/CobolDocumentModel";
+import { CobolReference } from "../references/CobolReferencesFinder";
 
 /**
  * Class to return the default behavior of highlight
  */
 export class DefaultHighlight implements HighlightInterface {
 
+    /**
+     * Creates the highlight of the references
+     *
+     * @param expandedSource expanded source, used to know the variables declared inside copies
+     * @param uri URI of the document, sharing the references of the document with the other requests
+     */
+    constructor(private expandedSource?: string, private uri?: string) {}
+
     isABlockTerm(_word: string): boolean {
         return true;
     }
 
-    positions(text: TextDocument, word: string, _currentLine: number, _currentCharacter: number): DocumentHighlight[]{
+    positions(model: CobolDocumentModel, word: string, currentLine: number, currentCharacter: number): DocumentHighlight[]{
+        const references = model.getReferencesFinder(this.expandedSource, this.uri).findReferencesAt(currentLine, currentCharacter);
+        if (references.length > 0) {
+            return references.filter((reference) => !reference.file).map((reference) => this.buildReferenceHighlight(reference));
+        }
         const results: DocumentHighlight[] = []
         const regexp = new RegExp("(?:\\s|\\(|\\)|\\,|\\.|\\>|\\\"|=|^)" + word + "(?:\\s|\\)|\\(|\\,|\\.|\\\"|==|\\:|$)", "g");
-        new Scan(text.getText()).scan(regexp, (iterator: any) => {
+        new Scan(model.getText()).scan(regexp, (iterator: any) => {
             results.push(this.buildDocumentHighlight(iterator, word))
         });
         return results;
     }
 
+    /**
+     * Builds and returns the DocumentHighlight of the reference, with the kind of access to the variable
+     *
+     * @param reference
+     */
+    private buildReferenceHighlight(reference: CobolReference): DocumentHighlight {
+        const kinds = { declaration: DocumentHighlightKind.Write, write: DocumentHighlightKind.Write, read: DocumentHighlightKind.Read, text: DocumentHighlightKind.Text };
+        return {
+            range: Range.create(
+                Position.create(reference.line, reference.column),
+                Position.create(reference.line, reference.column + reference.length)
+            ),
+            kind: kinds[reference.access]
+        }
+    }
+
     /**
      * Builds and returns the DocumentHighlight of interator
      *
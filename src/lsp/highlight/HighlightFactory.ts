@@ -1,4 +1,3 @@
-import { TextDocument } from "vscode-languageserver-textdocument";
 import { DocumentHighlight } from "vscode-languageserver";
 import { DefaultHighlight } from "./DefaultHighlight";
 import { IfHighlight } from "./IfHighlight";
@@ -6,6 +5,7 @@ import { EvaluateHighlight } from "./EvaluateHighlight";
 import { PerformHighlight } from "./PerformHighlight";
 import { TryHighlight } from "./tryHighlight";
 import { ConstantTestHighlight } from "./ConstantTestHighlight";
+import { CobolDocumentModel } from "../model/CobolDocumentModel";
 
 /**
  * Classe to provide the Highlight
@@ -15,30 +15,32 @@ export class HighlightFactory {
     /**
      * Return the highlight positions in the document
      *
-     * @param text
+     * @param model
      * @param word
      * @param currentLine
      * @param currentCharacter
+     * @param expandedSource expanded source, used to know the variables declared inside copies
+     * @param uri URI of the document
      */
-    public getHighlightsPositions(text: TextDocument, word: string, currentLine: number, currentCharacter: number): DocumentHighlight[] {
+    public getHighlightsPositions(model: CobolDocumentModel, word: string, currentLine: number, currentCharacter: number, expandedSource?: string, uri?: string): DocumentHighlight[] {
         switch (true) {
-            case new ConstantTestHighlight().isABlockTerm(text.getText().replace(/\r/g, "").split("\n")[currentLine].trimLeft().split(" ")[0]): {
-                return new ConstantTestHighlight().positions(text, word, currentLine, currentCharacter);
+            case new ConstantTestHighlight().isABlockTerm(model.getLines()[currentLine].trimLeft().split(" ")[0]): {
+                return new ConstantTestHighlight().positions(model, word, currentLine, currentCharacter);
             }
             case new IfHighlight().isABlockTerm(word): {
-                return new IfHighlight().positions(text, word, currentLine, currentCharacter);
+                return new IfHighlight().positions(model, word, currentLine, currentCharacter);
             }
             case new EvaluateHighlight().isABlockTerm(word): {
-                return new EvaluateHighlight().positions(text, word, currentLine, currentCharacter);
+                return new EvaluateHighlight().positions(model, word, currentLine, currentCharacter);
             }
             case new PerformHighlight().isABlockTerm(word): {
-                return new PerformHighlight().positions(text, word, currentLine, currentCharacter);
+                return new PerformHighlight().positions(model, word, currentLine, currentCharacter);
             }
             case new TryHighlight().isABlockTerm(word): {
-                return new TryHighlight().positions(text, word, currentLine, currentCharacter);
+                return new TryHighlight().positions(model, word, currentLine, currentCharacter);
             }
             default: {
-                return new DefaultHighlight().positions(text, word, currentLine, currentCharacter);
+                return new DefaultHighlight(expandedSource, uri).positions(model, word, currentLine, currentCharacter);
             }
         }
     }
@@ -1,5 +1,5 @@
-import { TextDocument } from "vscode-languageserver-textdocument";
 import { DocumentHighlight } from "vscode-languageserver";
+import { CobolDocumentModel } from "../model/CobolDocumentModel";
 
 /**
  * Interface to return the highlight positions
@@ -17,11 +17,11 @@ export interface HighlightInterface {
     /**
     * return an array of highlight positions
     *
-    * @param text
+    * @param model
     * @param word
     * @param currentLine
     * @param currentCharacter
     */
-    positions(text: TextDocument, word: string, currentLine: number, currentCharacter: number): DocumentHighlight[];
+    positions(model: CobolDocumentModel, word: string, currentLine: number, currentCharacter: number): DocumentHighlight[];
 
 }
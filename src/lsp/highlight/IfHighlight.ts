@@ -1,7 +1,6 @@
 import { HighlightInterface } from "./HighlightInterface";
-import { TextDocument } from "vscode-languageserver-textdocument";
 import { DocumentHighlight, Position, Range } from "vscode-languageserver";
-import { BufferSplitter } from "rech-ts-commons";
+import { CobolDocumentModel } from "../model/CobolDocumentModel";
 
 /** Terms of block */
 const BEGINBLOCKTERM = "if"
@@ -21,71 +20,19 @@ export class IfHighlight implements HighlightInterface {
         return false
     }
 
-    positions(text: TextDocument, _word: string, currentLine: number, _currentCharacter: number): DocumentHighlight[]{
+    positions(model: CobolDocumentModel, word: string, currentLine: number, _currentCharacter: number): DocumentHighlight[]{
         const results: DocumentHighlight[] = []
-        const buffer = BufferSplitter.split(text.getText());
-        const currentLineContent = buffer[currentLine];
-        const commandColumn = currentLineContent.length - currentLineContent.trimLeft().length
-        const beginLine = this.findTheBeginOfBlock(text, currentLine, commandColumn);
-        const endLine = this.findTheEndOfBlock(text, currentLine, commandColumn);
-        if (beginLine && endLine) {
-            const elseLine = this.findLineOfBlockTerm(text, beginLine, ELSETERM, commandColumn, true)
-            if (elseLine && elseLine < endLine) {
-                results.push(this.buildDocumentHighlight(elseLine, commandColumn, ELSETERM))
-            }
-            results.push(this.buildDocumentHighlight(beginLine, commandColumn, BEGINBLOCKTERM))
-            results.push(this.buildDocumentHighlight(endLine, commandColumn, ENDBLOCKTERM))
+        const block = model.findBlock(currentLine, BEGINBLOCKTERM, word);
+        if (block && block.endLine !== undefined) {
+            block.clauseLines.forEach((elseLine) => {
+                results.push(this.buildDocumentHighlight(elseLine, model.getColumn(elseLine), ELSETERM))
+            });
+            results.push(this.buildDocumentHighlight(block.startLine, model.getTermColumn(block.startLine, BEGINBLOCKTERM), BEGINBLOCKTERM))
+            results.push(this.buildDocumentHighlight(block.endLine, model.getColumn(block.endLine), ENDBLOCKTERM))
         }
         return results;
     }
 
-    /**
-     * Find the begin line of the block
-     *
-     * @param text
-     * @param currentLine
-     * @param commandColumn
-     */
-    private findTheBeginOfBlock(text: TextDocument, currentLine: number, commandColumn: number) {
-        return this.findLineOfBlockTerm(text, currentLine, BEGINBLOCKTERM, commandColumn, false)
-    }
-
-    /**
-     * Find the end line of the block
-     *
-     * @param text
-     * @param currentLine
-     * @param commandColumn
-     */
-    private findTheEndOfBlock(text: TextDocument, currentLine: number, commandColumn: number) {
-        return this.findLineOfBlockTerm(text, currentLine, ENDBLOCKTERM, commandColumn, true)
-    }
-
-    /**
-     * Find a line of a term in the block
-     *
-     * @param text
-     * @param currentLine
-     * @param term
-     * @param commandColumn
-     */
-    private findLineOfBlockTerm(text: TextDocument, currentLine: number, term: string, commandColumn: number, forward: boolean) {
-        const buffer = BufferSplitter.split(text.getText());
-        let index = currentLine;
-        while ((forward && index < buffer.length) || (!forward && index > 0)) {
-            const line = buffer[index];
-            if (line.trimLeft().startsWith(term) && line.substring(commandColumn, commandColumn + term.length).toLowerCase() == term) {
-                return index
-            }
-            if (forward) {
-                index++
-            } else {
-                index--
-            }
-        }
-        return
-    }
-
     /**
      * Builds and returns the DocumentHighlight of interator
      *
@@ -1,8 +1,7 @@
 import { HighlightInterface } from "./HighlightInterface";
-import { TextDocument } from "vscode-languageserver-textdocument";
 import { DocumentHighlight, Position, Range } from "vscode-languageserver";
 import { DefaultHighlight } from "./DefaultHighlight";
-import { BufferSplitter } from "rech-ts-commons";
+import { CobolDocumentModel } from "../model/CobolDocumentModel";
 
 /** Terms of block */
 const BEGINBLOCKTERM = "perform"
@@ -21,71 +20,21 @@ export class PerformHighlight implements HighlightInterface {
         return false
     }
 
-    positions(text: TextDocument, word: string, currentLine: number, currentCharacter: number): DocumentHighlight[]{
+    positions(model: CobolDocumentModel, word: string, currentLine: number, currentCharacter: number): DocumentHighlight[]{
         const results: DocumentHighlight[] = []
-        const buffer = BufferSplitter.split(text.getText());
-        const currentLineContent = buffer[currentLine];
+        const currentLineContent = model.getLines()[currentLine];
         // If is pharagraph perform
         if (/\s*perform.+\s*([\w\-]*)((?:\sthru\s.*)|(?:.+\stimes))?[\.|\,]/.exec(currentLineContent.toLowerCase())) {
-            return new DefaultHighlight().positions(text, word, currentLine, currentCharacter)
+            return new DefaultHighlight().positions(model, word, currentLine, currentCharacter)
         }
-        let commandColumn = currentLineContent.length - currentLineContent.trimLeft().length
-        let beginLine = this.findTheBeginOfBlock(text, currentLine, commandColumn);
-        let endLine = this.findTheEndOfBlock(text, currentLine, commandColumn);
-        if (beginLine && endLine) {
-            results.push(this.buildDocumentHighlight(beginLine, commandColumn, BEGINBLOCKTERM))
-            results.push(this.buildDocumentHighlight(endLine, commandColumn, ENDBLOCKTERM))
+        const block = model.findBlock(currentLine, BEGINBLOCKTERM, word);
+        if (block && block.endLine !== undefined) {
+            results.push(this.buildDocumentHighlight(block.startLine, model.getColumn(block.startLine), BEGINBLOCKTERM))
+            results.push(this.buildDocumentHighlight(block.endLine, model.getColumn(block.endLine), ENDBLOCKTERM))
         }
         return results;
     }
 
-    /**
-     * Find the begin line of the block
-     *
-     * @param text
-     * @param currentLine
-     * @param commandColumn
-     */
-    private findTheBeginOfBlock(text: TextDocument, currentLine: number, commandColumn: number) {
-        return this.findLineOfBlockTerm(text, currentLine, BEGINBLOCKTERM, commandColumn, false)
-    }
-
-    /**
-     * Find the end line of the block
-     *
-     * @param text
-     * @param currentLine
-     * @param commandColumn
-     */
-    private findTheEndOfBlock(text: TextDocument, currentLine: number, commandColumn: number) {
-        return this.findLineOfBlockTerm(text, currentLine, ENDBLOCKTERM, commandColumn, true)
-    }
-
-    /**
-     * Find a line of a term in the block
-     *
-     * @param text
-     * @param currentLine
-     * @param term
-     * @param commandColumn
-     */
-    private findLineOfBlockTerm(text: TextDocument, currentLine: number, term: string, commandColumn: number, forward: boolean) {
-        let buffer = BufferSplitter.split(text.getText());
-        let index = currentLine;
-        while ((forward && index < buffer.length) || (!forward && index > 0)) {
-            let line = buffer[index];
-            if (line.trimLeft().startsWith(term) && line.substring(commandColumn, commandColumn + term.length).toLowerCase() == term) {
-                return index
-            }
-            if (forward) {
-                index++
-            } else {
-                index--
-            }
-        }
-        return
-    }
-
     /**
      * Builds and returns the DocumentHighlight of interator
      *
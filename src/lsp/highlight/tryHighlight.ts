@@ -1,13 +1,10 @@
-import { TextDocument } from "vscode-languageserver-textdocument";
 import { HighlightInterface } from "./HighlightInterface";
 import { DocumentHighlight, Position, Range } from "vscode-languageserver";
-import { BufferSplitter } from "rech-ts-commons";
+import { CobolDocumentModel } from "../model/CobolDocumentModel";
 
 /** Terms of block */
 const BEGINBLOCKTERM = "try"
 const ENDBLOCKTERM = "end-try"
-const CATCHTERM = "catch"
-const FINALLYTERM = "finally"
 
 /**
  * Class to return the behavior of highlight when is a 'try' term
@@ -22,75 +19,20 @@ export class TryHighlight implements HighlightInterface {
         return false
     }
 
-    positions(text: TextDocument, _word: string, currentLine: number, _currentCharacter: number): DocumentHighlight[]{
+    positions(model: CobolDocumentModel, word: string, currentLine: number, _currentCharacter: number): DocumentHighlight[]{
         const results: DocumentHighlight[] = []
-        let buffer = BufferSplitter.split(text.getText());
-        let currentLineContent = buffer[currentLine];
-        let commandColumn = currentLineContent.length - currentLineContent.trimLeft().length
-        let beginLine = this.findTheBeginOfBlock(text, currentLine, commandColumn);
-        let endLine = this.findTheEndOfBlock(text, currentLine, commandColumn);
-        if (beginLine && endLine) {
-            let catchLine = this.findLineOfBlockTerm(text, beginLine, CATCHTERM, commandColumn, true)
-            if (catchLine && catchLine < endLine) {
-                results.push(this.buildDocumentHighlight(catchLine, commandColumn, CATCHTERM))
-            }
-            let finallyLine = this.findLineOfBlockTerm(text, beginLine, FINALLYTERM, commandColumn, true)
-            if (finallyLine && finallyLine < endLine) {
-                results.push(this.buildDocumentHighlight(finallyLine, commandColumn, FINALLYTERM))
-            }
-            results.push(this.buildDocumentHighlight(beginLine, commandColumn, BEGINBLOCKTERM))
-            results.push(this.buildDocumentHighlight(endLine, commandColumn, ENDBLOCKTERM))
+        const block = model.findBlock(currentLine, BEGINBLOCKTERM, word);
+        if (block && block.endLine !== undefined) {
+            block.clauseLines.forEach((clauseLine) => {
+                const clause = model.getLines()[clauseLine].trim().split(/[\s,.]/)[0];
+                results.push(this.buildDocumentHighlight(clauseLine, model.getColumn(clauseLine), clause))
+            });
+            results.push(this.buildDocumentHighlight(block.startLine, model.getColumn(block.startLine), BEGINBLOCKTERM))
+            results.push(this.buildDocumentHighlight(block.endLine, model.getColumn(block.endLine), ENDBLOCKTERM))
         }
         return results;
     }
 
-    /**
-     * Find the begin line of the block
-     *
-     * @param text
-     * @param currentLine
-     * @param commandColumn
-     */
-    private findTheBeginOfBlock(text: TextDocument, currentLine: number, commandColumn: number) {
-        return this.findLineOfBlockTerm(text, currentLine, BEGINBLOCKTERM, commandColumn, false)
-    }
-
-    /**
-     * Find the end line of the block
-     *
-     * @param text
-     * @param currentLine
-     * @param commandColumn
-     */
-    private findTheEndOfBlock(text: TextDocument, currentLine: number, commandColumn: number) {
-        return this.findLineOfBlockTerm(text, currentLine, ENDBLOCKTERM, commandColumn, true)
-    }
-
-    /**
-     * Find a line of a term in the block
-     *
-     * @param text
-     * @param currentLine
-     * @param term
-     * @param commandColumn
-     */
-    private findLineOfBlockTerm(text: TextDocument, currentLine: number, term: string, commandColumn: number, forward: boolean) {
-        let buffer = BufferSplitter.split(text.getText());
-        let index = currentLine;
-        while ((forward && index < buffer.length) || (!forward && index > 0)) {
-            let line = buffer[index];
-            if (line.trimLeft().startsWith(term) && line.substring(commandColumn, commandColumn + term.length).toLowerCase() == term) {
-                return index
-            }
-            if (forward) {
-                index++
-            } else {
-                index--
-            }
-        }
-        return
-    }
-
     /**
      * Builds and returns the DocumentHighlight of interator
      *
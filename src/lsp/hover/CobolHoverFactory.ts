@@ -0,0 +1,289 @@
+import { Hover, MarkupKind, Range, Position } from "vscode-languageserver";
+import { BufferSplitter } from "rech-ts-commons";
+import { ParserCobol } from "../../cobol/parsercobol";
+import { CobolCopy } from "../../cobol/CobolCopy";
+import { CobolDocParser } from "../../cobol/rechdoc/CobolDocParser";
+import { ElementDocumentationExtractor } from "../../cobol/rechdoc/ElementDocumentationExtractor";
+import { CobolDeclarationFinder } from "../declaration/CobolDeclarationFinder";
+import { CobolVariable } from "../completion/CobolVariable";
+import { CobolMethod } from "../completion/CobolMethod";
+import { RechPosition } from "../../commons/rechposition";
+import { FileUtils } from "../../commons/FileUtils";
+import { CobolReservedWords } from "../../cobol/CobolReservedWords";
+
+/**
+ * Class to build the hover information of Cobol elements
+ */
+export class CobolHoverFactory {
+
+    /** Cobol parser */
+    private parser: ParserCobol;
+    /** Lines of the current source */
+    private lines: string[];
+
+    /**
+     * Creates the hover factory for the specified source
+     *
+     * @param uri uri of the current source
+     * @param text text of the current source
+     */
+    constructor(private uri: string, private text: string) {
+        this.parser = new ParserCobol();
+        this.lines = BufferSplitter.split(text);
+    }
+
+    /**
+     * Returns the hover of the word in the specified position
+     *
+     * @param word
+     * @param line
+     * @param column
+     */
+    public generateHover(word: string, line: number, column: number): Promise<Hover | undefined> {
+        return new Promise((resolve, reject) => {
+            if (!word || word === "") {
+                return resolve(undefined);
+            }
+            const range = this.buildWordRange(word, line, column);
+            if (this.parser.getCopyDeclaration(this.lines[line])) {
+                this.copyMarkdown(line, this.lines, this.uri).then((markdown) => {
+                    return resolve(this.createHover(markdown, range));
+                }).catch((e) => reject(e));
+                return;
+            }
+            // Keywords and numbers are never declared
+            if (CobolReservedWords.isReserved(word) || /^[+\-]?\d*[\.,]?\d+$/.test(word)) {
+                return resolve(undefined);
+            }
+            new CobolDeclarationFinder(this.text).findDeclaration({
+                term: word,
+                uri: this.uri,
+                lineIndex: line,
+                columnIndex: column
+            }).then((position) => {
+                this.bufferOfDeclaration(position).then((buffer) => {
+                    this.elementMarkdown(position, BufferSplitter.split(buffer)).then((markdown) => {
+                        return resolve(this.createHover(markdown, range));
+                    }).catch((e) => reject(e));
+                }).catch((e) => reject(e));
+            }).catch((e) => reject(e));
+        });
+    }
+
+    /**
+     * Returns the markdown of the element declared in the specified position
+     *
+     * @param position
+     * @param lines
+     */
+    private elementMarkdown(position: RechPosition, lines: string[]): Promise<string | undefined> {
+        return new Promise((resolve, reject) => {
+            const declarationLine = lines[position.line];
+            if (!declarationLine) {
+                return resolve(undefined);
+            }
+            switch (true) {
+                case this.parser.getDeclaracaoMethod(declarationLine) !== undefined: {
+                    CobolMethod.parseLines(position.line, position.column, lines).then((method) => {
+                        return resolve(this.methodMarkdown(method));
+                    }).catch((e) => reject(e));
+                    break;
+                }
+                case this.parser.getDeclaracaoVariavelIgnoreReplace(declarationLine) !== undefined: {
+                    return resolve(this.variableMarkdown(CobolVariable.parseLines(position.line, lines)));
+                }
+                case this.parser.getDeclaracaoParagrafo(declarationLine) !== undefined: {
+                    return resolve(this.paragraphMarkdown(position.line, lines));
+                }
+                default: {
+                    return resolve(undefined);
+                }
+            }
+        });
+    }
+
+    /**
+     * Returns the markdown of the specified variable
+     *
+     * @param variable
+     */
+    private variableMarkdown(variable: CobolVariable): string {
+        let markdown = this.codeBlock(variable.getRaw().trim());
+        const properties: string[] = [`**Level:** ${this.formatLevel(variable.getLevel())}`];
+        if (variable.getPicture() !== "") {
+            properties.push(`**Picture:** \`${variable.getPicture()}\``);
+        }
+        if (variable.getLevel() != CobolVariable.ENUM_LEVEL && variable.getLevel() != CobolVariable.CONSTANT_LEVEL) {
+            properties.push(`**Size:** ${variable.getByteSize()} bytes`);
+        }
+        markdown += properties.join(" | ") + "\n\n";
+        if (variable.getSection()) {
+            markdown += `**Section:** ${variable.getSection()!.trim()}\n\n`;
+        }
+        if (variable.getScope()) {
+            markdown += `**Scope:** ${variable.getScope()}`;
+            if (variable.isMethodReturn()) {
+                markdown += " (returning)";
+            }
+            markdown += "\n\n";
+        }
+        const comment = variable.getComment();
+        if (comment && comment.join("").trim() !== "") {
+            markdown += comment.join("\n") + "\n\n";
+        }
+        const enums = (variable.getChildren() || []).filter((child) => child.getLevel() == CobolVariable.ENUM_LEVEL);
+        if (enums.length > 0) {
+            markdown += "**Conditions:**\n\n";
+            enums.forEach((child) => {
+                markdown += `* \`${child.getName()}\` ${this.extractConditionValues(child.getRaw())}\n`;
+            });
+        }
+        return markdown;
+    }
+
+    /**
+     * Returns the markdown of the paragraph declared in the specified line
+     *
+     * @param line
+     * @param lines
+     */
+    private paragraphMarkdown(line: number, lines: string[]): string {
+        let markdown = this.codeBlock(lines[line].trim());
+        const docArray = new ElementDocumentationExtractor().getElementDocumentation(lines, line);
+        if (docArray.length > 0) {
+            markdown += new CobolDocParser().parseCobolDoc(docArray).asMarkdown();
+        }
+        return markdown;
+    }
+
+    /**
+     * Returns the markdown of the specified method
+     *
+     * @param method
+     */
+    private methodMarkdown(method: CobolMethod): string {
+        const params = method.getParams().map((param) => param.getName()).join(", ");
+        let signature = `method-id. ${method.getName()}(${params})`;
+        const variableReturn = method.getVariableReturn();
+        if (variableReturn) {
+            signature += ` returning ${variableReturn.getName()}`;
+        }
+        if (method.isPrivate()) {
+            signature = "private " + signature;
+        }
+        let markdown = this.codeBlock(signature);
+        markdown += method.getDocumentation().asMarkdown();
+        return markdown;
+    }
+
+    /**
+     * Returns the markdown of the copy declared in the specified line
+     *
+     * @param line
+     * @param lines
+     * @param uri
+     */
+    private copyMarkdown(line: number, lines: string[], uri: string): Promise<string | undefined> {
+        return new Promise((resolve, reject) => {
+            CobolCopy.parseLine(line, lines, uri).then((copy) => {
+                if (!copy) {
+                    return resolve(undefined);
+                }
+                let markdown = this.codeBlock(copy.getRaw());
+                markdown += `**File:** ${copy.getUri()}\n\n`;
+                const header = copy.getHeader();
+                if (header && header.length > 0) {
+                    markdown += header.join("\n") + "\n\n";
+                }
+                const replacings = copy.getReplacings();
+                if (replacings.size > 0) {
+                    markdown += "| Replacing | By |\n|---|---|\n";
+                    replacings.forEach((replacement, term) => {
+                        markdown += `| \`${term.trim()}\` | \`${replacement.trim()}\` |\n`;
+                    });
+                }
+                return resolve(markdown);
+            }).catch((e) => reject(e));
+        });
+    }
+
+    /**
+     * Returns the buffer of the file containing the declaration
+     *
+     * @param position
+     */
+    private bufferOfDeclaration(position: RechPosition): Promise<string> {
+        if (!position.file || position.file == this.uri) {
+            return Promise.resolve(this.text);
+        }
+        return FileUtils.read(position.file, "latin1");
+    }
+
+    /**
+     * Returns the values of the condition declared in the specified 88 level line
+     *
+     * @param raw
+     */
+    private extractConditionValues(raw: string): string {
+        const match = /\s+values?\s+(?:are\s+|is\s+)?(.+?)\.?\s*$/i.exec(raw);
+        return match ? `= ${match[1]}` : "";
+    }
+
+    /**
+     * Formats the level with two digits
+     *
+     * @param level
+     */
+    private formatLevel(level: number): string {
+        return level < 10 ? "0" + level : level.toString();
+    }
+
+    /**
+     * Returns the text inside a Cobol code block
+     *
+     * @param code
+     */
+    private codeBlock(code: string): string {
+        return "```cobol\n" + code + "\n```\n\n";
+    }
+
+    /**
+     * Returns the range of the word in the specified line
+     *
+     * @param word
+     * @param line
+     * @param column
+     */
+    private buildWordRange(word: string, line: number, column: number): Range | undefined {
+        const lineText = this.lines[line].toLowerCase();
+        const target = word.toLowerCase();
+        let start = lineText.indexOf(target);
+        while (start >= 0) {
+            if (column >= start && column <= start + target.length) {
+                return Range.create(Position.create(line, start), Position.create(line, start + target.length));
+            }
+            start = lineText.indexOf(target, start + 1);
+        }
+        return undefined;
+    }
+
+    /**
+     * Creates the hover with the specified markdown
+     *
+     * @param markdown
+     * @param range
+     */
+    private createHover(markdown: string | undefined, range: Range | undefined): Hover | undefined {
+        if (!markdown) {
+            return undefined;
+        }
+        return {
+            contents: {
+                kind: MarkupKind.Markdown,
+                value: markdown
+            },
+            range: range
+        };
+    }
+
+}
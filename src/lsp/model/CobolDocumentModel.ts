@@ -0,0 +1,419 @@
+import { TextDocument, TextDocumentContentChangeEvent } from "vscode-languageserver-textdocument";
+import { BufferSplitter } from "rech-ts-commons";
+import { ParserCobol } from "../../cobol/parsercobol";
+import { RechPosition } from "../../commons/rechposition";
+import { AREA_B } from "../../cobol/colunas";
+import { CobolReferencesFinder } from "../references/CobolReferencesFinder";
+import { FormatterUtils } from "../formatter/FormatterUtils";
+
+/**
+ * Information parsed from a line of the document
+ */
+export interface CobolLine {
+    /** True if the line is a commentary or an empty line */
+    comment: boolean;
+    /** Column where the code starts */
+    column: number;
+    /** First word of the code, in lower case */
+    clause: string;
+    /** True if the line opens a block closed by a scope terminator in another line */
+    opensBlock: boolean;
+    /** True if the code ends with a period, closing every open block */
+    period: boolean;
+    /** Paragraph declared in the line */
+    paragraph?: string;
+    /** Variable declared in the line */
+    variable?: string;
+    /** Copy declared in the line */
+    copy?: string;
+    /** True if the line declares a paragraph, variable, select, class or copy */
+    declaration: boolean;
+}
+
+/**
+ * Block of commands like 'if', 'evaluate', inline 'perform' and 'try'
+ */
+export interface CobolBlock {
+    /** Clause which opened the block */
+    clause: string;
+    /** Column of the clause which opened the block */
+    column: number;
+    /** Line of the clause which opened the block */
+    startLine: number;
+    /** Lines of the clauses in the middle of the block, like 'else', 'when', 'catch' and 'finally' */
+    clauseLines: number[];
+    /** Line of the scope terminator, or undefined if the block is closed by a period or paragraph */
+    endLine: number | undefined;
+}
+
+/**
+ * Model of a Cobol document shared by the language server features.
+ *
+ * The lines are parsed when the document is opened and only the changed lines are parsed again
+ * when the document changes. The indexes and blocks are built from the parsed lines when needed.
+ */
+export class CobolDocumentModel {
+
+    /** Models of the open documents */
+    private static models: Map<string, CobolDocumentModel> = new Map();
+    /** Cobol parser */
+    private static parser = new ParserCobol();
+    /** Document lines */
+    private lines: string[];
+    /** Information parsed from each line */
+    private parsedLines: CobolLine[];
+    /** Paragraphs declared in the document, built when needed */
+    private paragraphs: Map<string, number> | undefined;
+    /** Variables declared in the document, built when needed */
+    private variables: Map<string, number[]> | undefined;
+    /** Blocks of commands of the document, built when needed */
+    private blocks: CobolBlock[] | undefined;
+    /** Finder of the references of the document with the expanded source it was built from, kept while the document doesn't change */
+    private referencesFinder: { expandedSource: string | undefined, finder: CobolReferencesFinder } | undefined;
+
+    /**
+     * Creates the model of the document text
+     *
+     * @param text document text
+     * @param version version of the document
+     */
+    constructor(text: string, private version: number = 0) {
+        this.lines = BufferSplitter.split(text);
+        this.parsedLines = this.lines.map((lineText) => CobolDocumentModel.parseLine(lineText));
+    }
+
+    /**
+     * Returns the model of the document, creating it if the document isn't modeled yet
+     * or if the model is out of date
+     *
+     * @param document
+     */
+    public static of(document: TextDocument): CobolDocumentModel {
+        let model = CobolDocumentModel.models.get(document.uri);
+        if (!model || model.version !== document.version) {
+            model = new CobolDocumentModel(document.getText(), document.version);
+            CobolDocumentModel.models.set(document.uri, model);
+        }
+        return model;
+    }
+
+    /**
+     * Updates the model of the document with the changes applied to it
+     *
+     * @param document document before the changes
+     * @param changes changes applied to the document
+     * @param version version of the document after the changes
+     */
+    public static update(document: TextDocument, changes: TextDocumentContentChangeEvent[], version: number) {
+        const model = CobolDocumentModel.models.get(document.uri);
+        if (!model) {
+            return;
+        }
+        if (model.version !== document.version) {
+            CobolDocumentModel.models.delete(document.uri);
+            return;
+        }
+        model.update(changes, version);
+    }
+
+    /**
+     * Removes the model of the document
+     *
+     * @param uri
+     */
+    public static remove(uri: string) {
+        CobolDocumentModel.models.delete(uri);
+    }
+
+    /**
+     * Applies the changes to the model, parsing again only the changed lines
+     *
+     * @param changes changes in the order they were applied to the document
+     * @param version version of the document after the changes
+     */
+    public update(changes: TextDocumentContentChangeEvent[], version: number) {
+        changes.forEach((change) => {
+            if (!("range" in change)) {
+                this.lines = BufferSplitter.split(change.text);
+                this.parsedLines = this.lines.map((lineText) => CobolDocumentModel.parseLine(lineText));
+                return;
+            }
+            const start = change.range.start;
+            const end = change.range.end;
+            const firstLine = this.lines[start.line] || "";
+            const lastLine = this.lines[end.line] || "";
+            const newLines = BufferSplitter.split(firstLine.substring(0, start.character) + change.text + lastLine.substring(end.character));
+            const following = Math.min(end.line + 1, this.lines.length);
+            this.lines = this.lines.slice(0, start.line).concat(newLines, this.lines.slice(following));
+            this.parsedLines = this.parsedLines.slice(0, start.line).concat(newLines.map((lineText) => CobolDocumentModel.parseLine(lineText)), this.parsedLines.slice(following));
+        });
+        this.version = version;
+        this.paragraphs = undefined;
+        this.variables = undefined;
+        this.blocks = undefined;
+        this.referencesFinder = undefined;
+    }
+
+    /**
+     * Returns the version of the document modeled
+     */
+    public getVersion(): number {
+        return this.version;
+    }
+
+    /**
+     * Returns the document lines, which must not be changed
+     */
+    public getLines(): string[] {
+        return this.lines;
+    }
+
+    /**
+     * Returns the document text
+     */
+    public getText(): string {
+        return this.lines.join("\n");
+    }
+
+    /**
+     * Returns the paragraphs declared in the document, with the name in lower case and the line of the declaration
+     */
+    public getParagraphs(): Map<string, number> {
+        if (!this.paragraphs) {
+            const paragraphs = new Map<string, number>();
+            this.parsedLines.forEach((parsedLine, line) => {
+                if (parsedLine.paragraph && !paragraphs.has(parsedLine.paragraph.toLowerCase())) {
+                    paragraphs.set(parsedLine.paragraph.toLowerCase(), line);
+                }
+            });
+            this.paragraphs = paragraphs;
+        }
+        return this.paragraphs;
+    }
+
+    /**
+     * Returns the variables declared in the document, with the name in lower case and the lines of the declarations
+     */
+    public getVariables(): Map<string, number[]> {
+        if (!this.variables) {
+            const variables = new Map<string, number[]>();
+            this.parsedLines.forEach((parsedLine, line) => {
+                if (parsedLine.variable) {
+                    const name = parsedLine.variable.toLowerCase();
+                    variables.set(name, (variables.get(name) || []).concat(line));
+                }
+            });
+            this.variables = variables;
+        }
+        return this.variables;
+    }
+
+    /**
+     * Returns the copies declared in the document with the line of each declaration
+     */
+    public getCopies(): { name: string, line: number }[] {
+        const copies: { name: string, line: number }[] = [];
+        this.parsedLines.forEach((parsedLine, line) => {
+            if (parsedLine.copy) {
+                copies.push({ name: parsedLine.copy, line: line });
+            }
+        });
+        return copies;
+    }
+
+    /**
+     * Returns the finder of the references of the document, which keeps the tokenized model and the declarations
+     * until the document or the expanded source changes
+     *
+     * @param expandedSource expanded source, used to know the declarations and references made inside copies
+     * @param uri URI of the document, needed to find the copies of the expanded source
+     */
+    public getReferencesFinder(expandedSource?: string, uri?: string): CobolReferencesFinder {
+        if (!this.referencesFinder || this.referencesFinder.expandedSource !== expandedSource) {
+            this.referencesFinder = { expandedSource: expandedSource, finder: new CobolReferencesFinder(this.getText(), expandedSource, uri) };
+        }
+        return this.referencesFinder.finder;
+    }
+
+    /**
+     * Returns the blocks of commands of the document
+     */
+    public getBlocks(): CobolBlock[] {
+        if (!this.blocks) {
+            this.blocks = this.buildBlocks();
+        }
+        return this.blocks;
+    }
+
+    /**
+     * Returns the block opened by the clause which has the term in the line
+     *
+     * @param line line of the term
+     * @param clause clause which opens the block
+     * @param term term of the block in the line, like the clause itself, its scope terminator or a clause in the middle of the block
+     */
+    public findBlock(line: number, clause: string, term: string = clause): CobolBlock | undefined {
+        term = term.toLowerCase();
+        return this.getBlocks().find((block) => {
+            if (block.clause != clause) {
+                return false;
+            }
+            if (term == clause) {
+                return block.startLine == line;
+            }
+            if (FormatterUtils.SCOPE_TERMINATORS[term]) {
+                return block.endLine == line;
+            }
+            return block.clauseLines.includes(line);
+        });
+    }
+
+    /**
+     * Returns the column where the term starts in the line, or the column where the code starts if the term isn't found
+     *
+     * @param line
+     * @param term
+     */
+    public getTermColumn(line: number, term: string): number {
+        const column = this.getColumn(line);
+        const termColumn = this.lines[line].toLowerCase().indexOf(term.toLowerCase(), column);
+        return termColumn >= 0 ? termColumn : column;
+    }
+
+    /**
+     * Returns the information parsed from the line
+     *
+     * @param line
+     */
+    public getParsedLine(line: number): CobolLine {
+        return this.parsedLines[line];
+    }
+
+    /**
+     * Returns the column where the code of the line starts
+     *
+     * @param line
+     */
+    public getColumn(line: number): number {
+        return this.parsedLines[line] ? this.parsedLines[line].column : 0;
+    }
+
+    /**
+     * Finds the declaration of the term searching from the line to the beginning of the document
+     * and then from the line to the end of the document
+     *
+     * @param term term which declaration is searched
+     * @param line line where the search starts
+     */
+    public findDeclaration(term: string, line: number): RechPosition | undefined {
+        const termRegExp = new RegExp(term, "i");
+        const lines: number[] = [];
+        for (let i = Math.min(line, this.lines.length - 1); i >= 0; i--) {
+            lines.push(i);
+        }
+        for (let i = line + 1; i < this.lines.length; i++) {
+            lines.push(i);
+        }
+        for (const i of lines) {
+            if (this.parsedLines[i].declaration && CobolDocumentModel.parser.isDeclaration(term, this.lines[i])) {
+                const match = termRegExp.exec(this.lines[i]);
+                if (match) {
+                    return new RechPosition(i, match.index);
+                }
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Builds the blocks of commands opened and closed in the document
+     */
+    private buildBlocks(): CobolBlock[] {
+        const blocks: CobolBlock[] = [];
+        let open: CobolBlock[] = [];
+        this.parsedLines.forEach((parsedLine, line) => {
+            if (parsedLine.comment) {
+                return;
+            }
+            // Headers, sections and paragraphs close every block
+            if (parsedLine.paragraph !== undefined || parsedLine.column < AREA_B - 1) {
+                open = [];
+                return;
+            }
+            const clause = parsedLine.clause;
+            if (FormatterUtils.BLOCK_CLAUSES[clause] || FormatterUtils.SCOPE_TERMINATORS[clause]) {
+                const opener = FormatterUtils.BLOCK_CLAUSES[clause] || FormatterUtils.SCOPE_TERMINATORS[clause];
+                const index = this.lastIndexOf(open, opener);
+                if (index >= 0) {
+                    const block = open[index];
+                    if (FormatterUtils.SCOPE_TERMINATORS[clause]) {
+                        block.endLine = line;
+                        open.splice(index);
+                    } else {
+                        block.clauseLines.push(line);
+                        open.splice(index + 1);
+                    }
+                }
+            }
+            if (parsedLine.opensBlock) {
+                const block: CobolBlock = { clause: clause == "else" ? "if" : clause, column: parsedLine.column, startLine: line, clauseLines: [], endLine: undefined };
+                blocks.push(block);
+                open.push(block);
+            }
+            // The period ends the sentence and every block opened in it
+            if (parsedLine.period) {
+                open = [];
+            }
+        });
+        return blocks;
+    }
+
+    /**
+     * Returns the index of the last block opened by the clause
+     *
+     * @param blocks
+     * @param clause
+     */
+    private lastIndexOf(blocks: CobolBlock[], clause: string): number {
+        for (let i = blocks.length - 1; i >= 0; i--) {
+            if (blocks[i].clause == clause) {
+                return i;
+            }
+        }
+        return -1;
+    }
+
+    /**
+     * Parses the information of the line
+     *
+     * @param lineText
+     */
+    private static parseLine(lineText: string): CobolLine {
+        const parser = CobolDocumentModel.parser;
+        const comment = parser.isCommentOrEmptyLine(lineText) || lineText.charAt(6) == "*";
+        const commentary = lineText.indexOf("*>");
+        const code = (commentary >= 0 ? lineText.substring(0, commentary) : lineText).trim();
+        const clause = comment ? "" : code.toLowerCase().split(/[\s,.]+/)[0];
+        const opensBlock = FormatterUtils.openedBlock(code) !== undefined;
+        if (comment) {
+            return { comment: true, column: 0, clause: clause, opensBlock: false, period: false, declaration: false };
+        }
+        const paragraph = parser.getDeclaracaoParagrafo(lineText);
+        const variable = parser.getDeclaracaoVariavel(lineText);
+        const copy = parser.getCopyDeclaration(lineText);
+        const declaration = paragraph !== undefined || variable !== undefined || copy !== undefined
+            || parser.getDeclaracaoSelect(lineText) !== undefined || parser.getDeclaracaoClasse(lineText) !== undefined;
+        return {
+            comment: false,
+            column: lineText.length - lineText.trimLeft().length,
+            clause: clause,
+            opensBlock: opensBlock,
+            period: code.endsWith("."),
+            paragraph: paragraph,
+            variable: variable,
+            copy: copy,
+            declaration: declaration,
+        };
+    }
+
+}
@@ -1,9 +1,121 @@
-import { Scan } from "rech-ts-commons";
+import { BufferSplitter } from "rech-ts-commons";
 import { RechPosition } from '../../commons/rechposition'
-import { CobolRegexUtils } from '../../cobol/CobolRegexUtils';
+import { Path } from "../../commons/path";
+import { VariableUtils } from "../../commons/VariableUtils";
+import { CobolTokenizer } from "../../cobol/CobolTokenizer";
+import { File } from "../../commons/file";
+import { PreprocDeclarationFinder } from "../declaration/PreprocDeclarationFinder";
 
 /** Minimum word size */
-const MIN_WORD_SIZE = 3;
+export const MIN_WORD_SIZE = 3;
+/** Marker written at the end of each line of the expanded source, with the line and the copy where it's written */
+const EXPANDED_LINE_MARKER = /\*\>:?\s+(\d+)\s+(\d+)(?:\s+(.+\....)\s+\(\d+\))?\s*$/;
+/** Words, parentheses, equal signs and periods of the code */
+const TOKEN_REGEX = /[a-zA-Z0-9][\w\-]*|[()=]|\.(?=\s|$)/g;
+/** Words written in the copy files, which may start with a replacing tag like (prefix)-field */
+const COPY_WORD_REGEX = /(?<![\w\-)])\([\w\-]+\)[\w\-]*|[a-zA-Z0-9][\w\-]*/g;
+/** Words after which the operands of each statement are written */
+const WRITE_PHRASES: { [verb: string]: string[] } = {
+  move: ["to"],
+  add: ["to", "giving"],
+  subtract: ["from", "giving"],
+  multiply: ["by", "giving"],
+  divide: ["into", "giving", "remainder"],
+  string: ["into", "pointer"],
+  unstring: ["into", "delimiter", "count", "pointer", "tallying"],
+  read: ["into"],
+  return: ["into"],
+  perform: ["varying", "after"],
+  inspect: ["tallying"],
+};
+/** Words after which the operands of each statement are read */
+const READ_PHRASES: { [verb: string]: string[] } = {
+  compute: ["="],
+  initialize: ["replacing"],
+  accept: ["from"],
+  set: ["to", "up", "down"],
+  write: ["from"],
+  rewrite: ["from"],
+  perform: ["from", "by", "until"],
+  inspect: ["for"],
+};
+/** Statements whose first operands are written */
+const WRITING_VERBS = ["compute", "initialize", "accept", "set", "write", "rewrite"];
+/** Arithmetic statements where the operands before GIVING are only read */
+const ARITHMETIC_VERBS = ["add", "subtract", "multiply", "divide"];
+/** Words which start or end the phrases executed on some condition, like ON SIZE ERROR */
+const CONDITION_PHRASES = ["on", "at", "not", "invalid", "end"];
+/** Statements of the procedure division */
+const VERBS = Object.keys(WRITE_PHRASES).concat(WRITING_VERBS, [
+  "display", "if", "else", "evaluate", "when", "call", "invoke", "open", "close", "delete", "start", "search",
+  "go", "exit", "stop", "goback", "continue", "release", "sort", "merge", "cancel", "use",
+]);
+
+/**
+ * Kind of access to the element in the reference.
+ * Words which are not declared variables are found as text
+ */
+export type ReferenceAccess = "declaration" | "read" | "write" | "text";
+
+/**
+ * Reference to an element of the source
+ */
+export interface CobolReference {
+  /** Line of the reference */
+  line: number;
+  /** Column where the word starts */
+  column: number;
+  /** Size of the word */
+  length: number;
+  /** Kind of access to the element */
+  access: ReferenceAccess;
+  /** Full path of the copy where the reference is written, undefined for the current source */
+  file?: string;
+}
+
+/**
+ * Word of a line of the model
+ */
+interface ModelToken {
+  text: string;
+  column: number;
+}
+
+/**
+ * Line of the source, or of a copy when the expanded source is known
+ */
+interface ModelLine {
+  /** Text of the line */
+  text: string;
+  /** Line in the file where it's written */
+  line: number;
+  /** Name of the copy written in the expanded source, undefined for the current source */
+  copy?: string;
+  /** Words of the line, ignoring comments and literals */
+  tokens: ModelToken[];
+  /** Method where the line is written, in lower case */
+  method?: string;
+  /** Scope of the data items declared in the line, in lower case, the method name inside methods */
+  scope: string;
+  /** True if the line is inside the procedure division */
+  procedure: boolean;
+}
+
+/**
+ * Declaration of a data item
+ */
+interface DataDeclaration {
+  /** Name in lower case */
+  name: string;
+  /** Index of the line in the model */
+  index: number;
+  /** Level number */
+  level: number;
+  /** Names of the groups containing the item, in lower case and from the nearest one */
+  parents: string[];
+  /** Scope of the declaration in lower case, the method name for local variables */
+  scope: string;
+}
 
 /**
  * Class to find Cobol references
@@ -12,21 +124,31 @@ export class CobolReferencesFinder {
 
   /** Editor text*/
   private text: string;
-  /** Chache from sources*/
-  private cacheSources: Map<string, string>;
+  /** Expanded source, used to know the declarations and references made inside copies */
+  private expandedSource: string | undefined;
+  /** URI of the source, used to find the copies of the expanded source */
+  private uri: string | undefined;
+  /** Lines of the tokenized model, built when it's first needed */
+  private model: ModelLine[] | undefined;
+  /** Data items declared in the model by name */
+  private declarations: Map<string, DataDeclaration[]>;
 
   /**
    * Constructor of Find
    *
-   * @param editor
+   * @param text text of the source
+   * @param expandedSource expanded source, when it's available
+   * @param uri URI of the source, needed to find the copies of the expanded source
    */
-  constructor(text: string) {
+  constructor(text: string, expandedSource?: string, uri?: string) {
     this.text = text;
-    this.cacheSources = new Map()
+    this.expandedSource = expandedSource;
+    this.uri = uri;
+    this.declarations = new Map();
   }
 
   /**
-   * Find the declaration of the term
+   * Find the occurrences of the term in the source, ignoring comments and literals
    *
    * @param term Term to find
    */
@@ -37,12 +159,361 @@ export class CobolReferencesFinder {
         reject();
         return;
       }
-      let result : RechPosition[] = [];
-      new Scan(this.text).scan(CobolRegexUtils.createRegexForVariableUsage(term), (iterator: any) => {
-        result.push(new RechPosition(iterator.row, iterator.column + 1));
+      const lowerTerm = term.toLowerCase();
+      const result: RechPosition[] = [];
+      this.getModel().filter((modelLine) => !modelLine.copy).forEach((modelLine) => {
+        modelLine.tokens.filter((token) => token.text.toLowerCase() == lowerTerm).forEach((token) => {
+          result.push(new RechPosition(modelLine.line, token.column));
+        });
       });
       return resolve(result);
     });
   }
 
-}
\ No newline at end of file
+  /**
+   * Returns the references to the element at the position of the source, resolving the qualification
+   * with OF and IN and the scope of the methods.
+   * Words which are not declared variables, like paragraphs, are found in the source as text
+   *
+   * @param line
+   * @param column
+   */
+  public findReferencesAt(line: number, column: number): CobolReference[] {
+    const model = this.getModel();
+    const index = model.findIndex((modelLine) => !modelLine.copy && modelLine.line == line);
+    const tokenIndex = index >= 0 ? model[index].tokens.findIndex((token) => column >= token.column && column <= token.column + token.text.length) : -1;
+    if (tokenIndex < 0 || !/^[a-zA-Z0-9]/.test(model[index].tokens[tokenIndex].text)) {
+      return [];
+    }
+    const word = model[index].tokens[tokenIndex].text.toLowerCase();
+    const target = this.resolve(index, tokenIndex);
+    if (!target) {
+      if (word.length < MIN_WORD_SIZE) {
+        return [];
+      }
+      return this.collectReferences(word, () => true).filter((reference) => !reference.file).map((reference) => {
+        reference.access = "text";
+        return reference;
+      });
+    }
+    return this.collectReferences(word, (candidateIndex, candidateToken) => this.resolve(candidateIndex, candidateToken) === target);
+  }
+
+  /**
+   * Returns true if the word is written in the code of the source or of its copies
+   *
+   * @param word
+   */
+  public isUsed(word: string): boolean {
+    const lowerWord = word.toLowerCase();
+    return this.getModel().some((modelLine) => modelLine.tokens.some((token) => token.text.toLowerCase() == lowerWord));
+  }
+
+  /**
+   * Returns the references to the word accepted by the filter, classifying the access of each one.
+   * The references inside copies are only returned when the copy file is found, and are located in the text
+   * of the copy before the REPLACING when the copy can be read
+   *
+   * @param word word in lower case
+   * @param accept filter with the index of the line and of the token in the model
+   */
+  private collectReferences(word: string, accept: (index: number, token: number) => boolean): CobolReference[] {
+    const references: CobolReference[] = [];
+    const files: Map<string, string | undefined> = new Map();
+    const copies: Map<string, string[] | undefined> = new Map();
+    let verb = "";
+    let access: ReferenceAccess = "read";
+    let depth = 0;
+    // Operands written by the current statement, which may turn into read operands later in the statement
+    let written: CobolReference[] = [];
+    let subject: CobolReference | undefined;
+    this.getModel().forEach((modelLine, index) => {
+      modelLine.tokens.forEach((token, tokenIndex) => {
+        const text = token.text.toLowerCase();
+        if (modelLine.procedure) {
+          if (text == "(" || text == ")") {
+            depth = Math.max(depth + (text == "(" ? 1 : -1), 0);
+            return;
+          }
+          if (text == "." || VERBS.includes(text) || CONDITION_PHRASES.includes(text) || text.startsWith("end-")) {
+            verb = VERBS.includes(text) ? text : "";
+            access = WRITING_VERBS.includes(verb) ? "write" : "read";
+            depth = 0;
+            written = [];
+            subject = undefined;
+            return;
+          }
+          if ((WRITE_PHRASES[verb] || []).includes(text)) {
+            if (text == "giving" && ARITHMETIC_VERBS.includes(verb)) {
+              written.forEach((reference) => reference.access = "read");
+            }
+            access = "write";
+            return;
+          }
+          if ((READ_PHRASES[verb] || []).includes(text) || (verb == "compute" && text == "equal")) {
+            access = "read";
+            return;
+          }
+          if (verb == "inspect" && (text == "replacing" || text == "converting") && subject) {
+            subject.access = "write";
+          }
+        }
+        if (text != word || !accept(index, tokenIndex)) {
+          return;
+        }
+        const file = modelLine.copy ? this.findCopyFile(modelLine.copy, files) : undefined;
+        if (modelLine.copy && !file) {
+          return;
+        }
+        const location = file ? this.findCopyWord(modelLine, tokenIndex, this.loadCopy(file, copies)) : { column: token.column, length: token.text.length };
+        if (!location) {
+          return;
+        }
+        let tokenAccess: ReferenceAccess = depth > 0 ? "read" : access;
+        if (!modelLine.procedure) {
+          tokenAccess = tokenIndex == 1 && /^\d+$/.test(modelLine.tokens[0].text) ? "declaration" : "read";
+        }
+        const reference: CobolReference = { line: modelLine.line, column: location.column, length: location.length, access: tokenAccess, file: file };
+        if (modelLine.procedure && tokenAccess == "write") {
+          written.push(reference);
+        }
+        if (modelLine.procedure && verb == "inspect" && !subject) {
+          subject = reference;
+        }
+        references.push(reference);
+      });
+    });
+    return references;
+  }
+
+  /**
+   * Returns the declaration of the data item referenced by the word, or undefined if it's not a declared data item.
+   * The qualifiers written after the word with OF or IN must be groups containing the item, and
+   * the variables declared in the method of the reference have precedence over the global ones
+   *
+   * @param index index of the line in the model
+   * @param tokenIndex index of the word in the line
+   */
+  private resolve(index: number, tokenIndex: number): DataDeclaration | undefined {
+    const modelLine = this.getModel()[index];
+    const tokens = modelLine.tokens;
+    let candidates = this.declarations.get(tokens[tokenIndex].text.toLowerCase());
+    if (!candidates) {
+      return undefined;
+    }
+    const declared = candidates.find((declaration) => declaration.index == index && tokenIndex == 1);
+    if (declared) {
+      return declared;
+    }
+    const qualifiers: string[] = [];
+    for (let i = tokenIndex + 1; i + 1 < tokens.length && /^(of|in)$/i.test(tokens[i].text); i += 2) {
+      qualifiers.push(tokens[i + 1].text.toLowerCase());
+    }
+    candidates = candidates.filter((declaration) => this.isQualifiedBy(declaration, qualifiers));
+    const local = candidates.find((declaration) => declaration.scope == modelLine.method);
+    return local || candidates.find((declaration) => !VariableUtils.isLocalScope(declaration.scope)) || candidates[0];
+  }
+
+  /**
+   * Returns true if the qualifiers are groups containing the declaration, in the same order
+   *
+   * @param declaration
+   * @param qualifiers
+   */
+  private isQualifiedBy(declaration: DataDeclaration, qualifiers: string[]): boolean {
+    let parent = 0;
+    return qualifiers.every((qualifier) => {
+      while (parent < declaration.parents.length && declaration.parents[parent] != qualifier) {
+        parent++;
+      }
+      return parent++ < declaration.parents.length;
+    });
+  }
+
+  /**
+   * Returns the full path of the copy, keeping the ones already found
+   *
+   * @param copy name of the copy written in the expanded source
+   * @param files copies already found
+   */
+  private findCopyFile(copy: string, files: Map<string, string | undefined>): string | undefined {
+    if (!files.has(copy)) {
+      files.set(copy, this.uri ? PreprocDeclarationFinder.getFullPath(copy, new Path(this.uri)) : undefined);
+    }
+    return files.get(copy);
+  }
+
+  /**
+   * Returns the lines of the copy file, keeping the ones already loaded, or undefined if it can't be read
+   *
+   * @param file full path of the copy
+   * @param copies copies already loaded
+   */
+  private loadCopy(file: string, copies: Map<string, string[] | undefined>): string[] | undefined {
+    if (!copies.has(file)) {
+      const copyFile = new File(file);
+      copies.set(file, copyFile.exists() ? BufferSplitter.split(copyFile.loadBufferSync("latin1")) : undefined);
+    }
+    return copies.get(file);
+  }
+
+  /**
+   * Returns the column and the size of the word in the copy file. The line of the expanded source has the text
+   * after the REPLACING of the COPY statement, so the words are matched by their order when the word isn't
+   * written in the same column, like (prefix)-field replaced by w-field.
+   * Returns undefined if the line of the copy doesn't match the expanded line, and the word of the expanded line
+   * if the copy can't be read
+   *
+   * @param modelLine line of the copy in the model
+   * @param tokenIndex index of the word in the line
+   * @param copyLines lines of the copy file
+   */
+  private findCopyWord(modelLine: ModelLine, tokenIndex: number, copyLines: string[] | undefined): { column: number, length: number } | undefined {
+    const token = modelLine.tokens[tokenIndex];
+    if (!copyLines) {
+      return { column: token.column, length: token.text.length };
+    }
+    if (modelLine.line >= copyLines.length) {
+      return undefined;
+    }
+    const code = CobolTokenizer.stripCommentsAndLiterals(copyLines[modelLine.line]);
+    const copyWords: ModelToken[] = [];
+    let match = COPY_WORD_REGEX.exec(code);
+    while (match) {
+      copyWords.push({ text: match[0], column: match.index });
+      match = COPY_WORD_REGEX.exec(code);
+    }
+    const sameColumn = copyWords.find((word) => word.column == token.column && word.text.toLowerCase() == token.text.toLowerCase());
+    if (sameColumn) {
+      return { column: sameColumn.column, length: sameColumn.text.length };
+    }
+    const words = modelLine.tokens.filter((current) => /^[a-zA-Z0-9]/.test(current.text));
+    if (words.length != copyWords.length) {
+      return undefined;
+    }
+    const copyWord = copyWords[words.indexOf(token)];
+    return { column: copyWord.column, length: copyWord.text.length };
+  }
+
+  /**
+   * Returns the lines of the model, building it on the first call
+   */
+  private getModel(): ModelLine[] {
+    if (!this.model) {
+      this.model = this.buildModel();
+      this.collectDeclarations(this.model);
+    }
+    return this.model;
+  }
+
+  /**
+   * Builds the lines of the model from the source and the copies of the expanded source.
+   * The expanded source is only used while its lines of the source match the current text
+   */
+  private buildModel(): ModelLine[] {
+    const lines = BufferSplitter.split(this.text);
+    let model = lines.map((text, line) => ({ text: text, line: line }) as ModelLine);
+    if (this.expandedSource) {
+      const expanded: ModelLine[] = [];
+      let sourceLines = 0;
+      BufferSplitter.split(this.expandedSource).forEach((text) => {
+        const match = EXPANDED_LINE_MARKER.exec(text);
+        if (!match) {
+          return;
+        }
+        const line = Number.parseInt(match[2]) - 1;
+        if (match[3]) {
+          expanded.push({ text: text.substring(0, match.index), line: line, copy: match[3] } as ModelLine);
+        } else if (line < lines.length) {
+          sourceLines++;
+          expanded.push({ text: lines[line], line: line } as ModelLine);
+        }
+      });
+      if (sourceLines == lines.length) {
+        model = expanded;
+      }
+    }
+    let method: string | undefined;
+    let procedure = false;
+    let section = "object";
+    model.forEach((modelLine) => {
+      modelLine.tokens = this.tokenize(modelLine.text);
+      const methodId = /^\s*method-id\.?\s+"?([\w\-]+)/i.exec(modelLine.text);
+      if (methodId) {
+        method = methodId[1].toLowerCase();
+      } else if (/^\s*end\s+method[\s\.]/i.test(modelLine.text)) {
+        method = undefined;
+      }
+      const division = /^\s*([\w\-]+)\s+division[\s\.]/i.exec(modelLine.text);
+      if (division || methodId) {
+        procedure = division != null && division[1].toLowerCase() == "procedure";
+      }
+      const classSection = /^\s*(repository|factory|object)[\.\,]?\s*$/i.exec(modelLine.text);
+      if (classSection) {
+        section = classSection[1].toLowerCase();
+      } else if (division && !method && division[1].toLowerCase() == "data") {
+        section = "object";
+      }
+      modelLine.method = method;
+      modelLine.scope = method || section;
+      modelLine.procedure = procedure;
+    });
+    return model;
+  }
+
+  /**
+   * Collects the data items declared in the model with the groups which contain them
+   *
+   * @param model
+   */
+  private collectDeclarations(model: ModelLine[]) {
+    let groups: DataDeclaration[] = [];
+    model.forEach((modelLine, index) => {
+      const tokens = modelLine.tokens;
+      if (modelLine.procedure || tokens.length < 2 || !/^\d+$/.test(tokens[0].text)) {
+        return;
+      }
+      const level = Number.parseInt(tokens[0].text);
+      if (level == 1 || level == 66 || level == 77 || level == 78) {
+        groups = [];
+      }
+      if (level != 88) {
+        groups = groups.filter((group) => group.level < level);
+      }
+      const name = tokens[1].text.toLowerCase();
+      const declaration: DataDeclaration = {
+        name: name,
+        index: index,
+        level: level,
+        parents: groups.map((group) => group.name).reverse(),
+        scope: modelLine.scope,
+      };
+      if (level != 88) {
+        groups.push(declaration);
+      }
+      const declarations = this.declarations.get(name);
+      if (declarations) {
+        declarations.push(declaration);
+      } else {
+        this.declarations.set(name, [declaration]);
+      }
+    });
+  }
+
+  /**
+   * Returns the words, parentheses, equal signs and periods of the line, ignoring comments and literals
+   *
+   * @param line
+   */
+  private tokenize(line: string): ModelToken[] {
+    const code = CobolTokenizer.stripCommentsAndLiterals(line);
+    const tokens: ModelToken[] = [];
+    let match = TOKEN_REGEX.exec(code);
+    while (match) {
+      tokens.push({ text: match[0], column: match.index });
+      match = TOKEN_REGEX.exec(code);
+    }
+    return tokens;
+  }
+
+}
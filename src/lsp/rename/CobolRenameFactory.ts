@@ -0,0 +1,385 @@
+import { BufferSplitter } from "rech-ts-commons";
+import { Range, TextEdit, WorkspaceEdit } from "vscode-languageserver";
+import { Path } from "../../commons/path";
+import { CobolTokenizer } from "../../cobol/CobolTokenizer";
+import { CobolReservedWords } from "../../cobol/CobolReservedWords";
+import { CobolCopyExpander } from "../../cobol/CobolCopyExpander";
+import { CopyUsageIndex } from "../../copyusage/CopyUsageIndex";
+import { SearchPathResolver } from "../../commons/SearchPathResolver";
+import { Log } from "../../commons/Log";
+import { CobolReferencesFinder, CobolReference } from "../references/CobolReferencesFinder";
+
+/** Cobol user-defined word, which may start with a replacing tag in copies like (prefix)-field */
+const COBOL_WORD = /^(?:\([\w\-]+\)-?)?[a-zA-Z0-9](?:[\w\-]*[a-zA-Z0-9])?$/;
+/** Replacing tag written before the word */
+const REPLACING_TAG = /\([\w\-]+\)-?$/;
+/** Extensions of the copy files */
+const COPY_EXTENSION = /\.(cpy|cpb)$/i;
+/** Pseudo-text delimiters of the replacings */
+const PSEUDO_TEXT = /^==(.*)==$/;
+
+/**
+ * Word renamed in a file
+ */
+interface RenamedWord {
+    /** Name of the element in the file */
+    oldName: string;
+    /** New name of the element in the file */
+    newName: string;
+}
+
+/**
+ * Factory to rename the Cobol elements of the source.
+ * When the element is declared in a copy the copy and every source which includes it are renamed,
+ * keeping the prefixes of the REPLACING of each COPY statement
+ */
+export class CobolRenameFactory {
+
+    /** Lines of the source */
+    private lines: string[];
+    /** Full path of the source */
+    private file: string;
+
+    /**
+     * Creates the factory of the source
+     *
+     * @param uri URI of the source
+     * @param text text of the source
+     * @param expandedSource expanded source, used to find the copy which declares the element
+     * @param findIncludingSources callback returning the sources which include the copy
+     * @param readFile callback returning the text of a file
+     */
+    constructor(
+        private uri: string,
+        private text: string,
+        private expandedSource: string | undefined,
+        private findIncludingSources: (copy: string) => Promise<string[]>,
+        private readFile: (file: string) => Promise<string>
+    ) {
+        this.lines = BufferSplitter.split(text);
+        this.file = new Path(uri).fullPathWin();
+    }
+
+    /**
+     * Returns the range of the word which can be renamed at the position, rejecting reserved words,
+     * comments and literals
+     *
+     * @param line
+     * @param column
+     */
+    public prepareRename(line: number, column: number): Promise<Range> {
+        return new Promise((resolve, reject) => {
+            const token = CobolTokenizer.tokenize(this.lines[line] || "").find((current) => column >= current.column && column <= current.column + current.text.length);
+            if (!token || /^\d+$/.test(token.text)) {
+                return reject("Only Cobol words can be renamed");
+            }
+            if (CobolReservedWords.isReserved(token.text)) {
+                return reject(`"${token.text}" is a Cobol reserved word and can't be renamed`);
+            }
+            const tag = REPLACING_TAG.exec(this.lines[line].substring(0, token.column));
+            const start = tag ? token.column - tag[0].length : token.column;
+            return resolve(Range.create(line, start, line, token.column + token.text.length));
+        });
+    }
+
+    /**
+     * Renames the element at the position in the source and, when it's declared in a copy, in the copy and in the sources which include it
+     *
+     * @param line
+     * @param column
+     * @param newName
+     */
+    public rename(line: number, column: number, newName: string): Promise<WorkspaceEdit> {
+        return new Promise((resolve, reject) => {
+            this.prepareRename(line, column).then(async (range) => {
+                const oldName = this.lines[line].substring(range.start.character, range.end.character);
+                if (!COBOL_WORD.test(newName) || /^\d+$/.test(newName)) {
+                    return reject(`"${newName}" is not a valid Cobol word`);
+                }
+                if (CobolReservedWords.isReserved(newName)) {
+                    return reject(`"${newName}" is a Cobol reserved word`);
+                }
+                const finder = new CobolReferencesFinder(this.text, this.expandedSource, this.uri);
+                if (this.isConflict(oldName, newName) && finder.isUsed(newName)) {
+                    return reject(`"${newName}" is already used in ${this.fileName(this.file)}`);
+                }
+                // The whole copy being edited is renamed, since its words may have replacing tags
+                const copyEdited = COPY_EXTENSION.test(this.file);
+                const references = copyEdited ? [] : finder.findReferencesAt(line, column);
+                const declaration = references.find((reference) => reference.access == "declaration" && reference.file != undefined);
+                const copyFile = declaration ? declaration.file : copyEdited ? this.file : undefined;
+                const edits: Map<string, { uri: string, edits: TextEdit[] }> = new Map();
+                try {
+                    if (copyFile) {
+                        await this.renameCopy(copyFile, declaration, oldName, newName, edits);
+                    }
+                    for (const reference of references) {
+                        if (!reference.file) {
+                            this.addEdit(edits, this.file, Range.create(reference.line, reference.column, reference.line, reference.column + reference.length), newName);
+                        } else if (!this.isSameFile(reference.file, copyFile)) {
+                            await this.renameInsideCopy(reference, oldName, newName, edits);
+                        }
+                    }
+                } catch (e) {
+                    return reject(e);
+                }
+                const changes: { [uri: string]: TextEdit[] } = {};
+                edits.forEach((fileEdits) => changes[fileEdits.uri] = fileEdits.edits);
+                return resolve({ changes: changes });
+            }).catch((e) => reject(e));
+        });
+    }
+
+    /**
+     * Renames the element in the copy which declares it and in every source which includes the copy
+     *
+     * @param copyFile
+     * @param declaration declaration of the element in the copy, undefined when the copy itself is renamed
+     * @param oldName name of the element in the current source
+     * @param newName new name of the element in the current source
+     * @param edits edits of each file
+     */
+    private async renameCopy(copyFile: string, declaration: CobolReference | undefined, oldName: string, newName: string, edits: Map<string, { uri: string, edits: TextEdit[] }>) {
+        const copyName = this.fileName(copyFile);
+        const copyLines = BufferSplitter.split(this.isSameFile(copyFile, this.file) ? this.text : await this.readFile(copyFile));
+        let copyWord: RenamedWord = { oldName: oldName, newName: newName };
+        if (declaration) {
+            const usage = CopyUsageIndex.extractUsages(this.file, this.lines).find((current) => current.copy.toUpperCase() == copyName.toUpperCase());
+            copyWord = this.unapplyReplacings(copyLines[declaration.line], oldName, newName, usage ? usage.replacings : new Map());
+        }
+        if (this.countDeclarations(copyLines, copyWord.oldName) > 1) {
+            throw `"${copyWord.oldName}" is declared more than once in ${copyName}`;
+        }
+        this.renameWord(copyFile, copyLines, copyWord, edits);
+        const sources = await this.findIncludingSources(copyName).catch(() => [] as string[]);
+        for (const source of sources) {
+            const sourceFile = this.resolveSource(source);
+            if (!sourceFile) {
+                Log.get().warning(`Could not find ${source}, which includes ${copyName}, to rename "${copyWord.oldName}"`);
+                continue;
+            }
+            // The current source is renamed with its references, which are qualified
+            if (this.isSameFile(sourceFile, copyFile) || this.isSameFile(sourceFile, this.file)) {
+                continue;
+            }
+            const text = await this.readFile(sourceFile).catch(() => undefined);
+            if (text == undefined) {
+                Log.get().warning(`Could not read ${sourceFile}, which includes ${copyName}, to rename "${copyWord.oldName}"`);
+                continue;
+            }
+            await this.renameIncludingSource(sourceFile, text, copyName, copyWord, edits);
+        }
+    }
+
+    /**
+     * Renames the element declared by the copy in a source which includes it, with the replacings of each COPY statement.
+     * The references are found in the code of the source with the copies expanded, refusing the names declared more than
+     * once since the qualification and the scope of their references can't be resolved without the preprocessor
+     *
+     * @param sourceFile full path of the source
+     * @param text text of the source
+     * @param copyName name of the copy which declares the element
+     * @param copyWord names of the element in the copy
+     * @param edits edits of each file
+     */
+    private async renameIncludingSource(sourceFile: string, text: string, copyName: string, copyWord: RenamedWord, edits: Map<string, { uri: string, edits: TextEdit[] }>) {
+        const sourceLines = BufferSplitter.split(text);
+        const usages = CopyUsageIndex.extractUsages(sourceFile, sourceLines).filter((usage) => usage.copy.toUpperCase() == copyName.toUpperCase());
+        if (usages.length == 0) {
+            return;
+        }
+        const expandedSource = await new CobolCopyExpander().expand(sourceFile, text).catch(() => undefined);
+        const expandedLines = expandedSource != undefined ? BufferSplitter.split(expandedSource) : sourceLines;
+        // When the copy can't be expanded its declarations are counted once for each COPY statement
+        const copyExpanded = expandedLines.some((line) => line.toUpperCase().includes(` ${copyName.toUpperCase()} (`));
+        const finder = new CobolReferencesFinder(text, expandedSource, new Path(sourceFile).fullPathVscode());
+        const renamed: string[] = [];
+        for (const usage of usages) {
+            const word: RenamedWord = {
+                oldName: CobolCopyExpander.applyReplacings(copyWord.oldName, usage.replacings),
+                newName: CobolCopyExpander.applyReplacings(copyWord.newName, usage.replacings),
+            };
+            if (renamed.includes(word.oldName.toLowerCase())) {
+                continue;
+            }
+            renamed.push(word.oldName.toLowerCase());
+            const sameName = usages.filter((current) => CobolCopyExpander.applyReplacings(copyWord.oldName, current.replacings).toLowerCase() == word.oldName.toLowerCase());
+            const declarations = this.countDeclarations(expandedLines, word.oldName) + (copyExpanded ? 0 : sameName.length);
+            if (declarations > 1) {
+                throw `"${word.oldName}" is declared more than once in ${this.fileName(sourceFile)}`;
+            }
+            if (this.isConflict(word.oldName, word.newName) && finder.isUsed(word.newName)) {
+                throw `"${word.newName}" is already used in ${this.fileName(sourceFile)}`;
+            }
+            const positions = await finder.findReferences(word.oldName).catch(() => []);
+            positions.forEach((position) => {
+                this.addEdit(edits, sourceFile, Range.create(position.line, position.column, position.line, position.column + word.oldName.length), word.newName);
+            });
+        }
+    }
+
+    /**
+     * Renames the reference made inside a copy which doesn't declare the element, when the word is written in the copy
+     *
+     * @param reference
+     * @param oldName
+     * @param newName
+     * @param edits
+     */
+    private async renameInsideCopy(reference: CobolReference, oldName: string, newName: string, edits: Map<string, { uri: string, edits: TextEdit[] }>) {
+        const copyLines = BufferSplitter.split(await this.readFile(reference.file!));
+        const text = copyLines[reference.line] || "";
+        if (text.substr(reference.column, oldName.length).toLowerCase() == oldName.toLowerCase()) {
+            this.addEdit(edits, reference.file!, Range.create(reference.line, reference.column, reference.line, reference.column + oldName.length), newName);
+        }
+    }
+
+    /**
+     * Returns the names of the element written in the copy, reverting the replacing of the COPY statement.
+     * The new name must keep the text which the replacing writes, like the prefix of (prefix)-field
+     *
+     * @param declarationLine line of the copy where the element is declared
+     * @param oldName name of the element in the source
+     * @param newName new name of the element in the source
+     * @param replacings replacings of the COPY statement
+     */
+    private unapplyReplacings(declarationLine: string, oldName: string, newName: string, replacings: Map<string, string>): RenamedWord {
+        const words = CobolTokenizer.stripCommentsAndLiterals(declarationLine).match(/[\w\-\(\)]+/g) || [];
+        const copyWord = words.find((word) => CobolCopyExpander.applyReplacings(word, replacings).toLowerCase() == oldName.toLowerCase());
+        if (!copyWord || copyWord.toLowerCase() == oldName.toLowerCase()) {
+            return { oldName: oldName, newName: newName };
+        }
+        for (const [term, replacement] of Array.from(replacings.entries())) {
+            const termText = term.trim().replace(PSEUDO_TEXT, "$1");
+            const replacementText = replacement.trim().replace(PSEUDO_TEXT, "$1");
+            const lowerCopyWord = copyWord.toLowerCase();
+            const lowerNewName = newName.toLowerCase();
+            if (lowerCopyWord.startsWith(termText.toLowerCase()) && lowerNewName.startsWith(replacementText.toLowerCase())) {
+                return { oldName: copyWord, newName: termText + newName.substring(replacementText.length) };
+            }
+            if (lowerCopyWord.endsWith(termText.toLowerCase()) && lowerNewName.endsWith(replacementText.toLowerCase())) {
+                return { oldName: copyWord, newName: newName.substring(0, newName.length - replacementText.length) + termText };
+            }
+        }
+        throw `"${newName}" must keep the text replaced in "${copyWord}" by the COPY statement`;
+    }
+
+    /**
+     * Renames every occurrence of the word in the code of the file, refusing names already used in the file
+     *
+     * @param file
+     * @param lines
+     * @param word
+     * @param edits
+     */
+    private renameWord(file: string, lines: string[], word: RenamedWord, edits: Map<string, { uri: string, edits: TextEdit[] }>) {
+        if (this.isConflict(word.oldName, word.newName) && this.findWord(lines, word.newName).length > 0) {
+            throw `"${word.newName}" is already used in ${this.fileName(file)}`;
+        }
+        this.findWord(lines, word.oldName).forEach((range) => this.addEdit(edits, file, range, word.newName));
+    }
+
+    /**
+     * Returns how many times the word is declared as a data item in the code of the lines
+     *
+     * @param lines
+     * @param word
+     */
+    private countDeclarations(lines: string[], word: string): number {
+        return this.findWord(lines, word).filter((range) => /^\s*\d+\s+$/.test(lines[range.start.line].substring(0, range.start.character))).length;
+    }
+
+    /**
+     * Returns the ranges of the word in the code of the lines, ignoring comments and literals
+     *
+     * @param lines
+     * @param word
+     */
+    private findWord(lines: string[], word: string): Range[] {
+        const ranges: Range[] = [];
+        const regex = new RegExp(`(?<![\\w\\-])${word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?![\\w\\-])`, "gi");
+        lines.forEach((line, index) => {
+            const code = CobolTokenizer.stripCommentsAndLiterals(line);
+            let match = regex.exec(code);
+            while (match) {
+                ranges.push(Range.create(index, match.index, index, match.index + word.length));
+                match = regex.exec(code);
+            }
+        });
+        return ranges;
+    }
+
+    /**
+     * Adds the edit of the file, ignoring edits already added
+     *
+     * @param edits
+     * @param file
+     * @param range
+     * @param newText
+     */
+    private addEdit(edits: Map<string, { uri: string, edits: TextEdit[] }>, file: string, range: Range, newText: string) {
+        const key = this.normalize(file);
+        let fileEdits = edits.get(key);
+        if (!fileEdits) {
+            fileEdits = { uri: this.isSameFile(file, this.file) ? this.uri : new Path(file).fullPathVscode(), edits: [] };
+            edits.set(key, fileEdits);
+        }
+        if (!fileEdits.edits.some((edit) => edit.range.start.line == range.start.line && edit.range.start.character == range.start.character)) {
+            fileEdits.edits.push(TextEdit.replace(range, newText));
+        }
+    }
+
+    /**
+     * Returns the full path of the source returned by the copy usage locator, which may return only the file name
+     *
+     * @param source
+     */
+    private resolveSource(source: string): string | undefined {
+        if (/[\\\/]/.test(source)) {
+            return source;
+        }
+        if (this.isSameFile(source, this.fileName(this.file))) {
+            return this.file;
+        }
+        return SearchPathResolver.resolve(source, this.file);
+    }
+
+    /**
+     * Returns true if the new name is a different word, not only the old name in another case
+     *
+     * @param oldName
+     * @param newName
+     */
+    private isConflict(oldName: string, newName: string): boolean {
+        return oldName.toLowerCase() != newName.toLowerCase();
+    }
+
+    /**
+     * Returns true if both are the same file, ignoring the case and the separators
+     *
+     * @param file
+     * @param other
+     */
+    private isSameFile(file: string, other: string | undefined): boolean {
+        return other != undefined && this.normalize(file) == this.normalize(other);
+    }
+
+    /**
+     * Returns the file name normalized to be compared
+     *
+     * @param file
+     */
+    private normalize(file: string): string {
+        return file.replace(/[\\\/]/g, "/").toUpperCase();
+    }
+
+    /**
+     * Returns the name of the file without the directory
+     *
+     * @param file
+     */
+    private fileName(file: string): string {
+        return file.replace(/^.*[\\\/]/, "");
+    }
+
+}
@@ -0,0 +1,239 @@
+import { Proposed, ProposedFeatures } from "vscode-languageserver";
+import { ParserCobol } from "../../cobol/parsercobol";
+import { CobolTokenizer } from "../../cobol/CobolTokenizer";
+import { CobolReservedWords } from "../../cobol/CobolReservedWords";
+
+/** Token types reported by the server */
+const TOKEN_TYPES = ["variable", "enumMember", "function", "namespace", "class", "member", "keyword", "parameter"];
+/** Token modifiers reported by the server */
+const TOKEN_MODIFIERS = ["declaration", "readonly", "documentation", "local", "linkage", "file"];
+/** Tags of the RechDoc documentation */
+const RECHDOC_TAG = /^(\s*\*>\s*)(@param|@enum|@return|@throws|@optional|@default|@extends)([\s:]*)([\w\-()?]*)/i;
+
+/**
+ * Classification of a Cobol element
+ */
+interface Classification {
+    type: string;
+    modifiers: string[];
+}
+
+/**
+ * Semantic token found in the source
+ */
+export interface CobolSemanticToken {
+    line: number;
+    column: number;
+    length: number;
+    type: string;
+    modifiers: string[];
+}
+
+/**
+ * Class to generate the semantic tokens of Cobol sources
+ */
+export class CobolSemanticTokensFactory {
+
+    /** Cobol parser */
+    private parser: ParserCobol = new ParserCobol();
+
+    /**
+     * Returns the legend of the token types and modifiers
+     */
+    public static legend(): Proposed.SemanticTokensLegend {
+        return { tokenTypes: TOKEN_TYPES, tokenModifiers: TOKEN_MODIFIERS };
+    }
+
+    /**
+     * Pushes the tokens into the builder, encoding types and modifiers with the legend
+     *
+     * @param tokens
+     * @param builder
+     */
+    public static push(tokens: CobolSemanticToken[], builder: ProposedFeatures.SemanticTokensBuilder) {
+        tokens.forEach((token) => {
+            const modifiers = token.modifiers.reduce((result, modifier) => result | (1 << TOKEN_MODIFIERS.indexOf(modifier)), 0);
+            builder.push(token.line, token.column, token.length, TOKEN_TYPES.indexOf(token.type), modifiers);
+        });
+    }
+
+    /**
+     * Generates the semantic tokens of the source, in the order of their positions
+     *
+     * @param lines lines of the source
+     * @param expandedLines lines of the expanded source, used to classify the elements declared in copies
+     */
+    public generateTokens(lines: string[], expandedLines?: string[]): CobolSemanticToken[] {
+        const scopes: Map<string, Classification>[] = [new Map()];
+        const scopeOfLines = this.collectDeclarations(lines, scopes);
+        if (expandedLines) {
+            const expandedScopes: Map<string, Classification>[] = [new Map()];
+            this.collectDeclarations(expandedLines, expandedScopes);
+            expandedScopes[0].forEach((classification, name) => {
+                if (!scopes[0].has(name)) {
+                    scopes[0].set(name, classification);
+                }
+            });
+        }
+        const result: CobolSemanticToken[] = [];
+        lines.forEach((line, index) => {
+            result.push(...this.generateLineTokens(line, index, scopes[scopeOfLines[index]], scopes[0]));
+        });
+        return result;
+    }
+
+    /**
+     * Generates the semantic tokens of one line
+     *
+     * @param line
+     * @param index
+     * @param scope declarations of the method where the line is
+     * @param global declarations of the whole source
+     */
+    private generateLineTokens(line: string, index: number, scope: Map<string, Classification>, global: Map<string, Classification>): CobolSemanticToken[] {
+        const result: CobolSemanticToken[] = [];
+        if (CobolTokenizer.isComment(line)) {
+            const rechDoc = RECHDOC_TAG.exec(line);
+            if (rechDoc) {
+                const tagColumn = rechDoc[1].length;
+                result.push({ line: index, column: tagColumn, length: rechDoc[2].length, type: "keyword", modifiers: ["documentation"] });
+                if (rechDoc[4].length > 0) {
+                    const nameColumn = tagColumn + rechDoc[2].length + rechDoc[3].length;
+                    result.push({ line: index, column: nameColumn, length: rechDoc[4].length, type: "parameter", modifiers: ["documentation"] });
+                }
+            }
+            return result;
+        }
+        const copy = /^(\s+copy\s+)([\w\-]+(?:\.\w+)?)/i.exec(line);
+        if (copy) {
+            result.push({ line: index, column: copy[1].length, length: copy[2].length, type: "namespace", modifiers: [] });
+            return result;
+        }
+        const code = CobolTokenizer.stripCommentsAndLiterals(line);
+        let declaration = this.findDeclaration(line);
+        CobolTokenizer.tokenize(line).forEach((token) => {
+            const name = token.text.toLowerCase();
+            let classification: Classification | undefined;
+            if (code.substring(0, token.column).trimRight().endsWith(":>")) {
+                classification = { type: "member", modifiers: [] };
+            } else {
+                classification = scope.get(name) || global.get(name);
+            }
+            if (!classification) {
+                return;
+            }
+            const modifiers = classification.modifiers.slice();
+            if (declaration && declaration == name) {
+                modifiers.unshift("declaration");
+                declaration = undefined;
+            }
+            result.push({ line: index, column: token.column, length: token.text.length, type: classification.type, modifiers: modifiers });
+        });
+        return result;
+    }
+
+    /**
+     * Collects the declarations of the lines, returning the scope of each line
+     *
+     * @param lines
+     * @param scopes declarations of the source, the first one is global and the others belong to methods
+     */
+    private collectDeclarations(lines: string[], scopes: Map<string, Classification>[]): number[] {
+        let division = "";
+        let section = "";
+        let scope = 0;
+        return lines.map((line) => {
+            if (CobolTokenizer.isComment(line)) {
+                return scope;
+            }
+            const lineScope = scope;
+            const declare = (name: string | undefined, classification: Classification, global?: boolean) => {
+                if (name && !CobolReservedWords.isReserved(name)) {
+                    scopes[global ? 0 : scope].set(name.toLowerCase(), classification);
+                }
+            };
+            const method = this.parser.getDeclaracaoMethod(line);
+            if (method) {
+                // Each method has its own data and procedure divisions, which may have no division header
+                division = "";
+                section = "";
+                scope = scopes.push(new Map()) - 1;
+                declare(method, { type: "member", modifiers: [] }, true);
+                return scope;
+            }
+            if (/^\s+end\s+method[\s\.]/i.test(line)) {
+                scope = 0;
+                return lineScope;
+            }
+            declare(this.parser.getClassIdDeclaration(line), { type: "class", modifiers: [] }, true);
+            const newDivision = this.parser.getDivisionDeclaration(line);
+            if (newDivision) {
+                division = newDivision.toLowerCase();
+                section = "";
+                return scope;
+            }
+            const newSection = this.parser.getSectionDeclaration(line);
+            if (division == "procedure") {
+                declare(this.parser.getDeclaracaoParagrafo(line) || newSection, { type: "function", modifiers: [] });
+                return scope;
+            }
+            if (newSection) {
+                section = newSection.toLowerCase();
+                return scope;
+            }
+            declare(this.parser.getDeclaracaoClasse(line), { type: "class", modifiers: [] }, true);
+            declare(this.parser.getDeclaracaoSelect(line), { type: "variable", modifiers: ["file"] });
+            declare(this.parser.getFileDescriptionDeclaration(line), { type: "variable", modifiers: ["file"] });
+            const variable = this.parser.getDeclaracaoVariavel(line);
+            if (variable) {
+                declare(variable, this.classifyVariable(line, section, scope > 0));
+            }
+            return scope;
+        });
+    }
+
+    /**
+     * Returns the classification of the variable declared in the line
+     *
+     * @param line
+     * @param section section where the variable is declared
+     * @param method true if the variable is declared inside a method
+     */
+    private classifyVariable(line: string, section: string, method: boolean): Classification {
+        const level = /^\s*(\d+)\s/.exec(line);
+        if (level && level[1] == "88") {
+            return { type: "enumMember", modifiers: [] };
+        }
+        if (!level || level[1] == "78") {
+            return { type: "variable", modifiers: ["readonly"] };
+        }
+        switch (section) {
+            case "linkage":
+                return { type: "variable", modifiers: ["linkage"] };
+            case "file":
+                return { type: "variable", modifiers: ["file"] };
+            case "local-storage":
+                return { type: "variable", modifiers: ["local"] };
+            default:
+                return { type: "variable", modifiers: method ? ["local"] : [] };
+        }
+    }
+
+    /**
+     * Returns the name of the element declared in the line
+     *
+     * @param line
+     */
+    private findDeclaration(line: string): string | undefined {
+        const declaration = this.parser.getDeclaracaoVariavel(line)
+            || this.parser.getClassIdDeclaration(line)
+            || this.parser.getDeclaracaoMethod(line)
+            || this.parser.getDeclaracaoParagrafo(line)
+            || this.parser.getSectionDeclaration(line)
+            || this.parser.getDeclaracaoSelect(line)
+            || this.parser.getFileDescriptionDeclaration(line)
+            || this.parser.getDeclaracaoClasse(line);
+        return declaration ? declaration.toLowerCase() : undefined;
+    }
+
+}
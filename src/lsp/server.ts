@@ -16,30 +16,49 @@ import {
   Position,
   CompletionItem,
   DocumentOnTypeFormattingParams,
+  DocumentFormattingParams,
+  DocumentRangeFormattingParams,
   DocumentHighlight,
   FoldingRangeRequestParam,
   FoldingRange,
   ResponseError,
-  TextDocumentChangeEvent,
   ErrorCodes,
   ReferenceParams,
   WorkspaceEdit,
   RenameParams,
+  PrepareRenameParams,
   CodeActionParams,
   CodeAction,
-  FoldingRangeRequest,
   TextDocumentSyncKind,
-  CompletionList
+  CompletionList,
+  Hover,
+  DocumentSymbolParams,
+  DocumentSymbol,
+  WorkspaceSymbolParams,
+  SymbolInformation,
+  Diagnostic,
+  Proposed,
+  CodeLensParams,
+  CodeLens,
+  SignatureHelpParams,
+  SignatureHelp,
+  DocumentLinkParams,
+  DocumentLink,
+  DidChangeWatchedFilesParams,
+  FileChangeType
 } from "vscode-languageserver";
 import {
 	TextDocument
 } from 'vscode-languageserver-textdocument';
 import { CobolDeclarationFinder } from "./declaration/CobolDeclarationFinder";
 import { Path } from "../commons/path";
+import { SearchPathResolver, FolderSearchPath } from "../commons/SearchPathResolver";
 import { RechPosition } from "../commons/rechposition";
 import { CobolWordFinder } from "../commons/CobolWordFinder";
 import { Diagnostician } from "../cobol/diagnostic/diagnostician";
 import { CobolFormatter } from "./formatter/CobolFormatter";
+import { CobolDocumentFormatter } from "./formatter/CobolDocumentFormatter";
+import { CobolDocumentModel } from "./model/CobolDocumentModel";
 import { CobolCompletionItemFactory } from "./completion/CobolCompletionItemFactory";
 import { DynamicJsonCompletion } from "./completion/DynamicJsonCompletion";
 import { ParagraphCompletion } from "./completion/ParagraphCompletion";
@@ -53,19 +72,51 @@ import { BufferSplitter } from "rech-ts-commons";
 import { CobolDiagnosticParser } from "../cobol/diagnostic/cobolDiagnosticParser";
 import { ClassCompletion } from "./completion/ClassCompletion";
 import { MethodCompletion } from "./completion/method/MethodCompletion";
-import { CobolReferencesFinder } from "./references/CobolReferencesFinder";
 import { CobolActionFactory } from "./actions/CobolActionFactory";
-import { RenamingUtils } from "./commons/RenamingUtils";
+import { CobolRenameFactory } from "./rename/CobolRenameFactory";
+import { CobolHoverFactory } from "./hover/CobolHoverFactory";
+import { CobolCopy } from "../cobol/CobolCopy";
+import { CobolDocumentSymbolFactory } from "./symbol/CobolDocumentSymbolFactory";
+import { WorkspaceSymbolIndex } from "./symbol/WorkspaceSymbolIndex";
+import { NativeDiagnostician } from "../cobol/diagnostic/native/NativeDiagnostician";
+import { DiagnosticOutputParserFactory, DEFAULT_OUTPUT_FORMAT } from "../cobol/diagnostic/output/DiagnosticOutputParserFactory";
+import { CustomOutputFormat } from "../cobol/diagnostic/output/CustomOutputParser";
+import { DiagnosticOutputParserInterface } from "../cobol/diagnostic/output/DiagnosticOutputParserInterface";
+import { CobolSemanticTokensFactory } from "./semantic/CobolSemanticTokensFactory";
+import { CobolCallHierarchyFactory } from "./callhierarchy/CobolCallHierarchyFactory";
+import { FileUtils } from "../commons/FileUtils";
+import { CobolCodeLensFactory, CobolCodeLensData } from "./codelens/CobolCodeLensFactory";
+import { CobolSignatureHelpFactory } from "./signature/CobolSignatureHelpFactory";
+import { CobolDocumentLinkFactory } from "./documentlink/CobolDocumentLinkFactory";
 
-/** Max lines in the source to active the folding */
-const MAX_LINE_IN_SOURCE_TO_FOLDING = 10000
 // Create a connection for the server. The connection uses Node's IPC as a transport.
 // Also include all preview / proposed LSP features.
 const connection = createConnection(ProposedFeatures.all);
 let loggingConfigured: boolean;
+/** Last diagnostics reported by the preprocessor for each document */
+const preprocessorDiagnostics: Map<string, Diagnostic[]> = new Map();
+/** Builders of the semantic tokens of each document, keeping the last result to compute the edits */
+const semanticTokensBuilders: Map<string, ProposedFeatures.SemanticTokensBuilder> = new Map();
+/** Code lenses of each document, kept while the version of the document doesn't change */
+const codeLensCache: Map<string, {version: number, codeLenses: CodeLens[]}> = new Map();
+/** Last diagnostics reported by the native diagnostician for each document */
+const nativeDiagnostics: Map<string, Diagnostic[]> = new Map();
+/** Pending native diagnostics of each document, postponed while the document keeps changing */
+const nativeDiagnosticsTimers: Map<string, NodeJS.Timer> = new Map();
+/** Delay in milliseconds without changes before running the native diagnostics */
+const NATIVE_DIAGNOSTICS_DELAY = 500;
+/** Whether the native diagnostics are enabled, kept updated with the configuration */
+let nativeDiagnosticsEnabled = false;
 
 let hasDiagnosticRelatedInformationCapability: boolean | undefined = false;
-const documents: TextDocuments<TextDocument> = new TextDocuments(TextDocument);
+/** Open documents, keeping the model of each document updated with the incremental changes */
+const documents: TextDocuments<TextDocument> = new TextDocuments({
+  create: TextDocument.create,
+  update: (document, changes, version) => {
+    CobolDocumentModel.update(document, changes, version);
+    return TextDocument.update(document, changes, version);
+  }
+});
 
 connection.onInitialize(async (params: InitializeParams) => {
   const capabilities = params.capabilities;
@@ -76,9 +127,13 @@ connection.onInitialize(async (params: InitializeParams) => {
   ExpandedSourceManager.setSourceExpander((uri: string, cacheFileName: string) => {
     return sendExternalPreprocExpanderExecution(uri, cacheFileName);
   });
+  CobolCopy.setCommentExtractor((copyFile: string) => {
+    return sendExternalCommentExtractorFromCopyFiles(copyFile);
+  });
+  configureWorkspaceSymbolIndex(params);
   return {
     capabilities: {
-      textDocumentSync: TextDocumentSyncKind.Full,
+      textDocumentSync: TextDocumentSyncKind.Incremental,
       definitionProvider: true,
       referencesProvider: true,
       documentHighlightProvider: true,
@@ -87,11 +142,38 @@ connection.onInitialize(async (params: InitializeParams) => {
         resolveProvider: true
       },
       codeActionProvider: true,
-      foldingRangeProvider: false,
-      renameProvider: true,
+      foldingRangeProvider: true,
+      renameProvider: { prepareProvider: true },
+      hoverProvider: true,
+      documentSymbolProvider: true,
+      workspaceSymbolProvider: true,
+      callHierarchyProvider: true,
+      codeLensProvider: {
+        resolveProvider: true
+      },
+      signatureHelpProvider: {
+        triggerCharacters: ["(", ",", " "]
+      },
+      documentLinkProvider: {
+        resolveProvider: false
+      },
+      semanticTokensProvider: {
+        legend: CobolSemanticTokensFactory.legend(),
+        documentProvider: {
+          edits: true
+        }
+      },
       documentOnTypeFormattingProvider: {
         firstTriggerCharacter: "\n",
         moreTriggerCharacter: ["N", 'n', 'E', 'e', 'H', 'h', 'Y', 'y'],
+      },
+      documentFormattingProvider: true,
+      documentRangeFormattingProvider: true,
+      workspace: {
+        workspaceFolders: {
+          supported: true,
+          changeNotifications: true
+        }
       }
     }
   };
@@ -122,13 +204,29 @@ connection.onRequest("custom/findDeclarationPosition", (word: string, referenceL
   })
 })
 
+/** When request to return the source with the copies expanded, or the document text if it can't be expanded */
+connection.onRequest("custom/getExpandedSource", (uri: string) => {
+  return new Promise<string>((resolve, reject) => {
+    ExpandedSourceManager.getExpandedSource(uri).then((expandedSource) => {
+      resolve(expandedSource);
+    }).catch(() => {
+      const document = documents.get(uri);
+      if (document) {
+        Log.get().warning("Could not expand the source, using the document text. Source: " + uri);
+        return resolve(document.getText());
+      }
+      reject(new ResponseError<undefined>(ErrorCodes.RequestCancelled, "Error to expand the source"));
+    });
+  });
+})
+
 // The content of a text document has changed. This event is emitted
 // when the text document first opened or when its content has changed.
 documents.onDidChangeContent(change => {
   validateTextDocument(change.document, "onChange").then().catch(() => {});
-  // Clear the folding cache
-  // Does this not folding if the source has any changes
-  CobolFoldFactory.foldingCache.delete(change.document.uri);
+  scheduleNativeDiagnostics(change.document.uri);
+  // Clear the code lenses because the references have changed
+  codeLensCache.delete(change.document.uri);
 });
 
 /**
@@ -138,29 +236,28 @@ documents.onDidSave(document => {
   const uri = document.document.uri;
   // Validate the document
   validateTextDocument(document.document, "onSave").then().catch(() => {});
-  // Update the folding
-  loadFolding(document);
-  connection.client.register(FoldingRangeRequest.type, undefined);
   configureExpandedSourceCache();
+  configureSearchPath();
   // Update the expanded source
-  new ExpandedSourceManager(uri).expandSource().then().catch(() => {});
+  new ExpandedSourceManager(uri).expandSource().catch(() => {}).then(() => scheduleNativeDiagnostics(uri)).catch(() => {});
   // Clear the variableCompletion cache
   VariableCompletion.removeCache(uri);
   // Clear the copy hierarchy from cache
   CobolDiagnosticParser.removeSourceFromCopyCache(new Path(uri).fullPath());
+  // Update the workspace symbols of the saved file
+  WorkspaceSymbolIndex.updateFile(new Path(uri).fullPathWin(), document.document.getText());
 })
 
 // If the document opened
 documents.onDidOpen(document => {
   const uri = document.document.uri;
   // Load the expanded source
-  new ExpandedSourceManager(uri).expandSource().then().catch(() => {});
+  new ExpandedSourceManager(uri).expandSource().catch(() => {}).then(() => scheduleNativeDiagnostics(uri)).catch(() => {});
   configureServerLog().then().catch(() => {});
   // Validate the document
   validateTextDocument(document.document, true).then().catch(() => {});
-  // Load the folding
-  loadFolding(document);
   configureExpandedSourceCache();
+  configureSearchPath();
 });
 
 // If the document closed
@@ -174,6 +271,16 @@ documents.onDidClose(textDocument => {
   CobolDiagnosticParser.removeSourceFromCopyCache(new Path(uri).fullPath());
   // Clear the variableCompletion cache
   VariableCompletion.removeCache(uri);
+  // Clear the diagnostics of the preprocessor
+  preprocessorDiagnostics.delete(uri);
+  // Clear the native diagnostics and the pending ones
+  clearNativeDiagnostics(uri);
+  // Clear the semantic tokens of the document
+  semanticTokensBuilders.delete(uri);
+  // Clear the code lenses of the document
+  codeLensCache.delete(uri);
+  // Clear the model of the document
+  CobolDocumentModel.remove(uri);
   //Clear the computed diagnostics to VSCode.
   connection.sendDiagnostics({
     uri: uri,
@@ -181,53 +288,21 @@ documents.onDidClose(textDocument => {
   });
 });
 
-/**
- * Load the folding of the source
- *
- * @param document
- */
-export function loadFolding(document: TextDocumentChangeEvent<TextDocument>) {
-  if (document.document.lineCount > MAX_LINE_IN_SOURCE_TO_FOLDING) {
-    return;
-  }
-  const uri = document.document.uri;
-  const fullDocument = documents.get(uri);
-  if (fullDocument) {
-    const text = fullDocument.getText();
-    getConfig<boolean>("folding").then(foldingConfig => {
-      if (foldingConfig) {
-        new CobolFoldFactory()
-          .fold(
-            uri,
-            BufferSplitter.split(text),
-            () => sendRequestToShowFoldStatusBar("Load folding from: " + uri),
-            () => sendRequestToHideFoldStatusBar()
-          )
-          .then()
-          .catch(() => {});
-      } else {
-        sendRequestToHideFoldStatusBar();
-      }
-    }).catch(() => {
-      sendRequestToHideFoldStatusBar();
-      return;
-    });
-  }
-}
-
 /**
  * Create diagnostics for all errors or warnings
  *
  * @param textDocument
  */
 export async function validateTextDocument(textDocument: TextDocument, event: "onSave" | "onChange" | boolean): Promise<void> {
-  return getAutoDiagnostic().then(autodiagnostic => {
+  publishDiagnostics(textDocument.uri);
+  return getAutoDiagnostic().then(async autodiagnostic => {
     if (autodiagnostic && (event === true || autodiagnostic == event)) {
+      const outputParser = await createDiagnosticOutputParser(textDocument.uri);
       const document = documents.get(textDocument.uri)
       if (document) {
         const text = document.getText();
         Log.get().info("Diagnose from " + document.uri + " starting");
-        new Diagnostician(text).diagnose(
+        new Diagnostician(text, outputParser).diagnose(
           textDocument,
           (fileName, documentPath) => {
             return sendExternalPreprocessExecution(fileName, documentPath);
@@ -246,24 +321,122 @@ export async function validateTextDocument(textDocument: TextDocument, event: "o
           }
         ).then(diagnostics => {
           Log.get().info("Diagnose from " + textDocument.uri + " resulted ok");
-          //Send the computed diagnostics to VSCode.
-          connection.sendDiagnostics({
-            uri: textDocument.uri,
-            diagnostics: diagnostics
-          });
+          preprocessorDiagnostics.set(textDocument.uri, diagnostics);
+          publishDiagnostics(textDocument.uri);
         }).catch(() => {
           Log.get().info("Diagnose from " + textDocument.uri + " resulted empty");
-          //Send the computed diagnostics to VSCode.
-          connection.sendDiagnostics({
-            uri: textDocument.uri,
-            diagnostics: []
-          });
+          preprocessorDiagnostics.set(textDocument.uri, []);
+          publishDiagnostics(textDocument.uri);
         });
       }
     }
   });
 }
 
+/**
+ * Creates the parser of the diagnostic output according to the format selected for the document
+ *
+ * @param uri
+ */
+function createDiagnosticOutputParser(uri: string): Promise<DiagnosticOutputParserInterface> {
+  return new Promise((resolve) => {
+    getConfig<string>("diagnosticOutputFormat", uri).catch(() => DEFAULT_OUTPUT_FORMAT).then((format) => {
+      getConfig<CustomOutputFormat[]>("customDiagnosticOutputFormats", uri).catch(() => [] as CustomOutputFormat[]).then((customFormats) => {
+        return resolve(DiagnosticOutputParserFactory.create(format, customFormats));
+      }).catch(() => resolve(DiagnosticOutputParserFactory.create(DEFAULT_OUTPUT_FORMAT, [])));
+    }).catch(() => resolve(DiagnosticOutputParserFactory.create(DEFAULT_OUTPUT_FORMAT, [])));
+  });
+}
+
+/**
+ * Sends to VSCode the last native diagnostics merged with the last ones of the preprocessor
+ *
+ * @param uri
+ */
+function publishDiagnostics(uri: string) {
+  if (!documents.get(uri)) {
+    return;
+  }
+  //Send the computed diagnostics to VSCode.
+  connection.sendDiagnostics({
+    uri: uri,
+    diagnostics: NativeDiagnostician.merge(nativeDiagnostics.get(uri) || [], preprocessorDiagnostics.get(uri) || [])
+  });
+}
+
+/**
+ * Schedules the native diagnostics of the document, postponing them while the document keeps changing
+ *
+ * @param uri
+ */
+function scheduleNativeDiagnostics(uri: string) {
+  const pending = nativeDiagnosticsTimers.get(uri);
+  if (pending) {
+    clearTimeout(pending);
+  }
+  nativeDiagnosticsTimers.set(uri, setTimeout(() => {
+    nativeDiagnosticsTimers.delete(uri);
+    const document = documents.get(uri);
+    if (!document) {
+      return;
+    }
+    if (nativeDiagnosticsEnabled) {
+      nativeDiagnostics.set(uri, new NativeDiagnostician(document.getText()).diagnose(ExpandedSourceManager.peekExpandedSource(uri)));
+    } else {
+      nativeDiagnostics.delete(uri);
+    }
+    publishDiagnostics(uri);
+  }, NATIVE_DIAGNOSTICS_DELAY));
+}
+
+/**
+ * Removes the native diagnostics of the document and cancels the pending ones
+ *
+ * @param uri
+ */
+function clearNativeDiagnostics(uri: string) {
+  const pending = nativeDiagnosticsTimers.get(uri);
+  if (pending) {
+    clearTimeout(pending);
+    nativeDiagnosticsTimers.delete(uri);
+  }
+  nativeDiagnostics.delete(uri);
+}
+
+/**
+ * Reads whether the native diagnostics are enabled and diagnoses the open documents again
+ */
+function configureNativeDiagnostics() {
+  getConfig<boolean>("nativeDiagnostics").catch(() => false).then((enabled) => {
+    nativeDiagnosticsEnabled = !!enabled;
+    documents.all().forEach((document) => scheduleNativeDiagnostics(document.uri));
+  }).catch(() => {});
+}
+
+/**
+ * Configures the workspace symbol index with the workspace folders
+ *
+ * @param params
+ */
+function configureWorkspaceSymbolIndex(params: InitializeParams) {
+  let folders: string[] = [];
+  if (params.workspaceFolders) {
+    folders = params.workspaceFolders.map((folder) => new Path(folder.uri).fullPathWin());
+  } else if (params.rootUri) {
+    folders = [new Path(params.rootUri).fullPathWin()];
+  }
+  WorkspaceSymbolIndex.setWorkspaceFolders(folders);
+}
+
+/**
+ * Gets the search path of copies and sources, with the overrides of the workspace folders, and configures the resolver
+ */
+function configureSearchPath() {
+  connection.sendRequest<{searchPath: string[], folders: FolderSearchPath[]}>("custom/getSearchPath").then((config) => {
+    SearchPathResolver.configure(config.searchPath, config.folders);
+  }, () => {});
+}
+
 /**
  * Get user configs and configure ExpandedSource cache
  */
@@ -327,14 +500,26 @@ export function sendExternalGetCopyHierarchy(uri: string) {
   return connection.sendRequest<string>("custom/runCopyHierarchy", uri);
 }
 
+/**
+ * Sends a request to the client for extract the header comment of the copy file
+ *
+ * @param copyFile copy file
+ */
+export function sendExternalCommentExtractorFromCopyFiles(copyFile: string) {
+  return connection.sendRequest<string[] | undefined>("custom/commentExtractorFromCopyFiles", copyFile);
+}
+
 /**
  * Sends a request to the client to get a specific setting
  *
  * @param section
+ * @param uri resource whose setting is returned, with the overrides of its workspace folder
  */
-export function getConfig<T>(section: string) {
+export function getConfig<T>(section: string, uri?: string) {
   return new Promise<T>((resolve, reject) => {
-    return connection.sendRequest<T>("custom/getConfig", section).then((config) => {
+    // The array is spread in the parameters of the handler of the client
+    const request = uri ? connection.sendRequest<T>("custom/getConfig", [section, uri]) : connection.sendRequest<T>("custom/getConfig", section);
+    return request.then((config) => {
       return resolve(config);
     }, (e) => {
       reject(e);
@@ -378,10 +563,11 @@ connection.onFoldingRanges((_foldingRangeRequestParam: FoldingRangeRequestParam)
   sendRequestToShowFoldStatusBar("Applying Folding from: " + _foldingRangeRequestParam.textDocument.uri);
   return new Promise((resolve, reject) => {
     const uri = _foldingRangeRequestParam.textDocument.uri;
-    const folding = CobolFoldFactory.foldingCache.get(uri);
+    const document = documents.get(uri);
     getConfig<boolean>("folding").then((foldingConfig) => {
-      if (foldingConfig && folding) {
+      if (foldingConfig && document) {
         Log.get().info("Called callback of onFoldingRanges");
+        const folding = new CobolFoldFactory().fold(uri, CobolDocumentModel.of(document));
         sendRequestToHideFoldStatusBar();
         return resolve(folding)
       } else {
@@ -403,11 +589,12 @@ connection.onDocumentHighlight((_textDocumentPosition: TextDocumentPositionParam
   return new Promise((resolve, reject) => {
     const fullDocument = documents.get(_textDocumentPosition.textDocument.uri);
     if (fullDocument) {
-      const text = fullDocument.getText();
+      const model = CobolDocumentModel.of(fullDocument);
       const line = _textDocumentPosition.position.line;
       const character = _textDocumentPosition.position.character
-      const word = getLineText(text, line, character);
-      const result = new HighlightFactory().getHighlightsPositions(fullDocument!, word, line, character)
+      const word = getModelWord(model, line, character);
+      const expandedSource = ExpandedSourceManager.peekExpandedSource(_textDocumentPosition.textDocument.uri);
+      const result = new HighlightFactory().getHighlightsPositions(model, word, line, character, expandedSource, _textDocumentPosition.textDocument.uri)
       if (result) {
         return resolve(result)
       } else {
@@ -430,7 +617,7 @@ connection.onCompletion((textDocumentPosition: TextDocumentPositionParams): Then
       const cacheFileName = buildCacheFileName(uri);
       const fullDocument = documents.get(uri);
       if (fullDocument) {
-        new CobolCompletionItemFactory(line, column, BufferSplitter.split(fullDocument.getText()), uri)
+        new CobolCompletionItemFactory(line, column, CobolDocumentModel.of(fullDocument).getLines(), uri)
           .addCompletionImplementation(new DynamicJsonCompletion(repositories, uri))
           .setParagraphCompletion(new ParagraphCompletion(cacheFileName, uri, () => getCurrentSourceOfParagraphCompletions()))
           .setClassCompletion(new ClassCompletion(cacheFileName, uri, () => getSpecialClassPuller(uri)))
@@ -544,6 +731,55 @@ connection.onDocumentOnTypeFormatting((params: DocumentOnTypeFormattingParams) =
   });
 });
 
+/**
+ * Whole document formatter
+ */
+connection.onDocumentFormatting((params: DocumentFormattingParams) => {
+  Log.get().info(`Formatting whole file: ${params.textDocument.uri}`);
+  return new Promise((resolve, reject) => {
+    const fullDocument = documents.get(params.textDocument.uri);
+    if (!fullDocument) {
+      Log.get().error(`Error formatting. fullDocument is undefined. File: ${params.textDocument.uri}`);
+      return reject(new ResponseError<undefined>(ErrorCodes.RequestCancelled, "Error formatting"));
+    }
+    createDocumentFormatter(fullDocument.getText()).then((formatter) => {
+      return resolve(formatter.formatDocument());
+    }).catch((e) => reject(e));
+  });
+});
+
+/**
+ * Document range formatter
+ */
+connection.onDocumentRangeFormatting((params: DocumentRangeFormattingParams) => {
+  Log.get().info(`Formatting range of file: ${params.textDocument.uri}`);
+  return new Promise((resolve, reject) => {
+    const fullDocument = documents.get(params.textDocument.uri);
+    if (!fullDocument) {
+      Log.get().error(`Error formatting. fullDocument is undefined. File: ${params.textDocument.uri}`);
+      return reject(new ResponseError<undefined>(ErrorCodes.RequestCancelled, "Error formatting"));
+    }
+    createDocumentFormatter(fullDocument.getText()).then((formatter) => {
+      return resolve(formatter.formatRange(params.range));
+    }).catch((e) => reject(e));
+  });
+});
+
+/**
+ * Creates the formatter of the whole document with the configured tabstops
+ *
+ * @param text document text
+ */
+function createDocumentFormatter(text: string): Promise<CobolDocumentFormatter> {
+  return new Promise((resolve) => {
+    getConfig<number[]>("tabstops").then((tabstops) => {
+      resolve(new CobolDocumentFormatter(BufferSplitter.split(text), tabstops));
+    }).catch(() => {
+      resolve(new CobolDocumentFormatter(BufferSplitter.split(text)));
+    });
+  });
+}
+
 /**
  * Retrun if the character that has been typed is a enter
  *
@@ -559,16 +795,35 @@ connection.onInitialized(() => {
     DidChangeConfigurationNotification.type,
     undefined
   );
+  configureSearchPath();
+  configureNativeDiagnostics();
+  connection.workspace.onDidChangeWorkspaceFolders((event) => {
+    const added = event.added.map((folder) => new Path(folder.uri).fullPathWin());
+    const removed = event.removed.map((folder) => new Path(folder.uri).fullPathWin());
+    WorkspaceSymbolIndex.changeWorkspaceFolders(added, removed).then().catch(() => {});
+    configureSearchPath();
+  });
+});
+
+connection.onDidChangeWatchedFiles((params: DidChangeWatchedFilesParams) => {
+  params.changes.filter((change) => change.type == FileChangeType.Deleted).forEach((change) => {
+    WorkspaceSymbolIndex.removeFile(new Path(change.uri).fullPathWin());
+  });
+});
+
+connection.onDidChangeConfiguration(() => {
+  configureNativeDiagnostics();
+  configureSearchPath();
 });
 
 connection.onDefinition((params: TextDocumentPositionParams): Thenable<Location | ResponseError<undefined>> => {
   return new Promise((resolve, reject) => {
     const fullDocument = documents.get(params.textDocument.uri);
     if (fullDocument) {
-      const text = fullDocument.getText();
-      const word = getLineText(text, params.position.line, params.position.character);
+      const model = CobolDocumentModel.of(fullDocument);
+      const word = getModelWord(model, params.position.line, params.position.character);
       Log.get().info(`Found declaration for ${word} starting`);
-      createPromiseForWordDeclaration(text, params.position.line, params.position.character, word, params.textDocument.uri).then((location) => {
+      createPromiseForWordDeclaration(model, params.position.line, params.position.character, word, params.textDocument.uri).then((location) => {
         Log.get().info("Found declaration for " + word + " in " + location.uri + ". Key pressed in " + params.textDocument.uri);
         return resolve(location);
       }).catch((e) => {
@@ -586,24 +841,16 @@ connection.onReferences((params: ReferenceParams): Thenable<Location[] | Respons
   return new Promise((resolve, reject) => {
     const fullDocument = documents.get(params.textDocument.uri);
     if (fullDocument) {
-      const text = fullDocument.getText();
-      const word = getLineText(text, params.position.line, params.position.character);
-      callCobolReferencesFinder(word, text).then((positions: RechPosition[]) => {
-        let locations: Location[] = [];
-        positions.forEach((currentPosition) => {
-          // If the delcaration was found on an external file
-          if (currentPosition.file) {
-            // Retrieves the location on the external file
-            locations.push(createLocation(currentPosition.file, currentPosition));
-          } else {
-            // Retrieves the location on the current file
-            locations.push(createLocation(params.textDocument.uri, currentPosition));
-          }
-        })
-        return resolve(locations);
-      }).catch(() => {
-        return resolve(new ResponseError<undefined>(ErrorCodes.RequestCancelled, "Error to find references1"));
-        });
+      const expandedSource = ExpandedSourceManager.peekExpandedSource(params.textDocument.uri);
+      const references = CobolDocumentModel.of(fullDocument).getReferencesFinder(expandedSource, params.textDocument.uri).findReferencesAt(params.position.line, params.position.character);
+      const locations = references.map((reference) => {
+        // If the reference was found on a copy
+        if (reference.file) {
+          return createLocation(reference.file, new RechPosition(reference.line, reference.column));
+        }
+        return createLocation(params.textDocument.uri, new RechPosition(reference.line, reference.column));
+      });
+      return resolve(locations);
     } else {
       Log.get().error("Error to get the fullDocument within onReferences");
       return reject(new ResponseError<undefined>(ErrorCodes.RequestCancelled, "Error to find references2"));
@@ -611,19 +858,31 @@ connection.onReferences((params: ReferenceParams): Thenable<Location[] | Respons
   });
 });
 
+connection.onPrepareRename((params: PrepareRenameParams): Thenable<Range | ResponseError<undefined>> => {
+  return new Promise((resolve, reject) => {
+    const fullDocument = documents.get(params.textDocument.uri);
+    if (fullDocument) {
+      createRenameFactory(fullDocument).prepareRename(params.position.line, params.position.character).then((range) => {
+        return resolve(range);
+      }).catch((e) => {
+        return resolve(new ResponseError<undefined>(ErrorCodes.InvalidRequest, `${e}`));
+      });
+    } else {
+      Log.get().error("Error to get the fullDocument within onPrepareRename");
+      return reject(new ResponseError<undefined>(ErrorCodes.RequestCancelled, "Error to prepare rename"));
+    }
+  });
+});
+
 connection.onRenameRequest((params: RenameParams): Thenable<WorkspaceEdit | ResponseError<undefined>> => {
   return new Promise((resolve, reject) => {
     const fullDocument = documents.get(params.textDocument.uri);
     if (fullDocument) {
-      const text = fullDocument.getText();
-      const word = getLineText(text, params.position.line, params.position.character);
-      callCobolReferencesFinder(word, text).then((positions: RechPosition[]) => {
-        const textEdits = RenamingUtils.createEditsFromPositions(positions, word, params.newName);
-        return resolve({ changes: { [params.textDocument.uri]: textEdits } });
-      })
-        .catch(() => {
-          return resolve(new ResponseError<undefined>(ErrorCodes.RequestCancelled, "Error to rename1"));
-        });
+      createRenameFactory(fullDocument).rename(params.position.line, params.position.character, params.newName).then((edit) => {
+        return resolve(edit);
+      }).catch((e) => {
+        return resolve(new ResponseError<undefined>(ErrorCodes.InvalidRequest, `${e}`));
+      });
     } else {
       Log.get().error("Error to get the fullDocument within onRenameRequest");
       return reject(new ResponseError<undefined>(ErrorCodes.RequestCancelled, "Error to rename2"));
@@ -654,6 +913,235 @@ connection.onCodeAction((params: CodeActionParams): Thenable<CodeAction[] | Resp
   });
 });
 
+connection.onHover((params: TextDocumentPositionParams): Thenable<Hover | undefined> => {
+  return new Promise((resolve) => {
+    const fullDocument = documents.get(params.textDocument.uri);
+    if (fullDocument) {
+      const text = fullDocument.getText();
+      const word = getLineText(text, params.position.line, params.position.character);
+      new CobolHoverFactory(params.textDocument.uri, text)
+        .generateHover(word, params.position.line, params.position.character)
+        .then((hover) => {
+          return resolve(hover);
+        }).catch(() => {
+          Log.get().warning("Could not build the hover for " + word + ". File: " + params.textDocument.uri);
+          return resolve(undefined);
+        });
+    } else {
+      Log.get().error("Error to get the fullDocument within onHover");
+      return resolve(undefined);
+    }
+  });
+});
+
+connection.onDocumentSymbol((params: DocumentSymbolParams): Thenable<DocumentSymbol[] | ResponseError<undefined>> => {
+  return new Promise((resolve, reject) => {
+    const fullDocument = documents.get(params.textDocument.uri);
+    if (fullDocument) {
+      const symbols = new CobolDocumentSymbolFactory().generateSymbols(BufferSplitter.split(fullDocument.getText()));
+      return resolve(symbols);
+    } else {
+      Log.get().error("Error to get the fullDocument within onDocumentSymbol");
+      return reject(new ResponseError<undefined>(ErrorCodes.RequestCancelled, "Error to provide the document symbols"));
+    }
+  });
+});
+
+connection.onWorkspaceSymbol((params: WorkspaceSymbolParams): Thenable<SymbolInformation[] | ResponseError<undefined>> => {
+  return new Promise((resolve) => {
+    WorkspaceSymbolIndex.findSymbols(params.query).then((symbols) => {
+      return resolve(symbols);
+    }).catch((e) => {
+      Log.get().error("Error to find the workspace symbols. Error: " + e);
+      return resolve(new ResponseError<undefined>(ErrorCodes.RequestCancelled, "Error to find the workspace symbols"));
+    });
+  });
+});
+
+connection.languages.semanticTokens.on((params: Proposed.SemanticTokensParams): Proposed.SemanticTokens => {
+  return buildSemanticTokens(params.textDocument.uri).build();
+});
+
+connection.languages.semanticTokens.onEdits((params: Proposed.SemanticTokensEditsParams): Proposed.SemanticTokens | Proposed.SemanticTokensEdits => {
+  return buildSemanticTokens(params.textDocument.uri, params.previousResultId).buildEdits();
+});
+
+/**
+ * Builds the semantic tokens of the document, keeping the previous result to compute the edits
+ *
+ * @param uri
+ * @param previousResultId
+ */
+function buildSemanticTokens(uri: string, previousResultId?: string): ProposedFeatures.SemanticTokensBuilder {
+  let builder = semanticTokensBuilders.get(uri);
+  if (!builder || !previousResultId) {
+    builder = new ProposedFeatures.SemanticTokensBuilder();
+    semanticTokensBuilders.set(uri, builder);
+  } else {
+    builder.previousResult(previousResultId);
+  }
+  const fullDocument = documents.get(uri);
+  if (!fullDocument) {
+    Log.get().error("Error to get the fullDocument within semanticTokens");
+    return builder;
+  }
+  const expandedSource = ExpandedSourceManager.peekExpandedSource(uri);
+  const tokens = new CobolSemanticTokensFactory().generateTokens(
+    BufferSplitter.split(fullDocument.getText()),
+    expandedSource ? BufferSplitter.split(expandedSource) : undefined
+  );
+  CobolSemanticTokensFactory.push(tokens, builder);
+  return builder;
+}
+
+connection.onSignatureHelp((params: SignatureHelpParams): Thenable<SignatureHelp | null> => {
+  return new Promise((resolve) => {
+    const fullDocument = documents.get(params.textDocument.uri);
+    if (!fullDocument) {
+      Log.get().error("Error to get the fullDocument within onSignatureHelp");
+      return resolve(null);
+    }
+    new CobolSignatureHelpFactory(params.textDocument.uri, BufferSplitter.split(fullDocument.getText()))
+      .generateSignatureHelp(params.position.line, params.position.character)
+      .then((signatureHelp) => {
+        return resolve(signatureHelp ? signatureHelp : null);
+      }).catch(() => {
+        Log.get().warning("Could not build the signature help. File: " + params.textDocument.uri);
+        return resolve(null);
+      });
+  });
+});
+
+connection.onDocumentLinks((params: DocumentLinkParams): Thenable<DocumentLink[]> => {
+  return new Promise((resolve) => {
+    const fullDocument = documents.get(params.textDocument.uri);
+    if (!fullDocument) {
+      Log.get().error("Error to get the fullDocument within onDocumentLinks");
+      return resolve([]);
+    }
+    new CobolDocumentLinkFactory(params.textDocument.uri, BufferSplitter.split(fullDocument.getText()))
+      .generateDocumentLinks()
+      .then((documentLinks) => resolve(documentLinks))
+      .catch(() => {
+        Log.get().warning("Could not build the document links. File: " + params.textDocument.uri);
+        return resolve([]);
+      });
+  });
+});
+
+connection.onCodeLens((params: CodeLensParams): CodeLens[] => {
+  const fullDocument = documents.get(params.textDocument.uri);
+  if (!fullDocument) {
+    Log.get().error("Error to get the fullDocument within onCodeLens");
+    return [];
+  }
+  const cache = codeLensCache.get(fullDocument.uri);
+  if (cache && cache.version == fullDocument.version) {
+    return cache.codeLenses;
+  }
+  const codeLenses = new CobolCodeLensFactory(fullDocument.uri, CobolDocumentModel.of(fullDocument)).generateCodeLenses();
+  codeLensCache.set(fullDocument.uri, { version: fullDocument.version, codeLenses: codeLenses });
+  return codeLenses;
+});
+
+connection.onCodeLensResolve((codeLens: CodeLens): Thenable<CodeLens> => {
+  return new Promise((resolve) => {
+    const data: CobolCodeLensData = codeLens.data;
+    const fullDocument = documents.get(data.uri);
+    if (!fullDocument) {
+      Log.get().error("Error to get the fullDocument within onCodeLensResolve");
+      return resolve(codeLens);
+    }
+    new CobolCodeLensFactory(fullDocument.uri, CobolDocumentModel.of(fullDocument)).resolveCodeLens(codeLens).then((resolved) => {
+      // Keeps the command in cache, so the code lens isn't resolved again for the same version
+      const cache = codeLensCache.get(fullDocument.uri);
+      if (cache && cache.version == fullDocument.version) {
+        const cached = cache.codeLenses.find((current) => current.range.start.line == resolved.range.start.line);
+        if (cached) {
+          cached.command = resolved.command;
+        }
+      }
+      return resolve(resolved);
+    }).catch(() => {
+      Log.get().warning("Could not count the references of " + data.name + ". File: " + data.uri);
+      return resolve(codeLens);
+    });
+  });
+});
+
+connection.languages.callHierarchy.onPrepare((params: Proposed.CallHierarchyPrepareParams): Thenable<Proposed.CallHierarchyItem[] | null> => {
+  return new Promise((resolve) => {
+    const fullDocument = documents.get(params.textDocument.uri);
+    if (!fullDocument) {
+      Log.get().error("Error to get the fullDocument within callHierarchy.onPrepare");
+      return resolve(null);
+    }
+    createCallHierarchyFactory(fullDocument).prepare(params.position.line, params.position.character).then((items) => {
+      return resolve(items);
+    }).catch(() => resolve(null));
+  });
+});
+
+connection.languages.callHierarchy.onIncomingCalls((params: Proposed.CallHierarchyIncomingCallsParams): Proposed.CallHierarchyIncomingCall[] => {
+  const incomingCalls: Proposed.CallHierarchyIncomingCall[] = [];
+  // The callers may be in any open source which includes the copy or invokes the method
+  documents.all().forEach((document) => {
+    incomingCalls.push(...createCallHierarchyFactory(document).incomingCalls(params.item));
+  });
+  return incomingCalls;
+});
+
+connection.languages.callHierarchy.onOutgoingCalls((params: Proposed.CallHierarchyOutgoingCallsParams): Thenable<Proposed.CallHierarchyOutgoingCall[]> => {
+  return new Promise((resolve) => {
+    const factory = documents.all()
+      .map((document) => createCallHierarchyFactory(document))
+      .find((current) => current.contains(params.item));
+    if (factory) {
+      return resolve(factory.outgoingCalls(params.item));
+    }
+    // The item is a method of a class which is not open in the editor
+    FileUtils.read(new Path(params.item.uri).fullPathWin(), "latin1").then((buffer) => {
+      return resolve(new CobolCallHierarchyFactory(params.item.uri, BufferSplitter.split(buffer)).outgoingCalls(params.item));
+    }).catch((e) => {
+      Log.get().warning("Could not load " + params.item.uri + " to find the outgoing calls. Error: " + e);
+      return resolve([]);
+    });
+  });
+});
+
+/**
+ * Creates the rename factory of the document, which renames the copies and the sources including them
+ *
+ * @param document
+ */
+function createRenameFactory(document: TextDocument): CobolRenameFactory {
+  return new CobolRenameFactory(
+    document.uri,
+    document.getText(),
+    ExpandedSourceManager.peekExpandedSource(document.uri),
+    (copy) => new Promise((resolve, reject) => {
+      connection.sendRequest<string[]>("custom/copyUsageLocator", copy).then((sources) => resolve(sources), (e) => reject(e));
+    }),
+    (file) => {
+      const openDocument = documents.all().find((current) => new Path(current.uri).fullPathWin().toUpperCase() == file.toUpperCase());
+      return openDocument ? Promise.resolve(openDocument.getText()) : FileUtils.read(file, "latin1");
+    }
+  );
+}
+
+/**
+ * Creates the call hierarchy factory of the document, including the routines of its copies
+ *
+ * @param document
+ */
+function createCallHierarchyFactory(document: TextDocument): CobolCallHierarchyFactory {
+  const expandedSource = ExpandedSourceManager.peekExpandedSource(document.uri);
+  return new CobolCallHierarchyFactory(
+    document.uri,
+    BufferSplitter.split(document.getText()),
+    expandedSource ? BufferSplitter.split(expandedSource) : undefined
+  );
+}
 
 // Make the text document manager listen on the connection
 // for open, change and close text document events
@@ -685,18 +1173,29 @@ export function getLineText(
   return new CobolWordFinder().findWordAt(currentLine, column);
 }
 
+/**
+ * Returns the word of the document model in the specified position
+ *
+ * @param model model of the document
+ * @param line line
+ * @param column column
+ */
+export function getModelWord(model: CobolDocumentModel, line: number, column: number) {
+  return new CobolWordFinder().findWordAt(model.getLines()[line], column);
+}
+
 /**
  * Creates a promise to find the specified word declaration
  *
- * @param documentFullText full text of the current document
+ * @param document full text or model of the current document
  * @param word the target word which declaration will be searched
  * @param uri URI of the current file open in editor
  */
-export function createPromiseForWordDeclaration(documentFullText: string, referenceLine: number, referenceColumn: number, word: string, uri: string) {
+export function createPromiseForWordDeclaration(document: string | CobolDocumentModel, referenceLine: number, referenceColumn: number, word: string, uri: string) {
   // Creates an external promise so the reject function can be called when no definition
   // is found for the specified word
   return new Promise<Location>((resolve, reject) => {
-    callCobolDeclarationFinder(word, referenceLine, referenceColumn, documentFullText, uri).then((position) => {
+    callCobolDeclarationFinder(word, referenceLine, referenceColumn, document, uri).then((position) => {
       // If the delcaration was found on an external file
       if (position.file) {
         // Retrieves the location on the external file
@@ -716,12 +1215,12 @@ export function createPromiseForWordDeclaration(documentFullText: string, refere
  * Call the cobol word declaration finder
  *
  * @param word
- * @param documentFullText
+ * @param document full text or model of the document
  * @param uri
  */
-export function callCobolDeclarationFinder(word: string, referenceLine: number, referenceColumn: number, documentFullText: string, uri: string): Promise<RechPosition> {
+export function callCobolDeclarationFinder(word: string, referenceLine: number, referenceColumn: number, document: string | CobolDocumentModel, uri: string): Promise<RechPosition> {
   return new Promise((resolve, reject) => {
-    new CobolDeclarationFinder(documentFullText)
+    new CobolDeclarationFinder(document)
       .findDeclaration({
         term: word,
         uri: uri,
@@ -736,25 +1235,6 @@ export function callCobolDeclarationFinder(word: string, referenceLine: number,
   })
 }
 
-/**
- * Call the cobol word references finder
- *
- * @param word
- * @param documentFullText
- * @param uri
- */
-export function callCobolReferencesFinder(word: string, documentFullText: string): Promise<RechPosition[]> {
-  return new Promise((resolve, reject) => {
-    new CobolReferencesFinder(documentFullText)
-      .findReferences(word)
-      .then((positions: RechPosition[]) => {
-        return resolve(positions);
-      }).catch((e) => {
-        return reject(e);
-      })
-  });
-}
-
 /**
  * Builds Cobol preprocessor cache filename
  *
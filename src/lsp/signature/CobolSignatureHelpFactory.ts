@@ -0,0 +1,356 @@
+import { SignatureHelp, SignatureInformation, ParameterInformation, MarkupKind } from "vscode-languageserver";
+import { BufferSplitter } from "rech-ts-commons";
+import { ParserCobol } from "../../cobol/parsercobol";
+import { CobolTokenizer } from "../../cobol/CobolTokenizer";
+import { CobolDocParser } from "../../cobol/rechdoc/CobolDocParser";
+import { CobolDoc } from "../../cobol/rechdoc/CobolDoc";
+import { ElementDocumentationExtractor } from "../../cobol/rechdoc/ElementDocumentationExtractor";
+import { FileUtils } from "../../commons/FileUtils";
+import { CobolMethod } from "../completion/CobolMethod";
+import { CobolVariable } from "../completion/CobolVariable";
+import { MethodCompletionUtils } from "../completion/method/MethodCompletionUtils";
+import { PackageFinder } from "../declaration/PackageFinder";
+import { MethodPathUtils } from "../declaration/MethodPathUtils";
+
+/** Max lines of a statement read backwards looking for the invocation */
+const MAX_STATEMENT_LINES = 10;
+/** Words of the USING clause which are not parameters */
+const USING_KEYWORDS = /^(by|reference|content|value)$/i;
+
+/**
+ * Invocation of a method or program where the cursor is
+ */
+interface Invocation {
+    /** True if it's a method invocation, false if it's a CALL */
+    method: boolean;
+    /** Name of the invoked method or program */
+    name: string;
+    /** Line and column where the name of the invoked method is */
+    line: number;
+    column: number;
+    /** Arguments written until the cursor */
+    args: string;
+}
+
+/**
+ * Parameter shown in the signature help
+ */
+interface CobolParameter {
+    name: string;
+    picture: string;
+    description: string;
+}
+
+/**
+ * Class to generate the signature help of method invocations and CALL statements
+ */
+export class CobolSignatureHelpFactory {
+
+    /** Cobol parser */
+    private parser: ParserCobol = new ParserCobol();
+
+    /**
+     * Creates the factory of the source
+     *
+     * @param uri uri of the source
+     * @param lines lines of the source
+     */
+    constructor(private uri: string, private lines: string[]) { }
+
+    /**
+     * Generates the signature help of the invocation at the position, if there is one
+     *
+     * @param line
+     * @param column
+     */
+    public generateSignatureHelp(line: number, column: number): Promise<SignatureHelp | undefined> {
+        return new Promise((resolve, reject) => {
+            const invocation = this.findInvocation(line, column);
+            if (!invocation) {
+                return resolve(undefined);
+            }
+            const signature = invocation.method ? this.buildMethodSignature(invocation) : this.buildProgramSignature(invocation);
+            signature.then((information) => {
+                return resolve({
+                    signatures: [information],
+                    activeSignature: 0,
+                    activeParameter: this.activeParameter(invocation.args),
+                });
+            }).catch((e) => reject(e));
+        });
+    }
+
+    /**
+     * Finds the method invocation or the CALL statement which has the cursor inside its arguments
+     *
+     * @param line
+     * @param column
+     */
+    private findInvocation(line: number, column: number): Invocation | undefined {
+        const segments: { line: number, text: string }[] = [];
+        for (let i = line; i >= 0 && i > line - MAX_STATEMENT_LINES; i--) {
+            if (CobolTokenizer.isComment(this.lines[i])) {
+                continue;
+            }
+            const lineText = i == line ? this.lines[i].substr(0, column) : this.lines[i];
+            // Keeps only the code, cutting the comment at the end of the line
+            const code = lineText.substr(0, CobolTokenizer.stripCommentsAndLiterals(lineText).length);
+            if (i != line && /\.\s*$/.test(code)) {
+                break;
+            }
+            segments.unshift({ line: i, text: code });
+        }
+        const raw = segments.map((segment) => segment.text).join("\n");
+        const masked = raw.replace(/"[^"]*"?|'[^']*'?/g, (literal) => "x".repeat(literal.length));
+        const parenthesis = this.findOpenParenthesis(masked);
+        if (parenthesis >= 0) {
+            const before = masked.substring(0, parenthesis);
+            const method = /([\w\-]+)\s*$/.exec(before);
+            if (method && before.substring(0, method.index).trimRight().endsWith(CobolMethod.TOKEN_INVOKE_METHOD)) {
+                let offset = method.index;
+                const segment = segments.find((current) => {
+                    if (offset <= current.text.length) {
+                        return true;
+                    }
+                    offset -= current.text.length + 1;
+                    return false;
+                })!;
+                return { method: true, name: method[1], line: segment.line, column: offset, args: masked.substring(parenthesis + 1) };
+            }
+        }
+        const call = /(?:^|\s)call\s+(x+|[\w\-]+)\s+using(\s[\s\S]*|)$/i.exec(masked);
+        if (call) {
+            const nameStart = call.index + call[0].indexOf(call[1]);
+            const name = raw.substr(nameStart, call[1].length).replace(/["']/g, "");
+            return { method: false, name: name, line: line, column: column, args: call[2] };
+        }
+        return undefined;
+    }
+
+    /**
+     * Returns the position of the parenthesis opened and not closed yet, or -1
+     *
+     * @param code
+     */
+    private findOpenParenthesis(code: string): number {
+        let depth = 0;
+        for (let i = code.length - 1; i >= 0; i--) {
+            const char = code.charAt(i);
+            if (char == ")") {
+                depth++;
+            } else if (char == "(") {
+                if (depth == 0) {
+                    return i;
+                }
+                depth--;
+            }
+        }
+        return -1;
+    }
+
+    /**
+     * Returns the index of the argument being typed
+     *
+     * @param args arguments written until the cursor
+     */
+    private activeParameter(args: string): number {
+        let text = args;
+        // Subscripts and arguments of functions belong to the same parameter
+        while (/\([^()]*\)/.test(text)) {
+            text = text.replace(/\([^()]*\)/g, "");
+        }
+        const words = (text.match(/[^\s,]+/g) || []).filter((word) => !USING_KEYWORDS.test(word));
+        if (words.length == 0) {
+            return 0;
+        }
+        return /[\s,]$/.test(text) ? words.length : words.length - 1;
+    }
+
+    /**
+     * Builds the signature of the invoked method, looking for it in the current class
+     * or in the class of the invoked instance
+     *
+     * @param invocation
+     */
+    private buildMethodSignature(invocation: Invocation): Promise<SignatureInformation> {
+        return new Promise((resolve, reject) => {
+            this.loadClassOfInvocation(invocation).then((buffer) => {
+                const methodLine = buffer.findIndex((current) => {
+                    const method = this.parser.getDeclaracaoMethod(current);
+                    return method != undefined && method.toLowerCase() == invocation.name.toLowerCase();
+                });
+                if (methodLine < 0) {
+                    return reject();
+                }
+                const methodColumn = buffer[methodLine].toLowerCase().indexOf(invocation.name.toLowerCase());
+                CobolMethod.parseLines(methodLine, methodColumn, buffer).then((method) => {
+                    const documentation = this.extractDocumentation(buffer, methodLine);
+                    const returning = method.getVariableReturn();
+                    const variables = method.getParams().filter((param) => !returning || param.getName() != returning.getName());
+                    const parameters = this.buildParameters(variables, this.findUsing(buffer, methodLine), documentation);
+                    const label = `${method.getName()}(${parameters.map((parameter) => parameter.name).join(", ")})`;
+                    return resolve(this.createSignature(label, label.indexOf("(") + 1, parameters, documentation.comment));
+                }).catch((e) => reject(e));
+            }).catch((e) => reject(e));
+        });
+    }
+
+    /**
+     * Loads the lines of the class where the invoked method is declared
+     *
+     * @param invocation
+     */
+    private loadClassOfInvocation(invocation: Invocation): Promise<string[]> {
+        return new Promise((resolve, reject) => {
+            MethodCompletionUtils.findTargetElement(invocation.line, invocation.column, this.lines).then((target) => {
+                if (target.elementName === CobolMethod.SELF_INSTANCE_NAME) {
+                    return resolve(this.lines);
+                }
+                MethodCompletionUtils.findTargetClassDeclaration(this.uri, target, invocation.line, this.lines).then((clazz) => {
+                    new PackageFinder(this.lines).findClassFileUri(clazz, 0, 0, this.uri).then((classFile) => {
+                        FileUtils.read(classFile).then((buffer) => {
+                            return resolve(BufferSplitter.split(buffer));
+                        }).catch((e) => reject(e));
+                    }).catch((e) => reject(e));
+                }).catch((e) => reject(e));
+            }).catch((e) => reject(e));
+        });
+    }
+
+    /**
+     * Builds the signature of the called program, reading the USING clause of its procedure division
+     *
+     * @param invocation
+     */
+    private buildProgramSignature(invocation: Invocation): Promise<SignatureInformation> {
+        return new Promise((resolve, reject) => {
+            const file = MethodPathUtils.getFullPath(invocation.name, this.uri);
+            if (file === "") {
+                return reject();
+            }
+            FileUtils.read(file).then((content) => {
+                const buffer = BufferSplitter.split(content);
+                const procedureLine = buffer.findIndex((current) => /^\s+procedure\s+division/i.test(current));
+                const using = this.findUsing(buffer, 0);
+                if (procedureLine < 0 || !using) {
+                    return reject();
+                }
+                const variables: CobolVariable[] = [];
+                buffer.forEach((current, index) => {
+                    const name = index < procedureLine && /^\s+(0?1|77)\s/.test(current) ? this.parser.getDeclaracaoVariavel(current) : undefined;
+                    if (name && using.some((parameter) => parameter.toLowerCase() == name.toLowerCase())) {
+                        variables.push(CobolVariable.parseLines(index, buffer, { ignoreMethodReturn: true, noChildren: true, noScope: true, noSection: true }));
+                    }
+                });
+                const documentation = this.extractDocumentation(buffer, procedureLine);
+                const parameters = this.buildParameters(variables, using, documentation);
+                const prefix = `call "${invocation.name}" using `;
+                const label = prefix + parameters.map((parameter) => parameter.name).join(", ");
+                return resolve(this.createSignature(label, prefix.length, parameters, documentation.comment));
+            }).catch((e) => reject(e));
+        });
+    }
+
+    /**
+     * Returns the names written in the USING clause of the first procedure division after the line
+     *
+     * @param buffer
+     * @param start
+     */
+    private findUsing(buffer: string[], start: number): string[] | undefined {
+        const procedureLine = buffer.findIndex((current, index) => index >= start && /^\s+procedure\s+division/i.test(current));
+        if (procedureLine < 0) {
+            return undefined;
+        }
+        let statement = "";
+        for (let i = procedureLine; i < buffer.length && i < procedureLine + MAX_STATEMENT_LINES; i++) {
+            statement += " " + CobolTokenizer.stripCommentsAndLiterals(buffer[i]);
+            if (statement.includes(".")) {
+                break;
+            }
+        }
+        const using = /\susing\s+(.*?)(?:\sreturning\s|\.|$)/i.exec(statement);
+        if (!using) {
+            return undefined;
+        }
+        return (using[1].match(/[\w\-]+/g) || []).filter((word) => !USING_KEYWORDS.test(word));
+    }
+
+    /**
+     * Returns the documentation written above the declaration of the method or program
+     *
+     * @param buffer
+     * @param declarationLine
+     */
+    private extractDocumentation(buffer: string[], declarationLine: number): CobolDoc {
+        return new CobolDocParser().parseCobolDoc(new ElementDocumentationExtractor().getElementDocumentation(buffer, declarationLine));
+    }
+
+    /**
+     * Builds the parameters in the order of the USING clause, with the descriptions of the @param tags
+     *
+     * @param variables variables declared in the linkage section
+     * @param using names written in the USING clause
+     * @param documentation documentation of the method or program
+     */
+    private buildParameters(variables: CobolVariable[], using: string[] | undefined, documentation: CobolDoc): CobolParameter[] {
+        let ordered = variables;
+        if (using) {
+            ordered = [];
+            using.forEach((name) => {
+                const variable = variables.find((current) => current.getName().toLowerCase() == name.toLowerCase());
+                if (variable) {
+                    ordered.push(variable);
+                }
+            });
+        }
+        return ordered.map((variable) => {
+            const tag = documentation.params.find((param) => param.name.toLowerCase() == variable.getName().toLowerCase());
+            const comment = variable.getComment();
+            const reference = variable.getObjectReferenceOf();
+            return {
+                name: variable.getName(),
+                picture: reference ? "object reference " + reference : variable.getPicture(),
+                description: tag && tag.description ? tag.description : (comment ? comment.join(" ").trim() : ""),
+            };
+        });
+    }
+
+    /**
+     * Creates the signature information
+     *
+     * @param label label of the signature
+     * @param start position of the label where the parameters start
+     * @param parameters
+     * @param comment documentation of the method or program
+     */
+    private createSignature(label: string, start: number, parameters: CobolParameter[], comment: string[]): SignatureInformation {
+        let offset = start;
+        const parametersInformation = parameters.map((parameter) => {
+            const information: ParameterInformation = {
+                label: [offset, offset + parameter.name.length],
+                documentation: { kind: MarkupKind.Markdown, value: this.parameterMarkdown(parameter) },
+            };
+            offset += parameter.name.length + ", ".length;
+            return information;
+        });
+        return { label: label, documentation: comment.join("\n"), parameters: parametersInformation };
+    }
+
+    /**
+     * Returns the markdown of the parameter
+     *
+     * @param parameter
+     */
+    private parameterMarkdown(parameter: CobolParameter): string {
+        const properties: string[] = [];
+        if (parameter.picture !== "") {
+            properties.push(`**Picture:** \`${parameter.picture}\``);
+        }
+        if (parameter.description !== "") {
+            properties.push(parameter.description);
+        }
+        return properties.join("\n\n");
+    }
+
+}
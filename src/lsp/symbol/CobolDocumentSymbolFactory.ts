@@ -0,0 +1,249 @@
+import { DocumentSymbol, SymbolKind, Range, Position } from "vscode-languageserver";
+import { ParserCobol } from "../../cobol/parsercobol";
+import { CobolVariable } from "../completion/CobolVariable";
+
+/** Rank of the class-id declaration */
+const CLASS_RANK = 0;
+/** Rank of the method-id declaration */
+const METHOD_RANK = 1;
+/** Rank of the division declaration */
+const DIVISION_RANK = 2;
+/** Rank of the section declaration */
+const SECTION_RANK = 3;
+/** Rank of the paragraph, FD and program-id declarations */
+const PARAGRAPH_RANK = 4;
+/** Rank of the select declarations */
+const SELECT_RANK = 5;
+/** Rank added to the level of variable declarations */
+const VARIABLE_RANK = 10;
+/** Paragraph-like declarations which aren't listed as paragraphs */
+const PARAGRAPHS_BLACKLIST = ['class-id', 'program-id', 'method-id', 'factory', 'object', 'end'];
+
+/**
+ * Symbol being built with the rank used to nest its children
+ */
+interface RankedSymbol {
+    symbol: DocumentSymbol;
+    rank: number;
+}
+
+/**
+ * Class to generate the hierarchical outline of a Cobol source
+ */
+export class CobolDocumentSymbolFactory {
+
+    /** Cobol parser */
+    private parser: ParserCobol;
+    /** Root symbols of the source */
+    private roots: DocumentSymbol[] = [];
+    /** Symbols still open to receive children */
+    private stack: RankedSymbol[] = [];
+    /** Lines of the source */
+    private lines: string[] = [];
+    /** Indicates the parsing is inside the procedure division */
+    private procedureDivision: boolean = false;
+
+    constructor() {
+        this.parser = new ParserCobol();
+    }
+
+    /**
+     * Generates the document symbols of the specified lines
+     *
+     * @param lines
+     */
+    public generateSymbols(lines: string[]): DocumentSymbol[] {
+        this.roots = [];
+        this.stack = [];
+        this.lines = lines;
+        this.procedureDivision = false;
+        for (let lineNumber = 0; lineNumber < lines.length; lineNumber++) {
+            const line = lines[lineNumber];
+            if (this.parser.isCommentOrEmptyLine(line)) {
+                continue;
+            }
+            this.parseLine(line, lineNumber);
+        }
+        this.closeSymbols(-1, lines.length - 1);
+        return this.roots;
+    }
+
+    /**
+     * Parses the line and creates the symbol declared on it
+     *
+     * @param line
+     * @param lineNumber
+     */
+    private parseLine(line: string, lineNumber: number) {
+        if (/^\s+end\s+method/i.test(line)) {
+            this.procedureDivision = false;
+            this.closeSymbols(METHOD_RANK, lineNumber);
+            return;
+        }
+        if (/^\s+end\s+class/i.test(line)) {
+            this.closeSymbols(CLASS_RANK, lineNumber);
+            return;
+        }
+        let name = this.parser.getClassIdDeclaration(line);
+        if (name) {
+            this.addSymbol(name, "", SymbolKind.Class, CLASS_RANK, line, lineNumber);
+            return;
+        }
+        name = this.parser.getDeclaracaoMethod(line);
+        if (name) {
+            this.addSymbol(name, "", SymbolKind.Method, METHOD_RANK, line, lineNumber);
+            return;
+        }
+        name = this.parser.getDivisionDeclaration(line);
+        if (name) {
+            this.procedureDivision = name.toLowerCase() == "procedure";
+            this.addSymbol(`${name} division`, "", SymbolKind.Module, DIVISION_RANK, line, lineNumber, name);
+            return;
+        }
+        name = this.parser.getSectionDeclaration(line);
+        if (name) {
+            this.addSymbol(`${name} section`, "", SymbolKind.Namespace, SECTION_RANK, line, lineNumber, name);
+            return;
+        }
+        name = this.parser.getFileDescriptionDeclaration(line);
+        if (name) {
+            this.addSymbol(name, "fd", SymbolKind.File, PARAGRAPH_RANK, line, lineNumber);
+            return;
+        }
+        name = this.parser.getDeclaracaoSelect(line);
+        if (name) {
+            this.addSymbol(name, "select", SymbolKind.File, SELECT_RANK, line, lineNumber);
+            return;
+        }
+        name = this.parser.getDeclaracaoClasse(line);
+        if (name) {
+            this.addSymbol(name, "class", SymbolKind.Class, SELECT_RANK, line, lineNumber);
+            return;
+        }
+        const programId = /^ +program-id\.\s+([\w\-]+)/i.exec(line);
+        if (programId) {
+            this.addSymbol(programId[1], "program-id", SymbolKind.Module, PARAGRAPH_RANK, line, lineNumber);
+            return;
+        }
+        name = this.parser.getDeclaracaoParagrafo(line);
+        if (name && !PARAGRAPHS_BLACKLIST.includes(name.toLowerCase())) {
+            this.addSymbol(name, "", SymbolKind.Function, PARAGRAPH_RANK, line, lineNumber);
+            return;
+        }
+        name = this.procedureDivision ? undefined : this.parser.getDeclaracaoVariavel(line);
+        if (name) {
+            this.addVariable(name, line, lineNumber);
+        }
+    }
+
+    /**
+     * Adds the variable declared in the line
+     *
+     * @param name
+     * @param line
+     * @param lineNumber
+     */
+    private addVariable(name: string, line: string, lineNumber: number) {
+        const levelMatch = /^\s+(\d\d)\s+/.exec(line);
+        const level = levelMatch ? Number.parseInt(levelMatch[1]) : CobolVariable.CONSTANT_LEVEL;
+        switch (level) {
+            case CobolVariable.ENUM_LEVEL: {
+                this.addSymbol(name, this.extractValue(line), SymbolKind.EnumMember, VARIABLE_RANK + CobolVariable.ENUM_LEVEL, line, lineNumber);
+                break;
+            }
+            case CobolVariable.CONSTANT_LEVEL: {
+                this.addSymbol(name, this.extractValue(line), SymbolKind.Constant, VARIABLE_RANK + 1, line, lineNumber);
+                break;
+            }
+            case CobolVariable.CONSTANT_WITHOUT_CHILDREN: {
+                this.addSymbol(name, this.extractPicture(line), SymbolKind.Variable, VARIABLE_RANK + 1, line, lineNumber);
+                break;
+            }
+            default: {
+                const picture = this.extractPicture(line);
+                const kind = picture === "" ? SymbolKind.Struct : SymbolKind.Field;
+                this.addSymbol(name, picture, kind, VARIABLE_RANK + level, line, lineNumber);
+            }
+        }
+    }
+
+    /**
+     * Adds a symbol as child of the last open symbol with lower rank
+     *
+     * @param name
+     * @param detail
+     * @param kind
+     * @param rank
+     * @param line
+     * @param lineNumber
+     * @param selectionText text used to find the selection range, when it differs from the name
+     */
+    private addSymbol(name: string, detail: string, kind: SymbolKind, rank: number, line: string, lineNumber: number, selectionText?: string) {
+        this.closeSymbols(rank, lineNumber - 1);
+        const selectionRange = this.buildSelectionRange(selectionText ? selectionText : name, line, lineNumber);
+        const symbol = DocumentSymbol.create(name, detail, kind, Range.create(selectionRange.start, Position.create(lineNumber, line.length)), selectionRange, []);
+        if (this.stack.length > 0) {
+            this.stack[this.stack.length - 1].symbol.children!.push(symbol);
+        } else {
+            this.roots.push(symbol);
+        }
+        this.stack.push({ symbol: symbol, rank: rank });
+    }
+
+    /**
+     * Closes the open symbols with rank greater or equal than the specified rank
+     *
+     * @param rank
+     * @param lastLine last line of the symbols being closed
+     */
+    private closeSymbols(rank: number, lastLine: number) {
+        while (this.stack.length > 0 && this.stack[this.stack.length - 1].rank >= rank) {
+            const symbol = this.stack.pop()!.symbol;
+            if (lastLine > symbol.range.end.line) {
+                symbol.range.end = Position.create(lastLine, this.lines[lastLine].length);
+            }
+            if (symbol.children!.length == 0) {
+                symbol.children = undefined;
+            }
+        }
+    }
+
+    /**
+     * Returns the range of the name within the declaration line
+     *
+     * @param name
+     * @param line
+     * @param lineNumber
+     */
+    private buildSelectionRange(name: string, line: string, lineNumber: number): Range {
+        const column = Math.max(line.toLowerCase().indexOf(name.toLowerCase()), 0);
+        return Range.create(Position.create(lineNumber, column), Position.create(lineNumber, column + name.length));
+    }
+
+    /**
+     * Returns the picture declared in the line
+     *
+     * @param line
+     */
+    private extractPicture(line: string): string {
+        const match = /\s+pic(?:ture)?\s+(?:is\s+)?([^\s]+)/i.exec(line);
+        if (!match) {
+            return "";
+        }
+        return match[1].replace(/[\.,]$/, "");
+    }
+
+    /**
+     * Returns the value declared in the line
+     *
+     * @param line
+     */
+    private extractValue(line: string): string {
+        const match = /\s+values?\s+(?:are\s+|is\s+)?(.+?)[\.,]?\s*$/i.exec(line);
+        if (!match) {
+            return "";
+        }
+        return match[1];
+    }
+
+}
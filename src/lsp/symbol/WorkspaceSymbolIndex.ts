@@ -0,0 +1,359 @@
+import * as fs from "fs";
+import * as crypto from "crypto";
+import * as os from "os";
+import { SymbolInformation, SymbolKind, DocumentSymbol, Location, Range, Position } from "vscode-languageserver";
+import { BufferSplitter } from "rech-ts-commons";
+import { CobolDocumentSymbolFactory } from "./CobolDocumentSymbolFactory";
+import { File } from "../../commons/file";
+import { Path } from "../../commons/path";
+import { Log } from "../../commons/Log";
+
+/** Version of the persisted index layout */
+const INDEX_VERSION = 1;
+/** Extensions of the indexed files */
+const INDEXED_EXTENSIONS = /\.(cbl|cpy|cpb)$/i;
+/** Directories ignored while walking the workspace */
+const IGNORED_DIRECTORIES = ["node_modules", ".git", ".svn", ".vscode"];
+/** Max symbols returned for one query */
+const MAX_RESULTS = 500;
+/** Symbol kinds of variable declarations */
+const VARIABLE_KINDS: SymbolKind[] = [SymbolKind.Struct, SymbolKind.Field, SymbolKind.Variable, SymbolKind.Constant, SymbolKind.EnumMember];
+/** Symbol kinds of indexed classes and methods */
+const INDEXED_KINDS: SymbolKind[] = [SymbolKind.Class, SymbolKind.Method];
+
+/**
+ * Symbol stored in the workspace index
+ */
+export interface IndexedSymbol {
+    name: string;
+    kind: SymbolKind;
+    line: number;
+    column: number;
+    container?: string;
+}
+
+/**
+ * File stored in the workspace index
+ */
+interface IndexedFile {
+    mtime: number;
+    symbols: IndexedSymbol[];
+}
+
+/**
+ * Class to keep the symbols of the Cobol sources and copybooks of the workspace
+ */
+export class WorkspaceSymbolIndex {
+
+    /** Root directories of the workspace */
+    private static roots: string[] = [];
+    /** Indexed files */
+    private static files: Map<string, IndexedFile> | undefined;
+    /** Promise of the index being built */
+    private static building: Promise<void> | undefined;
+
+    /**
+     * Sets the root directories of the workspace
+     *
+     * @param roots
+     */
+    public static setWorkspaceFolders(roots: string[]) {
+        WorkspaceSymbolIndex.roots = roots;
+        WorkspaceSymbolIndex.files = undefined;
+        WorkspaceSymbolIndex.building = undefined;
+    }
+
+    /**
+     * Changes the root directories of the workspace, dropping the files of the removed directories
+     * and indexing the added ones when the index is already built
+     *
+     * @param added
+     * @param removed
+     */
+    public static changeWorkspaceFolders(added: string[], removed: string[]): Promise<void> {
+        const roots = WorkspaceSymbolIndex.roots.filter((root) => !removed.includes(root)).concat(added);
+        const files = WorkspaceSymbolIndex.files;
+        if (!files) {
+            WorkspaceSymbolIndex.setWorkspaceFolders(roots);
+            return Promise.resolve();
+        }
+        WorkspaceSymbolIndex.roots = roots;
+        removed.forEach((root) => WorkspaceSymbolIndex.removeEntries(files, root));
+        return new Promise((resolve) => {
+            Promise.all(added.map((root) => WorkspaceSymbolIndex.listFiles(root))).then(async (lists) => {
+                await WorkspaceSymbolIndex.indexFiles(([] as string[]).concat(...lists), new Map(), files);
+                WorkspaceSymbolIndex.persist().then().catch(() => {});
+                return resolve();
+            }).catch(() => resolve());
+        });
+    }
+
+    /**
+     * Returns the symbols of the workspace matching the query
+     *
+     * @param query
+     */
+    public static findSymbols(query: string): Promise<SymbolInformation[]> {
+        return new Promise((resolve, reject) => {
+            WorkspaceSymbolIndex.load().then(() => {
+                const result: SymbolInformation[] = [];
+                for (const [file, indexedFile] of WorkspaceSymbolIndex.files!) {
+                    for (const symbol of indexedFile.symbols) {
+                        if (!WorkspaceSymbolIndex.matches(query, symbol.name)) {
+                            continue;
+                        }
+                        const position = Position.create(symbol.line, symbol.column);
+                        const location = Location.create(new Path(file).fullPathVscode(), Range.create(position, position));
+                        result.push(SymbolInformation.create(symbol.name, symbol.kind, location.range, location.uri, symbol.container));
+                        if (result.length >= MAX_RESULTS) {
+                            return resolve(result);
+                        }
+                    }
+                }
+                return resolve(result);
+            }).catch((e) => reject(e));
+        });
+    }
+
+    /**
+     * Updates the symbols of a saved file
+     *
+     * @param file
+     * @param text
+     */
+    public static updateFile(file: string, text: string) {
+        if (!WorkspaceSymbolIndex.files || !INDEXED_EXTENSIONS.test(file)) {
+            return;
+        }
+        WorkspaceSymbolIndex.files.set(file, {
+            mtime: new File(file).lastModified().getTime(),
+            symbols: WorkspaceSymbolIndex.extractSymbols(BufferSplitter.split(text))
+        });
+        WorkspaceSymbolIndex.persist().then().catch(() => {});
+    }
+
+    /**
+     * Removes the symbols of a deleted file
+     *
+     * @param file
+     */
+    public static removeFile(file: string) {
+        if (!WorkspaceSymbolIndex.files) {
+            return;
+        }
+        if (WorkspaceSymbolIndex.removeEntries(WorkspaceSymbolIndex.files, file)) {
+            WorkspaceSymbolIndex.persist().then().catch(() => {});
+        }
+    }
+
+    /**
+     * Returns the symbols of the lines which are kept in the index
+     *
+     * @param lines
+     */
+    public static extractSymbols(lines: string[]): IndexedSymbol[] {
+        const result: IndexedSymbol[] = [];
+        const collect = (symbols: DocumentSymbol[], procedure: boolean, container?: DocumentSymbol) => {
+            symbols.forEach((symbol) => {
+                const isVariable = VARIABLE_KINDS.includes(symbol.kind);
+                const isRecord = isVariable && (!container || !VARIABLE_KINDS.includes(container.kind));
+                const isParagraph = symbol.kind == SymbolKind.Function && procedure;
+                if (isRecord || isParagraph || INDEXED_KINDS.includes(symbol.kind)) {
+                    result.push({
+                        name: symbol.name,
+                        kind: symbol.kind,
+                        line: symbol.selectionRange.start.line,
+                        column: symbol.selectionRange.start.character,
+                        container: container ? container.name : undefined
+                    });
+                }
+                if (symbol.children && !isVariable) {
+                    const procedureDivision = symbol.kind == SymbolKind.Module && /^procedure\s/i.test(symbol.name);
+                    collect(symbol.children, procedure || procedureDivision, symbol);
+                }
+            });
+        };
+        collect(new CobolDocumentSymbolFactory().generateSymbols(lines), false);
+        return result;
+    }
+
+    /**
+     * Returns true if the characters of the query appear in order within the name
+     *
+     * @param query
+     * @param name
+     */
+    public static matches(query: string, name: string): boolean {
+        const lowerQuery = query.toLowerCase();
+        const lowerName = name.toLowerCase();
+        let index = 0;
+        for (const char of lowerQuery) {
+            index = lowerName.indexOf(char, index);
+            if (index < 0) {
+                return false;
+            }
+            index++;
+        }
+        return true;
+    }
+
+    /**
+     * Loads the index, building it on the first call
+     */
+    private static load(): Promise<void> {
+        if (WorkspaceSymbolIndex.files) {
+            return Promise.resolve();
+        }
+        if (!WorkspaceSymbolIndex.building) {
+            WorkspaceSymbolIndex.building = WorkspaceSymbolIndex.build();
+        }
+        return WorkspaceSymbolIndex.building;
+    }
+
+    /**
+     * Builds the index reusing the persisted symbols of unchanged files
+     */
+    private static build(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            Log.get().info("Building the workspace symbol index");
+            const persisted = WorkspaceSymbolIndex.readPersisted();
+            const files = new Map<string, IndexedFile>();
+            const roots = WorkspaceSymbolIndex.roots;
+            Promise.all(roots.map((root) => WorkspaceSymbolIndex.listFiles(root))).then(async (lists) => {
+                await WorkspaceSymbolIndex.indexFiles(([] as string[]).concat(...lists), persisted, files);
+                // The folders changed while the index was built, so the index of the new folders is loaded instead
+                if (roots !== WorkspaceSymbolIndex.roots) {
+                    return WorkspaceSymbolIndex.load().then(() => resolve()).catch((e) => reject(e));
+                }
+                WorkspaceSymbolIndex.files = files;
+                Log.get().info(`Workspace symbol index built with ${files.size} files`);
+                WorkspaceSymbolIndex.persist().then().catch(() => {});
+                return resolve();
+            }).catch((e) => {
+                WorkspaceSymbolIndex.building = undefined;
+                return reject(e);
+            });
+        });
+    }
+
+    /**
+     * Indexes the symbols of the files, reusing the persisted symbols of unchanged files
+     *
+     * @param fileNames files to be indexed
+     * @param persisted symbols persisted on disk
+     * @param files index where the symbols are kept
+     */
+    private static async indexFiles(fileNames: string[], persisted: Map<string, IndexedFile>, files: Map<string, IndexedFile>) {
+        for (const file of fileNames) {
+            const mtime = new File(file).lastModified().getTime();
+            const indexedFile = persisted.get(file);
+            if (indexedFile && indexedFile.mtime == mtime) {
+                files.set(file, indexedFile);
+                continue;
+            }
+            try {
+                const buffer = await new File(file).loadBuffer("latin1");
+                files.set(file, { mtime: mtime, symbols: WorkspaceSymbolIndex.extractSymbols(BufferSplitter.split(buffer)) });
+            } catch (e) {
+                Log.get().warning(`Could not index the symbols of ${file}: ${e}`);
+            }
+        }
+    }
+
+    /**
+     * Removes the entries of the file, or of the files inside the directory, returning true if any entry was removed
+     *
+     * @param files indexed files
+     * @param path file or directory
+     */
+    private static removeEntries(files: Map<string, IndexedFile>, path: string): boolean {
+        const lowerPath = path.toLowerCase();
+        const removed = Array.from(files.keys()).filter((file) => {
+            const lowerFile = file.toLowerCase();
+            return lowerFile == lowerPath || lowerFile.startsWith(lowerPath + Path.sep());
+        });
+        removed.forEach((file) => files.delete(file));
+        return removed.length > 0;
+    }
+
+    /**
+     * Returns the Cobol files inside the directory and its subdirectories
+     *
+     * @param directory
+     */
+    public static listFiles(directory: string): Promise<string[]> {
+        return new Promise((resolve) => {
+            fs.readdir(directory, (err, entries) => {
+                if (err) {
+                    return resolve([]);
+                }
+                const files: string[] = [];
+                const subdirectories: Promise<string[]>[] = [];
+                entries.forEach((entry) => {
+                    const fullName = directory + Path.sep() + entry;
+                    if (INDEXED_EXTENSIONS.test(entry)) {
+                        files.push(fullName);
+                    } else if (!IGNORED_DIRECTORIES.includes(entry) && WorkspaceSymbolIndex.isDirectory(fullName)) {
+                        subdirectories.push(WorkspaceSymbolIndex.listFiles(fullName));
+                    }
+                });
+                Promise.all(subdirectories).then((result) => {
+                    return resolve(files.concat(...result));
+                }).catch(() => resolve(files));
+            });
+        });
+    }
+
+    /**
+     * Returns true if the path is a directory
+     *
+     * @param path
+     */
+    private static isDirectory(path: string): boolean {
+        try {
+            return fs.statSync(path).isDirectory();
+        } catch (e) {
+            return false;
+        }
+    }
+
+    /**
+     * Reads the index persisted on disk
+     */
+    private static readPersisted(): Map<string, IndexedFile> {
+        const result = new Map<string, IndexedFile>();
+        const indexFile = new File(WorkspaceSymbolIndex.indexFileName());
+        if (!indexFile.exists()) {
+            return result;
+        }
+        try {
+            const persisted = JSON.parse(indexFile.loadBufferSync("utf8"));
+            if (persisted.version == INDEX_VERSION) {
+                Object.keys(persisted.files).forEach((file) => result.set(file, persisted.files[file]));
+            }
+        } catch (e) {
+            Log.get().warning(`Could not read the workspace symbol index: ${e}`);
+        }
+        return result;
+    }
+
+    /**
+     * Persists the index on disk
+     */
+    private static persist(): Q.Promise<any> {
+        const persisted: { version: number, files: { [file: string]: IndexedFile } } = { version: INDEX_VERSION, files: {} };
+        WorkspaceSymbolIndex.files!.forEach((indexedFile, file) => persisted.files[file] = indexedFile);
+        const indexFile = new File(WorkspaceSymbolIndex.indexFileName());
+        new File(new Path(indexFile.fileName).directory()).mkdir();
+        return indexFile.saveBuffer(Buffer.from(JSON.stringify(persisted)), "utf8");
+    }
+
+    /**
+     * Returns the name of the file where the index of the current workspace is persisted
+     */
+    private static indexFileName(): string {
+        const workspaceName = crypto.createHash("md5").update(WorkspaceSymbolIndex.roots.join("|")).digest("hex");
+        return Path.tmpdir() + Path.sep() + "SYMBOLS" + Path.sep() + os.userInfo().username.toLowerCase() + Path.sep() + workspaceName + ".json";
+    }
+
+}
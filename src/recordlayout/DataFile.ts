@@ -0,0 +1,61 @@
+import * as fs from "fs";
+
+/**
+ * Class to read the records of a data file with fixed-length records
+ */
+export class DataFile {
+
+    /**
+     * Creates the data file
+     *
+     * @param fileName name of the data file
+     * @param recordLength length of the records in bytes
+     */
+    constructor(private fileName: string, private recordLength: number) { }
+
+    /**
+     * Returns the name of the data file
+     */
+    public getFileName(): string {
+        return this.fileName;
+    }
+
+    /**
+     * Returns the number of records of the file, counting the last one even if it's incomplete
+     */
+    public getRecordCount(): Promise<number> {
+        return new Promise((resolve, reject) => {
+            fs.stat(this.fileName, (err, stats) => {
+                if (err) {
+                    return reject(err);
+                }
+                return resolve(this.recordLength > 0 ? Math.ceil(stats.size / this.recordLength) : 0);
+            });
+        });
+    }
+
+    /**
+     * Reads the record, which is shorter than the record length if it's the last incomplete one
+     *
+     * @param index index of the record, starting at zero
+     */
+    public readRecord(index: number): Promise<Buffer> {
+        return new Promise((resolve, reject) => {
+            fs.open(this.fileName, "r", (err, fd) => {
+                if (err) {
+                    return reject(err);
+                }
+                const buffer = Buffer.alloc(this.recordLength);
+                fs.read(fd, buffer, 0, this.recordLength, index * this.recordLength, (readErr, bytesRead) => {
+                    fs.close(fd, () => {
+                        if (readErr) {
+                            return reject(readErr);
+                        }
+                        return resolve(buffer.slice(0, bytesRead));
+                    });
+                });
+            });
+        });
+    }
+
+}
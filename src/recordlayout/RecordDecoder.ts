@@ -0,0 +1,259 @@
+import { RecordLayoutEntry } from "./RecordLayout";
+import { RecordEncoding, DataEncoding } from "./RecordEncoding";
+import { CobolPicture, Usage } from "../lsp/completion/CobolPicture";
+
+/** Nibble of the packed decimal signs which represent negative values */
+const NEGATIVE_PACKED_SIGNS = [0xB, 0xD];
+/** Zone of the last digit of negative zoned decimals in ASCII */
+const NEGATIVE_ASCII_ZONE = 0x70;
+/** Zone of the digits in ASCII */
+const ASCII_ZONE = 0x30;
+/** Zone of the last digit of negative zoned decimals in EBCDIC */
+const NEGATIVE_EBCDIC_ZONE = 0xD0;
+/** Zones of the digits in EBCDIC */
+const EBCDIC_ZONES = [0xF0, 0xC0, NEGATIVE_EBCDIC_ZONE];
+
+/**
+ * Field of a record decoded from a data file
+ */
+export interface DecodedField {
+    /** Item of the layout */
+    entry: RecordLayoutEntry;
+    /** Name of the field, with the subscripts of the occurrence */
+    name: string;
+    /** Offset of the field in the record */
+    offset: number;
+    /** Bytes of the field */
+    bytes: Buffer;
+    /** Value of the elementary field, or undefined for groups */
+    value: string | undefined;
+    /** Fields of the group */
+    children: DecodedField[];
+}
+
+/**
+ * Class to decode the records of a data file with a record layout
+ */
+export class RecordDecoder {
+
+    /**
+     * Creates the decoder of the layout
+     *
+     * @param layout layout of the record
+     * @param encoding encoding of the data file
+     */
+    constructor(private layout: RecordLayoutEntry, private encoding: DataEncoding) { }
+
+    /**
+     * Decodes the fields of the record
+     *
+     * @param record bytes of the record
+     */
+    public decode(record: Buffer): DecodedField[] {
+        return this.decodeEntry(this.layout, record, 0, []);
+    }
+
+    /**
+     * Decodes the value of the elementary field
+     *
+     * @param picture picture and usage of the field
+     * @param bytes bytes of the field
+     */
+    public decodeValue(picture: CobolPicture, bytes: Buffer): string {
+        switch (picture.getUsage()) {
+            case Usage.Pointer:
+            case Usage.Index:
+                return RecordDecoder.toHex(bytes);
+            case Usage.Float:
+            case Usage.Double:
+                return this.decodeFloat(bytes);
+            case Usage.National:
+                // National items are stored as UTF-16 big-endian
+                return bytes.length % 2 == 0 ? `"${Buffer.from(bytes).swap16().toString("utf16le")}"` : this.invalid(bytes);
+            case Usage.PackedDecimal:
+            case Usage.UnsignedPackedDecimal:
+                return this.decodePacked(picture, bytes);
+            case Usage.Binary:
+            case Usage.CompX:
+            case Usage.NativeBinary:
+                if (!picture.isNumeric()) {
+                    return RecordDecoder.toHex(bytes);
+                }
+                return this.decodeBinary(picture, bytes);
+            default:
+                if (!picture.isNumeric()) {
+                    return `"${RecordEncoding.decode(bytes, this.encoding)}"`;
+                }
+                return this.decodeZoned(picture, bytes);
+        }
+    }
+
+    /**
+     * Returns the bytes as hexadecimal
+     *
+     * @param bytes
+     */
+    public static toHex(bytes: Buffer): string {
+        return bytes.toString("hex").toUpperCase();
+    }
+
+    /**
+     * Decodes the item and its children with all the occurrences
+     *
+     * @param entry item of the layout
+     * @param record bytes of the record
+     * @param shift offset of the occurrences of the parents
+     * @param subscripts subscripts of the occurrences of the parents
+     */
+    private decodeEntry(entry: RecordLayoutEntry, record: Buffer, shift: number, subscripts: number[]): DecodedField[] {
+        const fields: DecodedField[] = [];
+        const occurrenceLength = entry.length / entry.occurs;
+        for (let occurrence = 0; occurrence < entry.occurs; occurrence++) {
+            const occurrenceShift = shift + occurrence * occurrenceLength;
+            const occurrenceSubscripts = entry.occurs > 1 ? subscripts.concat(occurrence + 1) : subscripts;
+            const offset = entry.offset + occurrenceShift;
+            const bytes = record.slice(offset, offset + occurrenceLength);
+            const children: DecodedField[] = [];
+            entry.children.forEach((child) => children.push(...this.decodeEntry(child, record, occurrenceShift, occurrenceSubscripts)));
+            const name = entry.variable.getName() + (occurrenceSubscripts.length > 0 ? `(${occurrenceSubscripts.join(", ")})` : "");
+            let value: string | undefined;
+            if (children.length == 0) {
+                value = bytes.length < occurrenceLength ? "<end of file>" : this.decodeValue(entry.variable.getPictureModel(), bytes);
+            }
+            fields.push({ entry: entry, name: name, offset: offset, bytes: bytes, value: value, children: children });
+        }
+        return fields;
+    }
+
+    /**
+     * Decodes a zoned decimal, with the sign embedded in the first or last digit or in a separate character
+     *
+     * @param picture
+     * @param bytes
+     */
+    private decodeZoned(picture: CobolPicture, bytes: Buffer): string {
+        let digitBytes = Array.from(bytes);
+        let negative = false;
+        if (picture.isSigned() && picture.isSignSeparate()) {
+            const sign = RecordEncoding.decode(Buffer.from([picture.isSignLeading() ? digitBytes[0] : digitBytes[digitBytes.length - 1]]), this.encoding);
+            negative = sign == "-";
+            digitBytes = picture.isSignLeading() ? digitBytes.slice(1) : digitBytes.slice(0, -1);
+        }
+        const signIndex = picture.isSignLeading() ? 0 : digitBytes.length - 1;
+        let digits = "";
+        for (let index = 0; index < digitBytes.length; index++) {
+            const zone = digitBytes[index] & 0xF0;
+            const digit = digitBytes[index] & 0x0F;
+            const validZones = RecordEncoding.isEbcdic(this.encoding) ? EBCDIC_ZONES : [ASCII_ZONE, NEGATIVE_ASCII_ZONE];
+            if (digit > 9 || !validZones.includes(zone) || (index != signIndex && zone != validZones[0])) {
+                return this.invalid(bytes);
+            }
+            if (index == signIndex && picture.isSigned() && !picture.isSignSeparate()) {
+                negative = zone == (RecordEncoding.isEbcdic(this.encoding) ? NEGATIVE_EBCDIC_ZONE : NEGATIVE_ASCII_ZONE);
+            }
+            digits += digit.toString();
+        }
+        return RecordDecoder.formatNumber(digits, negative, picture.getScale());
+    }
+
+    /**
+     * Decodes a packed decimal, with the sign in the last nibble unless it's unsigned packed
+     *
+     * @param picture
+     * @param bytes
+     */
+    private decodePacked(picture: CobolPicture, bytes: Buffer): string {
+        const nibbles: number[] = [];
+        bytes.forEach((byte) => nibbles.push(byte >> 4, byte & 0x0F));
+        let negative = false;
+        if (picture.getUsage() == Usage.PackedDecimal) {
+            negative = NEGATIVE_PACKED_SIGNS.includes(nibbles.pop()!);
+        }
+        if (nibbles.some((nibble) => nibble > 9)) {
+            return this.invalid(bytes);
+        }
+        return RecordDecoder.formatNumber(nibbles.join(""), negative, picture.getScale());
+    }
+
+    /**
+     * Decodes a binary number, big-endian except the native binary in ASCII files, which comes from Intel machines
+     *
+     * @param picture
+     * @param bytes
+     */
+    private decodeBinary(picture: CobolPicture, bytes: Buffer): string {
+        let values = Array.from(bytes);
+        if (picture.getUsage() == Usage.NativeBinary && !RecordEncoding.isEbcdic(this.encoding)) {
+            values = values.reverse();
+        }
+        const negative = picture.isSigned() && (values[0] & 0x80) != 0;
+        if (negative) {
+            // Two's complement
+            values = values.map((value) => ~value & 0xFF);
+            for (let index = values.length - 1; index >= 0; index--) {
+                values[index] = (values[index] + 1) & 0xFF;
+                if (values[index] != 0) {
+                    break;
+                }
+            }
+        }
+        let digits = [0];
+        values.forEach((value) => {
+            let carry = value;
+            digits = digits.map((digit) => {
+                const current = digit * 256 + carry;
+                carry = Math.floor(current / 10);
+                return current % 10;
+            });
+            while (carry > 0) {
+                digits.push(carry % 10);
+                carry = Math.floor(carry / 10);
+            }
+        });
+        return RecordDecoder.formatNumber(digits.reverse().join(""), negative, picture.getScale());
+    }
+
+    /**
+     * Decodes a floating point number, IEEE little-endian in ASCII files and IBM hexadecimal in EBCDIC files
+     *
+     * @param bytes
+     */
+    private decodeFloat(bytes: Buffer): string {
+        if (!RecordEncoding.isEbcdic(this.encoding)) {
+            return (bytes.length == 4 ? bytes.readFloatLE(0) : bytes.readDoubleLE(0)).toString();
+        }
+        const sign = (bytes[0] & 0x80) != 0 ? -1 : 1;
+        const exponent = (bytes[0] & 0x7F) - 64;
+        let fraction = 0;
+        for (let index = bytes.length - 1; index > 0; index--) {
+            fraction = (fraction + bytes[index]) / 256;
+        }
+        return (sign * fraction * Math.pow(16, exponent)).toString();
+    }
+
+    /**
+     * Returns the value shown for bytes which aren't valid for the usage
+     *
+     * @param bytes
+     */
+    private invalid(bytes: Buffer): string {
+        return `invalid (${RecordDecoder.toHex(bytes)})`;
+    }
+
+    /**
+     * Formats the digits as a number with the scale
+     *
+     * @param digits
+     * @param negative
+     * @param scale number of decimal digits, or negative to append zeros
+     */
+    private static formatNumber(digits: string, negative: boolean, scale: number): string {
+        let number = scale < 0 ? digits + "0".repeat(-scale) : digits.padStart(scale + 1, "0");
+        if (scale > 0) {
+            number = number.substring(0, number.length - scale) + "." + number.substring(number.length - scale);
+        }
+        number = number.replace(/^0+(?=\d)/, "");
+        return negative ? "-" + number : number;
+    }
+
+}
@@ -0,0 +1,79 @@
+/**
+ * Encodings of the data files
+ */
+export type DataEncoding = "windows-1252" | "ebcdic-037" | "ebcdic-500";
+
+/** Characters 0x80 to 0x9F of windows-1252, which differ from latin1 */
+const WINDOWS_1252_HIGH = "€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008DŽ\u008F" +
+    "\u0090‘’“”•–—˜™š›œ\u009DžŸ";
+/** Characters 0x40 to 0xFF of EBCDIC 037, the characters below 0x40 are control characters */
+const EBCDIC_037 = " \u00A0âäàáãåçñ¢.<(+|" +
+    "&éêëèíîïìß!$*);¬" +
+    "-/ÂÄÀÁÃÅÇÑ¦,%_>?" +
+    "øÉÊËÈÍÎÏÌ`:#@'=\"" +
+    "Øabcdefghi«»ðýþ±" +
+    "°jklmnopqrªºæ¸Æ¤" +
+    "µ~stuvwxyz¡¿ÐÝÞ®" +
+    "^£¥·©§¶¼½¾[]¯¨´×" +
+    "{ABCDEFGHI\u00ADôöòóõ" +
+    "}JKLMNOPQR¹ûüùúÿ" +
+    "\\÷STUVWXYZ²ÔÖÒÓÕ" +
+    "0123456789³ÛÜÙÚ\u009F";
+/** Characters of EBCDIC 500 which differ from EBCDIC 037 */
+const EBCDIC_500_DIFFERENCES = new Map<number, string>([
+    [0x4A, "["], [0x4F, "!"], [0x5A, "]"], [0x5F, "^"], [0xB0, "¢"], [0xBA, "¬"], [0xBB, "|"],
+]);
+/** First byte of the EBCDIC table */
+const EBCDIC_FIRST_PRINTABLE = 0x40;
+/** Character shown in place of the control characters */
+const CONTROL_CHARACTER = ".";
+
+/**
+ * Class to decode the text of the data files
+ */
+export class RecordEncoding {
+
+    /**
+     * Returns true if the encoding is an EBCDIC code page
+     *
+     * @param encoding
+     */
+    public static isEbcdic(encoding: DataEncoding): boolean {
+        return encoding.startsWith("ebcdic");
+    }
+
+    /**
+     * Decodes the bytes as text, showing the control characters as dots
+     *
+     * @param bytes
+     * @param encoding
+     */
+    public static decode(bytes: Buffer, encoding: DataEncoding): string {
+        let text = "";
+        bytes.forEach((byte) => {
+            text += RecordEncoding.decodeByte(byte, encoding);
+        });
+        return text;
+    }
+
+    /**
+     * Decodes one byte as a character
+     *
+     * @param byte
+     * @param encoding
+     */
+    private static decodeByte(byte: number, encoding: DataEncoding): string {
+        let character: string;
+        if (!RecordEncoding.isEbcdic(encoding)) {
+            character = byte >= 0x80 && byte <= 0x9F ? WINDOWS_1252_HIGH.charAt(byte - 0x80) : String.fromCharCode(byte);
+        } else if (byte < EBCDIC_FIRST_PRINTABLE) {
+            return CONTROL_CHARACTER;
+        } else if (encoding == "ebcdic-500" && EBCDIC_500_DIFFERENCES.has(byte)) {
+            character = EBCDIC_500_DIFFERENCES.get(byte)!;
+        } else {
+            character = EBCDIC_037.charAt(byte - EBCDIC_FIRST_PRINTABLE);
+        }
+        return /[\u0000-\u001F\u007F-\u009F]/.test(character) ? CONTROL_CHARACTER : character;
+    }
+
+}
@@ -0,0 +1,132 @@
+import { CobolVariable } from "../lsp/completion/CobolVariable";
+import { Usage } from "../lsp/completion/CobolPicture";
+import { ParserCobol } from "../cobol/parsercobol";
+import { CobolTokenizer } from "../cobol/CobolTokenizer";
+
+/**
+ * Item of a record layout with its position inside the record
+ */
+export interface RecordLayoutEntry {
+    /** Variable of the item */
+    variable: CobolVariable;
+    /** Offset of the item from the start of the record, starting at zero */
+    offset: number;
+    /** Length of the item in bytes, including all the occurrences */
+    length: number;
+    /** Usage of the item */
+    usage: Usage;
+    /** Number of occurrences of the item */
+    occurs: number;
+    /** Name of the item redefined by this item */
+    redefines: string | undefined;
+    /** True if the item is a FILLER, an area not referenced by name */
+    filler: boolean;
+    /** Items of the group */
+    children: RecordLayoutEntry[];
+}
+
+/**
+ * Class to build the layout of a record with the offsets of every item.
+ *
+ * The offsets of the items inside an OCCURS refer to the first occurrence, and the items with
+ * REDEFINES start at the offset of the item they redefine without moving the next items
+ */
+export class RecordLayout {
+
+    /**
+     * Builds the layouts of the record declared in the line, or of all the records of the FD or SD declared in the line
+     *
+     * @param lineNumber
+     * @param lines
+     */
+    public static parseLines(lineNumber: number, lines: string[]): RecordLayoutEntry[] {
+        const parser = new ParserCobol();
+        if (!parser.getFileDescriptionDeclaration(lines[lineNumber])) {
+            return [RecordLayout.build(RecordLayout.parseVariable(lineNumber, lines))];
+        }
+        const records: RecordLayoutEntry[] = [];
+        for (let index = lineNumber + 1; index < lines.length; index++) {
+            const line = lines[index];
+            if (CobolTokenizer.isComment(line)) {
+                continue;
+            }
+            if (parser.getFileDescriptionDeclaration(line) || /^.*(section|division)[\.\,]?\s*$/i.test(line)) {
+                break;
+            }
+            if (/^\s+0?1\s+/.test(line)) {
+                const record = RecordLayout.build(RecordLayout.parseVariable(index, lines));
+                // The records of a file description share the same area
+                if (records.length > 0 && !record.redefines) {
+                    record.redefines = records[0].variable.getName();
+                }
+                records.push(record);
+            }
+        }
+        return records;
+    }
+
+    /**
+     * Returns the length of each record in the data file. The records of a file description share the same area,
+     * so it's the length of the longest record
+     *
+     * @param layouts layouts of the records of the file description
+     */
+    public static recordLength(layouts: RecordLayoutEntry[]): number {
+        return layouts.reduce((length, layout) => Math.max(length, layout.length), 0);
+    }
+
+    /**
+     * Builds the layout of the variable starting at the offset
+     *
+     * @param variable
+     * @param offset
+     */
+    public static build(variable: CobolVariable, offset: number = 0): RecordLayoutEntry {
+        const occurs = variable.getOccurs();
+        const entry: RecordLayoutEntry = {
+            variable: variable,
+            offset: offset,
+            length: variable.getByteSize(),
+            usage: variable.getUsage(),
+            occurs: occurs,
+            redefines: RecordLayout.extractRedefines(variable),
+            filler: /^filler$/i.test(variable.getName()),
+            children: []
+        };
+        let childOffset = offset;
+        (variable.getChildren() || []).forEach((child) => {
+            if (CobolVariable.isEnumVariableType(child.getLevel().toString())) {
+                return;
+            }
+            const redefined = RecordLayout.extractRedefines(child);
+            const redefinedEntry = redefined ? entry.children.find((sibling) => sibling.variable.getName().toLowerCase() == redefined.toLowerCase()) : undefined;
+            const childEntry = RecordLayout.build(child, redefinedEntry ? redefinedEntry.offset : childOffset);
+            if (!redefined) {
+                childOffset += childEntry.length;
+            }
+            entry.children.push(childEntry);
+        });
+        return entry;
+    }
+
+    /**
+     * Returns the name of the item redefined by the variable
+     *
+     * @param variable
+     */
+    public static extractRedefines(variable: CobolVariable): string | undefined {
+        const match = /\sredefines\s+([\w\-]+)/i.exec(variable.getRaw());
+        return match ? match[1] : undefined;
+    }
+
+    /**
+     * Parses the variable without the information which isn't used by the layout
+     *
+     * @param lineNumber
+     * @param lines
+     */
+    private static parseVariable(lineNumber: number, lines: string[]): CobolVariable {
+        return CobolVariable.parseLines(lineNumber, lines, { noScope: true, noSection: true, ignoreMethodReturn: true, noComment: true });
+    }
+
+}
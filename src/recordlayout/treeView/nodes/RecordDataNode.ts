@@ -0,0 +1,56 @@
+import { TreeItem, TreeItemCollapsibleState } from "vscode";
+import NodeInterface from "../../../sourceflow/treeView/nodes/NodeInterface";
+import { DecodedField, RecordDecoder } from "../../RecordDecoder";
+
+/**
+ * Node with the record shown and the data file
+ */
+export class RecordDataHeaderNode implements NodeInterface {
+
+    /**
+     * Creates the header node
+     *
+     * @param label label of the header
+     * @param description description of the header
+     */
+    constructor(private label: string, private description: string) { }
+
+    public getTreeItem(): TreeItem {
+        const item = new TreeItem(this.label, TreeItemCollapsibleState.None);
+        item.description = this.description;
+        return item;
+    }
+
+    public getChildren(): NodeInterface[] {
+        return [];
+    }
+
+}
+
+/**
+ * Node of a field decoded from the record
+ */
+export default class RecordDataNode implements NodeInterface {
+
+    /**
+     * Creates the node of the field
+     *
+     * @param field
+     */
+    constructor(private field: DecodedField) { }
+
+    public getTreeItem(): TreeItem {
+        const children = this.field.children.length > 0;
+        const item = new TreeItem(this.field.name, children ? TreeItemCollapsibleState.Expanded : TreeItemCollapsibleState.None);
+        if (this.field.value !== undefined) {
+            item.description = this.field.value;
+        }
+        item.tooltip = `${this.field.offset + 1}-${this.field.offset + this.field.bytes.length}: ${RecordDecoder.toHex(this.field.bytes)}`;
+        return item;
+    }
+
+    public getChildren(): NodeInterface[] {
+        return this.field.children.map((child) => new RecordDataNode(child));
+    }
+
+}
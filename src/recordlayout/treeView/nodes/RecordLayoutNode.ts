@@ -0,0 +1,66 @@
+import { TreeItem, TreeItemCollapsibleState } from "vscode";
+import * as path from 'path';
+import NodeInterface from "../../../sourceflow/treeView/nodes/NodeInterface";
+import { RecordLayoutEntry } from "../../RecordLayout";
+
+/**
+ * Node of an item of the record layout
+ */
+export default class RecordLayoutNode implements NodeInterface {
+
+    /**
+     * Creates the node of the item
+     *
+     * @param entry item of the layout
+     * @param file file which declares the record, or undefined if it's the current file
+     */
+    constructor(private entry: RecordLayoutEntry, private file: string | undefined) { }
+
+    public getTreeItem(): TreeItem {
+        const variable = this.entry.variable;
+        const children = this.entry.children.length > 0;
+        const item = new TreeItem(`${variable.getLevel().toString().padStart(2, "0")} ${variable.getName()}`,
+            children ? TreeItemCollapsibleState.Expanded : TreeItemCollapsibleState.None);
+        const end = this.entry.offset + this.entry.length;
+        const description = [`${this.entry.offset + 1}-${end}`, `(${this.entry.length})`];
+        if (!children) {
+            description.push(this.entry.usage);
+        }
+        if (this.entry.occurs > 1) {
+            description.push(`occurs ${this.entry.occurs}`);
+        }
+        if (this.entry.redefines) {
+            description.push(`redefines ${this.entry.redefines}`);
+        }
+        if (this.entry.filler) {
+            description.push("FILLER gap");
+        }
+        item.description = description.join(" ");
+        item.tooltip = variable.getRaw().trim();
+        item.command = { command: "rech.editor.cobol.gotoRecordLayoutItem", title: "Go to declaration", arguments: [this] };
+        item.iconPath = {
+            dark: path.join(__filename, '..', '..', '..', '..', '..', 'images', 'nodes-dark.svg'),
+            light: path.join(__filename, '..', '..', '..', '..', '..', 'images', 'nodes-light.svg'),
+        };
+        return item;
+    }
+
+    public getChildren(): NodeInterface[] {
+        return this.entry.children.map((child) => new RecordLayoutNode(child, this.file));
+    }
+
+    /**
+     * Returns the item of the layout
+     */
+    public getEntry(): RecordLayoutEntry {
+        return this.entry;
+    }
+
+    /**
+     * Returns the file which declares the record, or undefined if it's the current file
+     */
+    public getFile(): string | undefined {
+        return this.file;
+    }
+
+}
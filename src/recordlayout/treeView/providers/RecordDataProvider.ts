@@ -0,0 +1,167 @@
+import { TreeDataProvider, EventEmitter, TreeItem, ProviderResult, commands, window } from "vscode";
+import * as path from 'path';
+import { Event } from "vscode-jsonrpc";
+import NodeInterface from "../../../sourceflow/treeView/nodes/NodeInterface";
+import RecordDataNode, { RecordDataHeaderNode } from "../nodes/RecordDataNode";
+import RecordLayoutProvider from "./RecordLayoutProvider";
+import { RecordLayout, RecordLayoutEntry } from "../../RecordLayout";
+import { RecordDecoder, DecodedField } from "../../RecordDecoder";
+import { DataEncoding } from "../../RecordEncoding";
+import { DataFile } from "../../DataFile";
+import { configuration } from "../../../helpers/configuration";
+
+/** Encodings which can be selected for the data files */
+const ENCODINGS: DataEncoding[] = ["windows-1252", "ebcdic-037", "ebcdic-500"];
+
+/**
+ * Provider of the fields of a data file record decoded with the record layout
+ */
+export default class RecordDataProvider implements TreeDataProvider<NodeInterface> {
+
+    /** Layout of the records */
+    private layout: RecordLayoutEntry | undefined;
+    /** Data file decoded */
+    private dataFile: DataFile | undefined;
+    /** Encoding of the data file */
+    private encoding: DataEncoding = "windows-1252";
+    /** Index of the record shown, starting at zero */
+    private recordIndex: number = 0;
+    /** Number of records of the data file */
+    private recordCount: number = 0;
+    /** Fields of the record shown */
+    private fields: DecodedField[] = [];
+
+    /** Controls the TreeData Events */
+    private _onDidChangeTreeData: EventEmitter<NodeInterface | undefined> = new EventEmitter<NodeInterface | undefined>();
+    public onDidChangeTreeData: Event<NodeInterface | undefined> = this._onDidChangeTreeData.event;
+
+    /**
+     * Build a new Record Data Provider
+     *
+     * @param context
+     * @param layoutProvider provider of the layout shown, used to decode the records
+     */
+    constructor(context: any, private layoutProvider: RecordLayoutProvider) {
+        context.subscriptions.push(commands.registerCommand('rech.editor.cobol.openDataFile', () => {
+            this.openDataFile().then(() => {
+                commands.executeCommand("cobolrecorddataview.focus").then(undefined, () => {});
+            }).catch((e) => {
+                window.showWarningMessage(e);
+            });
+        }));
+        context.subscriptions.push(commands.registerCommand('rech.editor.cobol.previousDataRecord', () => {
+            this.showRecord(this.recordIndex - 1);
+        }));
+        context.subscriptions.push(commands.registerCommand('rech.editor.cobol.nextDataRecord', () => {
+            this.showRecord(this.recordIndex + 1);
+        }));
+        context.subscriptions.push(commands.registerCommand('rech.editor.cobol.gotoDataRecord', () => {
+            if (!this.dataFile) return;
+            window.showInputBox({ prompt: `Record number (1 to ${this.recordCount})`, validateInput: (value) => {
+                const number = Number.parseInt(value);
+                return Number.isNaN(number) || number < 1 || number > this.recordCount ? "Invalid record number" : undefined;
+            }}).then((value) => {
+                if (value) {
+                    this.showRecord(Number.parseInt(value) - 1);
+                }
+            }, () => {});
+        }));
+        context.subscriptions.push(commands.registerCommand('rech.editor.cobol.selectDataEncoding', () => {
+            window.showQuickPick(ENCODINGS, { placeHolder: `Encoding of the data file (current: ${this.encoding})` }).then((encoding) => {
+                if (encoding) {
+                    this.encoding = <DataEncoding>encoding;
+                    this.showRecord(this.recordIndex);
+                }
+            }, () => {});
+        }));
+    }
+
+    getTreeItem(element: NodeInterface): TreeItem | Thenable<TreeItem> {
+        return element.getTreeItem();
+    }
+
+    getChildren(element?: NodeInterface | undefined): ProviderResult<NodeInterface[]> {
+        if (element) {
+            return element.getChildren();
+        }
+        if (!this.dataFile) {
+            return [];
+        }
+        const header = new RecordDataHeaderNode(`Record ${this.recordIndex + 1} of ${this.recordCount}`, `${path.basename(this.dataFile.getFileName())} (${this.encoding})`);
+        return (<NodeInterface[]>[header]).concat(this.fields.map((field) => new RecordDataNode(field)));
+    }
+
+    /**
+     * Refresh the treeView
+     */
+    public refresh(): void {
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    /**
+     * Asks the record layout and the data file and shows the first record
+     */
+    private openDataFile(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const layouts = this.layoutProvider.getLayouts();
+            if (layouts.length == 0) {
+                return reject("Show the record layout before decoding a data file");
+            }
+            this.selectLayout(layouts).then((layout) => {
+                if (!layout) {
+                    return resolve();
+                }
+                window.showOpenDialog({ canSelectMany: false, openLabel: "Decode" }).then((uris) => {
+                    if (!uris || uris.length == 0) {
+                        return resolve();
+                    }
+                    this.layout = layout;
+                    // Every record of the file description takes the area of the longest one
+                    this.dataFile = new DataFile(uris[0].fsPath, RecordLayout.recordLength(layouts));
+                    this.encoding = configuration.get<DataEncoding>("dataFileEncoding", "windows-1252");
+                    this.dataFile.getRecordCount().then((count) => {
+                        this.recordCount = count;
+                        this.showRecord(0);
+                        return resolve();
+                    }).catch((e) => reject(`Could not read the data file: ${e}`));
+                }, (e) => reject(e));
+            }).catch((e) => reject(e));
+        });
+    }
+
+    /**
+     * Selects the layout of the records, asking which one when the file description has many records
+     *
+     * @param layouts
+     */
+    private selectLayout(layouts: RecordLayoutEntry[]): Promise<RecordLayoutEntry | undefined> {
+        return new Promise((resolve, reject) => {
+            if (layouts.length == 1) {
+                return resolve(layouts[0]);
+            }
+            const names = layouts.map((layout) => layout.variable.getName());
+            window.showQuickPick(names, { placeHolder: "Record layout used to decode the data file" }).then((name) => {
+                return resolve(layouts.find((layout) => layout.variable.getName() == name));
+            }, (e) => reject(e));
+        });
+    }
+
+    /**
+     * Reads, decodes and shows the record
+     *
+     * @param index index of the record, starting at zero
+     */
+    private showRecord(index: number) {
+        if (!this.dataFile || !this.layout || index < 0 || index >= this.recordCount) {
+            return;
+        }
+        const layout = this.layout;
+        this.dataFile.readRecord(index).then((record) => {
+            this.recordIndex = index;
+            this.fields = new RecordDecoder(layout, this.encoding).decode(record.slice(0, layout.length));
+            this.refresh();
+        }).catch((e) => {
+            window.showWarningMessage(`Could not read the record ${index + 1}: ${e}`);
+        });
+    }
+}
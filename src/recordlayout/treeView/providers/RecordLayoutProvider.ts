@@ -0,0 +1,111 @@
+import { TreeDataProvider, EventEmitter, TreeItem, ProviderResult, commands, window } from "vscode";
+import { Event } from "vscode-jsonrpc";
+import { BufferSplitter } from "rech-ts-commons";
+import NodeInterface from "../../../sourceflow/treeView/nodes/NodeInterface";
+import RecordLayoutNode from "../nodes/RecordLayoutNode";
+import { RecordLayout, RecordLayoutEntry } from "../../RecordLayout";
+import { Editor } from "../../../editor/editor";
+import { Client } from "../../../lsp/client";
+import { ParserCobol } from "../../../cobol/parsercobol";
+import { FileUtils } from "../../../commons/FileUtils";
+import { RechPosition } from "../../../commons/rechposition";
+
+/**
+ * Provider of the record layout with the offsets of every item
+ */
+export default class RecordLayoutProvider implements TreeDataProvider<NodeInterface> {
+
+    /** Layouts of the records shown */
+    private layouts: RecordLayoutEntry[] = [];
+    /** File which declares the records, or undefined if it's the current file */
+    private file: string | undefined;
+
+    /** Controls the TreeData Events */
+    private _onDidChangeTreeData: EventEmitter<NodeInterface | undefined> = new EventEmitter<NodeInterface | undefined>();
+    public onDidChangeTreeData: Event<NodeInterface | undefined> = this._onDidChangeTreeData.event;
+
+    /**
+     * Build a new Record Layout Provider
+     */
+    constructor(context: any) {
+        context.subscriptions.push(commands.registerCommand('rech.editor.cobol.recordLayout', () => {
+            this.showRecordLayout().then(() => {
+                commands.executeCommand("cobolrecordlayoutview.focus").then(undefined, () => {});
+            }).catch(() => {
+                window.showWarningMessage("Record or file description not found");
+            });
+        }));
+        context.subscriptions.push(commands.registerCommand('rech.editor.cobol.gotoRecordLayoutItem', (node: RecordLayoutNode) => {
+            if (!node) return;
+            const position = node.getEntry().variable.getDeclarationPosition()!;
+            new Editor().openFileAndSetPosition(new RechPosition(position.line, position.column, node.getFile()));
+        }));
+    }
+
+    getTreeItem(element: NodeInterface): TreeItem | Thenable<TreeItem> {
+        return element.getTreeItem();
+    }
+
+    getChildren(element?: NodeInterface | undefined): ProviderResult<NodeInterface[]> {
+        if (element) {
+            return element.getChildren();
+        }
+        return this.layouts.map((layout) => new RecordLayoutNode(layout, this.file));
+    }
+
+    /**
+     * Returns the layouts of the records shown
+     */
+    public getLayouts(): RecordLayoutEntry[] {
+        return this.layouts;
+    }
+
+    /**
+     * Refresh the treeView
+     */
+    public refresh(): void {
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    /**
+     * Shows the layout of the record or file description in the cursor, or of the record of the variable in the cursor
+     */
+    private showRecordLayout(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const editor = new Editor();
+            const buffer = editor.getEditorBuffer();
+            const lines = BufferSplitter.split(buffer);
+            const line = editor.getCurrentRow();
+            const parser = new ParserCobol();
+            if (parser.getFileDescriptionDeclaration(lines[line]) || parser.getDeclaracaoVariavelIgnoreReplace(lines[line])) {
+                this.setLayouts(RecordLayout.parseLines(line, lines), undefined);
+                return resolve();
+            }
+            const uri = editor.getPath().fullPathVscode();
+            Client.getDeclararion(editor.getCurrentWord(), line, editor.getCurrentColumn(), buffer, uri).then((position) => {
+                const file = position.file && position.file != uri ? position.file : undefined;
+                const declarationBuffer = file ? FileUtils.read(file, "latin1") : Promise.resolve(buffer);
+                declarationBuffer.then((declaration) => {
+                    const declarationLines = BufferSplitter.split(declaration);
+                    if (!parser.getFileDescriptionDeclaration(declarationLines[position.line]) && !parser.getDeclaracaoVariavelIgnoreReplace(declarationLines[position.line])) {
+                        return reject();
+                    }
+                    this.setLayouts(RecordLayout.parseLines(position.line, declarationLines), file);
+                    return resolve();
+                }).catch(() => reject());
+            }).catch(() => reject());
+        });
+    }
+
+    /**
+     * Defines the layouts shown
+     *
+     * @param layouts
+     * @param file
+     */
+    private setLayouts(layouts: RecordLayoutEntry[], file: string | undefined) {
+        this.layouts = layouts;
+        this.file = file;
+        this.refresh();
+    }
+}
@@ -1,6 +1,12 @@
 import { Editor } from "../editor/editor";
 import { FlowParser } from "./parser/FlowParser";
 import FlowLine from "./parser/FlowLine";
+import { ControlFlowGraph } from "./parser/ControlFlowGraph";
+
+/**
+ * Direction of the flow: the commands which reach the current line or the paragraphs reached from it
+ */
+export type FlowDirection = "callers" | "callees";
 
 export default class Flow {
 
@@ -10,17 +16,28 @@ export default class Flow {
     private startingLine: number | undefined;
     /** The content of the currentBuffer */
     private currentBuffer: string[] | undefined;
+    /** Direction of the flow */
+    private direction: FlowDirection;
+
+    /**
+     * Creates the flow in the direction
+     *
+     * @param direction
+     */
+    constructor(direction: FlowDirection = "callers") {
+        this.direction = direction;
+    }
 
     /**
      * Find all possible flows starting from current line
      */
     public findFlow(): Promise<Flow> {
         const editor = new Editor();
-        editor.showInformationMessage("Finding possible flows starting from current line...");
+        editor.showInformationMessage(`Finding possible flows (${this.direction}) starting from current line...`);
         return new Promise((resolve, reject) => {
             this.startingLine = editor.getCurrentRow();
             this.currentBuffer = editor.getEditorBuffer().replace(/\r/g, "").split("\n");
-            new FlowParser().parser(this.startingLine, this.currentBuffer).then((map) => {
+            this.parseFlow(this.currentBuffer).then((map) => {
                 this.flowMap = map;
                 editor.showInformationMessage("Flow finding ended successfully!");
                 return resolve(this);
@@ -31,6 +48,26 @@ export default class Flow {
         })
     }
 
+    /**
+     * Parses the flow in the direction. The callees start from the paragraph of the current line.
+     *
+     * @param buffer
+     */
+    private parseFlow(buffer: string[]): Promise<Map<number, Array<FlowLine>>> {
+        if (this.direction == "callers") {
+            return new FlowParser().parser(this.startingLine!, buffer);
+        }
+        const paragraph = ControlFlowGraph.of(buffer).findParagraphAt(this.startingLine!);
+        if (paragraph) {
+            this.startingLine = paragraph.line;
+        }
+        return new FlowParser().callees(this.startingLine!, buffer);
+    }
+
+    public getDirection(): FlowDirection {
+        return this.direction;
+    }
+
     public getCurrentBuffer(): string[] | undefined {
         return this.currentBuffer;
     }
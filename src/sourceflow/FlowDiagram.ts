@@ -0,0 +1,256 @@
+import { ControlFlowGraph, FlowParagraph, FlowEdgeKind } from "./parser/ControlFlowGraph";
+
+/**
+ * Options of the diagram of the program control flow
+ */
+export interface FlowDiagramOptions {
+    /** Shows each PERFORM THRU range as a single node */
+    collapseThru: boolean;
+    /** Marks the paragraphs not reached from the entry paragraph */
+    markUnreachable: boolean;
+    /** Name of the paragraph where the diagram starts, the whole program when undefined */
+    entry?: string;
+    /** Max number of transfers of control from the entry paragraph, unlimited when undefined */
+    maxDepth?: number;
+}
+
+/**
+ * Node of the diagram: a paragraph, a THRU range or a called program
+ */
+interface DiagramNode {
+    /** Identifier of the node in the diagram */
+    id: string;
+    /** Text shown in the node */
+    label: string;
+    /** True if it's a called program */
+    program: boolean;
+    /** True if it's a paragraph not reached from the entry */
+    unreachable: boolean;
+}
+
+/**
+ * Edge of the diagram
+ */
+interface DiagramEdge {
+    /** Identifier of the source node */
+    from: string;
+    /** Identifier of the target node */
+    to: string;
+    /** Kind of the transfer of control */
+    kind: FlowEdgeKind;
+}
+
+/**
+ * Diagram of the PERFORM, GO TO and CALL graph of the program, written as Graphviz DOT or Mermaid
+ */
+export class FlowDiagram {
+
+    /** Control-flow graph of the program */
+    private graph: ControlFlowGraph;
+    /** Options of the diagram */
+    private options: FlowDiagramOptions;
+    /** Nodes of the diagram, by identifier */
+    private nodes: Map<string, DiagramNode>;
+    /** Edges of the diagram, without duplicates */
+    private edges: DiagramEdge[];
+
+    /**
+     * Builds the diagram of the control-flow graph
+     *
+     * @param graph
+     * @param options
+     */
+    constructor(graph: ControlFlowGraph, options: FlowDiagramOptions) {
+        this.graph = graph;
+        this.options = options;
+        this.nodes = new Map();
+        this.edges = [];
+        this.build();
+    }
+
+    /**
+     * Returns the diagram in the Graphviz DOT language
+     *
+     * @param name name of the graph
+     */
+    public toDot(name: string): string {
+        const lines = [`digraph "${name.replace(/"/g, "")}" {`, "  node [shape=box];"];
+        this.nodes.forEach((node) => {
+            const attributes = [`label="${node.label}"`];
+            if (node.program) {
+                attributes.push("shape=component");
+            }
+            if (node.unreachable) {
+                attributes.push("style=dashed", "color=gray");
+            }
+            lines.push(`  "${node.id}" [${attributes.join(", ")}];`);
+        });
+        this.edges.forEach((edge) => {
+            const style = { perform: "", goto: " [style=bold, label=\"go to\"]", fallthrough: " [style=dotted]", call: " [label=\"call\"]" }[edge.kind];
+            lines.push(`  "${edge.from}" -> "${edge.to}"${style};`);
+        });
+        lines.push("}");
+        return lines.join("\n") + "\n";
+    }
+
+    /**
+     * Returns the diagram as a Mermaid flowchart
+     */
+    public toMermaid(): string {
+        const ids: Map<string, string> = new Map();
+        const lines = ["flowchart TD"];
+        this.nodes.forEach((node) => {
+            const id = `n${ids.size}`;
+            ids.set(node.id, id);
+            lines.push(node.program ? `    ${id}[["${node.label}"]]` : `    ${id}["${node.label}"]`);
+        });
+        this.edges.forEach((edge) => {
+            const arrow = { perform: "-->", goto: "==>|go to|", fallthrough: "-.->", call: "-->|call|" }[edge.kind];
+            lines.push(`    ${ids.get(edge.from)} ${arrow} ${ids.get(edge.to)}`);
+        });
+        const unreachable = Array.from(this.nodes.values()).filter((node) => node.unreachable).map((node) => ids.get(node.id));
+        if (unreachable.length > 0) {
+            lines.push("    classDef unreachable stroke-dasharray: 5 5,color:gray;");
+            lines.push(`    class ${unreachable.join(",")} unreachable;`);
+        }
+        return lines.join("\n") + "\n";
+    }
+
+    /**
+     * Builds the nodes and edges of the diagram, starting from the entry paragraph until the max depth
+     */
+    private build() {
+        const reachable = this.graph.getReachable(this.options.entry);
+        const ranges = this.options.collapseThru ? this.collapsedRanges() : new Map<FlowParagraph, string>();
+        const paragraphs = this.graph.getParagraphs();
+        const entry = this.options.entry ? this.graph.getParagraph(this.options.entry) : undefined;
+        let pending = entry ? [entry] : paragraphs.slice();
+        const visited: Set<FlowParagraph> = new Set();
+        for (let depth = 0; pending.length > 0; depth++) {
+            const next: FlowParagraph[] = [];
+            pending.forEach((paragraph) => {
+                if (visited.has(paragraph)) {
+                    return;
+                }
+                visited.add(paragraph);
+                const from = this.addParagraph(paragraph, ranges, reachable);
+                if (this.options.maxDepth !== undefined && depth >= this.options.maxDepth) {
+                    return;
+                }
+                paragraph.edges.forEach((edge) => {
+                    const target = edge.kind == "call" ? undefined : this.graph.getParagraph(edge.to, paragraph.division);
+                    let to: string;
+                    if (edge.kind == "call") {
+                        to = this.addProgram(edge.to);
+                    } else if (!target) {
+                        return;
+                    } else if (edge.kind == "perform" && edge.thru && this.options.collapseThru) {
+                        to = this.addRange(target, edge.thru, reachable);
+                        this.graph.expandRange(edge.to, edge.thru, paragraph.division).forEach((inside) => next.push(inside));
+                    } else {
+                        to = this.addParagraph(target, ranges, reachable);
+                        next.push(target);
+                    }
+                    if (from != to && !this.edges.some((e) => e.from == from && e.to == to && e.kind == edge.kind)) {
+                        this.edges.push({ from: from, to: to, kind: edge.kind });
+                    }
+                });
+            });
+            pending = next;
+        }
+    }
+
+    /**
+     * Returns the identifiers of the collapsed THRU ranges of each paragraph inside them
+     */
+    private collapsedRanges(): Map<FlowParagraph, string> {
+        const ranges: Map<FlowParagraph, string> = new Map();
+        this.graph.getParagraphs().forEach((paragraph) => {
+            paragraph.edges.forEach((edge) => {
+                if (edge.kind == "perform" && edge.thru) {
+                    const id = this.rangeId(edge.to, edge.thru);
+                    this.graph.expandRange(edge.to, edge.thru).forEach((inside) => {
+                        if (!ranges.has(inside)) {
+                            ranges.set(inside, id);
+                        }
+                    });
+                }
+            });
+        });
+        return ranges;
+    }
+
+    /**
+     * Adds the node of the paragraph, or of the collapsed THRU range which contains it
+     *
+     * @param paragraph
+     * @param ranges collapsed THRU ranges of each paragraph
+     * @param reachable paragraphs reached from the entry
+     */
+    private addParagraph(paragraph: FlowParagraph, ranges: Map<FlowParagraph, string>, reachable: Set<FlowParagraph>): string {
+        const range = ranges.get(paragraph);
+        if (range) {
+            const [first, thru] = range.split(" thru ");
+            return this.addRange(this.graph.getParagraph(first)!, thru, reachable);
+        }
+        return this.addNode(paragraph.name.toLowerCase(), paragraph.name, false, this.isUnreachable([paragraph], reachable));
+    }
+
+    /**
+     * Adds the node of the collapsed THRU range
+     *
+     * @param first first paragraph of the range
+     * @param thru name of the last paragraph of the range
+     * @param reachable paragraphs reached from the entry
+     */
+    private addRange(first: FlowParagraph, thru: string, reachable: Set<FlowParagraph>): string {
+        const last = this.graph.getParagraph(thru);
+        const label = `${first.name} THRU ${last ? last.name : thru}`;
+        return this.addNode(this.rangeId(first.name, thru), label, false, this.isUnreachable(this.graph.expandRange(first.name, thru), reachable));
+    }
+
+    /**
+     * Adds the node of the called program
+     *
+     * @param program
+     */
+    private addProgram(program: string): string {
+        return this.addNode(`call ${program}`, program.toUpperCase(), true, false);
+    }
+
+    /**
+     * Adds the node if it's not in the diagram yet, returning the identifier
+     *
+     * @param id
+     * @param label
+     * @param program
+     * @param unreachable
+     */
+    private addNode(id: string, label: string, program: boolean, unreachable: boolean): string {
+        if (!this.nodes.has(id)) {
+            this.nodes.set(id, { id: id, label: label.replace(/"/g, "'"), program: program, unreachable: unreachable });
+        }
+        return id;
+    }
+
+    /**
+     * Returns the identifier of the THRU range
+     *
+     * @param first
+     * @param thru
+     */
+    private rangeId(first: string, thru: string): string {
+        return `${first.toLowerCase()} thru ${thru.toLowerCase()}`;
+    }
+
+    /**
+     * Returns true if the unreachable paragraphs must be marked and none of the paragraphs is reached
+     *
+     * @param paragraphs
+     * @param reachable
+     */
+    private isUnreachable(paragraphs: FlowParagraph[], reachable: Set<FlowParagraph>): boolean {
+        return this.options.markUnreachable && !paragraphs.some((paragraph) => reachable.has(paragraph));
+    }
+
+}
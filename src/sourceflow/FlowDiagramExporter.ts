@@ -0,0 +1,129 @@
+import { commands, window, workspace, Uri } from "vscode";
+import * as path from 'path';
+import * as fs from 'fs';
+import { BufferSplitter } from "rech-ts-commons";
+import { Client } from "../lsp/client";
+import { ControlFlowGraph } from "./parser/ControlFlowGraph";
+import { FlowDiagram, FlowDiagramOptions } from "./FlowDiagram";
+
+/** Option to collapse the THRU ranges */
+const COLLAPSE_THRU = "Collapse THRU ranges";
+/** Option to mark the unreachable paragraphs */
+const MARK_UNREACHABLE = "Mark unreachable paragraphs";
+/** Entry which diagrams the whole program */
+const WHOLE_PROGRAM = "(whole program)";
+
+/**
+ * Exports the PERFORM, GO TO and CALL graph of the current program as Graphviz DOT and Mermaid diagrams
+ */
+export default class FlowDiagramExporter {
+
+    /**
+     * Registers the command which exports the diagrams
+     *
+     * @param context
+     */
+    constructor(context: any) {
+        context.subscriptions.push(commands.registerCommand('rech.editor.cobol.exportFlowDiagram', () => {
+            this.export().catch((e) => {
+                window.showWarningMessage(`Could not export the flow diagram. ${e}`);
+            });
+        }));
+    }
+
+    /**
+     * Builds the graph of the current program with the copies expanded, asks the options and writes the diagrams
+     */
+    private export(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const editor = window.activeTextEditor;
+            if (!editor) {
+                return resolve();
+            }
+            const document = editor.document;
+            Client.getExpandedSource(document.uri.toString()).then((expandedSource) => {
+                return expandedSource;
+            }, () => {
+                return document.getText();
+            }).then((source) => {
+                const graph = new ControlFlowGraph(BufferSplitter.split(source));
+                if (graph.getParagraphs().length == 0) {
+                    return reject("The program has no paragraphs");
+                }
+                this.askOptions(graph).then((options) => {
+                    if (!options) {
+                        return resolve();
+                    }
+                    const diagram = new FlowDiagram(graph, options);
+                    this.writeDiagrams(document.fileName, diagram).then(() => resolve()).catch((e) => reject(e));
+                }).catch((e) => reject(e));
+            }, (e) => reject(e));
+        });
+    }
+
+    /**
+     * Asks the options of the diagram, returning undefined if the user cancels
+     *
+     * @param graph
+     */
+    private askOptions(graph: ControlFlowGraph): Promise<FlowDiagramOptions | undefined> {
+        return new Promise((resolve, reject) => {
+            window.showQuickPick([COLLAPSE_THRU, MARK_UNREACHABLE], { canPickMany: true, placeHolder: "Options of the flow diagram" }).then((selected) => {
+                if (!selected) {
+                    return resolve(undefined);
+                }
+                const names = [WHOLE_PROGRAM].concat(graph.getParagraphs().map((paragraph) => paragraph.name));
+                window.showQuickPick(names, { placeHolder: "Entry paragraph of the diagram" }).then((entry) => {
+                    if (!entry) {
+                        return resolve(undefined);
+                    }
+                    const options: FlowDiagramOptions = {
+                        collapseThru: selected.includes(COLLAPSE_THRU),
+                        markUnreachable: selected.includes(MARK_UNREACHABLE),
+                        entry: entry == WHOLE_PROGRAM ? undefined : entry,
+                    };
+                    if (!options.entry) {
+                        return resolve(options);
+                    }
+                    window.showInputBox({ prompt: "Max depth from the entry paragraph (empty for unlimited)", validateInput: (value) => {
+                        return value.trim() !== "" && !/^\d+$/.test(value.trim()) ? "Invalid depth" : undefined;
+                    }}).then((depth) => {
+                        if (depth === undefined) {
+                            return resolve(undefined);
+                        }
+                        options.maxDepth = depth.trim() !== "" ? Number.parseInt(depth) : undefined;
+                        return resolve(options);
+                    }, (e) => reject(e));
+                }, (e) => reject(e));
+            }, (e) => reject(e));
+        });
+    }
+
+    /**
+     * Asks where the DOT file is saved, writes the Mermaid file beside it and opens it
+     *
+     * @param fileName name of the program file
+     * @param diagram
+     */
+    private writeDiagrams(fileName: string, diagram: FlowDiagram): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const program = path.basename(fileName, path.extname(fileName));
+            const defaultUri = Uri.file(path.join(path.dirname(fileName), `${program}.dot`));
+            window.showSaveDialog({ defaultUri: defaultUri, filters: { "Graphviz DOT": ["dot", "gv"] } }).then((uri) => {
+                if (!uri) {
+                    return resolve();
+                }
+                const dotFile = uri.fsPath;
+                const mermaidFile = path.join(path.dirname(dotFile), path.basename(dotFile, path.extname(dotFile)) + ".mmd");
+                try {
+                    fs.writeFileSync(dotFile, diagram.toDot(program));
+                    fs.writeFileSync(mermaidFile, diagram.toMermaid());
+                } catch (e) {
+                    return reject(e);
+                }
+                workspace.openTextDocument(mermaidFile).then((document) => window.showTextDocument(document)).then(() => resolve(), () => resolve());
+            }, (e) => reject(e));
+        });
+    }
+
+}
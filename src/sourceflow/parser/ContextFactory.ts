@@ -49,12 +49,12 @@ export default class ContextFactory {
     }
 
     /**
-     * Returns true if line is a paragraph definition
+     * Returns true if line is a paragraph or section definition
      *
      * @param currentLine
      */
     private static isParagraph(currentLine: string) {
-        return /^ {7}([\w\-]+)\.(?:\s*\*\>.*)?/gi.test(currentLine);
+        return /^ {7}([\w\-]+)(?:\s+section)?\.(?:\s*\*\>.*)?/gi.test(currentLine);
     }
     /**
      * Returns true if line is a goto
@@ -0,0 +1,499 @@
+import { FormatterUtils } from "../../lsp/formatter/FormatterUtils";
+import { CobolReservedWords } from "../../cobol/CobolReservedWords";
+
+/** Paragraph declaration */
+const PARAGRAPH_REGEX = /^ {7}([\w\-]+)\.(?:\s*\*\>.*)?$/i;
+/** Start and end of the methods and of the other scopes of a class, which have their own procedure divisions */
+const METHOD_BOUNDARY_REGEX = /^\s+(method-id\b|end\s+(method|object|factory|class)\b)/i;
+/** Section declaration */
+const SECTION_REGEX = /^ {7}([\w\-]+)\s+section\.(?:\s*\*\>.*)?$/i;
+/** Words, strings and periods of the code */
+const TOKEN_REGEX = /("(?:[^"]|"")*"?|'(?:[^']|'')*'?)|([\w\-]+)|(\.(?=\s|$))/g;
+/** Scope terminators of the commands with conditional phrases, like AT END or INVALID KEY */
+const PHRASE_TERMINATORS = /^end-(read|write|rewrite|start|delete|return|search|call|compute|add|subtract|multiply|divide|string|unstring|accept|display|receive|send)$/;
+/** Words which start conditional phrases, like AT END, INVALID KEY or ON SIZE ERROR */
+const CONDITIONAL_PHRASES = ["end", "invalid", "error", "exception", "overflow"];
+
+/**
+ * Kind of the transfer of control between paragraphs
+ */
+export type FlowEdgeKind = "perform" | "goto" | "fallthrough" | "call";
+
+/**
+ * Transfer of control from a paragraph to another
+ */
+export interface FlowEdge {
+    /** Kind of the transfer */
+    kind: FlowEdgeKind;
+    /** Name of the paragraph where the transfer starts, in lower case */
+    from: string;
+    /** Name of the target paragraph, or the called program, in lower case */
+    to: string;
+    /** Name of the last paragraph of the PERFORM THRU range, in lower case */
+    thru?: string;
+    /** Line of the command, or the last line of the paragraph on fall-through */
+    line: number;
+    /** True if the command is executed only on some condition, like in IF and EVALUATE branches */
+    conditional: boolean;
+}
+
+/**
+ * Paragraph or section of the procedure division
+ */
+export interface FlowParagraph {
+    /** Name of the paragraph as declared */
+    name: string;
+    /** Line of the declaration */
+    line: number;
+    /** Last line of the paragraph */
+    endLine: number;
+    /** True if it's a section declaration */
+    section: boolean;
+    /** Index of the procedure division where it's declared, since each method has its own paragraphs */
+    division: number;
+    /** Transfers of control to other paragraphs, in the order they appear in the source */
+    edges: FlowEdge[];
+    /** Line of the unconditional GO TO, STOP RUN, GOBACK or EXIT PROGRAM which ends the flow of the paragraph */
+    exitLine?: number;
+}
+
+/**
+ * Forward control-flow graph of the paragraphs of the procedure division
+ */
+export class ControlFlowGraph {
+
+    /** Graphs of the buffers, kept while the buffer is referenced */
+    private static graphs: WeakMap<string[], ControlFlowGraph> = new WeakMap();
+    /** Paragraphs and sections in the order of declaration */
+    private paragraphs: FlowParagraph[];
+    /** Paragraphs and sections indexed by the name in lower case, keeping the first declaration of the source */
+    private names: Map<string, FlowParagraph>;
+    /** Paragraphs and sections indexed by the procedure division and the name in lower case */
+    private divisionNames: Map<string, FlowParagraph>;
+    /** Paragraphs where each procedure division starts */
+    private entries: FlowParagraph[];
+
+    /**
+     * Builds the control-flow graph of the source
+     *
+     * @param buffer lines of the source
+     */
+    constructor(buffer: string[]) {
+        this.paragraphs = [];
+        this.names = new Map();
+        this.divisionNames = new Map();
+        this.entries = [];
+        this.parseParagraphs(buffer);
+    }
+
+    /**
+     * Returns the control-flow graph of the buffer, building it only once for each buffer
+     *
+     * @param buffer lines of the source
+     */
+    public static of(buffer: string[]): ControlFlowGraph {
+        let graph = ControlFlowGraph.graphs.get(buffer);
+        if (!graph) {
+            graph = new ControlFlowGraph(buffer);
+            ControlFlowGraph.graphs.set(buffer, graph);
+        }
+        return graph;
+    }
+
+    /**
+     * Returns the paragraphs and sections in the order of declaration
+     */
+    public getParagraphs(): FlowParagraph[] {
+        return this.paragraphs;
+    }
+
+    /**
+     * Returns the paragraph or section with the name
+     *
+     * @param name
+     * @param division index of the procedure division where the name is resolved, the first declaration of the source by default
+     */
+    public getParagraph(name: string, division?: number): FlowParagraph | undefined {
+        if (division !== undefined) {
+            return this.divisionNames.get(`${division}:${name.toLowerCase()}`);
+        }
+        return this.names.get(name.toLowerCase());
+    }
+
+    /**
+     * Returns the paragraph which contains the line
+     *
+     * @param line
+     */
+    public findParagraphAt(line: number): FlowParagraph | undefined {
+        return this.paragraphs.find((paragraph) => paragraph.line <= line && line <= paragraph.endLine);
+    }
+
+    /**
+     * Returns the paragraphs executed by a PERFORM of the paragraph, following the THRU range
+     * and the paragraphs of the section
+     *
+     * @param name first paragraph
+     * @param thru last paragraph of the THRU range
+     * @param division index of the procedure division where the names are resolved
+     */
+    public expandRange(name: string, thru?: string, division?: number): FlowParagraph[] {
+        const first = this.paragraphs.indexOf(this.getParagraph(name, division)!);
+        if (first < 0) {
+            return [];
+        }
+        const last = this.lastOfRange(first, thru);
+        return this.paragraphs.slice(first, last + 1);
+    }
+
+    /**
+     * Returns the transfers of control which starts from the paragraph
+     *
+     * @param name
+     */
+    public getCallees(name: string): FlowEdge[] {
+        const paragraph = this.getParagraph(name);
+        return paragraph ? paragraph.edges : [];
+    }
+
+    /**
+     * Returns the transfers of control which reach the paragraph, including the PERFORM THRU
+     * ranges and the sections which contains it
+     *
+     * @param name
+     */
+    public getCallers(name: string): FlowEdge[] {
+        const paragraph = this.getParagraph(name);
+        if (!paragraph) {
+            return [];
+        }
+        const callers: FlowEdge[] = [];
+        this.paragraphs.filter((caller) => caller.division == paragraph.division).forEach((caller) => {
+            caller.edges.forEach((edge) => {
+                if ((edge.kind != "call" && edge.to == paragraph.name.toLowerCase()) || (edge.kind == "perform" && this.expandRange(edge.to, edge.thru, caller.division).includes(paragraph))) {
+                    callers.push(edge);
+                }
+            });
+        });
+        return callers;
+    }
+
+    /**
+     * Returns the paragraphs where each procedure division starts, like the procedure division of each method
+     */
+    public getEntries(): FlowParagraph[] {
+        return this.entries;
+    }
+
+    /**
+     * Returns the paragraphs reached from the entry paragraph. The performed paragraphs are followed until
+     * the end of the PERFORM range, where the control returns to the PERFORM.
+     *
+     * @param entry name of the entry paragraph, the start of every procedure division by default
+     */
+    public getReachable(entry?: string): Set<FlowParagraph> {
+        const reachable: Set<FlowParagraph> = new Set();
+        // Paragraphs already visited, with the index of the last paragraph of the PERFORM range or -1 if it's not performed
+        const visited: Set<string> = new Set();
+        const starts = entry ? [this.paragraphs.indexOf(this.getParagraph(entry)!)] : this.entries.map((paragraph) => this.paragraphs.indexOf(paragraph));
+        const pending = starts.filter((start) => start >= 0).map((start) => ({ index: start, rangeEnd: -1 }));
+        while (pending.length > 0) {
+            const current = pending.pop()!;
+            const key = `${current.index}:${current.rangeEnd}`;
+            if (visited.has(key)) {
+                continue;
+            }
+            visited.add(key);
+            const paragraph = this.paragraphs[current.index];
+            reachable.add(paragraph);
+            paragraph.edges.forEach((edge) => {
+                const target = this.paragraphs.indexOf(this.getParagraph(edge.to, paragraph.division)!);
+                switch (edge.kind) {
+                    case "perform":
+                        if (target >= 0) {
+                            pending.push({ index: target, rangeEnd: this.lastOfRange(target, edge.thru) });
+                        }
+                        break;
+                    case "goto":
+                        // Out of the PERFORM range the control doesn't return anymore
+                        if (target >= 0) {
+                            pending.push({ index: target, rangeEnd: target <= current.rangeEnd ? current.rangeEnd : -1 });
+                        }
+                        break;
+                    case "fallthrough":
+                        if (target >= 0 && current.index != current.rangeEnd) {
+                            pending.push({ index: target, rangeEnd: current.rangeEnd });
+                        }
+                        break;
+                }
+            });
+        }
+        return reachable;
+    }
+
+    /**
+     * Returns the index of the last paragraph of the range
+     *
+     * @param first index of the first paragraph
+     * @param thru name of the last paragraph of the THRU range
+     */
+    private lastOfRange(first: number, thru?: string): number {
+        const division = this.paragraphs[first].division;
+        if (thru) {
+            const last = this.paragraphs.indexOf(this.getParagraph(thru, division)!);
+            if (last >= first) {
+                return this.lastOfRange(last);
+            }
+        }
+        if (!this.paragraphs[first].section) {
+            return first;
+        }
+        let last = first;
+        while (last + 1 < this.paragraphs.length && !this.paragraphs[last + 1].section && this.paragraphs[last + 1].division == division) {
+            last++;
+        }
+        return last;
+    }
+
+    /**
+     * Finds the paragraphs of the procedure divisions and parses the commands of each one. The commands
+     * written before the first paragraph of a procedure division are kept in an implicit paragraph
+     * named as the division. The procedure division of each method ends with the method.
+     *
+     * @param buffer
+     */
+    private parseParagraphs(buffer: string[]) {
+        // Sources without the procedure division, like copies, have only procedure code
+        let procedure = !buffer.some((line) => /^\s+procedure\s+division/i.test(line));
+        let entry: number | undefined = procedure ? 0 : undefined;
+        let division = 0;
+        let open: FlowParagraph | undefined;
+        const close = (line: number) => {
+            if (open) {
+                open.endLine = this.lastCodeLine(buffer, open.line, line - 1);
+                open = undefined;
+            }
+        };
+        buffer.forEach((text, line) => {
+            const header = /^\s+([\w\-]+)\s+division\b/i.exec(text);
+            if (header) {
+                close(line);
+                procedure = header[1].toLowerCase() == "procedure";
+                entry = procedure ? line : undefined;
+                division += procedure ? 1 : 0;
+                return;
+            }
+            if (METHOD_BOUNDARY_REGEX.test(text)) {
+                close(line);
+                procedure = false;
+                entry = undefined;
+                return;
+            }
+            if (!procedure) {
+                return;
+            }
+            // The code after the declaratives starts like the procedure division
+            if (/^\s+end\s+declaratives\s*\./i.test(text)) {
+                close(line);
+                entry = line;
+                return;
+            }
+            const section = SECTION_REGEX.exec(text);
+            const match = section || PARAGRAPH_REGEX.exec(text);
+            if (match && !CobolReservedWords.isReserved(match[1])) {
+                close(line);
+                open = this.addParagraph(match[1], line, section !== null, division, entry !== undefined);
+                entry = undefined;
+            } else if (entry !== undefined && !match && this.removeCommentary(text).trim() !== "") {
+                open = this.addParagraph("procedure division", entry, false, division, true);
+                entry = undefined;
+            }
+        });
+        close(buffer.length);
+        this.paragraphs.forEach((paragraph, index) => {
+            const exitSection = this.parseCommands(paragraph, buffer);
+            const fallThrough = this.fallThroughTarget(index, exitSection);
+            if (paragraph.exitLine === undefined && fallThrough) {
+                paragraph.edges.push({ kind: "fallthrough", from: paragraph.name.toLowerCase(), to: fallThrough.name.toLowerCase(), line: paragraph.endLine, conditional: false });
+            }
+        });
+    }
+
+    /**
+     * Adds the paragraph declared on the line
+     *
+     * @param name
+     * @param line
+     * @param section true if it's a section declaration
+     * @param division index of the procedure division
+     * @param entry true if it's where the procedure division starts
+     */
+    private addParagraph(name: string, line: number, section: boolean, division: number, entry: boolean): FlowParagraph {
+        const paragraph: FlowParagraph = { name: name, line: line, endLine: line, section: section, division: division, edges: [] };
+        this.paragraphs.push(paragraph);
+        if (entry) {
+            this.entries.push(paragraph);
+        }
+        if (!this.names.has(name.toLowerCase())) {
+            this.names.set(name.toLowerCase(), paragraph);
+        }
+        if (!this.divisionNames.has(`${division}:${name.toLowerCase()}`)) {
+            this.divisionNames.set(`${division}:${name.toLowerCase()}`, paragraph);
+        }
+        return paragraph;
+    }
+
+    /**
+     * Returns the paragraph executed after the end of the paragraph, in the same procedure division
+     *
+     * @param index index of the paragraph
+     * @param exitSection true if the paragraph ends with an EXIT SECTION, which skips the rest of the section
+     */
+    private fallThroughTarget(index: number, exitSection: boolean): FlowParagraph | undefined {
+        let next = index + 1;
+        if (exitSection) {
+            while (next < this.paragraphs.length && !this.paragraphs[next].section) {
+                next++;
+            }
+        }
+        const target = this.paragraphs[next];
+        return target && target.division == this.paragraphs[index].division ? target : undefined;
+    }
+
+    /**
+     * Parses the commands of the paragraph which transfer the control, returning true if the paragraph
+     * ends with an unconditional EXIT SECTION
+     *
+     * @param paragraph
+     * @param buffer
+     */
+    private parseCommands(paragraph: FlowParagraph, buffer: string[]): boolean {
+        const from = paragraph.name.toLowerCase();
+        // Depth of the conditional blocks, like IF, EVALUATE or an inline PERFORM
+        let depth = 0;
+        // True if the current sentence is inside a conditional phrase, like AT END or INVALID KEY
+        let phrase = false;
+        for (let line = paragraph.line + 1; line <= paragraph.endLine; line++) {
+            const code = this.removeCommentary(buffer[line]);
+            const tokens = this.tokenize(code);
+            for (let i = 0; i < tokens.length; i++) {
+                const token = tokens[i];
+                const conditional = depth > 0 || phrase;
+                switch (true) {
+                    case token == ".":
+                        depth = 0;
+                        phrase = false;
+                        break;
+                    case token == "if" || token == "evaluate" || token == "search":
+                        depth++;
+                        break;
+                    case token == "end-if" || token == "end-evaluate" || token == "end-perform" || token == "end-search":
+                        depth = Math.max(depth - 1, 0);
+                        phrase = phrase && token != "end-search";
+                        break;
+                    case PHRASE_TERMINATORS.test(token):
+                        phrase = false;
+                        break;
+                    case CONDITIONAL_PHRASES.includes(token):
+                        phrase = true;
+                        break;
+                    case token == "perform":
+                        if (FormatterUtils.isInlinePerform(tokens.slice(i).join(" "))) {
+                            depth++;
+                        } else if (i + 1 < tokens.length && !this.isLiteral(tokens[i + 1])) {
+                            const thru = /^(thru|through)$/.test(tokens[i + 2]) ? tokens[i + 3] : undefined;
+                            paragraph.edges.push({ kind: "perform", from: from, to: tokens[i + 1], thru: thru, line: line, conditional: conditional });
+                            i += thru ? 3 : 1;
+                        }
+                        break;
+                    case token == "go":
+                        const targets: string[] = [];
+                        let j = tokens[i + 1] == "to" ? i + 2 : i + 1;
+                        while (j < tokens.length && tokens[j] != "." && tokens[j] != "depending" && !this.isLiteral(tokens[j])) {
+                            targets.push(tokens[j++]);
+                        }
+                        const depending = tokens[j] == "depending";
+                        targets.forEach((target) => {
+                            paragraph.edges.push({ kind: "goto", from: from, to: target, line: line, conditional: conditional || depending });
+                        });
+                        i = j - 1;
+                        if (!conditional && !depending && targets.length > 0) {
+                            paragraph.exitLine = line;
+                            return false;
+                        }
+                        break;
+                    case token == "call" && i + 1 < tokens.length:
+                        const program = tokens[++i].replace(/^["']|["']$/g, "");
+                        paragraph.edges.push({ kind: "call", from: from, to: program, line: line, conditional: conditional });
+                        break;
+                    case (token == "stop" && tokens[i + 1] == "run") || token == "goback" || (token == "exit" && tokens[i + 1] == "program"):
+                        if (!conditional) {
+                            paragraph.exitLine = line;
+                            return false;
+                        }
+                        break;
+                    case token == "exit" && (tokens[i + 1] == "paragraph" || tokens[i + 1] == "section"):
+                        // The rest of the paragraph is skipped, but the flow goes on after the paragraph
+                        if (!conditional) {
+                            return tokens[i + 1] == "section";
+                        }
+                        break;
+                }
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Returns the tokens of the code in lower case: words, strings and periods which end the sentences
+     *
+     * @param code
+     */
+    private tokenize(code: string): string[] {
+        const tokens: string[] = [];
+        let match: RegExpExecArray | null;
+        TOKEN_REGEX.lastIndex = 0;
+        while ((match = TOKEN_REGEX.exec(code)) !== null) {
+            tokens.push(match[0].toLowerCase());
+        }
+        return tokens;
+    }
+
+    /**
+     * Returns true if the token is a literal, which can't be a paragraph name
+     *
+     * @param token
+     */
+    private isLiteral(token: string): boolean {
+        return /^["']/.test(token) || /^\d+$/.test(token);
+    }
+
+    /**
+     * Returns the last line with code between the lines, ignoring the commentaries
+     *
+     * @param buffer
+     * @param start
+     * @param end
+     */
+    private lastCodeLine(buffer: string[], start: number, end: number): number {
+        let line = end;
+        while (line > start && this.removeCommentary(buffer[line]).trim() === "") {
+            line--;
+        }
+        return line;
+    }
+
+    /**
+     * Removes the commentary of the line
+     *
+     * @param line
+     */
+    private removeCommentary(line: string): string {
+        if (line.charAt(6) == "*" || line.trim().startsWith("*>")) {
+            return "";
+        }
+        const commentary = line.indexOf("*>");
+        return commentary >= 0 ? line.substring(0, commentary) : line;
+    }
+
+}
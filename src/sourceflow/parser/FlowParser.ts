@@ -1,5 +1,6 @@
 import ContextFactory from "./ContextFactory";
 import FlowLine from "./FlowLine";
+import { ControlFlowGraph } from "./ControlFlowGraph";
 
 export class FlowParser {
 
@@ -30,21 +31,56 @@ export class FlowParser {
                     return resolve(this.flowMap)
                 }
                 this.flowMap.set(line, contextArray);
-                if (contextArray.length > 0) {
-                    contextArray.forEach((context) => {
-                        this.parser(context.lineNumber, buffer).then(() => {
-                            return resolve(this.flowMap);
-                        }).catch((e) => {
-                            return reject(e);
-                        });
-                    })
-                } else {
-                    return resolve(this.flowMap)
-                }
+                // The origins without a known context are kept as leaves of the flow
+                Promise.all(contextArray.map((context) => this.parser(context.lineNumber, buffer).catch(() => this.flowMap))).then(() => {
+                    return resolve(this.flowMap);
+                }).catch((e) => {
+                    return reject(e);
+                });
             }).catch((e) => {
                 return reject(e);
             });
         })
     }
 
+    /**
+     * Parse the buffer and returns the flowMap with the paragraphs reached from the paragraph, following
+     * the forward control-flow graph. The children of a paragraph are the commands which transfer the
+     * control and the paragraph reached by fall-through. The children of a command are the paragraphs
+     * it reaches, with every paragraph of the THRU range.
+     *
+     * @param line line of the paragraph declaration
+     * @param buffer
+     */
+    public callees(line: number, buffer: string[]): Promise<Map<number, Array<FlowLine>>> {
+        return new Promise((resolve, reject) => {
+            const graph = ControlFlowGraph.of(buffer);
+            if (!graph.findParagraphAt(line)) {
+                return reject(new Error("Paragraph not found"));
+            }
+            const toFlowLine = (lineNumber: number) => ({ line: buffer[lineNumber].trim(), lineNumber: lineNumber });
+            graph.getParagraphs().forEach((paragraph) => {
+                const children: Array<FlowLine> = [];
+                paragraph.edges.forEach((edge) => {
+                    const targets = edge.kind == "perform" ? graph.expandRange(edge.to, edge.thru, paragraph.division) : [graph.getParagraph(edge.to, paragraph.division)];
+                    if (edge.kind == "fallthrough") {
+                        children.push(toFlowLine(targets[0]!.line));
+                        return;
+                    }
+                    if (!this.flowMap.has(edge.line)) {
+                        children.push(toFlowLine(edge.line));
+                        this.flowMap.set(edge.line, []);
+                    }
+                    targets.forEach((target) => {
+                        if (target) {
+                            this.flowMap.get(edge.line)!.push(toFlowLine(target.line));
+                        }
+                    });
+                });
+                this.flowMap.set(paragraph.line, children);
+            });
+            return resolve(this.flowMap);
+        });
+    }
+
 }
@@ -1,12 +1,22 @@
 import ContextOriginFinderInterface from "./ContextOriginFinderInterface";
+import { ControlFlowGraph } from "./ControlFlowGraph";
 
 export default class GotoContextOriginFinder implements ContextOriginFinderInterface {
 
-    identify(_line: number, _buffer: string[]): Promise<number[]> {
-        return new Promise((resolve) => {
-            return resolve([])
+    /**
+     * The GO TO is reached from the paragraph where it's written
+     *
+     * @param line
+     * @param buffer
+     */
+    identify(line: number, buffer: string[]): Promise<number[]> {
+        return new Promise((resolve, reject) => {
+            const paragraph = ControlFlowGraph.of(buffer).findParagraphAt(line);
+            if (!paragraph) {
+                return reject();
+            }
+            return resolve([paragraph.line]);
         });
     }
 
-
-}
\ No newline at end of file
+}
@@ -1,29 +1,29 @@
 import ContextOriginFinderInterface from "./ContextOriginFinderInterface";
-import { CobolReferencesFinder } from "../../lsp/references/CobolReferencesFinder";
+import { ControlFlowGraph } from "./ControlFlowGraph";
 
 export default class ParagraphContextOriginFinder implements ContextOriginFinderInterface {
 
+    /**
+     * The paragraph is reached from the PERFORM and GO TO commands, including the PERFORM THRU
+     * ranges which contain it, and by fall-through from the end of the previous paragraph
+     *
+     * @param line
+     * @param buffer
+     */
     identify(line: number, buffer: string[]): Promise<number[]> {
         return new Promise((resolve, reject) => {
-            const paragraphDeclarationRegex = /^ {7}([\w\-]+)\.(?:\s*\*\>.*)?/gi;
-            let result = new Array()
-            let match = paragraphDeclarationRegex.exec(buffer[line]);
-            let paragraphName;
-            if (match && match[1]) {
-                paragraphName = match[1];
-            } else {
+            const graph = ControlFlowGraph.of(buffer);
+            const paragraph = graph.findParagraphAt(line);
+            if (!paragraph || paragraph.line != line) {
                 return reject();
             }
-            new CobolReferencesFinder(buffer.join("\n")).findReferences(paragraphName).then((positions) => {
-                positions.forEach((p) => {
-                    if (!buffer[p.line].match(paragraphDeclarationRegex)) {
-                        result.push(p.line);
-                    }
-                });
-                return resolve(result);
-            }).catch((e) => {
-                return reject(e);
+            const result: number[] = [];
+            graph.getCallers(paragraph.name).forEach((edge) => {
+                if (!result.includes(edge.line)) {
+                    result.push(edge.line);
+                }
             });
+            return resolve(result);
         });
     }
 }
@@ -1,7 +1,7 @@
 import { TreeDataProvider, EventEmitter, TreeItem, ProviderResult, commands } from "vscode";
 import NodeInterface from "../nodes/NodeInterface";
 import { Event } from "vscode-jsonrpc";
-import Flow from "../../Flow";
+import Flow, { FlowDirection } from "../../Flow";
 import FlowNode from "../nodes/FlowNode";
 import { Editor } from "../../../editor/editor";
 
@@ -11,6 +11,8 @@ import { Editor } from "../../../editor/editor";
 export default class FlowProvider implements TreeDataProvider<NodeInterface> {
 
     private flow: Flow;
+    /** Direction of the flow shown, the callers of the current line or the callees of its paragraph */
+    private direction: FlowDirection = "callers";
 
     /** Controls the TreeData Events */
     private _onDidChangeTreeData: EventEmitter<NodeInterface | undefined> = new EventEmitter<NodeInterface | undefined>();
@@ -22,13 +24,11 @@ export default class FlowProvider implements TreeDataProvider<NodeInterface> {
     constructor(context: any) {
         this.flow = new Flow();
         context.subscriptions.push(commands.registerCommand('rech.editor.cobol.flowparser', () => {
-            this.flow = new Flow();
-            this.refresh();
-            this.flow.findFlow().then(() => {
-                this.refresh();
-            }).catch((e) => {
-                console.log("Error to find flow. " + e);
-            });
+            this.findFlow();
+        }));
+        context.subscriptions.push(commands.registerCommand('rech.editor.cobol.toggleFlowDirection', () => {
+            this.direction = this.direction == "callers" ? "callees" : "callers";
+            this.findFlow();
         }));
         context.subscriptions.push(commands.registerCommand('rech.editor.cobol.gotoFlowLine', (node: FlowNode) => {
             if (!node) return;
@@ -58,10 +58,23 @@ export default class FlowProvider implements TreeDataProvider<NodeInterface> {
         })
     }
 
+    /**
+     * Finds the flow starting from the current line in the current direction
+     */
+    private findFlow() {
+        this.flow = new Flow(this.direction);
+        this.refresh();
+        this.flow.findFlow().then(() => {
+            this.refresh();
+        }).catch((e) => {
+            console.log("Error to find flow. " + e);
+        });
+    }
+
     /**
      * Refresh the treeView
      */
     public refresh(): void {
-        this._onDidChangeTreeData.fire;
+        this._onDidChangeTreeData.fire(undefined);
     }
 }
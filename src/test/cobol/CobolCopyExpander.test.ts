@@ -0,0 +1,58 @@
+import { expect } from 'chai';
+import 'mocha';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CobolCopyExpander } from '../../cobol/CobolCopyExpander';
+import { SearchPathResolver } from '../../commons/SearchPathResolver';
+
+describe('Cobol copy expander', () => {
+
+    const directory = path.join(os.tmpdir(), "cobol-copy-expander-test");
+
+    before(() => {
+        if (!fs.existsSync(directory)) {
+            fs.mkdirSync(directory);
+        }
+        SearchPathResolver.configure([directory]);
+        fs.writeFileSync(path.join(directory, "CLIENTE.CPY"), [
+            "       01  (prefixo)-cliente.",
+            "           05 (prefixo)-codigo    pic is 9(05).",
+            "           copy ENDERECO.CPY.",
+        ].join("\n"));
+        fs.writeFileSync(path.join(directory, "ENDERECO.CPY"), [
+            "           05 w-cidade            pic is x(30).",
+            "           copy CLIENTE.CPY.",
+        ].join("\n"));
+    });
+
+    after(() => {
+        fs.unlinkSync(path.join(directory, "CLIENTE.CPY"));
+        fs.unlinkSync(path.join(directory, "ENDERECO.CPY"));
+        fs.rmdirSync(directory);
+        SearchPathResolver.configure([]);
+    });
+
+    it('Checks the copies expanded recursively with replacing and origin markers', () => {
+        const source = [
+            "       working-storage            section.",
+            "           copy CLIENTE.CPY replacing",
+            "                (prefixo) by w.",
+            "       procedure                  division.",
+        ].join("\n");
+        return new CobolCopyExpander().expand("PROGRAMA.CBL", source).then((expandedSource) => {
+            expect(expandedSource.split("\n")).to.deep.equal([
+                "       working-storage            section.   *>: 0 1",
+                "           copy CLIENTE.CPY replacing   *>: 0 2",
+                "                (prefixo) by w.   *>: 0 3",
+                "       01  w-cliente.   *>: 1 1 CLIENTE.CPY (1)",
+                "           05 w-codigo    pic is 9(05).   *>: 1 2 CLIENTE.CPY (1)",
+                "           copy ENDERECO.CPY.   *>: 1 3 CLIENTE.CPY (1)",
+                "           05 w-cidade            pic is x(30).   *>: 2 1 ENDERECO.CPY (2)",
+                "           copy CLIENTE.CPY.   *>: 2 2 ENDERECO.CPY (2)",
+                "       procedure                  division.   *>: 0 4",
+            ]);
+        });
+    });
+
+});
@@ -0,0 +1,228 @@
+import { expect } from 'chai';
+import 'mocha';
+import { Diagnostic, Range, DiagnosticSeverity, DiagnosticTag } from 'vscode-languageserver';
+import { NativeDiagnostician } from '../../../../cobol/diagnostic/native/NativeDiagnostician';
+
+describe('Native Cobol diagnostics', () => {
+
+    const source = [
+        "       identification             division.",
+        "       program-id.                PROGRAMA.",
+        "       environment                division.",
+        "       configuration              section.",
+        "       special-names.",
+        "           decimal-point is comma.",
+        "       data                       division.",
+        "       working-storage            section.",
+        "       01  w-tipo                 pic is 9(02) value is zeros.",
+        "           88 w-tipo-nota                      value is 1.",
+        "       01  w-nao-usada.",
+        "           05 w-codigo            pic is 9(05).",
+        "       01  w-total                pic is 9(09).",
+        "       procedure                  division.",
+        "       inicio-programa.",
+        "           move 10 to w-tipo",
+        "           if w-tipo-nota",
+        "              if w-total > zeros",
+        "                 display \"total\" w-inexistente",
+        "                 perform calcula-total.",
+        "           evaluate w-tipo",
+        "              when 1",
+        "                 perform paragrafo-inexistente",
+        "           end-evaluate",
+        "           .",
+        "       calcula-total.",
+        "           add 1 to w-total",
+        "           .",
+    ].join("\n");
+
+    it('Checks the undeclared variables and paragraphs', () => {
+        const diagnostics = new NativeDiagnostician(source).diagnose();
+        const undeclaredVariables = diagnostics.filter((diagnostic) => diagnostic.code == "N001");
+        expect(undeclaredVariables.length).to.equal(1);
+        expect(undeclaredVariables[0].message).to.equal("Variable \"w-inexistente\" is not declared");
+        expect(undeclaredVariables[0].range).to.deep.equal(Range.create(18, 33, 18, 46));
+        const undeclaredParagraphs = diagnostics.filter((diagnostic) => diagnostic.code == "N002");
+        expect(undeclaredParagraphs.length).to.equal(1);
+        expect(undeclaredParagraphs[0].range.start.line).to.equal(22);
+        expect(undeclaredParagraphs[0].severity).to.equal(DiagnosticSeverity.Error);
+    });
+
+    it('Checks the unused variables', () => {
+        const diagnostics = new NativeDiagnostician(source).diagnose().filter((diagnostic) => diagnostic.code == "W028");
+        expect(diagnostics.length).to.equal(1);
+        expect(diagnostics[0].range).to.deep.equal(Range.create(10, 11, 10, 22));
+    });
+
+    it('Checks the scope terminators', () => {
+        const diagnostics = new NativeDiagnostician(source).diagnose();
+        expect(diagnostics.filter((diagnostic) => diagnostic.code == "N003").map((diagnostic) => diagnostic.range.start.line)).to.deep.equal([16, 17]);
+        expect(diagnostics.filter((diagnostic) => diagnostic.code == "N004").length).to.equal(0);
+        const periods = diagnostics.filter((diagnostic) => diagnostic.code == "N005");
+        expect(periods.length).to.equal(1);
+        expect(periods[0].range.start).to.deep.equal({ line: 19, character: 38 });
+    });
+
+    it('Checks the rules depending on copies are skipped without the expanded source', () => {
+        const withCopy = source.replace("       01  w-total                pic is 9(09).", "       copy w-total.cpy.");
+        const diagnostics = new NativeDiagnostician(withCopy).diagnose();
+        expect(diagnostics.filter((diagnostic) => diagnostic.code == "N001" || diagnostic.code == "N002" || diagnostic.code == "W028").length).to.equal(0);
+        const expanded = withCopy.replace("       copy w-total.cpy.", "       01  w-total                pic is 9(09).");
+        expect(new NativeDiagnostician(withCopy).diagnose(expanded).filter((diagnostic) => diagnostic.code == "N001").length).to.equal(1);
+    });
+
+    it('Checks the merge with the preprocessor diagnostics', () => {
+        const preprocessor = [Diagnostic.create(Range.create(10, 0, 10, 120), "W028 Variavel nao utilizada", DiagnosticSeverity.Warning, "W028")];
+        const native = new NativeDiagnostician(source).diagnose();
+        const merged = NativeDiagnostician.merge(native, preprocessor);
+        expect(merged.length).to.equal(native.length);
+        expect(merged.filter((diagnostic) => diagnostic.code == "W028")[0].message).to.equal("W028 Variavel nao utilizada");
+    });
+
+    it('Checks the unreachable paragraphs and statements', () => {
+        const unreachable = [
+            "       identification             division.",
+            "       program-id.                PROGRAMA.",
+            "       procedure                  division.",
+            "       declaratives.",
+            "       erro-arquivo section.",
+            "           use after error procedure on arquivo.",
+            "       end declaratives.",
+            "       inicio-programa.",
+            "           perform processa",
+            "           stop run.",
+            "       processa.",
+            "           go to finaliza",
+            "           display \"nao executado\"",
+            "           .",
+            "      *>   Comentario",
+            "       nunca-chamado.",
+            "           display \"nunca\".",
+            "       finaliza.",
+            "           exit.",
+        ].join("\n");
+        const diagnostics = new NativeDiagnostician(unreachable).diagnose();
+        const paragraphs = diagnostics.filter((diagnostic) => diagnostic.code == "N011");
+        expect(paragraphs.map((diagnostic) => diagnostic.range)).to.deep.equal([Range.create(15, 0, 16, 27)]);
+        expect(paragraphs[0].message).to.equal("Paragraph \"nunca-chamado\" is never performed nor reached");
+        expect(paragraphs[0].tags).to.deep.equal([DiagnosticTag.Unnecessary]);
+        const statements = diagnostics.filter((diagnostic) => diagnostic.code == "N012");
+        expect(statements.map((diagnostic) => diagnostic.range)).to.deep.equal([Range.create(12, 11, 12, 34)]);
+        const withCopy = unreachable.replace("           perform processa", "           copy rotinas.cpy.");
+        expect(new NativeDiagnostician(withCopy).diagnose(withCopy).filter((diagnostic) => diagnostic.code == "N011").length).to.equal(0);
+    });
+
+    it('Checks the unreachable paragraphs resolved in each method', () => {
+        const methods = [
+            "       class-id.                  CLASSE.",
+            "       object.",
+            "       procedure                  division.",
+            "       method-id.                 primeiro.",
+            "       procedure                  division.",
+            "           perform carrega",
+            "           goback.",
+            "       carrega.",
+            "           display \"primeiro\".",
+            "       sobra.",
+            "           display \"nunca\".",
+            "       end method.",
+            "       method-id.                 segundo.",
+            "       procedure                  division.",
+            "           perform carrega",
+            "           goback.",
+            "       carrega.",
+            "           display \"segundo\".",
+            "       end method.",
+            "       end object.",
+            "       end class.",
+        ].join("\n");
+        const paragraphs = new NativeDiagnostician(methods).diagnose().filter((diagnostic) => diagnostic.code == "N011");
+        expect(paragraphs.map((diagnostic) => diagnostic.message)).to.deep.equal(["Paragraph \"sobra\" is never performed nor reached"]);
+        expect(paragraphs.map((diagnostic) => diagnostic.range)).to.deep.equal([Range.create(9, 0, 10, 27)]);
+    });
+
+    it('Checks the truncations of MOVE, COMPUTE and ADD', () => {
+        const truncations = [
+            "       identification             division.",
+            "       program-id.                PROGRAMA.",
+            "       data                       division.",
+            "       working-storage            section.",
+            "       01  w-total                pic is 9(09).",
+            "       01  w-codigo               pic is 9(05).",
+            "       01  w-saldo                pic is s9(05)v99.",
+            "       01  w-valor                pic is 9(07).",
+            "       01  w-nome                 pic is x(30).",
+            "       01  w-sigla                pic is x(10).",
+            "       01  w-registro.",
+            "           05 w-chave             pic is 9(05).",
+            "           05 w-descricao         pic is x(15).",
+            "       procedure                  division.",
+            "       inicio-programa.",
+            "           move w-total to w-codigo",
+            "           move w-saldo to w-valor",
+            "           move w-nome to w-codigo w-sigla",
+            "           move w-registro to w-nome",
+            "           move w-nome(1:10) to w-sigla",
+            "           compute w-valor = w-saldo * 2",
+            "           compute w-valor rounded = w-saldo * 2",
+            "           add w-codigo to w-total",
+            "           add w-total to w-codigo.",
+        ].join("\n");
+        const diagnostics = new NativeDiagnostician(truncations).diagnose();
+        const found = (code: string) => diagnostics.filter((diagnostic) => diagnostic.code == code).map((diagnostic) => diagnostic.range.start.line);
+        expect(found("N006")).to.deep.equal([15, 17, 23]);
+        expect(found("N007")).to.deep.equal([16, 20, 21]);
+        expect(found("N008")).to.deep.equal([17]);
+        expect(found("N009")).to.deep.equal([16, 20]);
+        expect(found("N010")).to.deep.equal([18]);
+        const messages = diagnostics.filter((diagnostic) => diagnostic.range.start.line == 15 || diagnostic.range.start.line == 18).map((diagnostic) => diagnostic.message);
+        expect(messages).to.deep.equal([
+            "MOVE truncates \"w-total\" (9 integer digits) into \"w-codigo\" (5 integer digits)",
+            "Group MOVE of \"w-registro\" (20 bytes) into \"w-nome\" (30 bytes) with different sizes",
+        ]);
+        expect(diagnostics.filter((diagnostic) => diagnostic.code == "N009" && diagnostic.range.start.line == 20)[0].message)
+            .to.equal("COMPUTE loses the decimals of \"w-saldo\" (5 integer and 2 decimal digits) into \"w-valor\" (7 integer digits) without ROUNDED");
+        expect(diagnostics.filter((diagnostic) => diagnostic.code == "N006" && diagnostic.range.start.line == 17)[0].range).to.deep.equal(Range.create(17, 35, 17, 42));
+    });
+
+    it('Checks the truncations of edited pictures with the period as decimal point', () => {
+        const edited = [
+            "       identification             division.",
+            "       program-id.                PROGRAMA.",
+            "       data                       division.",
+            "       working-storage            section.",
+            "       01  w-valor                pic is 9(05)v99.",
+            "       01  w-edit                 pic is zz,zz9.99.",
+            "       procedure                  division.",
+            "       inicio-programa.",
+            "           move w-valor to w-edit.",
+        ].join("\n");
+        const diagnostics = new NativeDiagnostician(edited).diagnose();
+        expect(diagnostics.filter((diagnostic) => diagnostic.code == "N006" || diagnostic.code == "N009")).to.deep.equal([]);
+    });
+
+    it('Checks the truncations of edited pictures with DECIMAL-POINT IS COMMA', () => {
+        const edited = [
+            "       identification             division.",
+            "       program-id.                PROGRAMA.",
+            "       environment                division.",
+            "       configuration              section.",
+            "       special-names.",
+            "           decimal-point is comma.",
+            "       data                       division.",
+            "       working-storage            section.",
+            "       01  w-valor                pic is 9(05)v99.",
+            "       01  w-edit                 pic is zz.zz9,99.",
+            "       01  w-period               pic is zz,zz9.99.",
+            "       procedure                  division.",
+            "       inicio-programa.",
+            "           move w-valor to w-edit",
+            "           move w-valor to w-period.",
+        ].join("\n");
+        const diagnostics = new NativeDiagnostician(edited).diagnose();
+        const found = (code: string) => diagnostics.filter((diagnostic) => diagnostic.code == code).map((diagnostic) => diagnostic.range.start.line);
+        expect(found("N006")).to.deep.equal([14]);
+        expect(found("N009")).to.deep.equal([]);
+    });
+
+});
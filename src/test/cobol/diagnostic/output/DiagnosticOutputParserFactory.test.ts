@@ -0,0 +1,71 @@
+import { expect } from 'chai';
+import 'mocha';
+import { DiagnosticOutputParserFactory } from '../../../../cobol/diagnostic/output/DiagnosticOutputParserFactory';
+
+describe('Diagnostic output parsers', () => {
+
+    it('Checks the Rech preprocessor output', () => {
+        const output = [
+            "*** Warning: [W028] Variavel nao utilizada; file = PROGRAMA.CBL, line = 12",
+            "*** Warning: Paragrafo nao declarado; file = COPY.CPY, line = 3 (Erro)",
+            "Preprocessamento concluido",
+        ].join("\n");
+        const diagnostics = DiagnosticOutputParserFactory.create("rech", []).parse(output, "F:\\Fontes\\PROGRAMA.CBL");
+        expect(diagnostics).to.deep.equal([
+            { message: "[W028] Variavel nao utilizada", file: "PROGRAMA.CBL", line: 12, error: false },
+            { message: "Paragrafo nao declarado", file: "COPY.CPY", line: 3, error: true },
+        ]);
+    });
+
+    it('Checks the GnuCOBOL output', () => {
+        const output = [
+            "src/PROGRAMA.cbl:12: error: 'w-total' is not defined",
+            "C:\\fontes\\COPY.cpy:3: warning: redundant PERIOD [-Wothers]",
+            "src/PROGRAMA.cbl:14: note: suggest 'w-tot'",
+        ].join("\n");
+        const diagnostics = DiagnosticOutputParserFactory.create("gnucobol", []).parse(output, "PROGRAMA.cbl");
+        expect(diagnostics).to.deep.equal([
+            { message: "'w-total' is not defined", file: "PROGRAMA.cbl", line: 12, error: true, code: undefined },
+            { message: "redundant PERIOD", file: "COPY.cpy", line: 3, error: false, code: "-Wothers" },
+        ]);
+    });
+
+    it('Checks the Micro Focus output', () => {
+        const output = [
+            "     15     MOVE W-A TO W-B",
+            "*  12-S********************                                    (   0)**",
+            "**    Operand W-B is not declared",
+            "     16     DISPLAY W-A",
+            "*  47-W********************                                    (   0)**",
+            "**    Display statement without UPON",
+        ].join("\n");
+        const diagnostics = DiagnosticOutputParserFactory.create("microfocus", []).parse(output, "F:\\Fontes\\PROGRAMA.CBL");
+        expect(diagnostics).to.deep.equal([
+            { message: "Operand W-B is not declared", file: "PROGRAMA.CBL", line: 15, error: true, code: "12-S" },
+            { message: "Display statement without UPON", file: "PROGRAMA.CBL", line: 16, error: false, code: "47-W" },
+        ]);
+    });
+
+    it('Checks the custom output formats', () => {
+        const customFormats = [{
+            name: "compilador",
+            pattern: "^(\\w+\\.\\w+)\\((\\d+)\\) (E|W)(\\d+): (.*)$",
+            file: 1,
+            line: 2,
+            severity: 3,
+            code: 4,
+            message: 5,
+        }];
+        const output = [
+            "PROGRAMA.CBL(12) E101: Variable not declared",
+            "PROGRAMA.CBL(x) E101: Invalid line",
+            "PROGRAMA.CBL(20) W007: Unused variable",
+        ].join("\n");
+        const diagnostics = DiagnosticOutputParserFactory.create("compilador", customFormats).parse(output, "PROGRAMA.CBL");
+        expect(diagnostics).to.deep.equal([
+            { message: "Variable not declared", file: "PROGRAMA.CBL", line: 12, error: true, code: "101" },
+            { message: "Unused variable", file: "PROGRAMA.CBL", line: 20, error: false, code: "007" },
+        ]);
+    });
+
+});
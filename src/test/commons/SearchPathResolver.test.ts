@@ -0,0 +1,56 @@
+import { expect } from 'chai';
+import 'mocha';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SearchPathResolver } from '../../commons/SearchPathResolver';
+
+describe('Search path resolver', () => {
+
+    const root = path.join(os.tmpdir(), "search-path-resolver-test");
+    const folder = path.join(root, "folder");
+    const copies = path.join(root, "copies");
+
+    before(() => {
+        [root, folder, copies].forEach((directory) => {
+            if (!fs.existsSync(directory)) {
+                fs.mkdirSync(directory);
+            }
+        });
+        fs.writeFileSync(path.join(copies, "CLIENTE.CPY"), "");
+        fs.writeFileSync(path.join(folder, "LOCAL.CPY"), "");
+        process.env.SEARCH_PATH_TEST = root;
+    });
+
+    after(() => {
+        fs.unlinkSync(path.join(copies, "CLIENTE.CPY"));
+        fs.unlinkSync(path.join(folder, "LOCAL.CPY"));
+        [copies, folder, root].forEach((directory) => fs.rmdirSync(directory));
+        delete process.env.SEARCH_PATH_TEST;
+        SearchPathResolver.configure([]);
+    });
+
+    it('Checks the expansion of the variables', () => {
+        expect(SearchPathResolver.expandVariables("${env:SEARCH_PATH_TEST}/a")).to.equal(root + "/a");
+        expect(SearchPathResolver.expandVariables("${SEARCH_PATH_TEST}/a")).to.equal(root + "/a");
+        expect(SearchPathResolver.expandVariables("$SEARCH_PATH_TEST/a")).to.equal(root + "/a");
+        expect(SearchPathResolver.expandVariables("%SEARCH_PATH_TEST%/a")).to.equal(root + "/a");
+        expect(SearchPathResolver.expandVariables("${workspaceFolder}/a", "/ws")).to.equal("/ws/a");
+    });
+
+    it('Checks the files resolved in the directory of the referencing file and in the search path', () => {
+        SearchPathResolver.configure(["${env:SEARCH_PATH_TEST}/inexistente", "$SEARCH_PATH_TEST/copies"]);
+        // The name is also searched in upper and lower case, for case sensitive file systems
+        expect(SearchPathResolver.resolve("cliente.cpy")!.toUpperCase()).to.equal(path.join(copies, "CLIENTE.CPY").toUpperCase());
+        expect(SearchPathResolver.resolve("LOCAL.CPY", path.join(folder, "PROGRAMA.CBL"))).to.equal(path.join(folder, "LOCAL.CPY"));
+        expect(SearchPathResolver.resolve("LOCAL.CPY")).to.equal(undefined);
+    });
+
+    it('Checks the search path overridden by the workspace folder', () => {
+        SearchPathResolver.configure([copies], [{ folder: folder, searchPath: ["${workspaceFolder}"] }]);
+        expect(SearchPathResolver.resolve("CLIENTE.CPY", path.join(folder, "sub", "PROGRAMA.CBL"))).to.equal(undefined);
+        expect(SearchPathResolver.resolve("LOCAL.CPY", path.join(folder, "sub", "PROGRAMA.CBL"))).to.equal(path.join(folder, "LOCAL.CPY"));
+        expect(SearchPathResolver.resolve("CLIENTE.CPY", path.join(root, "PROGRAMA.CBL"))).to.equal(path.join(copies, "CLIENTE.CPY"));
+    });
+
+});
@@ -0,0 +1,64 @@
+import { expect } from 'chai';
+import 'mocha';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CopyUsageIndex } from '../../copyusage/CopyUsageIndex';
+
+describe('Copy usage index', () => {
+
+    const directory = path.join(os.tmpdir(), "copy-usage-index-test");
+    const files = new Map<string, string[]>([
+        ["PROGRAMA.CBL", [
+            "       working-storage            section.",
+            "       copy REGISTRO.CPY replacing ==(PRE)== by ==w-==.",
+            "      *>copy COMENTADO.CPY.",
+            "       COPY OUTRO.CPY.",
+        ]],
+        ["OUTRO.CBL", [
+            "       copy registro.cpy.",
+        ]],
+        ["REGISTRO.CPY", [
+            "       01  (PRE)registro.",
+            "       copy CAMPOS.CPY.",
+        ]],
+    ]);
+
+    before(() => {
+        if (!fs.existsSync(directory)) {
+            fs.mkdirSync(directory);
+        }
+        files.forEach((lines, name) => fs.writeFileSync(path.join(directory, name), lines.join("\n")));
+    });
+
+    after(() => {
+        files.forEach((_lines, name) => fs.unlinkSync(path.join(directory, name)));
+        fs.rmdirSync(directory);
+    });
+
+    it('Checks the COPY statements extracted from the lines', () => {
+        const usages = CopyUsageIndex.extractUsages("PROGRAMA.CBL", files.get("PROGRAMA.CBL")!);
+        expect(usages.map((usage) => usage.copy)).to.deep.equal(["REGISTRO.CPY", "OUTRO.CPY"]);
+        expect(usages[0].line).to.equal(1);
+        expect(Array.from(usages[0].replacings.entries())).to.deep.equal([["==(PRE)==", "==w-=="]]);
+        expect(usages[1].replacings.size).to.equal(0);
+    });
+
+    it('Checks the inclusion hierarchy in both directions', () => {
+        const index = new CopyUsageIndex([directory]);
+        return index.findIncludedBy("REGISTRO.CPY").then((usages) => {
+            expect(usages.map((usage) => path.basename(usage.file)).sort()).to.deep.equal(["OUTRO.CBL", "PROGRAMA.CBL"]);
+            return index.findCopyFile(usages[0]);
+        }).then((file) => {
+            expect(file).to.equal(path.join(directory, "REGISTRO.CPY"));
+            return index.findIncludes(file!);
+        }).then((usages) => {
+            expect(usages.map((usage) => usage.copy)).to.deep.equal(["CAMPOS.CPY"]);
+            index.updateFile(path.join(directory, "OUTRO.CBL"), "       copy CAMPOS.CPY.");
+            return index.findIncludedBy("registro.cpy");
+        }).then((usages) => {
+            expect(usages.map((usage) => path.basename(usage.file))).to.deep.equal(["PROGRAMA.CBL"]);
+        });
+    });
+
+});
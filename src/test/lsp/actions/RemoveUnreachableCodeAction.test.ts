@@ -0,0 +1,36 @@
+import { expect } from 'chai';
+import 'mocha';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { NativeDiagnostician } from '../../../cobol/diagnostic/native/NativeDiagnostician';
+import { RemoveUnreachableCodeAction } from '../../../lsp/actions/RemoveUnreachableCodeAction';
+
+describe('Remove unreachable code action', () => {
+
+    const lines = [
+        "       identification             division.",
+        "       program-id.                PROGRAMA.",
+        "       procedure                  division.",
+        "       p1.",
+        "           go to p2",
+        "           display \"dead\".",
+        "       p2.",
+        "           stop run.",
+    ];
+
+    it('Removes the statements never executed keeping the period which ends the sentence', async () => {
+        const statements = new NativeDiagnostician(lines.join("\n")).diagnose().find((diagnostic) => diagnostic.code == "N012")!;
+        const actions = await new RemoveUnreachableCodeAction(statements.range, "Remove statements never executed").generate("file:///tmp/PROGRAMA.CBL", 5, 11, lines);
+        const document = TextDocument.create("file:///tmp/PROGRAMA.CBL", "COBOL", 1, lines.join("\n"));
+        const result = TextDocument.applyEdits(document, actions[0].edit!.changes!["file:///tmp/PROGRAMA.CBL"]);
+        expect(result.split("\n")).to.deep.equal([
+            "       identification             division.",
+            "       program-id.                PROGRAMA.",
+            "       procedure                  division.",
+            "       p1.",
+            "           go to p2.",
+            "       p2.",
+            "           stop run.",
+        ]);
+    });
+
+});
@@ -0,0 +1,100 @@
+import { expect } from 'chai';
+import 'mocha';
+import { SymbolKind } from 'vscode-languageserver';
+import { CobolCallHierarchyFactory } from '../../../lsp/callhierarchy/CobolCallHierarchyFactory';
+import { PreprocDeclarationFinder } from '../../../lsp/declaration/PreprocDeclarationFinder';
+import { Path } from '../../../commons/path';
+
+describe('Cobol call hierarchy', () => {
+
+    const uri = "file:///F:/Fontes/PROGRAMA.CBL";
+    const buffer = [
+        "       identification division.",
+        "       program-id. PROGRAMA.",
+        "       procedure division.",
+        "           perform inicializa",
+        "           perform processa thru processa-exit",
+        "           stop run.",
+        "       inicializa.",
+        "           move zeros to w-total",
+        "           perform w-vezes times",
+        "           exit.",
+        "       processa.",
+        "           perform inicializa",
+        "           go to processa-exit.",
+        "       processa-exit.",
+        "           copy rotinas.cpy.",
+        "           exit.",
+    ];
+
+    it('Checks the calls between the paragraphs of the source', () => {
+        const factory = new CobolCallHierarchyFactory(uri, buffer);
+        return factory.prepare(6, 9).then((items) => {
+            expect(items.map((item) => [item.name, item.kind, item.selectionRange.start.character])).to.deep.equal([["inicializa", SymbolKind.Function, 7]]);
+            const incoming = factory.incomingCalls(items[0]);
+            expect(incoming.map((call) => [call.from.name, call.fromRanges.map((range) => range.start.line)])).to.deep.equal([
+                ["PROGRAMA", [3]],
+                ["processa", [11]],
+            ]);
+            return factory.prepare(11, 2);
+        }).then((items) => {
+            expect(items.map((item) => item.name)).to.deep.equal(["processa"]);
+            return factory.outgoingCalls(items[0]);
+        }).then((outgoing) => {
+            expect(outgoing.map((call) => [call.to.name, call.fromRanges.map((range) => range.start.character)])).to.deep.equal([
+                ["inicializa", [19]],
+                ["processa-exit", [17]],
+            ]);
+        });
+    });
+
+    it('Checks the calls made inside copies', () => {
+        const expanded = buffer.map((line, index) => line + "   *> 0 " + (index + 1));
+        expanded.splice(14, 1,
+            "       imprime.                          *> 1 1 ROTINAS.CPY (1)",
+            "           perform processa-exit         *> 1 2 ROTINAS.CPY (1)",
+            "           perform inicializa.           *> 1 3 ROTINAS.CPY (1)",
+        );
+        const factory = new CobolCallHierarchyFactory(uri, buffer, expanded);
+        const copyUri = new Path(PreprocDeclarationFinder.getFullPath("ROTINAS.CPY", new Path(uri))).fullPathVscode();
+        return factory.prepare(6, 9).then((items) => {
+            const incoming = factory.incomingCalls(items[0]);
+            expect(incoming.map((call) => [call.from.name, call.from.uri, call.fromRanges.map((range) => range.start.line)])).to.deep.equal([
+                ["PROGRAMA", uri, [3]],
+                ["processa", uri, [11]],
+                ["imprime", copyUri, [2]],
+            ]);
+            return factory.prepare(13, 9);
+        }).then((items) => {
+            return factory.outgoingCalls(items[0]);
+        }).then((outgoing) => {
+            expect(outgoing).to.deep.equal([]);
+            const range = { start: { line: 13, character: 7 }, end: { line: 13, character: 20 } };
+            const incoming = factory.incomingCalls({ name: "processa-exit", kind: SymbolKind.Function, uri: uri, range: range, selectionRange: range });
+            expect(incoming.map((call) => call.from.name)).to.deep.equal(["PROGRAMA", "processa", "imprime"]);
+        });
+    });
+
+    it('Checks the methods invoked in the class', () => {
+        const lines = [
+            "       class-id. Cliente.",
+            "       method-id. valida.",
+            "       procedure division.",
+            "           invoke self:>formata()",
+            "           exit method.",
+            "       end method valida.",
+            "       method-id. formata.",
+            "       procedure division.",
+            "           exit method.",
+            "       end method formata.",
+            "       end class Cliente.",
+        ];
+        const factory = new CobolCallHierarchyFactory("file:///F:/Fontes/CLIENTE.CBL", lines);
+        return factory.prepare(3, 26).then((items) => {
+            expect(items.map((item) => [item.name, item.kind, item.selectionRange.start.line])).to.deep.equal([["formata", SymbolKind.Method, 6]]);
+            const incoming = factory.incomingCalls(items[0]);
+            expect(incoming.map((call) => [call.from.name, call.fromRanges.map((range) => range.start.character)])).to.deep.equal([["valida", [24]]]);
+        });
+    });
+
+});
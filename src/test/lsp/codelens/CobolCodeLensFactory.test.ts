@@ -0,0 +1,67 @@
+import { expect } from 'chai';
+import 'mocha';
+import { CobolCodeLensFactory } from '../../../lsp/codelens/CobolCodeLensFactory';
+import { CobolDocumentModel } from '../../../lsp/model/CobolDocumentModel';
+
+describe('Cobol code lenses', () => {
+
+    const uri = "file:///F:/Fontes/PROGRAMA.CBL";
+    const text = [
+        "       working-storage            section.",
+        "       01  w-total                pic is 9(05).",
+        "       01  w-grupo.",
+        "           03 w-item              pic is 9(05).",
+        "       77  w-sem-uso              pic is x(01).",
+        "       procedure division.",
+        "           perform inicializa",
+        "           perform processa thru finaliza",
+        "           stop run.",
+        "       inicializa.",
+        "           move zeros to w-total w-item",
+        "           exit.",
+        "       processa.",
+        "           add 1 to w-total",
+        "           go to inicializa.",
+        "       finaliza.",
+        "           exit.",
+    ].join("\n");
+
+    it('Checks the elements which have code lenses', () => {
+        const codeLenses = new CobolCodeLensFactory(uri, new CobolDocumentModel(text)).generateCodeLenses();
+        expect(codeLenses.map((codeLens) => [codeLens.data.name, codeLens.range.start.line, codeLens.range.start.character])).to.deep.equal([
+            ["w-total", 1, 11],
+            ["w-grupo", 2, 11],
+            ["w-sem-uso", 4, 11],
+            ["inicializa", 9, 7],
+            ["processa", 12, 7],
+            ["finaliza", 15, 7],
+        ]);
+    });
+
+    it('Checks the reference counts', () => {
+        const model = new CobolDocumentModel(text);
+        const factory = new CobolCodeLensFactory(uri, model);
+        const codeLenses = factory.generateCodeLenses();
+        const finder = model.getReferencesFinder();
+        return Promise.all(codeLenses.map((codeLens) => factory.resolveCodeLens(codeLens))).then((resolved) => {
+            // Every code lens is resolved with the same finder, kept by the model of the source
+            expect(model.getReferencesFinder()).to.equal(finder);
+            expect(resolved.map((codeLens) => codeLens.command!.title)).to.deep.equal([
+                "2 references",
+                "0 references",
+                "0 references",
+                "2 references · 1 PERFORM",
+                "1 reference · 1 PERFORM",
+                "1 reference · 1 PERFORM",
+            ]);
+            const inicializa = resolved[3].command!;
+            expect(inicializa.command).to.equal("rech.editor.cobol.showReferences");
+            expect(inicializa.arguments![0]).to.equal(uri);
+            expect(inicializa.arguments![2].map((location: any) => location.range.start)).to.deep.equal([
+                { line: 6, character: 19 },
+                { line: 14, character: 17 },
+            ]);
+        });
+    });
+
+});
@@ -0,0 +1,110 @@
+import { expect } from 'chai';
+import 'mocha';
+import { CobolPicture, Usage } from '../../../lsp/completion/CobolPicture';
+import { CobolVariable } from '../../../lsp/completion/CobolVariable';
+
+/**
+ * Returns the size in bytes of the variable declared in the first line
+ *
+ * @param lines
+ */
+function sizeOf(...lines: string[]): number {
+    return CobolVariable.parseLines(0, lines).getByteSize();
+}
+
+describe('Cobol picture and usage model', () => {
+
+    it('Checks the usages declared', () => {
+        expect(CobolPicture.extractUsage("05 w-var pic 9(05) comp.")).to.equal(Usage.Binary);
+        expect(CobolPicture.extractUsage("05 w-var pic 9(05) usage is computational-4.")).to.equal(Usage.Binary);
+        expect(CobolPicture.extractUsage("05 w-var pic 9(05) binary.")).to.equal(Usage.Binary);
+        expect(CobolPicture.extractUsage("05 w-var pic 9(05) comp-3.")).to.equal(Usage.PackedDecimal);
+        expect(CobolPicture.extractUsage("05 w-var pic 9(05) packed-decimal.")).to.equal(Usage.PackedDecimal);
+        expect(CobolPicture.extractUsage("05 w-var pic 9(05) comp-5.")).to.equal(Usage.NativeBinary);
+        expect(CobolPicture.extractUsage("05 w-var pic x(04) comp-x.")).to.equal(Usage.CompX);
+        expect(CobolPicture.extractUsage("05 w-var usage pointer.")).to.equal(Usage.Pointer);
+        expect(CobolPicture.extractUsage("05 w-comp-total pic 9(05).")).to.equal(undefined);
+        expect(CobolPicture.extractUsage("05 w-var occurs 10 times indexed by w-idx.")).to.equal(undefined);
+    });
+
+    it('Checks the size of display and edited pictures', () => {
+        expect(sizeOf("       05 w-var pic is s9(05)v99.")).to.equal(7);
+        expect(sizeOf("       05 w-var pic is s9(05)v99 sign is leading separate character.")).to.equal(8);
+        expect(sizeOf("       05 w-var pic is s9(05)v99 sign trailing separate.")).to.equal(8);
+        expect(sizeOf("       05 w-var pic is zzz.zz9,99.")).to.equal(10);
+        expect(sizeOf("       05 w-var pic is ***9,99cr.")).to.equal(9);
+        expect(sizeOf("       05 w-var pic is $$$9,99db.")).to.equal(9);
+        expect(sizeOf("       05 w-var pic is 99/99/9999.")).to.equal(10);
+        expect(sizeOf("       05 w-var pic is 999b999b000.")).to.equal(11);
+        expect(sizeOf("       05 w-var pic is 999ppp.")).to.equal(3);
+        expect(sizeOf("       05 w-var pic is vppp99.")).to.equal(2);
+        expect(sizeOf("       05 w-var pic is x(10).")).to.equal(10);
+    });
+
+    it('Checks the size of the binary, packed, floating and pointer usages', () => {
+        expect(sizeOf("       05 w-var pic is s9(07)v99 comp-3.")).to.equal(5);
+        expect(sizeOf("       05 w-var pic is 9(08) packed-decimal.")).to.equal(5);
+        expect(sizeOf("       05 w-var pic is 9(08) comp-6.")).to.equal(4);
+        expect(sizeOf("       05 w-var pic is s9(04) binary.")).to.equal(2);
+        expect(sizeOf("       05 w-var pic is s9(09) comp-5.")).to.equal(4);
+        expect(sizeOf("       05 w-var pic is s9(18) comp.")).to.equal(8);
+        expect(sizeOf("       05 w-var pic is 9(05) comp-x.")).to.equal(3);
+        expect(sizeOf("       05 w-var pic is x(04) comp-x.")).to.equal(4);
+        expect(sizeOf("       05 w-var comp-1.")).to.equal(4);
+        expect(sizeOf("       05 w-var usage is comp-2.")).to.equal(8);
+        expect(sizeOf("       05 w-var usage pointer.")).to.equal(4);
+        expect(sizeOf("       05 w-var index.")).to.equal(4);
+    });
+
+    it('Checks the size of national items', () => {
+        expect(sizeOf("       05 w-var pic is n(10).")).to.equal(20);
+        expect(sizeOf("       05 w-var pic is 9(05) usage national.")).to.equal(10);
+    });
+
+    it('Checks the size of groups with usage, occurs and occurs depending on', () => {
+        expect(sizeOf(
+            "       01  w-grupo                comp-3.",
+            "           05 w-valor             pic is s9(07)v99.",
+            "           05 w-quantidade        pic is 9(05).",
+            "           05 w-display           pic is 9(05) display.",
+            "           05 w-tabela            occurs 1 to 10 times depending on w-quantidade.",
+            "              10 w-item           pic is 9(03).",
+            "                 88 w-item-zero   value 0.",
+        )).to.equal(5 + 3 + 5 + 10 * 2);
+        expect(sizeOf(
+            "       01  w-tabela               occurs 5.",
+            "           05 w-item              pic is x(02).",
+        )).to.equal(10);
+    });
+
+    it('Checks the digits and scale', () => {
+        const scaledRight = CobolVariable.parseLines(0, ["       05 w-var pic is 999ppp."]);
+        expect(scaledRight.getIntegerDigits()).to.equal(6);
+        expect(scaledRight.getDecimalDigits()).to.equal(0);
+        expect(scaledRight.getScale()).to.equal(-3);
+        const scaledLeft = CobolVariable.parseLines(0, ["       05 w-var pic is ppp99."]);
+        expect(scaledLeft.getIntegerDigits()).to.equal(0);
+        expect(scaledLeft.getDecimalDigits()).to.equal(5);
+        expect(scaledLeft.getScale()).to.equal(5);
+        const decimal = CobolVariable.parseLines(0, ["       05 w-var pic is s9(07)v99 comp-3."]);
+        expect(decimal.getScale()).to.equal(2);
+        expect(decimal.getUsage()).to.equal(Usage.PackedDecimal);
+        const picture = new CobolPicture("-zz9,99", Usage.Display, false);
+        expect(picture.isEdited()).to.equal(true);
+        expect(picture.isSigned()).to.equal(true);
+        expect(picture.getDigits()).to.equal(5);
+    });
+
+    it('Checks the decimal point of the edited pictures', () => {
+        const period = new CobolPicture("zz,zz9.99", Usage.Display, false);
+        expect(period.getIntegerDigits()).to.equal(5);
+        expect(period.getDecimalDigits()).to.equal(2);
+        expect(period.getScale()).to.equal(2);
+        const comma = new CobolPicture("zz.zz9,99", Usage.Display, false);
+        expect(comma.getIntegerDigits(true)).to.equal(5);
+        expect(comma.getDecimalDigits(true)).to.equal(2);
+        expect(comma.getScale(true)).to.equal(2);
+        expect(comma.getIntegerDigits()).to.equal(2);
+    });
+
+});
@@ -430,4 +430,14 @@ describe('Cobol variable get length test', () => {
         const valiable = CobolVariable.parseLines(line, lines);
         expect(30).to.equal(valiable.getByteSize());
     });
-});
\ No newline at end of file
+    it('Check integer and decimal digits of variables', () => {
+        const decimal = CobolVariable.parseLines(0, ["           05 w-var               pic is s9(07)v99 comp-3."]);
+        expect(7).to.equal(decimal.getIntegerDigits());
+        expect(2).to.equal(decimal.getDecimalDigits());
+        const edited = CobolVariable.parseLines(0, ["           05 w-var               pic is zz.zz9,999."]);
+        expect(5).to.equal(edited.getIntegerDigits(true));
+        expect(3).to.equal(edited.getDecimalDigits(true));
+        const alphanumeric = CobolVariable.parseLines(0, ["           05 w-var               pic is x(10)."]);
+        expect(0).to.equal(alphanumeric.getIntegerDigits());
+    });
+});
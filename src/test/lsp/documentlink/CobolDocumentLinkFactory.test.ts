@@ -0,0 +1,51 @@
+import { expect } from 'chai';
+import 'mocha';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Range } from 'vscode-languageserver';
+import { CobolDocumentLinkFactory } from '../../../lsp/documentlink/CobolDocumentLinkFactory';
+import { CobolCopy } from '../../../cobol/CobolCopy';
+import { SearchPathResolver } from '../../../commons/SearchPathResolver';
+
+describe('Cobol document links', () => {
+
+    const directory = path.join(os.tmpdir(), "cobol-document-link-test");
+
+    before(() => {
+        if (!fs.existsSync(directory)) {
+            fs.mkdirSync(directory);
+        }
+        fs.writeFileSync(path.join(directory, "CLIENTE.CPY"), [
+            "      *>/**",
+            "      *> Registro do cliente",
+            "      *>*/",
+            "      *>-> Codigo do cliente",
+            "       01  w-cliente              pic is 9(05).",
+        ].join("\n"));
+        SearchPathResolver.configure([directory]);
+        CobolCopy.setCommentExtractor(undefined);
+    });
+
+    after(() => {
+        fs.unlinkSync(path.join(directory, "CLIENTE.CPY"));
+        fs.rmdirSync(directory);
+        SearchPathResolver.configure([]);
+    });
+
+    it('Checks the links of the copies found', () => {
+        const lines = [
+            "       working-storage            section.",
+            "       COPY CLIENTE.CPY.",
+            "      *>copy CLIENTE.CPY.",
+            "       copy inexistente.cpy.",
+        ];
+        return new CobolDocumentLinkFactory("PROGRAMA.CBL", lines).generateDocumentLinks().then((links) => {
+            expect(links.length).to.equal(1);
+            expect(links[0].range).to.deep.equal(Range.create(1, 12, 1, 23));
+            expect(links[0].target!.endsWith("/CLIENTE.CPY")).to.equal(true);
+            expect(links[0].tooltip).to.equal("Registro do cliente");
+        });
+    });
+
+});
@@ -0,0 +1,85 @@
+import { expect } from 'chai';
+import 'mocha';
+import { FoldingRange } from 'vscode-languageserver';
+import { CobolFoldFactory } from '../../../lsp/fold/cobolFoldFactory';
+import { CobolDocumentModel } from '../../../lsp/model/CobolDocumentModel';
+
+/**
+ * Returns the lines and the kind of the folding ranges, sorted by the start line
+ *
+ * @param ranges
+ */
+function summary(ranges: FoldingRange[]): (number | string | undefined)[][] {
+  return ranges
+    .map((range) => [range.startLine, range.endLine, range.kind])
+    .sort((a, b) => (a[0] as number) - (b[0] as number) || (b[1] as number) - (a[1] as number));
+}
+
+describe('Cobol folding', () => {
+
+  const lines = [
+    "      *>-> Programa de teste",
+    "      *>-> do folding",
+    "       working-storage section.",
+    "       01  w-registro.",
+    "           05 w-grupo.",
+    "              10 w-campo          pic is x(01).",
+    "                 88 w-campo-ok    value is \"S\".",
+    "           05 w-outro             pic is 9(02).",
+    "       77  w-contador             pic is 9(02).",
+    "       procedure                  division.",
+    "       meu-paragrafo.",
+    "           if w-campo-ok and",
+    "              w-outro = 1",
+    "              move 1 to w-outro,",
+    "           else",
+    "              evaluate w-outro",
+    "                 when 1",
+    "                    perform until w-contador > 10",
+    "                       add 1 to w-contador,",
+    "                    end-perform,",
+    "                 when other",
+    "                    continue,",
+    "              end-evaluate,",
+    "           end-if.",
+    "      *>-> Documentacao do paragrafo",
+    "       outro-paragrafo.",
+    "           exit.",
+  ];
+
+  it('Checks the folding of the declarations, blocks and comments', () => {
+    const ranges = new CobolFoldFactory().breakBlocks(new CobolDocumentModel(lines.join("\n")));
+    expect(summary(ranges)).to.deep.equal([
+      [0, 1, "comment"],
+      [2, 8, "region"],
+      [3, 7, undefined],
+      [4, 6, undefined],
+      [5, 6, undefined],
+      [9, 26, "region"],
+      [10, 23, undefined],
+      [12, 13, undefined],
+      [14, 22, undefined],
+      [15, 21, undefined],
+      [16, 19, undefined],
+      [17, 18, undefined],
+      [20, 21, undefined],
+      [25, 26, undefined],
+    ]);
+  });
+
+  it('Checks the folding cache and the folding of large documents', () => {
+    const body = [];
+    for (let i = 0; i < 20000; i++) {
+      body.push("              move " + i + " to w-outro,");
+    }
+    const largeLines = lines.slice(0, 14).concat(body, lines.slice(14));
+    const model = new CobolDocumentModel(largeLines.join("\n"), 1);
+    const ranges = new CobolFoldFactory().fold("file:///teste.cbl", model);
+    expect(summary(ranges)).to.deep.include([12, 20013, undefined]);
+    expect(new CobolFoldFactory().fold("file:///teste.cbl", model)).to.equal(ranges);
+    model.update([{ range: { start: { line: 14, character: 0 }, end: { line: 20014, character: 0 } }, text: "" }], 2);
+    expect(summary(new CobolFoldFactory().fold("file:///teste.cbl", model))).to.deep.equal(summary(new CobolFoldFactory().breakBlocks(new CobolDocumentModel(lines.join("\n")))));
+    CobolFoldFactory.foldingCache.delete("file:///teste.cbl");
+  });
+
+});
@@ -0,0 +1,144 @@
+import { expect } from 'chai';
+import 'mocha';
+import { TextEdit } from 'vscode-languageserver';
+import { CobolDocumentFormatter } from '../../../lsp/formatter/CobolDocumentFormatter';
+
+/**
+ * Applies the edits to the lines
+ *
+ * @param lines
+ * @param edits
+ */
+function apply(lines: string[], edits: TextEdit[]): string[] {
+  const result = lines.slice();
+  edits.forEach((edit) => {
+    result[edit.range.start.line] = edit.newText;
+  });
+  return result;
+}
+
+describe('Cobol document formatter', () => {
+
+  it('Checks the indentation of the blocks and the scope terminators', () => {
+    const lines = [
+      "       procedure                   division.",
+      "       meu-paragrafo section.",
+      "           if w-condicao",
+      "           and w-outra-condicao",
+      "           move 1 to w-var,",
+      "           else",
+      "           evaluate w-var",
+      "           when 1",
+      "           perform until w-fim",
+      "           add 1",
+      "            to w-var,",
+      "           end-perform",
+      "           when other",
+      "           display w-var,",
+      "           end-evaluate",
+      "             end-if.",
+      "           move 2 to w-var.",
+    ];
+    expect(apply(lines, new CobolDocumentFormatter(lines).formatDocument())).to.deep.equal([
+      "       procedure                   division.",
+      "       meu-paragrafo section.",
+      "           if w-condicao",
+      "           and w-outra-condicao",
+      "              move 1 to w-var,",
+      "           else,",
+      "              evaluate w-var",
+      "                 when 1",
+      "                    perform until w-fim",
+      "                       add 1",
+      "                        to w-var,",
+      "                    end-perform,",
+      "                 when other",
+      "                    display w-var,",
+      "              end-evaluate,",
+      "           end-if.",
+      "           move 2 to w-var.",
+    ]);
+  });
+
+  it('Checks the try and catch blocks and the formatted range', () => {
+    const lines = [
+      "       PROCEDURE DIVISION.",
+      "       PARAGRAFO.",
+      "           TRY",
+      "           INVOKE W-OBJ \"metodo\",",
+      "              CATCH W-EXCEPTION",
+      "           DISPLAY W-EXCEPTION,",
+      "           END-TRY",
+      "           PERFORM OUTRO-PARAGRAFO,",
+      "           EXIT.",
+    ];
+    const formatter = new CobolDocumentFormatter(lines);
+    expect(apply(lines, formatter.formatDocument())).to.deep.equal([
+      "       PROCEDURE DIVISION.",
+      "       PARAGRAFO.",
+      "           TRY",
+      "              INVOKE W-OBJ \"metodo\",",
+      "           CATCH W-EXCEPTION",
+      "              DISPLAY W-EXCEPTION,",
+      "           END-TRY.",
+      "           PERFORM OUTRO-PARAGRAFO,",
+      "           EXIT.",
+    ]);
+    expect(formatter.formatRange({ start: { line: 4, character: 0 }, end: { line: 5, character: 0 } }).map((edit) => edit.newText)).to.deep.equal([
+      "           CATCH W-EXCEPTION",
+    ]);
+  });
+
+  it('Checks the nested blocks opened by the else if', () => {
+    const lines = [
+      "       procedure                   division.",
+      "       meu-paragrafo.",
+      "           if w-var = 1",
+      "           move 1 to w-outra,",
+      "           else if w-var = 2",
+      "           move 2 to w-outra,",
+      "           else",
+      "           perform 3 times",
+      "           add 1 to w-outra,",
+      "           end-perform,",
+      "           end-if,",
+      "           end-if.",
+    ];
+    expect(apply(lines, new CobolDocumentFormatter(lines).formatDocument())).to.deep.equal([
+      "       procedure                   division.",
+      "       meu-paragrafo.",
+      "           if w-var = 1",
+      "              move 1 to w-outra,",
+      "           else if w-var = 2",
+      "              move 2 to w-outra,",
+      "           else,",
+      "              perform 3 times",
+      "                 add 1 to w-outra,",
+      "              end-perform,",
+      "           end-if,",
+      "           end-if.",
+    ]);
+  });
+
+  it('Checks the alignment of the PIC and VALUE clauses to the tabstops', () => {
+    const lines = [
+      "       working-storage section.",
+      "       01  w-registro.",
+      "           05 w-nome pic is x(10) value is spaces.",
+      "           05 w-nome-muito-grande-da-variavel  pic is 9(02)   value is zeros.",
+      "              88 w-nome-valido value is \"S\".",
+      "       procedure division.",
+    ];
+    expect(apply(lines, new CobolDocumentFormatter(lines).formatDocument())).to.deep.equal([
+      "       working-storage section.",
+      "       01  w-registro.",
+      "           05 w-nome              pic is x(10)    value is spaces.",
+      "           05 w-nome-muito-grande-da-variavel pic is 9(02) value is zeros.",
+      "              88 w-nome-valido                    value is \"S\".",
+      "       procedure division.",
+    ]);
+    expect(apply(lines, new CobolDocumentFormatter(lines, [0, 7, 11, 39, 59]).formatDocument())[2]).to.equal(
+      "           05 w-nome                   pic is x(10)        value is spaces.");
+  });
+
+});
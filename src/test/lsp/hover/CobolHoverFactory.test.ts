@@ -0,0 +1,56 @@
+import { expect } from 'chai';
+import 'mocha';
+import { MarkupContent } from 'vscode-languageserver';
+import { CobolHoverFactory } from '../../../lsp/hover/CobolHoverFactory';
+
+const buffer = [
+    "       data                       division.",
+    "       working-storage            section.",
+    "      *>-> Tipo do documento",
+    "       01  w-tipo                 pic is 9(02) value is zeros.",
+    "           88 w-tipo-nota                      value is 1.",
+    "           88 w-tipo-pedido                    value is 2.",
+    "       procedure                  division.",
+    "      *>-> Calcula o total do documento",
+    "      *>",
+    "      *>@param w-tipo",
+    "       calcula-total              section.",
+    "       calcula-total.",
+    "           move 1 to w-tipo",
+    "           perform calcula-total",
+    "           .",
+].join("\n");
+
+describe('Cobol hover', () => {
+
+    it('Checks the hover of a variable', async () => {
+        const hover = await new CobolHoverFactory("file:///tmp/HOVER.CBL", buffer).generateHover("w-tipo", 12, 23);
+        const markdown = (<MarkupContent>hover!.contents).value;
+        expect(markdown).to.contain("**Level:** 01");
+        expect(markdown).to.contain("**Picture:** `9(02)`");
+        expect(markdown).to.contain("**Size:** 2 bytes");
+        expect(markdown).to.contain("**Section:** working-storage");
+        expect(markdown).to.contain("Tipo do documento");
+        expect(markdown).to.contain("* `w-tipo-nota` = 1");
+        expect(markdown).to.contain("* `w-tipo-pedido` = 2");
+        expect(hover!.range!.start.character).to.equal(21);
+        expect(hover!.range!.end.character).to.equal(27);
+    });
+
+    it('Checks the hover of a paragraph', async () => {
+        const hover = await new CobolHoverFactory("file:///tmp/HOVER.CBL", buffer).generateHover("calcula-total", 13, 22);
+        const markdown = (<MarkupContent>hover!.contents).value;
+        expect(markdown).to.contain("calcula-total.");
+    });
+
+    it('Checks that an empty word has no hover', async () => {
+        const hover = await new CobolHoverFactory("file:///tmp/HOVER.CBL", buffer).generateHover("", 12, 0);
+        expect(hover).to.equal(undefined);
+    });
+
+    it('Checks that keywords and numbers have no hover', async () => {
+        expect(await new CobolHoverFactory("file:///tmp/HOVER.CBL", buffer).generateHover("move", 12, 12)).to.equal(undefined);
+        expect(await new CobolHoverFactory("file:///tmp/HOVER.CBL", buffer).generateHover("1", 12, 16)).to.equal(undefined);
+    });
+
+});
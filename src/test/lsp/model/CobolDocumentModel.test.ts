@@ -0,0 +1,83 @@
+import { expect } from 'chai';
+import 'mocha';
+import { CobolDocumentModel } from '../../../lsp/model/CobolDocumentModel';
+import { RechPosition } from '../../../commons/rechposition';
+
+describe('Cobol document model', () => {
+
+    const lines = [
+        "       working-storage section.",
+        "       01  w-var                  pic is x(01).",
+        "       copy      copy-teste.cpy.",
+        "       procedure                  division.",
+        "       meu-paragrafo.",
+        "           if w-var = \"S\"",
+        "              evaluate w-var",
+        "                 when \"A\"",
+        "                    perform until w-var = \"B\"",
+        "                       move \"B\" to w-var,",
+        "                    end-perform,",
+        "                 when other",
+        "                    continue,",
+        "              end-evaluate,",
+        "           else if w-var = \"N\"",
+        "              move \"S\" to w-var,",
+        "           end-if,",
+        "           end-if.",
+        "           perform outro-paragrafo.",
+        "       outro-paragrafo.",
+        "           exit.",
+    ];
+
+    it('Checks the indexes and blocks of the document', () => {
+        const model = new CobolDocumentModel(lines.join("\r\n"));
+        expect(model.getLines()).to.deep.equal(lines);
+        expect(Array.from(model.getParagraphs().entries())).to.deep.equal([["meu-paragrafo", 4], ["outro-paragrafo", 19]]);
+        expect(Array.from(model.getVariables().entries())).to.deep.equal([["w-var", [1]]]);
+        expect(model.getCopies()).to.deep.equal([{ name: "copy-teste", line: 2 }]);
+        expect(model.getBlocks().map((block) => [block.clause, block.startLine, block.clauseLines, block.endLine])).to.deep.equal([
+            ["if", 5, [14], 17],
+            ["evaluate", 6, [7, 11], 13],
+            ["perform", 8, [], 10],
+            ["if", 14, [], 16],
+        ]);
+        expect(model.findBlock(14, "if", "else")!.startLine).to.equal(5);
+        expect(model.findBlock(14, "if")!.startLine).to.equal(14);
+        expect(model.findBlock(11, "evaluate", "when")!.endLine).to.equal(13);
+        expect(model.findDeclaration("outro-paragrafo", 18)).to.deep.equal(new RechPosition(19, 7));
+        expect(model.findDeclaration("w-var", 9)).to.deep.equal(new RechPosition(1, 11));
+    });
+
+    it('Checks the model updated with incremental changes', () => {
+        const model = new CobolDocumentModel(lines.join("\n"), 1);
+        model.update([
+            { range: { start: { line: 1, character: 11 }, end: { line: 1, character: 16 } }, text: "w-outra" },
+            { range: { start: { line: 15, character: 0 }, end: { line: 16, character: 0 } }, text: "" },
+            { range: { start: { line: 14, character: 36 }, end: { line: 14, character: 36 } }, text: "\n              continue,\n              move \"S\" to w-outra," },
+        ], 2);
+        const expected = lines.slice();
+        expected[1] = "       01  w-outra                  pic is x(01).";
+        expected.splice(15, 1, "              continue,", "              move \"S\" to w-outra,");
+        expect(model.getVersion()).to.equal(2);
+        expect(model.getLines()).to.deep.equal(expected);
+        expect(Array.from(model.getVariables().keys())).to.deep.equal(["w-outra"]);
+        expect(model.getBlocks()).to.deep.equal(new CobolDocumentModel(expected.join("\n")).getBlocks());
+        expect(model.findBlock(17, "if", "end-if")!.startLine).to.equal(14);
+        model.update([{ text: "       paragrafo." }], 3);
+        expect(model.getLines()).to.deep.equal(["       paragrafo."]);
+        expect(Array.from(model.getParagraphs().keys())).to.deep.equal(["paragrafo"]);
+    });
+
+    it('Checks the finder of the references kept until the document changes', () => {
+        const model = new CobolDocumentModel(lines.join("\n"), 1);
+        const finder = model.getReferencesFinder();
+        expect(model.getReferencesFinder()).to.equal(finder);
+        expect(finder.findReferencesAt(1, 12).map((reference) => [reference.line, reference.access])).to.deep.equal([
+            [1, "declaration"], [5, "read"], [6, "read"], [8, "read"], [9, "write"], [14, "read"], [15, "write"],
+        ]);
+        expect(model.getReferencesFinder("")).to.not.equal(finder);
+        model.update([{ range: { start: { line: 1, character: 11 }, end: { line: 1, character: 16 } }, text: "w-outra" }], 2);
+        expect(model.getReferencesFinder("")).to.not.equal(finder);
+    });
+
+});
@@ -0,0 +1,149 @@
+import { expect } from 'chai';
+import 'mocha';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CobolReferencesFinder, CobolReference } from '../../../lsp/references/CobolReferencesFinder';
+import { SearchPathResolver } from '../../../commons/SearchPathResolver';
+
+describe('Cobol references', () => {
+
+    const directory = path.join(os.tmpdir(), "cobol-references-finder-test");
+
+    before(() => {
+        if (!fs.existsSync(directory)) {
+            fs.mkdirSync(directory);
+        }
+        SearchPathResolver.configure([directory]);
+        fs.writeFileSync(path.join(directory, "CAMPOS.CPY"), [
+            "           05 (prefixo)-chave     pic is 9(05).",
+            "           05 w-codigo            pic is 9(05).",
+            "           05 w-alterado          pic is 9(05).",
+        ].join("\n"));
+    });
+
+    after(() => {
+        fs.unlinkSync(path.join(directory, "CAMPOS.CPY"));
+        fs.rmdirSync(directory);
+        SearchPathResolver.configure([]);
+    });
+
+    const source = [
+        "       class-id.                  Programa.",
+        "       object.",
+        "       data                       division.",
+        "       working-storage            section.",
+        "       01  w-cliente.",
+        "           05 w-codigo            pic is 9(05).",
+        "       01  w-fornecedor.",
+        "           05 w-codigo            pic is 9(05).",
+        "       01  w-indice               pic is 9(02).",
+        "       procedure                  division.",
+        "       method-id.                 calcula.",
+        "       local-storage              section.",
+        "       01  w-indice               pic is 9(02).",
+        "       procedure                  division.",
+        "      *>   move zeros to w-codigo of w-cliente",
+        "           move w-codigo of w-fornecedor to w-codigo of w-cliente",
+        "           display \"w-codigo\" w-codigo in w-cliente",
+        "           add 1 to w-indice",
+        "           compute w-indice = w-indice + 1",
+        "           exit method.",
+        "       end method.",
+        "       method-id.                 inicializa.",
+        "       procedure                  division.",
+        "           initialize w-indice",
+        "           inspect w-indice replacing all \"0\" by \"1\"",
+        "           add w-indice to w-indice giving w-indice",
+        "           exit method.",
+        "       end method.",
+    ].join("\n");
+
+    it('Checks the qualified references, ignoring comments and literals', () => {
+        const references = new CobolReferencesFinder(source).findReferencesAt(15, 49);
+        expect(references.map((reference) => [reference.line, reference.column, reference.length, reference.access])).to.deep.equal([
+            [5, 14, 8, "declaration"],
+            [15, 44, 8, "write"],
+            [16, 30, 8, "read"],
+        ]);
+        const fornecedor = new CobolReferencesFinder(source).findReferencesAt(7, 15);
+        expect(fornecedor.map((reference) => [reference.line, reference.access])).to.deep.equal([[7, "declaration"], [15, "read"]]);
+    });
+
+    it('Checks the local and global scopes with the kind of access', () => {
+        const local = new CobolReferencesFinder(source).findReferencesAt(17, 20);
+        expect(local.map((reference) => [reference.line, reference.column, reference.access])).to.deep.equal([
+            [12, 11, "declaration"],
+            [17, 20, "write"],
+            [18, 19, "write"],
+            [18, 30, "read"],
+        ]);
+        const global = new CobolReferencesFinder(source).findReferencesAt(8, 12);
+        expect(global.map((reference) => [reference.line, reference.column, reference.access])).to.deep.equal([
+            [8, 11, "declaration"],
+            [23, 22, "write"],
+            [24, 19, "write"],
+            [25, 15, "read"],
+            [25, 27, "read"],
+            [25, 43, "write"],
+        ]);
+    });
+
+    it('Checks the declarations and references inside copies of the expanded source', () => {
+        const withCopy = [
+            "       data                       division.",
+            "       working-storage            section.",
+            "       01  w-registro.",
+            "           copy CAMPOS.CPY replacing ==(prefixo)== by ==w==.",
+            "       procedure                  division.",
+            "           move 1 to w-chave of w-registro.",
+            "           move 1 to w-inexistente.",
+        ];
+        const expanded = [
+            "       data                       division.   *>: 0 1",
+            "       working-storage            section.   *>: 0 2",
+            "       01  w-registro.   *>: 0 3",
+            "           copy CAMPOS.CPY replacing ==(prefixo)== by ==w==.   *>: 0 4",
+            "           05 w-chave             pic is 9(05).   *>: 1 1 CAMPOS.CPY (1)",
+            "       procedure                  division.   *>: 0 5",
+            "           move 1 to w-chave of w-registro.   *>: 0 6",
+            "           move 1 to w-inexistente.   *>: 0 7",
+        ];
+        const references = new CobolReferencesFinder(withCopy.join("\n"), expanded.join("\n")).findReferencesAt(5, 22);
+        expect(references.map((reference) => [reference.line, reference.access])).to.deep.equal([[5, "write"]]);
+        const text = new CobolReferencesFinder(withCopy.join("\n"), expanded.join("\n")).findReferencesAt(6, 22);
+        expect(text.map((reference) => [reference.line, reference.column, reference.access])).to.deep.equal([[6, 21, "text"]]);
+        const stale = new CobolReferencesFinder(withCopy.concat(["           exit."]).join("\n"), expanded.join("\n")).findReferencesAt(5, 22);
+        expect(stale.map((reference) => reference.access)).to.deep.equal(["text"]);
+    });
+
+    it('Checks the columns of the references inside copies, before the replacing', () => {
+        const withCopy = [
+            "       data                       division.",
+            "       working-storage            section.",
+            "       01  w-registro.",
+            "           copy CAMPOS.CPY replacing ==(prefixo)== by ==w==.",
+            "       procedure                  division.",
+            "           move w-codigo to w-chave w-alterado.",
+        ];
+        const expanded = [
+            "       data                       division.   *>: 0 1",
+            "       working-storage            section.   *>: 0 2",
+            "       01  w-registro.   *>: 0 3",
+            "           copy CAMPOS.CPY replacing ==(prefixo)== by ==w==.   *>: 0 4",
+            "           05 w-chave     pic is 9(05).   *>: 1 1 CAMPOS.CPY (1)",
+            "           05 w-codigo            pic is 9(05).   *>: 1 2 CAMPOS.CPY (1)",
+            "           05 w-outro-nome w-alterado pic is 9(05).   *>: 1 3 CAMPOS.CPY (1)",
+            "       procedure                  division.   *>: 0 5",
+            "           move w-codigo to w-chave w-alterado.   *>: 0 6",
+        ];
+        const finder = new CobolReferencesFinder(withCopy.join("\n"), expanded.join("\n"), path.join(directory, "PROGRAMA.CBL"));
+        const inCopy = (references: CobolReference[]) => references.filter((reference) => reference.file).map((reference) => [reference.line, reference.column, reference.length]);
+        // The word replaced by the COPY statement is located in the text of the copy
+        expect(inCopy(finder.findReferencesAt(5, 29))).to.deep.equal([[0, 14, 15]]);
+        expect(inCopy(finder.findReferencesAt(5, 17))).to.deep.equal([[1, 14, 8]]);
+        // The copy line which doesn't match the expanded line is skipped
+        expect(inCopy(finder.findReferencesAt(5, 37))).to.deep.equal([]);
+    });
+
+});
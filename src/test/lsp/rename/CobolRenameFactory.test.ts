@@ -0,0 +1,92 @@
+import { expect } from 'chai';
+import 'mocha';
+import { WorkspaceEdit } from 'vscode-languageserver';
+import { CobolRenameFactory } from '../../../lsp/rename/CobolRenameFactory';
+
+describe('Cobol rename across copies', () => {
+
+    const source = [
+        "       identification             division.",
+        "       program-id.                PROG.",
+        "       data                       division.",
+        "       working-storage            section.",
+        "       01  w-registro.",
+        "           copy CAMPOS.CPY replacing ==(prefixo)== by ==w==.",
+        "       procedure                  division.",
+        "      *>   move 1 to w-chave",
+        "           move 1 to w-chave of w-registro.",
+    ];
+    const expandedSource = [
+        "       identification             division.   *>: 0 1",
+        "       program-id.                PROG.   *>: 0 2",
+        "       data                       division.   *>: 0 3",
+        "       working-storage            section.   *>: 0 4",
+        "       01  w-registro.   *>: 0 5",
+        "           copy CAMPOS.CPY replacing ==(prefixo)== by ==w==.   *>: 0 6",
+        "      *> Campos do registro   *>: 1 1 CAMPOS.CPY (1)",
+        "           05 w-chave      pic is 9(05).   *>: 1 2 CAMPOS.CPY (1)",
+        "           05 w-nome       pic is x(30).   *>: 1 3 CAMPOS.CPY (1)",
+        "       procedure                  division.   *>: 0 7",
+        "      *>   move 1 to w-chave   *>: 0 8",
+        "           move 1 to w-chave of w-registro.   *>: 0 9",
+    ];
+    const files: { [name: string]: string[] } = {
+        "CAMPOS.CPY": [
+            "      *> Campos do registro",
+            "           05 (prefixo)-chave      pic is 9(05).",
+            "           05 (prefixo)-nome       pic is x(30).",
+        ],
+        "OUTRO.CBL": [
+            "       working-storage            section.",
+            "       01  x-registro.",
+            "           copy CAMPOS.CPY replacing ==(prefixo)== by ==x==.",
+            "       procedure                  division.",
+            "           display x-chave \"x-chave\".",
+        ],
+        "DUPLO.CBL": [
+            "       working-storage            section.",
+            "       01  x-registro.",
+            "           copy CAMPOS.CPY replacing ==(prefixo)== by ==x==.",
+            "       01  y-registro.",
+            "           05 x-chave             pic is 9(05).",
+            "       procedure                  division.",
+            "           display x-chave of x-registro.",
+        ],
+    };
+    const fileName = (file: string) => file.replace(/^.*[\\\/]/, "").toUpperCase();
+    const factory = (sources = ["PROG.CBL", "C:\\fontes\\OUTRO.CBL", "PERDIDO.CBL", "C:\\fontes\\SUMIDO.CBL"]) => new CobolRenameFactory(
+        "file:///C:/fontes/PROG.CBL",
+        source.join("\n"),
+        expandedSource.join("\n"),
+        (copy) => Promise.resolve(copy == "CAMPOS.CPY" ? sources : []),
+        (file) => files[fileName(file)] ? Promise.resolve(files[fileName(file)].join("\n")) : Promise.reject("File not found")
+    );
+    const changes = (edit: WorkspaceEdit) => {
+        const result: { [name: string]: any[] } = {};
+        Object.keys(edit.changes!).forEach((uri) => {
+            result[fileName(uri)] = edit.changes![uri].map((textEdit) => [textEdit.range.start.line, textEdit.range.start.character, textEdit.range.end.character, textEdit.newText]);
+        });
+        return result;
+    };
+
+    it('Renames the field in the copy and in the sources including it with their replacings, skipping the sources not found', async () => {
+        const edit = await factory().rename(8, 22, "w-codigo");
+        expect(changes(edit)).to.deep.equal({
+            "CAMPOS.CPY": [[1, 14, 29, "(prefixo)-codigo"]],
+            "OUTRO.CBL": [[4, 19, 26, "x-codigo"]],
+            "PROG.CBL": [[8, 21, 28, "w-codigo"]],
+        });
+    });
+
+    it('Refuses reserved words, conflicting names and names without the replaced prefix', async () => {
+        const rejection = (promise: Promise<any>) => promise.then(() => "renamed", (e) => `${e}`);
+        expect(await rejection(factory().prepareRename(8, 12))).to.equal("\"move\" is a Cobol reserved word and can't be renamed");
+        expect(await rejection(factory().prepareRename(8, 17))).to.equal("Only Cobol words can be renamed");
+        expect(await factory().prepareRename(8, 22)).to.deep.equal({ start: { line: 8, character: 21 }, end: { line: 8, character: 28 } });
+        expect(await rejection(factory().rename(8, 22, "w-nome"))).to.equal("\"w-nome\" is already used in PROG.CBL");
+        expect(await rejection(factory().rename(8, 22, "display"))).to.equal("\"display\" is a Cobol reserved word");
+        expect(await rejection(factory().rename(8, 22, "y-codigo"))).to.equal("\"y-codigo\" must keep the text replaced in \"(prefixo)-chave\" by the COPY statement");
+        expect(await rejection(factory(["C:\\fontes\\DUPLO.CBL"]).rename(8, 22, "w-codigo"))).to.equal("\"x-chave\" is declared more than once in DUPLO.CBL");
+    });
+
+});
@@ -0,0 +1,89 @@
+import { expect } from 'chai';
+import 'mocha';
+import { ProposedFeatures } from 'vscode-languageserver';
+import { CobolSemanticTokensFactory } from '../../../lsp/semantic/CobolSemanticTokensFactory';
+
+describe('Cobol semantic tokens', () => {
+
+    const buffer = [
+        "       class-id. Cliente.",
+        "       working-storage            section.",
+        "       01  w-codigo               pic is 9(05).",
+        "       78  w78-maximo                          value is 10.",
+        "           copy w-campos.cpy.",
+        "       method-id. setCodigo.",
+        "       working-storage            section.",
+        "       01  w-aux                  pic is 9(05).",
+        "       linkage                    section.",
+        "      *>/**",
+        "      *> @param lnk-codigo",
+        "      *>*/",
+        "       01  lnk-codigo             pic is 9(05).",
+        "           88 lnk-codigo-valido                value is 1 thru w78-maximo.",
+        "       procedure division using lnk-codigo.",
+        "           move lnk-codigo to w-aux w-codigo",
+        "           perform valida-codigo",
+        "           invoke w-obj:>validate(w-aux)",
+        "           exit method.",
+        "       valida-codigo.",
+        "           exit.",
+        "       end method setCodigo.",
+        "       method-id. getCodigo.",
+        "       working-storage            section.",
+        "       01  w-other                pic is 9(05).",
+        "       procedure division.",
+        "           move w-other to w-codigo",
+        "       end method getCodigo.",
+        "       end class Cliente.",
+    ];
+
+    it('Checks the classification of the elements', () => {
+        const tokens = new CobolSemanticTokensFactory().generateTokens(buffer);
+        const classify = (line: number, column: number) => {
+            const token = tokens.find((current) => current.line == line && current.column == column);
+            return token ? token.type + (token.modifiers.length > 0 ? "." + token.modifiers.join(".") : "") : undefined;
+        };
+        expect(classify(0, 17)).to.equal("class.declaration");
+        expect(classify(2, 11)).to.equal("variable.declaration");
+        expect(classify(3, 11)).to.equal("variable.declaration.readonly");
+        expect(classify(4, 16)).to.equal("namespace");
+        expect(classify(7, 11)).to.equal("variable.declaration.local");
+        expect(classify(10, 9)).to.equal("keyword.documentation");
+        expect(classify(10, 16)).to.equal("parameter.documentation");
+        expect(classify(13, 14)).to.equal("enumMember.declaration");
+        expect(classify(13, 63)).to.equal("variable.readonly");
+        expect(classify(15, 16)).to.equal("variable.linkage");
+        expect(classify(15, 30)).to.equal("variable.local");
+        expect(classify(15, 36)).to.equal("variable");
+        expect(classify(16, 19)).to.equal("function");
+        expect(classify(17, 18)).to.equal(undefined);
+        expect(classify(17, 25)).to.equal("member");
+        expect(classify(19, 7)).to.equal("function.declaration");
+        expect(classify(24, 11)).to.equal("variable.declaration.local");
+        expect(classify(26, 16)).to.equal("variable.local");
+    });
+
+    it('Checks the variables declared in copies', () => {
+        const expanded = buffer.slice();
+        expanded[4] = "       01  w-campos               pic is x(10).";
+        const lines = buffer.slice();
+        lines[15] = "           move w-campos to w-aux";
+        expect(new CobolSemanticTokensFactory().generateTokens(lines).some((token) => token.line == 15 && token.column == 16)).to.equal(false);
+        const tokens = new CobolSemanticTokensFactory().generateTokens(lines, expanded);
+        expect(tokens.find((token) => token.line == 15 && token.column == 16)!.type).to.equal("variable");
+    });
+
+    it('Checks the encoding with the legend', () => {
+        const builder = new ProposedFeatures.SemanticTokensBuilder();
+        CobolSemanticTokensFactory.push([
+            { line: 2, column: 11, length: 8, type: "variable", modifiers: ["declaration"] },
+            { line: 2, column: 30, length: 4, type: "enumMember", modifiers: ["readonly", "local"] },
+        ], builder);
+        const legend = CobolSemanticTokensFactory.legend();
+        expect(builder.build().data).to.deep.equal([
+            2, 11, 8, legend.tokenTypes.indexOf("variable"), 1,
+            0, 19, 4, legend.tokenTypes.indexOf("enumMember"), (1 << 1) | (1 << 3),
+        ]);
+    });
+
+});
@@ -0,0 +1,57 @@
+import { expect } from 'chai';
+import 'mocha';
+import { CobolSignatureHelpFactory } from '../../../lsp/signature/CobolSignatureHelpFactory';
+
+describe('Cobol signature help', () => {
+
+    const buffer = [
+        "       class-id. Cliente.",
+        "      *>/**",
+        "      *> Valida o cliente",
+        "      *> @param lnk-codigo codigo do cliente",
+        "      *>*/",
+        "       method-id. valida.",
+        "       linkage                    section.",
+        "       01  lnk-codigo             pic is 9(05).",
+        "      *>-> Nome do cliente",
+        "       01  lnk-nome               pic is x(30).",
+        "       01  lnk-valido             pic is 9(01).",
+        "       procedure division using lnk-codigo lnk-nome",
+        "                      returning lnk-valido.",
+        "           exit method.",
+        "       end method valida.",
+        "       method-id. processa.",
+        "       procedure division.",
+        "           invoke self:>valida(w-codigo, ",
+        "           move w-tabela(w-indice) to w-aux",
+        "           exit method.",
+        "       end method processa.",
+        "       end class Cliente.",
+    ];
+
+    it('Checks the signature of the method invoked', () => {
+        const factory = new CobolSignatureHelpFactory("file:///F:/Fontes/CLIENTE.CBL", buffer);
+        return factory.generateSignatureHelp(17, 41).then((signatureHelp) => {
+            const signature = signatureHelp!.signatures[0];
+            expect(signature.label).to.equal("valida(lnk-codigo, lnk-nome)");
+            expect(signature.documentation).to.equal("Valida o cliente");
+            expect(signature.parameters!.map((parameter) => parameter.label)).to.deep.equal([[7, 17], [19, 27]]);
+            expect(signature.parameters!.map((parameter) => (parameter.documentation as any).value)).to.deep.equal([
+                "**Picture:** `9(05)`\n\ncodigo do cliente",
+                "**Picture:** `x(30)`\n\nNome do cliente",
+            ]);
+            expect(signatureHelp!.activeParameter).to.equal(1);
+            return factory.generateSignatureHelp(17, 31);
+        }).then((signatureHelp) => {
+            expect(signatureHelp!.activeParameter).to.equal(0);
+        });
+    });
+
+    it('Checks the positions without invocations', () => {
+        const factory = new CobolSignatureHelpFactory("file:///F:/Fontes/CLIENTE.CBL", buffer);
+        return factory.generateSignatureHelp(18, 32).then((signatureHelp) => {
+            expect(signatureHelp).to.equal(undefined);
+        });
+    });
+
+});
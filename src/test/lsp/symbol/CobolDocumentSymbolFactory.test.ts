@@ -0,0 +1,77 @@
+import { expect } from 'chai';
+import 'mocha';
+import { SymbolKind } from 'vscode-languageserver';
+import { CobolDocumentSymbolFactory } from '../../../lsp/symbol/CobolDocumentSymbolFactory';
+
+describe('Cobol document symbols', () => {
+
+    it('Checks the outline of a program', () => {
+        const buffer = [
+            "       identification             division.",
+            "       program-id.                PROGRAMA.",
+            "       environment                division.",
+            "       input-output               section.",
+            "       file-control.",
+            "           select arqcli assign to disk.",
+            "       data                       division.",
+            "       file                       section.",
+            "       fd  arqcli.",
+            "       01  reg-arqcli.",
+            "           05 cli-codigo          pic is 9(05).",
+            "       working-storage            section.",
+            "      *>-> Tipo do documento",
+            "       01  w-tipo                 pic is 9(02) value is zeros.",
+            "           88 w-tipo-nota                      value is 1.",
+            "       78  w78-nomprg                          value is \"PROGRAMA\".",
+            "       procedure                  division.",
+            "       inicio                     section.",
+            "       inicio-programa.",
+            "           move 10 to w-tipo",
+            "           perform calcula-total",
+            "           .",
+            "       calcula-total.",
+            "           exit.",
+        ];
+        const symbols = new CobolDocumentSymbolFactory().generateSymbols(buffer);
+        expect(symbols.map((symbol) => symbol.name)).to.deep.equal(["identification division", "environment division", "data division", "procedure division"]);
+        expect(symbols[0].children![0].name).to.equal("PROGRAMA");
+        const select = symbols[1].children![0].children![0].children![0];
+        expect(select.name).to.equal("arqcli");
+        expect(select.detail).to.equal("select");
+        const fileSection = symbols[2].children![0];
+        expect(fileSection.children![0].kind).to.equal(SymbolKind.File);
+        expect(fileSection.children![0].children![0].name).to.equal("reg-arqcli");
+        expect(fileSection.children![0].children![0].children![0].detail).to.equal("9(05)");
+        const workingStorage = symbols[2].children![1];
+        expect(workingStorage.children!.map((symbol) => symbol.name)).to.deep.equal(["w-tipo", "w78-nomprg"]);
+        expect(workingStorage.children![0].children![0].kind).to.equal(SymbolKind.EnumMember);
+        expect(workingStorage.children![1].kind).to.equal(SymbolKind.Constant);
+        const section = symbols[3].children![0];
+        expect(section.children!.map((symbol) => symbol.name)).to.deep.equal(["inicio-programa", "calcula-total"]);
+        expect(section.children![0].range.end.line).to.equal(21);
+        expect(section.range.end.line).to.equal(23);
+    });
+
+    it('Checks the outline of a class', () => {
+        const buffer = [
+            "       class-id. Cliente.",
+            "       object.",
+            "       method-id. getCodigo.",
+            "       procedure division.",
+            "           exit method.",
+            "       end method getCodigo.",
+            "       method-id. setCodigo.",
+            "       procedure division.",
+            "           exit method.",
+            "       end method setCodigo.",
+            "       end object.",
+            "       end class Cliente.",
+        ];
+        const symbols = new CobolDocumentSymbolFactory().generateSymbols(buffer);
+        expect(symbols.length).to.equal(1);
+        expect(symbols[0].kind).to.equal(SymbolKind.Class);
+        expect(symbols[0].children!.map((symbol) => symbol.name)).to.deep.equal(["getCodigo", "setCodigo"]);
+        expect(symbols[0].children![0].range.end.line).to.equal(5);
+    });
+
+});
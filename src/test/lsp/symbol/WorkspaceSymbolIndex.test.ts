@@ -0,0 +1,84 @@
+import { expect } from 'chai';
+import 'mocha';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SymbolKind } from 'vscode-languageserver';
+import { WorkspaceSymbolIndex } from '../../../lsp/symbol/WorkspaceSymbolIndex';
+
+describe('Workspace symbol index', () => {
+
+    it('Checks the symbols kept in the index', () => {
+        const buffer = [
+            "       environment                division.",
+            "       configuration              section.",
+            "       special-names.",
+            "           decimal-point is comma.",
+            "       data                       division.",
+            "       working-storage            section.",
+            "       01  w-documento.",
+            "           05 w-tipo              pic is 9(02).",
+            "              88 w-tipo-nota                   value is 1.",
+            "       procedure                  division.",
+            "       inicio-programa.",
+            "           perform calcula-total",
+            "           .",
+            "       calcula-total.",
+            "           exit.",
+        ];
+        const symbols = WorkspaceSymbolIndex.extractSymbols(buffer);
+        expect(symbols.map((symbol) => symbol.name)).to.deep.equal(["w-documento", "inicio-programa", "calcula-total"]);
+        expect(symbols[0].kind).to.equal(SymbolKind.Struct);
+        expect(symbols[0].container).to.equal("working-storage section");
+        expect(symbols[2].kind).to.equal(SymbolKind.Function);
+        expect(symbols[2].line).to.equal(13);
+        expect(symbols[2].column).to.equal(7);
+    });
+
+    it('Checks the records declared in copybooks', () => {
+        const buffer = [
+            "      *>-> Registro de clientes",
+            "       01  reg-cliente.",
+            "           05 cli-codigo          pic is 9(05).",
+        ];
+        const symbols = WorkspaceSymbolIndex.extractSymbols(buffer);
+        expect(symbols.map((symbol) => symbol.name)).to.deep.equal(["reg-cliente"]);
+        expect(symbols[0].container).to.equal(undefined);
+    });
+
+    it('Checks the query matching', () => {
+        expect(WorkspaceSymbolIndex.matches("calc", "calcula-total")).to.equal(true);
+        expect(WorkspaceSymbolIndex.matches("CLTOT", "calcula-total")).to.equal(true);
+        expect(WorkspaceSymbolIndex.matches("", "calcula-total")).to.equal(true);
+        expect(WorkspaceSymbolIndex.matches("totc", "calcula-total")).to.equal(false);
+    });
+
+    it('Checks the workspace folders added and removed and the deleted files', async () => {
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), "workspace-symbol-index-test"));
+        const first = path.join(directory, "PRIMEIRO");
+        const second = path.join(directory, "SEGUNDO");
+        fs.mkdirSync(first);
+        fs.mkdirSync(second);
+        fs.writeFileSync(path.join(first, "CLIENTE.CPY"), "       01  reg-cliente.\n");
+        fs.writeFileSync(path.join(first, "PRODUTO.CPY"), "       01  reg-produto.\n");
+        fs.writeFileSync(path.join(second, "PEDIDO.CPY"), "       01  reg-pedido.\n");
+        const names = async () => (await WorkspaceSymbolIndex.findSymbols("reg")).map((symbol) => symbol.name).sort();
+        try {
+            WorkspaceSymbolIndex.setWorkspaceFolders([first]);
+            expect(await names()).to.deep.equal(["reg-cliente", "reg-produto"]);
+            fs.unlinkSync(path.join(first, "PRODUTO.CPY"));
+            WorkspaceSymbolIndex.removeFile(path.join(first, "PRODUTO.CPY"));
+            expect(await names()).to.deep.equal(["reg-cliente"]);
+            await WorkspaceSymbolIndex.changeWorkspaceFolders([second], [first]);
+            expect(await names()).to.deep.equal(["reg-pedido"]);
+        } finally {
+            WorkspaceSymbolIndex.setWorkspaceFolders([]);
+            fs.unlinkSync(path.join(first, "CLIENTE.CPY"));
+            fs.unlinkSync(path.join(second, "PEDIDO.CPY"));
+            fs.rmdirSync(first);
+            fs.rmdirSync(second);
+            fs.rmdirSync(directory);
+        }
+    });
+
+});
@@ -0,0 +1,104 @@
+import { expect } from 'chai';
+import 'mocha';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RecordLayout } from '../../recordlayout/RecordLayout';
+import { RecordDecoder, DecodedField } from '../../recordlayout/RecordDecoder';
+import { RecordEncoding } from '../../recordlayout/RecordEncoding';
+import { DataFile } from '../../recordlayout/DataFile';
+
+/**
+ * Returns the names and values of the elementary fields
+ *
+ * @param fields
+ */
+function values(fields: DecodedField[]): string[] {
+    const result: string[] = [];
+    fields.forEach((field) => {
+        if (field.value !== undefined) {
+            result.push(`${field.name}=${field.value}`);
+        }
+        result.push(...values(field.children));
+    });
+    return result;
+}
+
+describe('Record decoder', () => {
+
+    const lines = [
+        "       01  w-registro.",
+        "           05 w-nome              pic is x(05).",
+        "           05 w-saldo             pic is s9(05)v99 comp-3.",
+        "           05 w-quantidade        pic is s9(04) comp.",
+        "           05 w-contador          pic is 9(04) comp-5.",
+        "           05 w-valor             pic is s9(03)v9.",
+        "           05 w-sinal             pic is s9(02) sign leading separate.",
+        "           05 w-itens             occurs 2 times.",
+        "              10 w-item           pic is 9(02).",
+    ];
+    const layout = RecordLayout.parseLines(0, lines)[0];
+
+    it('Checks the fields decoded from a windows-1252 record', () => {
+        const record = Buffer.concat([
+            Buffer.from("Joã€ ", "latin1"),
+            Buffer.from([0x12, 0x34, 0x56, 0x7D]),
+            Buffer.from([0xFF, 0xFE]),
+            Buffer.from([0x39, 0x30]),
+            Buffer.from([0x31, 0x32, 0x33, 0x74]),
+            Buffer.from("-07", "latin1"),
+            Buffer.from("0199", "latin1"),
+        ]);
+        record[3] = 0x80;
+        expect(values(new RecordDecoder(layout, "windows-1252").decode(record))).to.deep.equal([
+            'w-nome="Joã€ "',
+            "w-saldo=-12345.67",
+            "w-quantidade=-2",
+            "w-contador=12345",
+            "w-valor=-123.4",
+            "w-sinal=-7",
+            "w-item(1)=1",
+            "w-item(2)=99",
+        ]);
+    });
+
+    it('Checks the fields decoded from an EBCDIC record', () => {
+        const record = Buffer.from([
+            0xC1, 0x81, 0x4A, 0x5A, 0x40,
+            0x00, 0x00, 0x10, 0x0C,
+            0x00, 0x0A,
+            0x00, 0x01,
+            0xF1, 0xF2, 0xF3, 0xC4,
+            0x4E, 0xF0, 0xF7,
+            0xF0, 0xF1, 0xC1, 0xF2,
+        ]);
+        expect(values(new RecordDecoder(layout, "ebcdic-037").decode(record))).to.deep.equal([
+            'w-nome="Aa¢! "',
+            "w-saldo=1.00",
+            "w-quantidade=10",
+            "w-contador=1",
+            "w-valor=123.4",
+            "w-sinal=7",
+            "w-item(1)=1",
+            "w-item(2)=invalid (C1F2)",
+        ]);
+        expect(RecordEncoding.decode(Buffer.from([0x4A, 0x5A]), "ebcdic-500")).to.equal("[]");
+    });
+
+    it('Checks the records read from the data file', () => {
+        const fileName = path.join(os.tmpdir(), "record-decoder-test.dat");
+        fs.writeFileSync(fileName, "AAAABBBBCC");
+        const dataFile = new DataFile(fileName, 4);
+        return dataFile.getRecordCount().then((count) => {
+            expect(count).to.equal(3);
+            return dataFile.readRecord(1);
+        }).then((record) => {
+            expect(record.toString()).to.equal("BBBB");
+            return dataFile.readRecord(2);
+        }).then((record) => {
+            expect(record.toString()).to.equal("CC");
+            fs.unlinkSync(fileName);
+        });
+    });
+
+});
@@ -0,0 +1,73 @@
+import { expect } from 'chai';
+import 'mocha';
+import { RecordLayout, RecordLayoutEntry } from '../../recordlayout/RecordLayout';
+
+/**
+ * Returns the name, offset and length of the entry and its children
+ *
+ * @param entry
+ */
+function describeEntry(entry: RecordLayoutEntry): any[] {
+    return ([entry.variable.getName(), entry.offset, entry.length] as any[]).concat(entry.children.map((child) => describeEntry(child)));
+}
+
+describe('Record layout', () => {
+
+    it('Checks the offsets of the record with redefines, occurs and filler', () => {
+        const lines = [
+            "       01  w-registro.",
+            "           05 w-codigo            pic is 9(05).",
+            "           05 w-valor             pic is 9(02) comp-x.",
+            "           05 w-data              pic is 9(08).",
+            "           05 w-data-r            redefines w-data.",
+            "              10 w-ano            pic is 9(04).",
+            "              10 w-mes            pic is 9(02).",
+            "                 88 w-janeiro     value 1.",
+            "              10 w-dia            pic is 9(02).",
+            "           05 w-itens             occurs 3 times.",
+            "              10 w-item           pic is x(02).",
+            "           05 filler              pic is x(04).",
+        ];
+        const layouts = RecordLayout.parseLines(0, lines);
+        expect(layouts.length).to.equal(1);
+        expect(describeEntry(layouts[0])).to.deep.equal([
+            "w-registro", 0, 24,
+            ["w-codigo", 0, 5],
+            ["w-valor", 5, 1],
+            ["w-data", 6, 8],
+            ["w-data-r", 6, 8, ["w-ano", 6, 4], ["w-mes", 10, 2], ["w-dia", 12, 2]],
+            ["w-itens", 14, 6, ["w-item", 14, 2]],
+            ["filler", 20, 4],
+        ]);
+        const children = layouts[0].children;
+        expect(children[1].usage).to.equal("COMP-X");
+        expect(children[0].usage).to.equal("DISPLAY");
+        expect(children[3].redefines).to.equal("w-data");
+        expect(children[4].occurs).to.equal(3);
+        expect(children[5].filler).to.equal(true);
+    });
+
+    it('Checks the records of a file description sharing the same area', () => {
+        const lines = [
+            "       fd  arquivo.",
+            "       01  reg-cabecalho.",
+            "           05 cab-tipo            pic is x(01).",
+            "           05 cab-data            pic is 9(08).",
+            "      *>01 comentado               pic is x(10).",
+            "       01  reg-detalhe.",
+            "           05 det-tipo            pic is x(01).",
+            "           05 det-valor           pic is 9(05).",
+            "       working-storage            section.",
+            "       01  w-outro                pic is x(10).",
+        ];
+        const layouts = RecordLayout.parseLines(0, lines);
+        expect(layouts.map((layout) => describeEntry(layout))).to.deep.equal([
+            ["reg-cabecalho", 0, 9, ["cab-tipo", 0, 1], ["cab-data", 1, 8]],
+            ["reg-detalhe", 0, 6, ["det-tipo", 0, 1], ["det-valor", 1, 5]],
+        ]);
+        expect(layouts[1].redefines).to.equal("reg-cabecalho");
+        expect(RecordLayout.recordLength(layouts)).to.equal(9);
+        expect(RecordLayout.recordLength([layouts[1]])).to.equal(6);
+    });
+
+});
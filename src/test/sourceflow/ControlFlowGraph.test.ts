@@ -0,0 +1,91 @@
+import { expect } from 'chai';
+import 'mocha';
+import { ControlFlowGraph } from '../../sourceflow/parser/ControlFlowGraph';
+import { FlowParser } from '../../sourceflow/parser/FlowParser';
+
+describe('Forward control-flow graph', () => {
+
+    const buffer = [
+        "       procedure                  division.",
+        "       inicio section.",
+        "       inicial.",
+        "           perform processa thru processa-fim.",
+        "           if w-erro",
+        "              go to fim",
+        "           end-if.",
+        "           read arquivo at end",
+        "              go to fim",
+        "           end-read.",
+        "           go to termina.",
+        "           display \"nao executado\".",
+        "       processa.",
+        "           go to processa-1 processa-2 depending on w-opcao.",
+        "       processa-1.",
+        "           perform until w-fim",
+        "              exit perform",
+        "           end-perform.",
+        "       processa-2.",
+        "           exit paragraph.",
+        "       processa-fim.",
+        "           exit.",
+        "       termina section.",
+        "       fim.",
+        "           stop run.",
+        "       nunca-chamado.",
+        "           exit.",
+    ];
+
+    it('Checks the transfers of control of each paragraph', () => {
+        const graph = new ControlFlowGraph(buffer);
+        const edges = (name: string) => graph.getCallees(name).map((edge) => [edge.kind, edge.to, edge.thru, edge.line, edge.conditional]);
+        expect(graph.getParagraphs().map((paragraph) => [paragraph.name, paragraph.line, paragraph.endLine, paragraph.section, paragraph.exitLine])).to.deep.equal([
+            ["inicio", 1, 1, true, undefined],
+            ["inicial", 2, 11, false, 10],
+            ["processa", 12, 13, false, undefined],
+            ["processa-1", 14, 17, false, undefined],
+            ["processa-2", 18, 19, false, undefined],
+            ["processa-fim", 20, 21, false, undefined],
+            ["termina", 22, 22, true, undefined],
+            ["fim", 23, 24, false, 24],
+            ["nunca-chamado", 25, 26, false, undefined],
+        ]);
+        expect(edges("inicio")).to.deep.equal([["fallthrough", "inicial", undefined, 1, false]]);
+        expect(edges("inicial")).to.deep.equal([
+            ["perform", "processa", "processa-fim", 3, false],
+            ["goto", "fim", undefined, 5, true],
+            ["goto", "fim", undefined, 8, true],
+            ["goto", "termina", undefined, 10, false],
+        ]);
+        expect(edges("processa")).to.deep.equal([
+            ["goto", "processa-1", undefined, 13, true],
+            ["goto", "processa-2", undefined, 13, true],
+            ["fallthrough", "processa-1", undefined, 13, false],
+        ]);
+        expect(edges("processa-2")).to.deep.equal([["fallthrough", "processa-fim", undefined, 19, false]]);
+        expect(edges("fim")).to.deep.equal([]);
+    });
+
+    it('Checks the THRU ranges, the sections and the callers', () => {
+        const graph = new ControlFlowGraph(buffer);
+        expect(graph.expandRange("processa", "processa-fim").map((paragraph) => paragraph.name)).to.deep.equal(["processa", "processa-1", "processa-2", "processa-fim"]);
+        expect(graph.expandRange("inicio").map((paragraph) => paragraph.name)).to.deep.equal(["inicio", "inicial", "processa", "processa-1", "processa-2", "processa-fim"]);
+        expect(graph.getCallers("processa-2").map((edge) => [edge.from, edge.kind])).to.deep.equal([
+            ["inicial", "perform"],
+            ["processa", "goto"],
+            ["processa-1", "fallthrough"],
+        ]);
+        expect(graph.getCallers("nunca-chamado").map((edge) => [edge.from, edge.kind])).to.deep.equal([]);
+        expect(graph.findParagraphAt(16)!.name).to.equal("processa-1");
+        expect(Array.from(graph.getReachable()).map((paragraph) => paragraph.name).sort()).to.deep.equal(["fim", "inicial", "inicio", "processa", "processa-1", "processa-2", "processa-fim", "termina"]);
+        expect(Array.from(graph.getReachable("processa-2")).map((paragraph) => paragraph.name)).to.deep.equal(["processa-2", "processa-fim", "termina", "fim"]);
+    });
+
+    it('Checks the flow of the callees', async () => {
+        const map = await new FlowParser().callees(2, buffer);
+        expect(map.get(2)!.map((flowLine) => flowLine.lineNumber)).to.deep.equal([3, 5, 8, 10]);
+        expect(map.get(3)!.map((flowLine) => flowLine.lineNumber)).to.deep.equal([12, 14, 18, 20]);
+        expect(map.get(12)!.map((flowLine) => flowLine.lineNumber)).to.deep.equal([13, 14]);
+        expect(map.get(13)!.map((flowLine) => flowLine.lineNumber)).to.deep.equal([14, 18]);
+    });
+
+});
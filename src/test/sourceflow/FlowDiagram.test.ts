@@ -0,0 +1,82 @@
+import { expect } from 'chai';
+import 'mocha';
+import { ControlFlowGraph } from '../../sourceflow/parser/ControlFlowGraph';
+import { FlowDiagram } from '../../sourceflow/FlowDiagram';
+
+describe('Program flow diagrams', () => {
+
+    const buffer = [
+        "       procedure                  division.",
+        "       inicial.",
+        "           perform processa thru processa-fim.",
+        "           call \"PROGRAMA\".",
+        "           stop run.",
+        "       processa.",
+        "           if w-erro",
+        "              go to processa-fim",
+        "           end-if.",
+        "       processa-1.",
+        "           perform calcula.",
+        "       processa-fim.",
+        "           exit.",
+        "       calcula.",
+        "           exit.",
+        "       nunca-chamado.",
+        "           exit.",
+    ];
+
+    it('Checks the Graphviz DOT diagram with the unreachable paragraphs', () => {
+        const diagram = new FlowDiagram(new ControlFlowGraph(buffer), { collapseThru: false, markUnreachable: true });
+        expect(diagram.toDot("PROGRAMA")).to.equal([
+            'digraph "PROGRAMA" {',
+            '  node [shape=box];',
+            '  "inicial" [label="inicial"];',
+            '  "processa" [label="processa"];',
+            '  "call programa" [label="PROGRAMA", shape=component];',
+            '  "processa-fim" [label="processa-fim"];',
+            '  "processa-1" [label="processa-1"];',
+            '  "calcula" [label="calcula"];',
+            '  "nunca-chamado" [label="nunca-chamado", style=dashed, color=gray];',
+            '  "inicial" -> "processa";',
+            '  "inicial" -> "call programa" [label="call"];',
+            '  "processa" -> "processa-fim" [style=bold, label="go to"];',
+            '  "processa" -> "processa-1" [style=dotted];',
+            '  "processa-1" -> "calcula";',
+            '  "processa-1" -> "processa-fim" [style=dotted];',
+            '  "processa-fim" -> "calcula" [style=dotted];',
+            '  "calcula" -> "nunca-chamado" [style=dotted];',
+            '}',
+            '',
+        ].join("\n"));
+    });
+
+    it('Checks the Mermaid diagram with the THRU ranges collapsed and the depth limited', () => {
+        const graph = new ControlFlowGraph(buffer);
+        expect(new FlowDiagram(graph, { collapseThru: true, markUnreachable: false, entry: "inicial", maxDepth: 1 }).toMermaid()).to.equal([
+            'flowchart TD',
+            '    n0["inicial"]',
+            '    n1["processa THRU processa-fim"]',
+            '    n2[["PROGRAMA"]]',
+            '    n0 --> n1',
+            '    n0 -->|call| n2',
+            '',
+        ].join("\n"));
+        expect(new FlowDiagram(graph, { collapseThru: true, markUnreachable: true, entry: "inicial" }).toMermaid()).to.equal([
+            'flowchart TD',
+            '    n0["inicial"]',
+            '    n1["processa THRU processa-fim"]',
+            '    n2[["PROGRAMA"]]',
+            '    n3["calcula"]',
+            '    n4["nunca-chamado"]',
+            '    n0 --> n1',
+            '    n0 -->|call| n2',
+            '    n1 --> n3',
+            '    n1 -.-> n3',
+            '    n3 -.-> n4',
+            '    classDef unreachable stroke-dasharray: 5 5,color:gray;',
+            '    class n4 unreachable;',
+            '',
+        ].join("\n"));
+    });
+
+});